@@ -0,0 +1,104 @@
+// app/api/cron/gbp-sync/route.ts
+//
+// Scheduled GBP review sync for every org with an active Google connection
+// (lib/gbpSync.ts). Meant for a cron scheduler, not the browser: every call
+// must carry the shared secret, either as `x-cron-secret: $CRON_SECRET` or
+// `Authorization: Bearer $CRON_SECRET` (what Vercel Cron sends).
+//
+// GET  ?org_id=&max_orgs=&force=1&full=1&stub=1
+// POST { org_id?, max_orgs?, force?, full?, stub? }
+//   org_id   — sync one org only
+//   max_orgs — orgs attempted this run (default 25); the rest are deferred
+//   force    — ignore per-org backoff
+//   full     — full resync: ignore the per-location updateTime watermarks
+//   stub     — dev only: use the stubbed Google API (/api/dev/gbp-stub)
+//
+//   curl -s http://localhost:3000/api/cron/gbp-sync?stub=1 -H "x-cron-secret: $CRON_SECRET" | jq
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { runScheduledGbpSync } from "@/lib/gbpSync";
+
+const DEFAULT_MAX_ORGS = 25;
+
+// Stop starting new orgs after this; leaves headroom under maxDuration
+const RUN_DEADLINE_MS = 240 * 1000;
+
+function secretMatches(provided: string, expected: string) {
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function authorize(req: Request): NextResponse | null {
+  const expected = (process.env.CRON_SECRET ?? "").trim();
+  if (!expected) {
+    return NextResponse.json({ ok: false, error: "CRON_SECRET is not configured." }, { status: 500 });
+  }
+
+  const header = (req.headers.get("x-cron-secret") ?? "").trim();
+  const bearer = (req.headers.get("authorization") ?? "").replace(/^Bearer\s+/i, "").trim();
+  const provided = header || bearer;
+
+  if (!provided || !secretMatches(provided, expected)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+function parseMaxOrgs(v: unknown) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_MAX_ORGS;
+  return Math.min(Math.round(n), 200);
+}
+
+function parseFlag(v: unknown) {
+  return v === true || v === "1" || v === "true";
+}
+
+async function run(req: Request, input: Record<string, unknown>) {
+  const denied = authorize(req);
+  if (denied) return denied;
+
+  const stub = parseFlag(input.stub);
+  if (stub && process.env.NODE_ENV === "production") {
+    return NextResponse.json({ ok: false, error: "The stubbed Google API is dev only." }, { status: 400 });
+  }
+
+  try {
+    const orgId = typeof input.org_id === "string" ? input.org_id.trim().slice(0, 80) : "";
+    const origin = new URL(req.url).origin;
+    const fullResync = parseFlag(input.full);
+
+    const summary = await runScheduledGbpSync({
+      options: {
+        pageSize: 50,
+        maxPages: fullResync ? 50 : 10,
+        fullResync,
+        apiBase: stub ? `${origin}/api/dev/gbp-stub/v4` : undefined,
+      },
+      maxOrgs: parseMaxOrgs(input.max_orgs),
+      deadlineMs: RUN_DEADLINE_MS,
+      force: parseFlag(input.force),
+      organizationId: orgId || null,
+      getAccessToken: stub ? async () => ({ ok: true as const, accessToken: "stub-access-token" }) : undefined,
+    });
+
+    return NextResponse.json({ ok: true, stub, ...summary });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Scheduled sync failed";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  return run(req, Object.fromEntries(url.searchParams.entries()));
+}
+
+export async function POST(req: Request) {
+  const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  return run(req, body);
+}
@@ -0,0 +1,113 @@
+// app/api/dev/draft-eval/route.ts
+//
+// Dev-only runner for the offline draft evaluation (lib/draftEval.ts).
+//
+// GET runs the checked-in corpus (docs/eval/draft-eval-corpus.jsonl) with the
+// stub provider. POST accepts options and an optional corpus / baseline:
+//
+//   # scorecard for the current PROMPT_VERSION against the real model
+//   curl -s -X POST http://localhost:3000/api/dev/draft-eval \
+//     -H 'Content-Type: application/json' -d '{"provider":"anthropic"}' \
+//     | jq .scorecard > scorecard-v10.json
+//
+//   # after a prompt change: same run, diffed against the saved scorecard
+//   curl -s -X POST http://localhost:3000/api/dev/draft-eval \
+//     -H 'Content-Type: application/json' \
+//     -d "{\"provider\":\"anthropic\",\"baseline\":$(cat scorecard-v10.json)}" | jq .diff
+//
+// Body fields: provider, prompt_version, owner_language, limit, corpus (JSONL
+// string), baseline (a previous scorecard), baseline_version (diff against
+// docs/eval/scorecards/{version}.{provider}.json), include_results (default true).
+// Without a server: `npm run eval:drafts` (scripts/draft-eval.ts).
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { readFile } from "fs/promises";
+import path from "path";
+import {
+  EvalConfigError,
+  diffScorecards,
+  isEvalScorecard,
+  loadStoredScorecard,
+  parseEvalCorpus,
+  runDraftEval,
+} from "@/lib/draftEval";
+import type { LlmProviderId } from "@/lib/llmProvider";
+
+const DEFAULT_CORPUS_PATH = path.join(process.cwd(), "docs", "eval", "draft-eval-corpus.jsonl");
+
+function parseProvider(v: unknown): LlmProviderId {
+  const s = String(v ?? "").toLowerCase().trim();
+  if (s === "anthropic" || s === "openai") return s;
+  return "stub";
+}
+
+async function run(body: Record<string, unknown>) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+  }
+
+  let corpusText = typeof body.corpus === "string" ? body.corpus : "";
+  if (!corpusText) {
+    try {
+      corpusText = await readFile(DEFAULT_CORPUS_PATH, "utf8");
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: `Could not read ${path.relative(process.cwd(), DEFAULT_CORPUS_PATH)}` },
+        { status: 500 }
+      );
+    }
+  }
+
+  const { cases, errors: corpusErrors } = parseEvalCorpus(corpusText);
+  if (cases.length === 0) {
+    return NextResponse.json({ ok: false, error: "Corpus has no valid cases", corpusErrors }, { status: 400 });
+  }
+
+  const provider = parseProvider(body.provider);
+  const baselineVersion = typeof body.baseline_version === "string" ? body.baseline_version.trim() : "";
+  const baseline = isEvalScorecard(body.baseline)
+    ? body.baseline
+    : baselineVersion
+      ? await loadStoredScorecard(baselineVersion, provider)
+      : null;
+  if (baselineVersion && !baseline) {
+    return NextResponse.json(
+      { ok: false, error: `No stored ${provider} scorecard for prompt version "${baselineVersion}".` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { scorecard, results } = await runDraftEval(cases, {
+      provider,
+      prompt_version: typeof body.prompt_version === "string" ? body.prompt_version : undefined,
+      owner_language: typeof body.owner_language === "string" ? body.owner_language : null,
+      limit: Number(body.limit) || undefined,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      corpusErrors,
+      scorecard,
+      ...(baseline ? { diff: diffScorecards(baseline, scorecard) } : {}),
+      ...(body.include_results === false ? {} : { results }),
+    });
+  } catch (e: unknown) {
+    if (e instanceof EvalConfigError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
+    const message = e instanceof Error ? e.message : "Evaluation failed";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return run({});
+}
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  return run(body && typeof body === "object" ? (body as Record<string, unknown>) : {});
+}
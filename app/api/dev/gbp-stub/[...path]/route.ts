@@ -0,0 +1,101 @@
+// app/api/dev/gbp-stub/[...path]/route.ts
+//
+// Dev-only stand-in for the GBP v4 reviews API, so the scheduled sync
+// (/api/cron/gbp-sync?stub=1) runs locally without Google access.
+//
+// GET /api/dev/gbp-stub/v4/accounts/{a}/locations/{l}/reviews?pageSize=&pageToken=
+//   — a fixed set of reviews per location (same ids every call), paged; every
+//     third one carries an owner `reviewReply`.
+// Location ids exercise the error paths:
+//   …missing… → 404, …pending… → 429 quota 0, …denied… → 403, …broken… → 500
+export const runtime = "nodejs";
+
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+const REVIEWS_PER_LOCATION = 12;
+
+const SAMPLE_COMMENTS: Array<{ text: string; language: string; stars: string }> = [
+  { text: "Great food and very friendly staff. We will definitely be back!", language: "en", stars: "FIVE" },
+  { text: "La comida estuvo muy rica pero el servicio fue lento.", language: "es", stars: "THREE" },
+  { text: "Atendimento excelente, comida muito boa e ambiente agradável.", language: "pt", stars: "FIVE" },
+  { text: "Waited 40 minutes for a table even with a reservation.", language: "en", stars: "TWO" },
+  { text: "Très bon accueil, les plats étaient délicieux.", language: "fr", stars: "FOUR" },
+  { text: "Nice place for brunch, coffee could be better.", language: "en", stars: "FOUR" },
+];
+
+function stubReviews(locationName: string) {
+  const seed = crypto.createHash("sha256").update(locationName).digest("hex").slice(0, 8);
+  // Newest first, one review a day back from a fixed date
+  const base = Date.parse("2026-01-15T12:00:00Z");
+
+  return Array.from({ length: REVIEWS_PER_LOCATION }, (_, i) => {
+    const sample = SAMPLE_COMMENTS[i % SAMPLE_COMMENTS.length];
+    const reviewId = `stub-${seed}-${i + 1}`;
+    const time = new Date(base - i * 24 * 60 * 60 * 1000).toISOString();
+
+    return {
+      name: `${locationName}/reviews/${reviewId}`,
+      reviewId,
+      reviewer: { displayName: `Stub Guest ${i + 1}` },
+      starRating: sample.stars,
+      comment: sample.text,
+      languageCode: sample.language,
+      createTime: time,
+      updateTime: time,
+      ...(i % 3 === 2
+        ? {
+            reviewReply: {
+              comment: "Thank you for taking the time to share this — we hope to welcome you back soon.",
+              updateTime: new Date(Date.parse(time) + 2 * 60 * 60 * 1000).toISOString(),
+            },
+          }
+        : {}),
+    };
+  });
+}
+
+function googleError(status: number, message: string, extra?: Record<string, unknown>) {
+  return NextResponse.json({ error: { code: status, message, status: "STUB", ...extra } }, { status });
+}
+
+export async function GET(req: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+  }
+
+  if (!/^Bearer\s+\S+/i.test(req.headers.get("authorization") ?? "")) {
+    return googleError(401, "Request is missing required authentication credential.");
+  }
+
+  const url = new URL(req.url);
+  const match = url.pathname.match(/\/v4\/(accounts\/[^/]+\/locations\/[^/]+)\/reviews\/?$/);
+  if (!match) return googleError(404, "Stub only serves accounts/*/locations/*/reviews.");
+
+  const locationName = decodeURIComponent(match[1]);
+  if (locationName.includes("missing")) return googleError(404, "Requested entity was not found.");
+  if (locationName.includes("pending")) {
+    return googleError(429, "Quota exceeded.", {
+      status: "RESOURCE_EXHAUSTED",
+      details: [{ metadata: { quota_limit_value: "0" } }],
+    });
+  }
+  if (locationName.includes("denied")) {
+    return googleError(403, "The caller does not have permission.");
+  }
+  if (locationName.includes("broken")) return googleError(500, "Internal error.");
+
+  const pageSize = Math.min(Math.max(Number(url.searchParams.get("pageSize") ?? 50) || 50, 1), 50);
+  const offset = Math.max(Number(url.searchParams.get("pageToken") ?? 0) || 0, 0);
+
+  const all = stubReviews(locationName);
+  const reviews = all.slice(offset, offset + pageSize);
+  const next = offset + pageSize;
+
+  return NextResponse.json({
+    reviews,
+    averageRating: 4.1,
+    totalReviewCount: all.length,
+    ...(next < all.length ? { nextPageToken: String(next) } : {}),
+  });
+}
@@ -0,0 +1,32 @@
+// app/api/dev/post-clean-golden/route.ts
+//
+// Dev-only regression check for the draft post-clean pipeline.
+// Runs every golden case in lib/draftPostCleanGolden.ts and returns a
+// pass/fail report. Responds 409 when any case fails (known failures aside)
+// so it can gate a pre-deploy script:
+//
+//   curl -fsS http://localhost:3000/api/dev/post-clean-golden
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { runPostCleanGolden } from "@/lib/draftPostCleanGolden";
+
+export async function GET(req: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+  }
+
+  const report = runPostCleanGolden();
+  const showAll = new URL(req.url).searchParams.get("all") === "1";
+
+  return NextResponse.json(
+    {
+      ok: report.failed === 0,
+      ...report,
+      // Passing cases are noise in the diff view; keep only failures unless ?all=1.
+      results: showAll ? report.results : report.results.filter((r) => !r.pass || r.known_failure),
+    },
+    { status: report.failed === 0 ? 200 : 409 }
+  );
+}
@@ -0,0 +1,55 @@
+// app/api/org/prompt-variants/route.ts
+//
+// Prompt variant A/B report (lib/promptVariants.ts) for the current organization.
+// GET ?days=30 — active variants for this PROMPT_VERSION, whether the org is
+//     pinned to one, and copy / post rates per variant over the window.
+// Variants themselves are managed as rows in prompt_variants.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { PROMPT_VERSION } from "@/lib/draftPrompt";
+import { loadPromptVariants, loadVariantReport } from "@/lib/promptVariants";
+
+function parseDays(v: string | null) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n <= 0) return 30;
+  return Math.min(Math.round(n), 180);
+}
+
+export async function GET(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const days = parseDays(new URL(req.url).searchParams.get("days"));
+
+    const variants = await loadPromptVariants();
+    const report = await loadVariantReport({ supabase, organizationId, days });
+
+    if (report.error) {
+      return NextResponse.json({ ok: false, error: report.error }, { status: 500 });
+    }
+
+    const pinned = variants.find((v) => v.organization_ids.includes(organizationId)) ?? null;
+
+    return NextResponse.json({
+      ok: true,
+      prompt_version: PROMPT_VERSION,
+      days,
+      since: report.since,
+      pinned_variant: pinned?.id ?? null,
+      variants: variants.map((v) => ({
+        id: v.id,
+        label: v.label,
+        traffic_percent: v.traffic_percent,
+        scaffold: v.scaffold,
+        custom_system_prompt: !!v.system_prompt,
+        extra_bans: v.extra_bans.length,
+        post_clean_disable: v.post_clean_disable,
+      })),
+      report: report.rows,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to load prompt variant report";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
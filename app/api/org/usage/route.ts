@@ -0,0 +1,30 @@
+// app/api/org/usage/route.ts
+//
+// LLM usage for the current organization (lib/llmUsage.ts): calls and tokens
+// today and this month, per task, against the plan's limits.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { getSubscriptionStatus } from "@/lib/subscriptionServer";
+import { USAGE_PLANS, loadLlmUsage, usagePlanForStatus } from "@/lib/llmUsage";
+
+export async function GET() {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const subscription = await getSubscriptionStatus();
+    const plan = usagePlanForStatus(subscription.status);
+
+    const usage = await loadLlmUsage({ supabase, organizationId });
+
+    return NextResponse.json({
+      ok: true,
+      plan,
+      limits: USAGE_PLANS[plan],
+      usage,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to load usage";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
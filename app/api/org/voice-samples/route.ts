@@ -3,86 +3,11 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { requireOrgContext } from "@/lib/orgServer";
-
-const MIN_LEN = 60; // server parity with UX guardrails
-const MAX_LEN = 600;
-
-function cleanText(v: unknown) {
-  const s = typeof v === "string" ? v : "";
-  return s.replace(/\s+/g, " ").trim();
-}
-
-function computeWarnings(sampleText: string): string[] {
-  const t = sampleText.trim();
-  const warnings: string[] = [];
-
-  // Length heuristics (warnings, not blockers)
-  if (t.length < 120) warnings.push("too_short");
-  if (t.length > 450) warnings.push("too_long");
-
-  // Generic / low-signal heuristics
-  const lower = t.toLowerCase();
-  const genericPhrases = [
-    "thank you",
-    "thanks",
-    "we appreciate",
-    "we appreciate your feedback",
-    "great service",
-    "great food",
-    "come back soon",
-    "hope to see you again",
-    "valued guest",
-    "we're thrilled",
-    "we are thrilled",
-  ];
-
-  const genericHit = genericPhrases.some((p) => lower.includes(p));
-  // If it’s basically just a generic phrase with little else, warn
-  if (genericHit && t.length < 160) warnings.push("too_generic");
-
-  // “All fluff” check: very low punctuation/detail
-  const hasConcreteSignal =
-    /\b(staff|server|team|host|bar|wine|coffee|dessert|dish|meal|breakfast|dinner|lunch|table|music|atmosphere|vibe|service|reservation)\b/i.test(
-      t
-    );
-  if (!hasConcreteSignal && t.length < 200) warnings.push("low_specificity");
-
-  // PII heuristics
-  const hasEmail = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i.test(t);
-  if (hasEmail) warnings.push("contains_email");
-
-  // Broad phone heuristic (avoid false positives by requiring 7+ digits total)
-  const digits = (t.match(/\d/g) ?? []).length;
-  const hasPhonePattern =
-    digits >= 7 &&
-    /(\+?\d[\d\s().-]{6,}\d)/.test(t) &&
-    // avoid common “2–4 sentences” etc
-    !/\b(1|2|3|4|5)\s?★\b/.test(t);
-  if (hasPhonePattern) warnings.push("contains_phone");
-
-  const hasUrl = /\bhttps?:\/\/|www\./i.test(t);
-  if (hasUrl) warnings.push("contains_url");
-
-  // Light address-ish heuristic (not perfect, but helpful)
-  const hasAddressHint = /\b(street|st\.|avenue|ave\.|road|rd\.|suite|ste\.|apt|apartment|unit|#\d+)\b/i.test(
-    t
-  );
-  if (hasAddressHint) warnings.push("contains_address_hint");
-
-  return Array.from(new Set(warnings));
-}
-
-function validateOrThrow(sampleText: string) {
-  if (!sampleText) {
-    throw new Error("Sample text is required.");
-  }
-  if (sampleText.length < MIN_LEN) {
-    throw new Error(`Sample text is too short. Minimum is ${MIN_LEN} characters.`);
-  }
-  if (sampleText.length > MAX_LEN) {
-    throw new Error(`Sample text is too long. Maximum is ${MAX_LEN} characters.`);
-  }
-}
+import {
+  cleanSampleText,
+  computeVoiceSampleWarnings,
+  validateSampleOrThrow,
+} from "@/lib/voiceSamples";
 
 export async function GET() {
   try {
@@ -101,7 +26,7 @@ export async function GET() {
 
     const rows = (data ?? []).map((r: any) => ({
       ...r,
-      warnings: computeWarnings(String(r.sample_text ?? "")),
+      warnings: computeVoiceSampleWarnings(String(r.sample_text ?? "")),
     }));
 
     return NextResponse.json({ ok: true, voice_samples: rows }, { status: 200 });
@@ -118,8 +43,8 @@ export async function POST(req: Request) {
     const { supabase, organizationId } = await requireOrgContext();
     const body = await req.json().catch(() => ({}));
 
-    const sample_text = cleanText(body?.sample_text);
-    validateOrThrow(sample_text);
+    const sample_text = cleanSampleText(body?.sample_text);
+    validateSampleOrThrow(sample_text);
 
     const nowIso = new Date().toISOString();
 
@@ -140,7 +65,7 @@ export async function POST(req: Request) {
 
     const voice_sample = {
       ...(data as any),
-      warnings: computeWarnings(String((data as any)?.sample_text ?? "")),
+      warnings: computeVoiceSampleWarnings(String((data as any)?.sample_text ?? "")),
     };
 
     return NextResponse.json({ ok: true, voice_sample }, { status: 200 });
@@ -0,0 +1,109 @@
+// app/api/org/voice-samples/suggestions/[id]/route.ts
+//
+// PATCH { action: "approve" | "dismiss", sample_text? }
+// Approving copies the (optionally edited) text into org_voice_samples.
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import {
+  cleanSampleText,
+  computeVoiceSampleWarnings,
+  isPiiWarning,
+  validateSampleOrThrow,
+} from "@/lib/voiceSamples";
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+
+    const { id } = await ctx.params;
+    const cleanId = String(id ?? "").trim();
+    if (!cleanId) return NextResponse.json({ ok: false, error: "Missing id." }, { status: 400 });
+
+    const body: Record<string, unknown> = await req.json().catch(() => ({}));
+    const action = body?.action === "approve" || body?.action === "dismiss" ? body.action : null;
+    if (!action) {
+      return NextResponse.json({ ok: false, error: 'action must be "approve" or "dismiss".' }, { status: 400 });
+    }
+
+    const { data: suggestion, error: loadErr } = await supabase
+      .from("org_voice_sample_suggestions")
+      .select("id, sample_text, status")
+      .eq("id", cleanId)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+
+    if (loadErr) {
+      return NextResponse.json({ ok: false, error: loadErr.message }, { status: 500 });
+    }
+    if (!suggestion) {
+      return NextResponse.json({ ok: false, error: "Suggestion not found." }, { status: 404 });
+    }
+    if (suggestion.status !== "pending") {
+      return NextResponse.json({ ok: false, error: `Suggestion already ${suggestion.status}.` }, { status: 409 });
+    }
+
+    const nowIso = new Date().toISOString();
+
+    if (action === "dismiss") {
+      const { error } = await supabase
+        .from("org_voice_sample_suggestions")
+        .update({ status: "dismissed", decided_at: nowIso })
+        .eq("id", cleanId)
+        .eq("organization_id", organizationId);
+
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      }
+      return NextResponse.json({ ok: true, status: "dismissed" }, { status: 200 });
+    }
+
+    const sample_text = cleanSampleText(body?.sample_text) || cleanSampleText(suggestion.sample_text);
+    validateSampleOrThrow(sample_text);
+
+    const warnings = computeVoiceSampleWarnings(sample_text);
+    if (warnings.some(isPiiWarning)) {
+      return NextResponse.json(
+        { ok: false, error: "Remove private info before saving (email/phone/url/address).", warnings },
+        { status: 400 }
+      );
+    }
+
+    const { data: sample, error: insertErr } = await supabase
+      .from("org_voice_samples")
+      .insert({
+        organization_id: organizationId,
+        sample_text,
+        created_at: nowIso,
+        updated_at: nowIso,
+      })
+      .select("id, sample_text, created_at, updated_at")
+      .single();
+
+    if (insertErr) {
+      return NextResponse.json({ ok: false, error: insertErr.message }, { status: 500 });
+    }
+
+    const { error: updateErr } = await supabase
+      .from("org_voice_sample_suggestions")
+      .update({ status: "approved", decided_at: nowIso, voice_sample_id: sample?.id ?? null })
+      .eq("id", cleanId)
+      .eq("organization_id", organizationId);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status: "approved",
+        voice_sample: { ...sample, warnings },
+        ...(updateErr ? { warning: updateErr.message } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : "Failed to update suggestion.";
+    const isValidation =
+      msg.includes("required") || msg.includes("too short") || msg.includes("too long");
+    return NextResponse.json({ ok: false, error: msg }, { status: isValidation ? 400 : 500 });
+  }
+}
@@ -0,0 +1,40 @@
+// app/api/org/voice-samples/suggestions/route.ts
+//
+// Approval inbox: posted replies the owner rewrote substantially, proposed as
+// voice samples (see suggestVoiceSampleFromReply in lib/voiceSamples.ts).
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { computeVoiceSampleWarnings } from "@/lib/voiceSamples";
+
+export async function GET() {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+
+    const { data, error } = await supabase
+      .from("org_voice_sample_suggestions")
+      .select("id, review_reply_id, sample_text, edit_ratio, status, created_at")
+      .eq("organization_id", organizationId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    // Re-check on read so warnings follow the current heuristics.
+    const suggestions = (data ?? []).map((r) => ({
+      ...r,
+      warnings: computeVoiceSampleWarnings(String(r.sample_text ?? "")),
+    }));
+
+    return NextResponse.json({ ok: true, suggestions }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to load suggestions." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+// app/api/organizations/category-pack/route.ts
+//
+// Prompt category pack selection (lib/categoryPacks.ts).
+// GET  — available packs, the org / per-business selections and the pack in effect.
+// POST — { pack_id: string | null, business_id?: string }
+//        Sets organizations.category_pack, or businesses.category_pack when
+//        business_id is given. null clears the override (pack follows business_category).
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { getCategoryPack, listCategoryPacks, resolveCategoryPack } from "@/lib/categoryPacks";
+
+function cleanString(v: unknown, maxLen = 80) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+export async function GET() {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+
+    // Optional columns — a missing column reads as "no override".
+    let business_category: string | null = null;
+    let org_pack: string | null = null;
+    try {
+      const { data } = await supabase
+        .from("organizations")
+        .select("business_category, category_pack")
+        .eq("id", organizationId)
+        .maybeSingle();
+      business_category = cleanString(data?.business_category) || null;
+      org_pack = cleanString(data?.category_pack) || null;
+    } catch {
+      // ignore
+    }
+
+    let businesses: Array<{ id: string; business_name: string | null; category_pack: string | null }> = [];
+    try {
+      const { data, error } = await supabase
+        .from("businesses")
+        .select("id, business_name, category_pack")
+        .eq("organization_id", organizationId)
+        .order("created_at", { ascending: false })
+        .limit(25);
+      if (!error) {
+        businesses = (data ?? []).map((b) => ({
+          id: String(b.id),
+          business_name: b.business_name ?? null,
+          category_pack: cleanString(b.category_pack) || null,
+        }));
+      }
+    } catch {
+      // ignore
+    }
+
+    const effective = resolveCategoryPack({ org_pack_id: org_pack, business_category });
+
+    return NextResponse.json({
+      ok: true,
+      packs: listCategoryPacks(),
+      business_category,
+      org_pack,
+      effective_pack: effective?.id ?? null,
+      businesses: businesses.map((b) => ({
+        ...b,
+        effective_pack:
+          resolveCategoryPack({ business_pack_id: b.category_pack, org_pack_id: org_pack, business_category })?.id ??
+          null,
+      })),
+    });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to load category packs" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body: Record<string, unknown> = await req.json().catch(() => ({}));
+
+    const packId = cleanString(body?.pack_id, 40).toLowerCase() || null;
+    const businessId = cleanString(body?.business_id) || null;
+
+    if (packId && !getCategoryPack(packId)) {
+      return NextResponse.json({ ok: false, error: `Unknown category pack "${packId}".` }, { status: 400 });
+    }
+
+    const { data, error } = businessId
+      ? await supabase
+          .from("businesses")
+          .update({ category_pack: packId })
+          .eq("id", businessId)
+          .eq("organization_id", organizationId)
+          .select("id")
+      : await supabase
+          .from("organizations")
+          .update({ category_pack: packId })
+          .eq("id", organizationId)
+          .select("id");
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: businessId ? "Business not found." : "Organization not found." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, pack_id: packId, business_id: businessId });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to save category pack" },
+      { status: 500 }
+    );
+  }
+}
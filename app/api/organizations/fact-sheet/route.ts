@@ -0,0 +1,114 @@
+// app/api/organizations/fact-sheet/route.ts
+//
+// Business fact sheet (lib/factSheet.ts): key facts drafts may use, plus a
+// "never mention" list.
+// GET  ?business_id=  — the org sheet, the business sheet (when business_id is
+//      given) and the businesses that can have their own sheet.
+// POST { business_id?: string, facts: [{ label, value, always? }], never_mention: string[] }
+//      Saves the org sheet, or the business sheet when business_id is given.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { FACT_SHEET_MAX_FACTS, FACT_SHEET_MAX_NEVER, loadFactSheetRow, normalizeFactSheet } from "@/lib/factSheet";
+
+function cleanString(v: unknown, maxLen = 80) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+export async function GET(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const businessId = cleanString(new URL(req.url).searchParams.get("business_id")) || null;
+
+    const org = await loadFactSheetRow({ supabase, organizationId, businessId: null });
+    const business = businessId ? await loadFactSheetRow({ supabase, organizationId, businessId }) : null;
+
+    let businesses: Array<{ id: string; business_name: string | null }> = [];
+    try {
+      const { data, error } = await supabase
+        .from("businesses")
+        .select("id, business_name")
+        .eq("organization_id", organizationId)
+        .order("created_at", { ascending: false })
+        .limit(25);
+      if (!error) {
+        businesses = (data ?? []).map((b) => ({ id: String(b.id), business_name: b.business_name ?? null }));
+      }
+    } catch {
+      // ignore
+    }
+
+    return NextResponse.json({
+      ok: true,
+      org_sheet: org ?? { facts: [], never_mention: [] },
+      business_sheet: business,
+      business_id: businessId,
+      businesses,
+      limits: { facts: FACT_SHEET_MAX_FACTS, never_mention: FACT_SHEET_MAX_NEVER },
+    });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to load fact sheet" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body: Record<string, unknown> = await req.json().catch(() => ({}));
+
+    const businessId = cleanString(body?.business_id) || null;
+    const sheet = normalizeFactSheet(body);
+
+    if (businessId) {
+      const { data: biz } = await supabase
+        .from("businesses")
+        .select("id")
+        .eq("id", businessId)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+      if (!biz) {
+        return NextResponse.json({ ok: false, error: "Business not found." }, { status: 404 });
+      }
+    }
+
+    // One row per (organization, business); business_id null is the org sheet.
+    let existingQuery = supabase
+      .from("business_fact_sheets")
+      .select("id")
+      .eq("organization_id", organizationId);
+    existingQuery = businessId ? existingQuery.eq("business_id", businessId) : existingQuery.is("business_id", null);
+    const { data: existing, error: existingErr } = await existingQuery.maybeSingle();
+
+    if (existingErr) {
+      return NextResponse.json({ ok: false, error: existingErr.message }, { status: 500 });
+    }
+
+    const row = {
+      facts: sheet.facts,
+      never_mention: sheet.never_mention,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = existing?.id
+      ? await supabase.from("business_fact_sheets").update(row).eq("id", existing.id)
+      : await supabase
+          .from("business_fact_sheets")
+          .insert({ ...row, organization_id: organizationId, business_id: businessId });
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true, business_id: businessId, sheet });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to save fact sheet" },
+      { status: 500 }
+    );
+  }
+}
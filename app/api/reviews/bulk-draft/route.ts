@@ -0,0 +1,164 @@
+// app/api/reviews/bulk-draft/route.ts
+//
+// Bulk drafting jobs for the unreplied backlog (lib/bulkDraft.ts).
+// GET   ?job_id=  — progress of a job (latest job when omitted) + failed items.
+// POST  { filters: { min_rating, max_rating, days, limit, business_id? } }
+//       — snapshots matching unreplied reviews into a new job.
+// PATCH { job_id, action: "pause" | "resume" | "cancel" | "retry_failed" }
+// Drafting itself happens in POST /api/reviews/bulk-draft/run.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { requireActiveSubscription } from "@/lib/subscriptionServer";
+import {
+  createBulkDraftJob,
+  loadBulkDraftJob,
+  loadFailedBulkDraftItems,
+  parseBulkDraftFilters,
+  retryFailedBulkDraftItems,
+  setBulkDraftJobStatus,
+  refreshBulkDraftJob,
+  type BulkDraftItem,
+} from "@/lib/bulkDraft";
+
+function cleanString(v: unknown, maxLen = 80) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+function errorResponse(e: unknown, fallback: string) {
+  const message = e instanceof Error ? e.message : fallback;
+  return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+}
+
+/** Failed items with a short excerpt of the review, for the dashboard list. */
+async function failuresWithExcerpts(params: {
+  supabase: Awaited<ReturnType<typeof requireOrgContext>>["supabase"];
+  organizationId: string;
+  items: BulkDraftItem[];
+}) {
+  const { supabase, organizationId, items } = params;
+  const excerpts = new Map<string, { author_name: string | null; rating: number | null; excerpt: string }>();
+
+  if (items.length > 0) {
+    const { data } = await supabase
+      .from("reviews")
+      .select("id, author_name, rating, review_text")
+      .eq("organization_id", organizationId)
+      .in("id", items.map((i) => i.review_id));
+    for (const r of data ?? []) {
+      excerpts.set(String(r.id), {
+        author_name: r.author_name ?? null,
+        rating: typeof r.rating === "number" ? r.rating : null,
+        excerpt: String(r.review_text ?? "").slice(0, 140),
+      });
+    }
+  }
+
+  return items.map((i) => ({ ...i, review: excerpts.get(i.review_id) ?? null }));
+}
+
+export async function GET(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const jobId = cleanString(new URL(req.url).searchParams.get("job_id")) || null;
+
+    const job = await loadBulkDraftJob({ supabase, organizationId, jobId });
+    if (!job) {
+      if (jobId) return NextResponse.json({ ok: false, error: "Job not found" }, { status: 404 });
+      return NextResponse.json({ ok: true, job: null, failures: [] });
+    }
+
+    const failed = job.failed > 0 ? await loadFailedBulkDraftItems({ supabase, organizationId, jobId: job.id }) : [];
+    const failures = await failuresWithExcerpts({ supabase, organizationId, items: failed });
+
+    return NextResponse.json({ ok: true, job, failures });
+  } catch (e: unknown) {
+    return errorResponse(e, "Failed to load bulk draft job");
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const sub = await requireActiveSubscription();
+    if (!sub.ok) {
+      return NextResponse.json(
+        {
+          ok: false,
+          upgradeRequired: true,
+          status: sub.status,
+          error: "Your plan isn't active yet. Subscribe to draft replies.",
+        },
+        { status: 402 }
+      );
+    }
+
+    const { supabase, organizationId, userId } = await requireOrgContext();
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const filters = parseBulkDraftFilters(body.filters);
+
+    // One job at a time per organization
+    const latest = await loadBulkDraftJob({ supabase, organizationId, jobId: null });
+    if (latest && (latest.status === "running" || latest.status === "paused")) {
+      return NextResponse.json(
+        { ok: false, code: "BULK_JOB_ACTIVE", error: "A bulk draft job is already in progress.", job: latest },
+        { status: 409 }
+      );
+    }
+
+    const { job, error } = await createBulkDraftJob({ supabase, organizationId, userId, filters });
+    if (error || !job) {
+      return NextResponse.json({ ok: false, error: error ?? "Failed to create bulk draft job" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true, job, failures: [] });
+  } catch (e: unknown) {
+    return errorResponse(e, "Failed to create bulk draft job");
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const jobId = cleanString(body.job_id);
+    const action = cleanString(body.action, 20);
+
+    if (!jobId) {
+      return NextResponse.json({ ok: false, error: "job_id is required" }, { status: 400 });
+    }
+
+    const job = await loadBulkDraftJob({ supabase, organizationId, jobId });
+    if (!job) return NextResponse.json({ ok: false, error: "Job not found" }, { status: 404 });
+    if (job.status === "canceled") {
+      return NextResponse.json({ ok: false, error: "This job was canceled." }, { status: 409 });
+    }
+
+    let error: string | null = null;
+    if (action === "pause") {
+      error = await setBulkDraftJobStatus({ supabase, organizationId, jobId, status: "paused" });
+    } else if (action === "resume") {
+      error = await setBulkDraftJobStatus({ supabase, organizationId, jobId, status: "running" });
+    } else if (action === "cancel") {
+      error = await setBulkDraftJobStatus({ supabase, organizationId, jobId, status: "canceled" });
+    } else if (action === "retry_failed") {
+      const retried = await retryFailedBulkDraftItems({ supabase, organizationId, jobId });
+      error =
+        retried.error ??
+        (retried.count > 0 ? await setBulkDraftJobStatus({ supabase, organizationId, jobId, status: "running" }) : null);
+    } else {
+      return NextResponse.json(
+        { ok: false, error: "action must be pause, resume, cancel or retry_failed" },
+        { status: 400 }
+      );
+    }
+
+    if (error) return NextResponse.json({ ok: false, error }, { status: 500 });
+
+    const updated = await refreshBulkDraftJob({ supabase, organizationId, jobId });
+    return NextResponse.json({ ok: true, job: updated });
+  } catch (e: unknown) {
+    return errorResponse(e, "Failed to update bulk draft job");
+  }
+}
@@ -0,0 +1,247 @@
+// app/api/reviews/bulk-draft/run/route.ts
+//
+// POST { job_id } — drafts the next batch of a bulk job (lib/bulkDraft.ts) and
+// returns its progress. The dashboard calls this in a loop while the job runs.
+//
+// Each review goes through the regular draft pipeline (the draft-reply
+// handler: quotas, cache, contract checks, audit log) and the result is saved
+// as a `draft` row in review_replies. Nothing is copied or posted. When the
+// plan's model quota runs out the job pauses instead of failing every item.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { requireActiveSubscription } from "@/lib/subscriptionServer";
+import {
+  BULK_DRAFT_BATCH_SIZE,
+  BULK_DRAFT_CONCURRENCY,
+  claimBulkDraftItems,
+  finishBulkDraftItem,
+  loadBulkDraftJob,
+  refreshBulkDraftJob,
+  runWithConcurrency,
+  setBulkDraftJobStatus,
+  type BulkDraftItem,
+} from "@/lib/bulkDraft";
+import { POST as draftReply } from "@/app/api/reviews/draft-reply/route";
+
+type OrgSupabase = Awaited<ReturnType<typeof requireOrgContext>>["supabase"];
+
+type ReviewRow = {
+  id: string;
+  business_id: string | null;
+  google_review_id: string | null;
+  google_location_id: string | null;
+  rating: number | null;
+  author_name: string | null;
+  author_url: string | null;
+  review_text: string | null;
+  detected_language: string | null;
+};
+
+type BusinessRow = { id: string; business_name: string | null };
+
+type ItemOutcome =
+  | { status: "drafted"; replyId: string }
+  | { status: "failed" | "skipped"; error: string }
+  | { status: "quota"; error: string };
+
+async function loadBatchContext(params: { supabase: OrgSupabase; organizationId: string; reviewIds: string[] }) {
+  const { supabase, organizationId, reviewIds } = params;
+
+  const { data: reviews, error } = await supabase
+    .from("reviews")
+    .select(
+      "id, business_id, google_review_id, google_location_id, rating, author_name, author_url, review_text, detected_language"
+    )
+    .eq("organization_id", organizationId)
+    .in("id", reviewIds);
+  if (error) throw new Error(error.message);
+
+  const reviewMap = new Map<string, ReviewRow>();
+  for (const r of (reviews ?? []) as ReviewRow[]) reviewMap.set(String(r.id), r);
+
+  const businessIds = Array.from(new Set((reviews ?? []).map((r) => r.business_id).filter(Boolean))) as string[];
+  const businessMap = new Map<string, BusinessRow>();
+  if (businessIds.length > 0) {
+    const { data: businesses, error: bizErr } = await supabase
+      .from("businesses")
+      .select("id, business_name")
+      .eq("organization_id", organizationId)
+      .in("id", businessIds);
+    if (bizErr) throw new Error(bizErr.message);
+    for (const b of (businesses ?? []) as BusinessRow[]) businessMap.set(String(b.id), b);
+  }
+
+  return { reviewMap, businessMap };
+}
+
+/** Drafts one review through the draft-reply handler and stores the draft. */
+async function draftItem(params: {
+  req: Request;
+  supabase: OrgSupabase;
+  organizationId: string;
+  review: ReviewRow | undefined;
+  business: BusinessRow | undefined;
+}): Promise<ItemOutcome> {
+  const { req, supabase, organizationId, review, business } = params;
+
+  if (!review) return { status: "skipped", error: "Review no longer exists." };
+  if (!review.review_text?.trim()) return { status: "skipped", error: "Review has no text." };
+  if (!business?.business_name) return { status: "failed", error: "Business name is missing." };
+
+  // Replied to since the job was created (e.g. from the single-review panel)
+  const { data: existing } = await supabase
+    .from("review_replies")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("review_id", review.id)
+    .in("status", ["draft", "copied", "posted"])
+    .limit(1);
+  if ((existing ?? []).length > 0) return { status: "skipped", error: "Already has a reply." };
+
+  // GBP location written by the sync — never the Places place id
+  const googleLocationId = review.google_location_id ? String(review.google_location_id) : null;
+
+  const res = await draftReply(
+    new Request(new URL("/api/reviews/draft-reply", req.url), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        review_text: review.review_text,
+        business_name: business.business_name,
+        rating: review.rating,
+        language: review.detected_language ?? undefined,
+        reviewer_name: review.author_name ?? undefined,
+        reviewer_url: review.author_url ?? undefined,
+        review_id: review.id,
+        business_id: review.business_id,
+        google_review_id: review.google_review_id ?? undefined,
+        google_location_id: googleLocationId ?? undefined,
+        candidates: 1,
+        debug: false,
+      }),
+    })
+  );
+  const json = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (res.status === 429 && json?.code === "LLM_QUOTA_EXCEEDED") {
+    return { status: "quota", error: String(json.error ?? "Model quota used up.") };
+  }
+  if (!res.ok || !json?.ok || typeof json.reply !== "string" || !json.reply.trim()) {
+    return { status: "failed", error: String(json?.error ?? `Drafting failed (${res.status}).`) };
+  }
+
+  const meta = (json.meta ?? {}) as Record<string, unknown>;
+  const rating = typeof review.rating === "number" ? Math.round(review.rating) : null;
+
+  const { data: reply, error } = await supabase
+    .from("review_replies")
+    .insert({
+      organization_id: organizationId,
+      business_id: review.business_id,
+      review_id: review.id,
+      draft_text: json.reply.trim(),
+      owner_language: typeof meta.owner_language === "string" ? meta.owner_language : null,
+      reviewer_language: typeof meta.reviewer_language === "string" ? meta.reviewer_language : null,
+      rating: rating !== null && rating >= 1 && rating <= 5 ? rating : null,
+      status: "draft",
+      google_location_id: googleLocationId,
+    })
+    .select("id")
+    .single();
+
+  if (error || !reply) return { status: "failed", error: error?.message ?? "review_replies insert failed" };
+  return { status: "drafted", replyId: String(reply.id) };
+}
+
+export async function POST(req: Request) {
+  try {
+    const sub = await requireActiveSubscription();
+    if (!sub.ok) {
+      return NextResponse.json(
+        {
+          ok: false,
+          upgradeRequired: true,
+          status: sub.status,
+          error: "Your plan isn't active yet. Subscribe to draft replies.",
+        },
+        { status: 402 }
+      );
+    }
+
+    const { supabase, organizationId } = await requireOrgContext();
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const jobId = typeof body.job_id === "string" ? body.job_id.trim().slice(0, 80) : "";
+
+    if (!jobId) {
+      return NextResponse.json({ ok: false, error: "job_id is required" }, { status: 400 });
+    }
+
+    const job = await loadBulkDraftJob({ supabase, organizationId, jobId });
+    if (!job) return NextResponse.json({ ok: false, error: "Job not found" }, { status: 404 });
+    if (job.status !== "running") return NextResponse.json({ ok: true, job, processed: 0 });
+
+    const claimed = await claimBulkDraftItems({ supabase, organizationId, jobId, limit: BULK_DRAFT_BATCH_SIZE });
+    if (claimed.error) return NextResponse.json({ ok: false, error: claimed.error }, { status: 500 });
+
+    let processed = 0;
+    if (claimed.items.length > 0) {
+      const { reviewMap, businessMap } = await loadBatchContext({
+        supabase,
+        organizationId,
+        reviewIds: claimed.items.map((i) => i.review_id),
+      });
+
+      let quotaError: string | null = null;
+
+      await runWithConcurrency(claimed.items, BULK_DRAFT_CONCURRENCY, async (item: BulkDraftItem) => {
+        // Once the quota is gone, the rest of the batch goes back in the queue
+        if (quotaError) {
+          await finishBulkDraftItem({ supabase, organizationId, itemId: item.id, status: "pending" });
+          return;
+        }
+
+        const review = reviewMap.get(item.review_id);
+        let outcome: ItemOutcome;
+        try {
+          outcome = await draftItem({
+            req,
+            supabase,
+            organizationId,
+            review,
+            business: review?.business_id ? businessMap.get(review.business_id) : undefined,
+          });
+        } catch (e: unknown) {
+          outcome = { status: "failed", error: e instanceof Error ? e.message : "Drafting failed." };
+        }
+
+        if (outcome.status === "quota") {
+          quotaError = outcome.error;
+          await finishBulkDraftItem({ supabase, organizationId, itemId: item.id, status: "pending" });
+          return;
+        }
+
+        processed += 1;
+        await finishBulkDraftItem({
+          supabase,
+          organizationId,
+          itemId: item.id,
+          status: outcome.status,
+          replyId: outcome.status === "drafted" ? outcome.replyId : null,
+          error: outcome.status === "drafted" ? null : outcome.error,
+        });
+      });
+
+      if (quotaError) {
+        await setBulkDraftJobStatus({ supabase, organizationId, jobId, status: "paused", error: quotaError });
+      }
+    }
+
+    const updated = await refreshBulkDraftJob({ supabase, organizationId, jobId });
+    return NextResponse.json({ ok: true, job: updated, processed });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to run bulk draft job";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
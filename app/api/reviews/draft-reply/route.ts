@@ -5,72 +5,53 @@ export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import { requireActiveSubscription } from "@/lib/subscriptionServer";
 import { requireOrgContext } from "@/lib/orgServer";
+import { generateText, streamText, LlmError, resolveLlmProvider, defaultModelFor } from "@/lib/llmProvider";
+import { readDraftCache, writeDraftCache, type DraftCacheKey } from "@/lib/draftCache";
+import { DRAFT_CACHE_ENABLED } from "@/lib/featureFlags";
+import { checkLlmQuota, quotaExceededBody, recordLlmUsage, usagePlanForStatus } from "@/lib/llmUsage";
+import { selectRelevantFacts } from "@/lib/factSheet";
+import { loadDraftContext, resolveDraftReplyLanguage } from "@/lib/draftContext";
+import { CONTROL_VARIANT_ID, resolvePromptVariant, type PromptVariantAssignment } from "@/lib/promptVariants";
+import { loadReviewerHistory, type ReviewerHistory } from "@/lib/reviewerHistory";
+import { classifyReviewTopics } from "@/lib/reviewTopics";
+import {
+  SENSITIVE_REASON_LABELS,
+  detectSensitiveContent,
+  recordReviewEscalation,
+  type ReviewEscalation,
+  type SensitiveReason,
+} from "@/lib/sensitiveContent";
+import {
+  POST_CLEAN_VERSION,
+  runPostClean,
+  parsePostCleanStageIds,
+} from "@/lib/draftPostClean";
+import {
+  PROMPT_VERSION,
+  buildPrompt,
+  buildSystemPrompt,
+  clampToneForRating,
+  classifyFailureType,
+  classifyReviewStyle,
+  lengthCategoryForReview,
+  normalizeToneFromOrg,
+  normalizeVoice,
+  sentencePolicyForRating,
+  type VoiceProfile,
+} from "@/lib/draftPrompt";
+import {
+  BANNED_LIST_VERSION,
+  rankCandidates,
+  scoreCandidate,
+} from "@/lib/draftScoring";
+import {
+  PROMPT_CONTRACT_VERSION,
+  contractFixInstruction,
+  validateReplyAgainstContract,
+} from "@/lib/promptContract";
 import crypto from "crypto";
 
-// ─── VERSION HISTORY ──────────────────────────────────────────────────────────
-// v9 (2026-05-08): Voice fidelity fix.
-//   1. voiceSamplesBlock rewritten to explicitly instruct the model to mirror
-//      opening and closing patterns from samples, with override priority over
-//      rating-strategy opener examples.
-//   2. antiRoteBlock made conditional on voice samples — when samples exist,
-//      the "do not start with Thank you" rule is replaced with "follow the
-//      sample opening pattern."
-//   3. System prompt rule #5 made conditional on voice samples (same logic).
-//   4. stripTemplatedOpeners() post-processor only runs when no voice samples
-//      are loaded (otherwise it deletes openers that match the customer voice).
-//   5. GROUNDING RULE added to STANDARD 2 — model must use only details from
-//      the review or voice samples, not inferred geographic / training-data
-//      knowledge. Prevents hallucinations like "Overberg" appearing in replies
-//      to a Hemel-en-Aarde Valley review.
-// v8: prior baseline — see git history.
-const PROMPT_VERSION = "draft-reply-v10";
-const BANNED_LIST_VERSION = "banned-v5";
-const POST_CLEAN_VERSION = "postclean-v10";
-
-// ─── Research references (informational — traceable decisions) ─────────────────
-//
-// [R1] Ravichandran & Deng (2022) "Effects of Managerial Response to Negative
-//      Reviews on Future Review Valence and Complaints" — Information Systems
-//      Research. Procedural complaints → rational cues outperform emotional.
-//      Interpersonal complaints → emotional acknowledgment outperforms rational.
-//
-// [R2] Liu et al. (2021) "To be similar or to be different? The effect of hotel
-//      managers' rote response on subsequent reviews" — Tourism Management.
-//      Rote/boilerplate responses decrease subsequent review volume and lower
-//      future review valence. Independent hotels hurt more than chains.
-//
-// [R3] 2025 Vietnamese Mekong Delta study — "Satisfaction with response: The
-//      impact on potential customers' perceived service quality and intent to
-//      stay." Full, customized responses yield the highest satisfaction and
-//      perceived service quality. Rote content significantly underperforms.
-//
-// [R4] Wu & Morwitz (Columbia Business School, 2025) — Integrated reviews
-//      (combining emotional + rational elements) produce 5–10× higher odds of
-//      recommending the business. Responses should mirror this: acknowledge
-//      emotion AND address factual specifics.
-//
-// [R5] 2025 ScienceDirect — "This is inequity!" — Subjective reviews benefit
-//      from faster, empathetic responses. Objective/factual reviews benefit from
-//      more thoughtful, detail-oriented replies.
-//
-// [R6] Widewail SEO strategy (industry best practice, validated by Moz local
-//      ranking factors) — Naturally include business name/category keywords in
-//      positive review responses (Google bolds them). Avoid keywords in negative
-//      review responses to prevent Google from surfacing them.
-//
-// [R7] Proserpio & Zervas (2017); HBR — Businesses that respond consistently
-//      to reviews receive ~12% more reviews. 95% of consumers read reviews
-//      before booking. 77% of travelers more likely to book when business
-//      responds to positive reviews.
-//
-// [R8] Spiegel Research Center — Ratings between 4.2–4.5 are more likely to
-//      lead to a sale than perfect 5.0 (avoids "too good to be true" effect).
-//      Google filters out <4.0 from "best X near me" queries.
-//
-// [R9] Service recovery literature consensus — For negative reviews, invite
-//      private/offline resolution. Do not litigate issues publicly. Prospective
-//      customers observe how you handle conflict.
-// ─────────────────────────────────────────────────────────────────────────────
+// Prompt text, classifiers and version history live in lib/draftPrompt.ts.
 
 // ─── Basic utilities ──────────────────────────────────────────────────────────
 
@@ -83,11 +64,6 @@ function cleanString(v: unknown, maxLen = 4000) {
   return v.trim().slice(0, maxLen);
 }
 
-function cleanLanguage(v: unknown) {
-  const raw = cleanString(v, 20) || "en";
-  return raw.slice(0, 12);
-}
-
 function parseRating(v: unknown) {
   if (typeof v === "number") return v;
   const n = Number(String(v ?? "").replace(/[^\d.]/g, ""));
@@ -100,588 +76,82 @@ function safeTrimReply(s: string, maxLen = 900) {
   return t.slice(0, maxLen);
 }
 
-function stripEmojis(text: string) {
-  return text.replace(
-    /[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}\u{1F1E6}-\u{1F1FF}]/gu,
-    ""
-  );
-}
-
-function removeQuotations(text: string) {
-  // Strip ONLY double quotes (straight + curly).
-  // Single quotes / apostrophes are preserved so possessives like "Hosny's"
-  // and contractions like "we're" survive into the apostrophe-repair pipeline.
-  return text.replace(/["“”]/g, "");
-}
-
-function collapseWhitespace(text: string) {
-  return text.replace(/\s+/g, " ").trim();
-}
-
-function splitSentences(text: string) {
-  const t = (text ?? "").trim();
-  if (!t) return [];
-  return t
-    .split(/(?<=[.!?])\s+/)
-    .map((p) => p.trim())
-    .filter(Boolean);
-}
-
-function limitSentences(text: string, maxSentences: number) {
-  const t = (text ?? "").trim();
-  if (!t) return t;
-  const parts = splitSentences(t);
-  if (parts.length <= maxSentences) return t;
-  return parts.slice(0, maxSentences).join(" ");
-}
-
-// ─── Apostrophe repair ────────────────────────────────────────────────────────
-// VERSION: postclean-v7 (universal regex engine — see postclean-v6 notes)
-
-function fixApostrophes(text: string): string {
-  let t = text;
-  t = t.replace(/\byoud\b/gi, "you'd");
-
-  // ── Negative contractions (unambiguous — no real-word conflicts) ───────────
-  t = t.replace(/\bcant\b(?!o|al|ed|ing)/gi, "can't");
-  t = t.replace(/\bwont\b(?!ed|s\b)/gi, "won't");
-  t = t.replace(/\bdont\b/gi, "don't");
-  t = t.replace(/\bdidnt\b/gi, "didn't");
-  t = t.replace(/\bdoesnt\b/gi, "doesn't");
-  t = t.replace(/\bwasnt\b/gi, "wasn't");
-  t = t.replace(/\bwerent\b/gi, "weren't");
-  t = t.replace(/\bwouldnt\b/gi, "wouldn't");
-  t = t.replace(/\bcouldnt\b/gi, "couldn't");
-  t = t.replace(/\bshouldnt\b/gi, "shouldn't");
-  t = t.replace(/\bisnt\b/gi, "isn't");
-  t = t.replace(/\barent\b/gi, "aren't");
-  t = t.replace(/\bhasnt\b/gi, "hasn't");
-  t = t.replace(/\bhavent\b/gi, "haven't");
-  t = t.replace(/\bhadnt\b/gi, "hadn't");
-  t = t.replace(/\bmusnt\b/gi, "mustn't");
-  t = t.replace(/\bneednt\b/gi, "needn't");
-
-  // ── "were" → "we're" ─────────────────────────────────────────────────────
-  t = t.replace(
-    /(?<!they |you |he |she |it |guests |staff |people |team |customers |visitors )\bwere ([a-z]+ing)\b/gi,
-    (_m, verb) => `we're ${verb}`
-  );
-  t = t.replace(
-    /(?<!they |you |he |she |it |guests |staff |people |team )\bwere about\b/gi,
-    "we're about"
-  );
-  t = t.replace(
-    /(?<!they |you |he |she |it |guests |staff |people |team )\bwere (sorry|glad|happy|thrilled|delighted|committed|aware|able|ready|pleased|excited|grateful|wrong|right|mistaken|confused|disappointed|surprised|certain|sure|devastated|embarrassed)\b/gi,
-    (_m, adj) => `we're ${adj}`
-  );
-  // were + adverb + predicate adjective: "were genuinely sorry", "were truly glad"
-  t = t.replace(
-    /(?<!they |you |he |she |it |guests |staff |people |team )\bwere (genuinely|truly|really|so|very|deeply|sincerely|absolutely|honestly|incredibly) (sorry|glad|happy|thrilled|delighted|committed|aware|able|ready|pleased|excited|grateful|wrong|right|mistaken|confused|disappointed|surprised|certain|sure|devastated|embarrassed)\b/gi,
-    (_m, adv, adj) => `we're ${adv} ${adj}`
-  );
-
-  // ── "wed" → "we'd" ───────────────────────────────────────────────────────
-  t = t.replace(
-    /\bwed (like|love|appreciate|be|rather|prefer|suggest|recommend|hope|welcome|hate|expect|want|need|genuinely|really|truly|absolutely|certainly|never|hate to)\b/gi,
-    (_m, w) => `we'd ${w}`
-  );
-
-  // ── "well" → "we'll" ─────────────────────────────────────────────────────
-  t = t.replace(
-    /\bwell (be|have|make|take|get|do|look|reach|follow|check|send|ensure|try|work|fix|address|handle|see|find|speak|talk|connect|pass|do better|reach out|make sure|look into|pass this along)\b/gi,
-    (_m, w) => `we'll ${w}`
-  );
-
-  // ── "its" → "it's" (predicate only, not possessive) ─────────────────────
-  t = t.replace(
-    /\bits (a|an|the|not|been|clear|important|something|worth|hard|difficult|fair|unfair|obvious|true|also|just|never|always|on us|our fault)\b/gi,
-    (_m, w) => `it's ${w}`
-  );
-
-  // ── Simple unambiguous swaps ─────────────────────────────────────────────
-  t = t.replace(/\bthats\b/gi, "that's");
-  t = t.replace(/\bwhats\b/gi, "what's");
-  t = t.replace(/\btheres\b/gi, "there's");
-  t = t.replace(/\bheres\b/gi, "here's");
-  t = t.replace(/\byoure\b/gi, "you're");
-  t = t.replace(/\btheyre\b/gi, "they're");
-  t = t.replace(/\bweve\b/gi, "we've");
-  t = t.replace(/\byouve\b/gi, "you've");
-  t = t.replace(/\btheyve\b/gi, "they've");
-  t = t.replace(/\bshouldve\b/gi, "should've");
-  t = t.replace(/\bcouldve\b/gi, "could've");
-  t = t.replace(/\bwouldve\b/gi, "would've");
-  t = t.replace(/\bmightve\b/gi, "might've");
-  t = t.replace(/\bmustve\b/gi, "must've");
-  t = t.replace(/\bsomeones\b/gi, "someone's");
-  t = t.replace(/\beveryones\b/gi, "everyone's");
-  t = t.replace(/\byoull\b/gi, "you'll");
-  t = t.replace(/\btheyll\b/gi, "they'll");
-  t = t.replace(/\bIm\b/g, "I'm");
-  t = t.replace(/\bIve\b/g, "I've");
-  t = t.replace(
-    /\bId (like|love|appreciate|be|rather|prefer|suggest|recommend|hope|want|need|welcome|genuinely|really|truly)\b/g,
-    (_m, w) => `I'd ${w}`
-  );
-  t = t.replace(
-    /\bIll (be|have|make|take|get|do|look|check|send|ensure|try|work|fix|address|see|find|speak|talk|connect|do better|reach out|make sure|look into|pass this)\b/g,
-    (_m, w) => `I'll ${w}`
-  );
-
-  return t;
-}
-
-// ─── Sentence capitalisation repair ──────────────────────────────────────────
-function fixSentenceCapitalisation(text: string): string {
-  if (!text) return text;
-  let t = text.charAt(0).toUpperCase() + text.slice(1);
-  t = t.replace(/([.!?][\s]+)([a-z])/g, (_match, punct, letter) => punct + letter.toUpperCase());
-  return t;
-}
-
-// ─── Language instruction ─────────────────────────────────────────────────────
-function languageInstruction(languageTag: string) {
-  const tag = (languageTag || "en").toLowerCase().trim();
-  // Handle regional variants: "es-ar" -> "es", "pt-br" stays "pt-br"
-  const base = tag.split("-")[0];
-
-  switch (tag) {
-    case "en":
-    case "en-us":
-    case "en-gb":
-    case "en-au":
-      return "Write in English. Natural, human, non-corporate.";
-    case "es":
-    case "es-ar":
-    case "es-mx":
-    case "es-es":
-    case "es-cl":
-    case "es-co":
-    case "es-pe":
-      return "Escribe en espa\u00f1ol. Espa\u00f1ol natural, no una traducci\u00f3n literal. Suena como una persona real, no una marca.";
-    case "pt":
-    case "pt-br":
-    case "pt-pt":
-      return "Escreva em portugu\u00eas. Portugu\u00eas natural, n\u00e3o uma tradu\u00e7\u00e3o literal.";
-    case "fr":
-    case "fr-fr":
-    case "fr-ca":
-      return "\u00c9cris en fran\u00e7ais. Fran\u00e7ais naturel, pas une traduction litt\u00e9rale.";
-    case "it":
-    case "it-it":
-      return "Scrivi in italiano. Italiano naturale, non una traduzione letterale.";
-    case "de":
-    case "de-de":
-    case "de-at":
-    case "de-ch":
-      return "Schreibe auf Deutsch. Nat\u00fcrliches Deutsch, keine w\u00f6rtliche \u00dcbersetzung.";
-    default:
-      break;
-  }
-
-  // Fallback: check base language code if full tag didn't match
-  switch (base) {
-    case "es":
-      return "Escribe en espa\u00f1ol. Espa\u00f1ol natural, no una traducci\u00f3n literal. Suena como una persona real, no una marca.";
-    case "pt":
-      return "Escreva em portugu\u00eas. Portugu\u00eas natural, n\u00e3o uma tradu\u00e7\u00e3o literal.";
-    case "fr":
-      return "\u00c9cris en fran\u00e7ais. Fran\u00e7ais naturel, pas une traduction litt\u00e9rale.";
-    case "it":
-      return "Scrivi in italiano. Italiano naturale, non una traduzione letterale.";
-    case "de":
-      return "Schreibe auf Deutsch. Nat\u00fcrliches Deutsch, keine w\u00f6rtliche \u00dcbersetzung.";
-    default:
-      // For any other language: instruct clearly so the model doesn't default to English
-      return `Write the reply in ${languageTag}. Use natural, human phrasing in that language \u2014 not a translation from English. Sound like a real person, not a brand.`;
-  }
-}
-
-// ─── Failure-type classifier ──────────────────────────────────────────────────
-// Research basis: [R1] Ravichandran & Deng (2022, ISR) — procedural complaints
-// benefit from rational cues; interpersonal complaints benefit from emotional
-// acknowledgment. This classifier drives the strategy split in 1–2 star prompts.
-
-type FailureType = "procedural" | "interpersonal" | "mixed";
-
-function classifyFailureType(reviewText: string): FailureType {
-  const t = (reviewText || "").toLowerCase();
-
-  const proceduralSignals = [
-    /\b(wait(ed|ing)?|took (too )?long|slow service|never (came|arrived|showed))\b/,
-    /\b(wrong (order|item|dish|table)|missing (item|order|dish))\b/,
-    /\b(reservation|booking|cancelled|no show|double.?booked)\b/,
-    /\b(charged|overcharged|billing|invoice|price|expensive|cost)\b/,
-    /\b(promised|told us|said (they|it) would|never delivered)\b/,
-    /\b(cold (food|dish|meal)|reheated|undercooked|overcooked|raw)\b/,
-    /\b(incomplete|wrong item|wrong order)\b/,
-  ];
-
-  const interpersonalSignals = [
-    /\b(rude|condescending|dismissive|disrespectful|unprofessional)\b/,
-    /\b(ignored|ignored us|no one (came|helped|acknowledged))\b/,
-    /\b(attitude|eye roll|rolled (their )?eyes|snapped|snappy)\b/,
-    /\b(made (us|me) feel|felt (unwelcome|ignored|dismissed|judged|embarrassed))\b/,
-    /\b(didn.t (apologize|acknowledge|care))\b/,
-    /\b(talked (down|to us)|spoke (rudely|harshly))\b/,
-  ];
-
-  const proceduralHits = proceduralSignals.filter((re) => re.test(t)).length;
-  const interpersonalHits = interpersonalSignals.filter((re) => re.test(t)).length;
-
-  if (proceduralHits === 0 && interpersonalHits === 0) return "mixed";
-  if (proceduralHits > 0 && interpersonalHits === 0) return "procedural";
-  if (interpersonalHits > 0 && proceduralHits === 0) return "interpersonal";
-  return "mixed";
-}
-
-// ─── Review style classifier ─────────────────────────────────────────────────
-// Research basis: [R5] 2025 ScienceDirect — subjective/emotional reviews benefit
-// from empathetic replies; objective/factual reviews benefit from thoughtful,
-// detail-oriented replies. [R4] Columbia (Wu & Morwitz) — integrated responses
-// (emotional + rational) outperform either alone by 5–10×.
-//
-// Returns "subjective" | "objective" | "integrated" to inform strategy.
-
-type ReviewStyle = "subjective" | "objective" | "integrated";
-
-function classifyReviewStyle(reviewText: string): ReviewStyle {
-  const t = (reviewText || "").toLowerCase();
-
-  const subjectiveSignals = [
-    /\b(felt|feeling|feel|angry|frustrated|upset|disappointed|disgusted|horrible|awful|terrible|worst|loved|amazing|incredible|fantastic|wonderful|best|beautiful)\b/,
-    /[!]{2,}/,
-    /\b(never again|last time|ruined|destroyed|heartbroken|devastated)\b/,
-    /\b(can't believe|couldn't believe|unbelievable|unacceptable|ridiculous)\b/,
-  ];
-
-  const objectiveSignals = [
-    /\b(\d+ (minutes|hours|mins|hrs|days))\b/,
-    /\$\d+|\d+\s*(dollars|euros|pesos)/,
-    /\b(ordered|received|arrived|checked in|checked out|booked|reserved)\b/,
-    /\b(specifically|exactly|precisely|on (monday|tuesday|wednesday|thursday|friday|saturday|sunday))\b/i,
-    /\b(table|room|floor|server|waiter|waitress|host|hostess|manager)\b/,
-  ];
-
-  const subjectiveHits = subjectiveSignals.filter((re) => re.test(t)).length;
-  const objectiveHits = objectiveSignals.filter((re) => re.test(t)).length;
-
-  if (subjectiveHits > 0 && objectiveHits > 0) return "integrated";
-  if (subjectiveHits > objectiveHits) return "subjective";
-  if (objectiveHits > subjectiveHits) return "objective";
-  return "integrated";
-}
-
-// ─── Types ────────────────────────────────────────────────────────────────────
-
-type VoiceProfile = {
-  reply_as?: "owner" | "manager" | "we";
-  tone?: "warm" | "neutral" | "direct" | "playful";
-  brevity?: "short" | "medium";
-  formality?: "casual" | "professional";
-  things_to_avoid?: string[] | null;
-  allow_exclamation?: boolean | null;
-};
-
-const DEFAULT_VOICE = {
-  reply_as: "we" as const,
-  tone: "warm" as const,
-  brevity: "short" as const,
-  formality: "professional" as const,
-  things_to_avoid: [] as string[],
-  allow_exclamation: false,
-};
-
-type OrgReplySettings = {
-  owner_language: string;
-  reply_tone: string;
-  reply_signature: string | null;
-  business_category?: string | null;
-};
-
 // ─── Supabase loaders ─────────────────────────────────────────────────────────
+// Org settings, voice, fact sheet, category pack and reply language come from
+// loadDraftContext (lib/draftContext.ts), shared with revise-reply.
 
-async function loadOrgReplySettings(): Promise<OrgReplySettings> {
-  try {
-    const { supabase, organizationId } = await requireOrgContext();
-
-    // Core settings — only columns guaranteed to exist in the schema
-    const { data, error } = await supabase
-      .from("organizations")
-      .select("owner_language, reply_tone, reply_signature")
-      .eq("id", organizationId)
-      .maybeSingle();
-
-    if (error || !data) {
-      return { owner_language: "en", reply_tone: "warm", reply_signature: null, business_category: null };
-    }
-
-    // business_category loaded separately so a missing column never
-    // poisons the core settings load (breaks language, tone, signature).
-    let business_category: string | null = null;
-    try {
-      const { data: catData, error: catErr } = await supabase
-        .from("organizations")
-        .select("business_category")
-        .eq("id", organizationId)
-        .maybeSingle();
-      if (!catErr && catData) {
-        business_category = cleanString((catData as any).business_category, 80) || null;
-      }
-    } catch {
-      // Column does not exist yet — silently skip
-    }
-
-    return {
-      owner_language: cleanLanguage((data as any).owner_language),
-      reply_tone: cleanString((data as any).reply_tone, 40) || "warm",
-      reply_signature: cleanString((data as any).reply_signature, 80) || null,
-      business_category,
-    };
-  } catch {
-    return { owner_language: "en", reply_tone: "warm", reply_signature: null, business_category: null };
-  }
-}
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-async function loadVoiceProfile(): Promise<VoiceProfile> {
+// Sensitive reviews: store the reasons on the review so copy/post can require
+// a manager acknowledgement. Pasted reviews (no review_id) aren't recorded.
+async function recordEscalation(reviewId: string | null, reasons: SensitiveReason[]) {
+  if (!reviewId || !UUID_RE.test(reviewId) || reasons.length === 0) return null;
   try {
     const { supabase, organizationId } = await requireOrgContext();
-    const { data, error } = await supabase
-      .from("org_voice_profile")
-      .select("reply_as,tone,brevity,formality,things_to_avoid,allow_exclamation")
-      .eq("organization_id", organizationId)
-      .maybeSingle();
-
-    if (error) return {};
-    return (data ?? {}) as VoiceProfile;
+    return await recordReviewEscalation({ supabase, organizationId, reviewId, reasons });
   } catch {
-    return {};
+    return null;
   }
 }
 
-// ─── Voice sample scoring / selection ────────────────────────────────────────
-
-type VoiceSampleRow = {
-  id: string;
-  sample_text: string;
-  created_at?: string;
-};
-
-function truncateForPrompt(s: string, maxLen: number) {
-  const t = (s ?? "").trim();
-  if (!t) return "";
-  if (t.length <= maxLen) return t;
-  return t.slice(0, maxLen - 1).trimEnd() + "…";
-}
-
-function clamp01(n: number) {
-  if (!Number.isFinite(n)) return 0;
-  return Math.max(0, Math.min(1, n));
-}
-
-function tokenize(s: string) {
-  return (s || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9áéíóúüñçàèìòùâêîôûãõäëïöüß\s]/gi, " ")
-    .split(/\s+/)
-    .map((t) => t.trim())
-    .filter(Boolean)
-    .slice(0, 250);
-}
-
-function jaccard(a: Set<string>, b: Set<string>) {
-  if (a.size === 0 && b.size === 0) return 1;
-  let inter = 0;
-  for (const x of a) if (b.has(x)) inter += 1;
-  const union = a.size + b.size - inter;
-  return union === 0 ? 0 : inter / union;
-}
-
-function scoreLength(text: string) {
-  const L = (text || "").length;
-  if (!L) return 0;
-  const min = 80;
-  const idealLo = 110;
-  const idealHi = 420;
-  const hardMax = 700;
-  if (L < min) return clamp01(L / min) * 0.4;
-  if (L >= idealLo && L <= idealHi) return 1.0;
-  if (L > hardMax) return 0.2;
-  const decay = 1 - (L - idealHi) / (hardMax - idealHi);
-  return clamp01(decay);
-}
-
-function scoreSpecificity(text: string) {
-  const raw = text || "";
-  const tokens = tokenize(raw);
-  if (tokens.length === 0) return 0;
-  const unique = new Set(tokens);
-  const uniqRatio = unique.size / tokens.length;
-  const hasDigit = /\d/.test(raw);
-  const hasCapWord = /\b[A-Z][a-z]{2,}\b/.test(raw);
-  const hasDetailMarker = /\b(today|tonight|yesterday|weekend|morning|afternoon|evening)\b/i.test(raw);
-  const base = clamp01((uniqRatio - 0.35) / 0.35);
-  const bonus = (hasDigit ? 0.15 : 0) + (hasCapWord ? 0.12 : 0) + (hasDetailMarker ? 0.08 : 0);
-  return clamp01(base + bonus);
-}
-
-function scoreAntiTemplate(text: string) {
-  const t = (text || "").toLowerCase();
-  let penalty = 0;
-
-  const templatePhrases = [
-    "thank you for your feedback",
-    "we appreciate your feedback",
-    "we appreciate your thoughts",
-    "we appreciate your comments",
-    "thank you for taking the time",
-    "thank you for sharing",
-    "we strive",
-    "we will look into this",
-    "we take this seriously",
-    "please accept our apologies",
-    "valued customer",
-    "valued guest",
-    "did not meet expectations",
-    "fell short of",
-    "we understand your frustration",
-    "entendemos tu frustración",
-    "lamentamos profundamente",
-    "nos disculpamos sinceramente",
-    "agradecemos tu comentario",
-    "agradecemos tu opinión",
-    "tomaremos en cuenta",
-    "trabajamos para mejorar",
-    "agradecemos o seu comentário",
-    "agradecemos o seu feedback",
-    "agradecemos sua opinião",
-    "pedimos desculpas sinceramente",
-    "entendemos a sua frustração",
-    "entendemos sua frustração",
-    "levamos isso muito a sério",
-    "trabalharemos para melhorar",
-    "nos esforçamos",
-    "esperamos vê-lo em breve",
-    "esperamos recebê-lo novamente",
-  ];
-
-  for (const p of templatePhrases) {
-    if (t.includes(p)) penalty += 0.35;
-  }
-
-  if (/\b(book now|special offer|promo|discount|follow us|check out|visit our)\b/i.test(t)) penalty += 0.35;
-  if ((t.match(/[!¡]/g) ?? []).length >= 2) penalty += 0.15;
-
-  return clamp01(1 - penalty);
-}
-
-function scoreSample(cleanedText: string) {
-  const L = scoreLength(cleanedText);
-  const S = scoreSpecificity(cleanedText);
-  const A = scoreAntiTemplate(cleanedText);
-  const sent = splitSentences(cleanedText).length;
-  const sentScore = sent >= 1 && sent <= 3 ? 1 : sent === 4 ? 0.7 : 0.45;
-  return 0.48 * A + 0.26 * L + 0.18 * S + 0.08 * sentScore;
-}
-
-async function loadVoiceSamplesForOrg(opts?: {
-  maxItems?: number;
-  maxCharsEach?: number;
-  maxTotalChars?: number;
-}): Promise<{ samples: string[]; sampleIds: string[] }> {
-  const maxItems = opts?.maxItems ?? 5;
-  const maxCharsEach = opts?.maxCharsEach ?? 420;
-  const maxTotalChars = opts?.maxTotalChars ?? 1800;
-
+// Earlier reviews by the same reviewer. With a review_id the author fields
+// come from the stored review; pasted reviews fall back to the request body.
+async function loadReviewerHistoryForDraft(params: {
+  reviewId: string | null;
+  businessId: string | null;
+  reviewerName: string;
+  reviewerUrl: string | null;
+  rating: number;
+}): Promise<ReviewerHistory | null> {
   try {
     const { supabase, organizationId } = await requireOrgContext();
 
-    const { data, error } = await supabase
-      .from("org_voice_samples")
-      .select("id,sample_text,created_at")
-      .eq("organization_id", organizationId)
-      .order("created_at", { ascending: false })
-      .limit(50);
-
-    if (error) return { samples: [], sampleIds: [] };
-
-    const rows = (data ?? []) as VoiceSampleRow[];
-
-    const candidates = rows
-      .map((r) => {
-        const raw = cleanString(r.sample_text, 5000);
-        const clipped = truncateForPrompt(raw, maxCharsEach);
-        const normalized = collapseWhitespace(removeQuotations(stripEmojis(clipped)));
-        if (!normalized) return null;
-        const score = scoreSample(normalized);
-        const tokenSet = new Set(tokenize(normalized));
-        return { id: r.id, cleaned: normalized, score, tokenSet, created_at: r.created_at ?? "" };
-      })
-      .filter(Boolean) as Array<{
-        id: string;
-        cleaned: string;
-        score: number;
-        tokenSet: Set<string>;
-        created_at: string;
-      }>;
-
-    if (candidates.length === 0) return { samples: [], sampleIds: [] };
-
-    candidates.sort((a, b) => {
-      if (b.score !== a.score) return b.score - a.score;
-      return String(b.created_at).localeCompare(String(a.created_at));
-    });
-
-    const selected: Array<{ id: string; cleaned: string; tokenSet: Set<string> }> = [];
-    let total = 0;
-
-    for (const c of candidates) {
-      if (selected.length >= Math.max(1, Math.min(maxItems, 12))) break;
-      const nextLen = c.cleaned.length + 10;
-      if (total + nextLen > maxTotalChars) continue;
-      let tooSimilar = false;
-      for (const s of selected) {
-        if (jaccard(c.tokenSet, s.tokenSet) >= 0.78) { tooSimilar = true; break; }
+    let author_name: string | null = params.reviewerName || null;
+    let author_url: string | null = params.reviewerUrl;
+    let reviewDate: string | null = null;
+    let businessId = params.businessId;
+
+    if (params.reviewId && UUID_RE.test(params.reviewId)) {
+      const { data } = await supabase
+        .from("reviews")
+        .select("author_name, author_url, review_date, created_at, business_id")
+        .eq("id", params.reviewId)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+      if (data) {
+        author_name = data.author_name ?? author_name;
+        author_url = data.author_url ?? author_url;
+        reviewDate = data.review_date ?? data.created_at ?? null;
+        businessId = data.business_id ? String(data.business_id) : businessId;
       }
-      if (tooSimilar) continue;
-      selected.push({ id: c.id, cleaned: c.cleaned, tokenSet: c.tokenSet });
-      total += nextLen;
     }
 
-    return {
-      samples: selected.map((x) => x.cleaned),
-      sampleIds: selected.map((x) => x.id),
-    };
+    return await loadReviewerHistory({
+      supabase,
+      organizationId,
+      businessId,
+      reviewId: params.reviewId,
+      reviewDate,
+      rating: params.rating,
+      author_name,
+      author_url,
+    });
   } catch {
-    return { samples: [], sampleIds: [] };
+    return null;
   }
 }
 
-// ─── Voice helpers ────────────────────────────────────────────────────────────
-
-function normalizeVoice(v?: VoiceProfile | null) {
-  const vv = v ?? {};
-  return {
-    ...DEFAULT_VOICE,
-    ...vv,
-    things_to_avoid: Array.isArray(vv.things_to_avoid)
-      ? vv.things_to_avoid.map((x) => String(x)).filter(Boolean)
-      : DEFAULT_VOICE.things_to_avoid,
-    allow_exclamation:
-      typeof vv.allow_exclamation === "boolean"
-        ? vv.allow_exclamation
-        : DEFAULT_VOICE.allow_exclamation,
-  };
+// A/B prompt variant for this review; control when the registry is empty or unreadable.
+async function resolvePromptVariantForDraft(reviewHash: string): Promise<PromptVariantAssignment> {
+  try {
+    const { organizationId } = await requireOrgContext();
+    return await resolvePromptVariant({ organizationId, bucketKey: reviewHash });
+  } catch {
+    return { variant_id: CONTROL_VARIANT_ID, variant: null, reason: "control" };
+  }
 }
 
-function normalizeToneFromOrg(tone: string): VoiceProfile["tone"] {
-  const t = (tone || "").toLowerCase().trim();
-  if (t === "playful") return "playful";
-  if (t === "direct") return "direct";
-  if (t === "neutral") return "neutral";
-  if (t === "professional") return "neutral";
-  return "warm";
-}
+// ─── Request parsing ──────────────────────────────────────────────────────────
 
 function parseClientTone(v: unknown): VoiceProfile["tone"] | null {
   const t = cleanString(v, 24).toLowerCase().trim();
@@ -699,715 +169,73 @@ function parseClientRules(v: unknown): string[] {
     .slice(0, 12);
 }
 
-function clampToneForRating(tone: VoiceProfile["tone"], rating: number): VoiceProfile["tone"] {
-  if (!tone) return tone;
-  if (rating <= 2 && tone === "playful") return "neutral";
-  return tone;
-}
-
-function sentencePolicyForRating(rating: number, reviewWordCount?: number) {
-  const words = reviewWordCount ?? 0;
-  if (words === 0) return 2;   // star-only review: max 2 short sentences
-  if (words < 15) return 2;    // ultra-short ("Great place!"): max 2 short sentences
-  if (words > 120) return 4;
-  if (words > 60) return 3;
-  return 2;
-}
-
-// v10: Returns a human-readable length category for the debug response.
-// Helps verify the length-matching rule is firing correctly per review.
-function lengthCategoryForReview(reviewWordCount: number): "star_only" | "ultra_short" | "short" | "medium" | "long" {
-  if (reviewWordCount === 0) return "star_only";
-  if (reviewWordCount < 15) return "ultra_short";
-  if (reviewWordCount > 120) return "long";
-  if (reviewWordCount > 60) return "medium";
-  return "short";
-}
-
-// ─── SEO keyword helper ──────────────────────────────────────────────────────
-// Research basis: [R6] Widewail — Include business name + category keywords
-// naturally in positive (4–5 star) responses. Google bolds matched keywords
-// in review responses, improving local search visibility. For negative (1–2
-// star) responses, AVOID keywords to prevent Google from surfacing them.
-
-function buildSeoInstruction(params: {
-  rating: number;
-  business_name: string;
-  business_category?: string | null;
-}): string {
-  const { rating, business_name, business_category } = params;
-
-  if (rating >= 4) {
-    const categoryHint = business_category
-      ? ` and the type of experience ("${business_category}")`
-      : "";
-    return `SEO NOTE (for search visibility): Naturally mention the business name "${business_name}"${categoryHint} once in the reply. Do NOT force it — weave it in where it reads naturally. Example: "That's exactly what we aim for at ${business_name}." This helps Google surface the reply for local searches.`;
-  }
-
-  if (rating <= 2) {
-    return `SEO NOTE: Do NOT mention the business name, location, or category in this reply. Keep the response free of searchable keywords — you do not want Google to surface negative review responses in search results.`;
-  }
-
-  // 3-star: neutral — no special SEO instruction
-  return "";
-}
-
-// ─── Review style instruction ────────────────────────────────────────────────
-// Research basis: [R5] Subjective reviews → empathetic reply first; objective
-// reviews → detail-oriented reply. [R4] Integrated approach always wins.
-
-function buildStyleInstruction(reviewStyle: ReviewStyle, failureType: FailureType, rating: number): string {
-  if (rating >= 4) return ""; // style classification mainly matters for negative/mixed
-
-  if (reviewStyle === "subjective") {
-    return `REVIEW STYLE: This review is emotionally driven. Lead with genuine emotional acknowledgment before addressing any specifics. The reviewer needs to feel heard first.`;
-  }
-
-  if (reviewStyle === "objective") {
-    if (failureType === "procedural") {
-      return `REVIEW STYLE: This review is fact-based and specific. Match their precision — acknowledge the exact facts they cited, then take clear ownership. Rational cues outperform emotional ones for procedural complaints (ISR 2022).`;
-    }
-    return `REVIEW STYLE: This review is fact-based. Address their specific points directly and concretely. Show you read the details.`;
-  }
-
-  // integrated
-  return `REVIEW STYLE: This review mixes emotion and facts. Mirror that: acknowledge how they felt AND address the specific issue. Integrated responses (emotional + rational) are the most effective at rebuilding trust.`;
-}
-
-// ─── Structural scaffold (v10) ────────────────────────────────────────────────
-// When voice samples are absent or thin (<3), the model has no concrete pattern
-// to mirror and drifts toward generic AI-shaped replies. The scaffold gives
-// it a structural frame to fill in. When 3+ voice samples exist, the samples
-// themselves provide the pattern and the scaffold is suppressed.
-
-function buildStructuralScaffold(params: {
-  rating: number;
-  voice_sample_count: number;
-  is_star_only: boolean;
-  is_ultra_short: boolean;
-  has_reply_signature: boolean;
-}): string {
-  const { rating, voice_sample_count, is_star_only, is_ultra_short, has_reply_signature } = params;
-
-  // Suppress scaffold when 3+ voice samples exist; let the samples drive structure.
-  if (voice_sample_count >= 3) return "";
-
-  const signoffLine = has_reply_signature
-    ? "Sign-off line (the signature is appended automatically — do NOT include it in your reply text)."
-    : "Sign-off line is omitted (no signature configured).";
-
-  // Star-only and ultra-short get a tighter scaffold
-  if (is_star_only) {
-    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
-
-  Sentence 1: Brief warm acknowledgement of the rating. No invented details.
-  Sentence 2 (optional): One-line invitation back, generic and warm.
-  ${signoffLine}
-
-  This is a fallback frame because the owner has fewer than 3 voice samples loaded. Once they paste more samples, the system will rely on those patterns instead.`;
-  }
-
-  if (is_ultra_short) {
-    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
-
-  Sentence 1: Acknowledge the sentiment ("We're so glad..." / "Thank you for...") without inventing details.
-  Sentence 2: A brief grounded note tied to what the reviewer wrote, OR a return invitation.
-  ${signoffLine}`;
-  }
-
-  // 4-5 star: warmth + specific echo + close
-  if (rating >= 4) {
-    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
-
-  Sentence 1: Owner-voice acknowledgement that echoes a SPECIFIC detail from the review.
-    Pattern: "Hearing that [SPECIFIC_DETAIL] means a lot to us..." or
-             "Thank you so much for [SPECIFIC_OBSERVATION]..."
-  Sentence 2: A brief expansion or honest note tied to that detail. Stay grounded in the review.
-  Sentence 3 (optional, only for reviews ${rating === 4 ? "with a gentle gap to acknowledge" : "longer than ~60 words"}): A natural return invitation or warm close.
-  ${signoffLine}
-
-  This is a fallback frame because the owner has fewer than 3 voice samples loaded. The shape is honest, warm, and specific — but it is a default, not a fingerprint. Once more voice samples are loaded the system will mirror those patterns instead.`;
-  }
-
-  // 3-star: balanced acknowledgement
-  if (rating === 3) {
-    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
-
-  Sentence 1: Acknowledge BOTH what worked and what didn't — be specific about each.
-  Sentence 2: Brief ownership of the gap without over-explaining.
-  Sentence 3 (optional): Invitation to reach out directly to resolve, if the gap is actionable.
-  ${signoffLine}`;
-  }
-
-  // 1-2 star: accountability scaffold
-  return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
-
-  Sentence 1: Name the specific failure concretely, using the reviewer's own framing.
-  Sentence 2: One direct apology. One sentence of accountability. No defensiveness.
-  Sentence 3 (optional): Invite private resolution — provide a way to reach you directly.
-  ${signoffLine}
-
-  This is a fallback frame because the owner has fewer than 3 voice samples loaded. Calm, specific, accountable. Do not pad.`;
-}
-
-// ─── Prompt builder ───────────────────────────────────────────────────────────
-
-function buildPrompt(params: {
-  business_name: string;
-  rating: number;
-  owner_language: string;
-  review_text: string;
-  voice: ReturnType<typeof normalizeVoice>;
-  reply_signature: string | null;
-  client_tone?: VoiceProfile["tone"] | null;
-  client_rules?: string[];
-  voice_samples?: string[];
-  failure_type?: FailureType;
-  review_style?: ReviewStyle;
-  business_category?: string | null;
-  reviewer_name?: string;
-}) {
-  const {
-    business_name,
-    rating,
-    owner_language,
-    review_text,
-    voice,
-    reply_signature,
-    client_rules,
-    voice_samples,
-    failure_type = "mixed",
-    review_style = "integrated",
-    business_category = null,
-    reviewer_name = "",
-  } = params;
-
-  // v9: Whether voice samples are present drives several conditional blocks below.
-  const hasVoiceSamples = !!(voice_samples && voice_samples.length > 0);
-  const voiceSampleCount = voice_samples?.length ?? 0;
-
-  // v10: Compute structural scaffold (returns empty string if voice samples are sufficient).
-  const reviewWordCountInBuildPrompt = review_text.trim() ? review_text.trim().split(/\s+/).length : 0;
-  const scaffoldBlock = buildStructuralScaffold({
-    rating,
-    voice_sample_count: voiceSampleCount,
-    is_star_only: reviewWordCountInBuildPrompt === 0,
-    is_ultra_short: reviewWordCountInBuildPrompt > 0 && reviewWordCountInBuildPrompt < 15,
-    has_reply_signature: !!reply_signature,
-  });
-
-  const who =
-    voice.reply_as === "owner" || voice.reply_as === "manager"
-      ? 'Write in first-person singular ("I") as the owner.'
-      : 'Write in first-person plural ("we") as the business.';
-
-  const langInstruction = languageInstruction(owner_language);
-
-  const universalBanned = [
-    "thank you for your feedback", "we appreciate your feedback", "we appreciate your thoughts",
-    "we appreciate your comments", "thank you for taking the time", "thank you for sharing",
-    "we strive", "we will look into this", "we take this seriously", "please accept our apologies",
-    "valued customer", "valued guest", "did not meet expectations", "fell short of",
-    "we understand your frustration", "we hear you", "we recognize", "it's disappointing to hear",
-    "it's concerning to hear", "we'll keep that in mind", "we aim to", "we strive to",
-    "our goal is to", "we work hard to", "we regret", "we were busy", "short-staffed", "understaffed",
-    "i'd like to hear more about what happened", "tell us more about your experience",
-    "please share more details", "we'd love to learn more about what went wrong",
-    "gracias por tu comentario", "gracias por tu opinión", "agradecemos tu comentario",
-    "agradecemos tu opinión", "agradecemos tu feedback", "lamentamos profundamente",
-    "nos disculpamos sinceramente", "nos disculpamos profundamente", "entendemos tu frustración",
-    "entendemos tu decepción", "entiendo tu frustración", "entiendo la frustración",
-    "comprendo tu frustración", "comprendo la frustración", "tomamos esto muy en serio",
-    "tomaremos en cuenta", "trabajamos para mejorar", "nos esforzamos", "nuestro objetivo es",
-    "esperamos verte pronto", "esperamos que nos des otra oportunidad",
-    "agradecemos o seu comentário", "agradecemos o seu feedback", "lamentamos profundamente",
-    "pedimos desculpas sinceramente", "entendemos a sua frustração", "nos esforçamos",
-    "merci pour votre commentaire", "nous vous remercions", "nous nous excusons sincèrement",
-    "nous comprenons votre frustration", "nous nous efforçons",
-    "grazie per il tuo feedback", "ci scusiamo sinceramente", "ci impegniamo",
-    "danke für ihr feedback", "wir entschuldigen uns aufrichtig", "wir bemühen uns",
-    "that's on us", "thats on us", "that is on us", "it's on us", "its on us",
-  ].join(" | ");
-
-  const exclamationRule = voice.allow_exclamation
-    ? "Maximum 1 exclamation point, only if it is completely natural."
-    : "No exclamation points. Replace any with a period.";
-
-  const signatureRule = reply_signature ? `Close with: — ${reply_signature}` : "";
-
-  // v10: Voice samples now explicitly take priority over the rating-strategy block
-  // for criticism handling, tone, register, and structural patterns. The strategy
-  // is reference material; the samples are the owner's actual fingerprint.
-  const voiceSamplesBlock = hasVoiceSamples
-    ? `OWNER VOICE — these are real replies this owner has written. Your reply must feel like it could have been written by the same person.
-
-MIRROR these patterns from the samples:
-- The OPENING phrase pattern (first 3–5 words)
-- Sentence STRUCTURE and length
-- The CLOSING phrase pattern
-- Register, formality, warmth level
-- Specific phrases the owner uses repeatedly
-- HOW this owner handles criticism, gaps, or negative observations (whether they apologize first, acknowledge first, redirect, or take ownership)
-- HOW this owner expresses warmth (effusive vs restrained, brief vs detailed, formal vs conversational)
-
-Do NOT copy specific details (guest names, dishes, dates, staff names) from the samples themselves.
-DO reuse phrasing patterns. If the samples open with "Thank you so much for...", you should too.
-If the samples close with "We hope to welcome you back...", you should too.
-
-PRIORITY: These patterns OVERRIDE the rating-strategy block ENTIRELY when in conflict.
-That includes opener style, accountability framing, criticism handling, and closing patterns.
-The rating strategy describes what the literature says works on average; the samples describe
-what this specific owner actually does. The samples win every time.
-
-Samples:
-${(voice_samples ?? []).map((s, i) => `${i + 1}. ${s}`).join("\n\n")}`
-    : "";
-
-  const userRulesBlock =
-    client_rules && client_rules.length > 0
-      ? `OWNER-SPECIFIC RULES:\n${client_rules.map((r) => `- ${r}`).join("\n")}`
-      : "";
-
-  const reviewWordCount = review_text.trim().split(/\s+/).length;
-  const isStarOnly = reviewWordCount === 0 || !review_text.trim();
-  const isUltraShort = reviewWordCount > 0 && reviewWordCount < 15;
-  const maxSentences = isStarOnly || isUltraShort ? 2 : reviewWordCount > 120 ? 4 : reviewWordCount > 60 ? 3 : 2;
-
-  // v10: length guidance describes the TARGET shape of the reply,
-  // not just the cap. Prevents the model from producing 2 long sentences
-  // when the review is one line.
-  const lengthGuidance = isStarOnly
-    ? "The review is a star rating with no text. Reply with 1-2 short sentences only. A brief warm acknowledgement plus a return note. Do NOT pad. Do NOT invent details that weren't given."
-    : isUltraShort
-    ? `The review is ${reviewWordCount} words. Match that brevity. 1-2 short sentences. A one-line review gets a one-line reply.`
-    : reviewWordCount > 120
-    ? `The review is ${reviewWordCount} words (long, detailed). Up to 4 sentences. Engage with the specific points raised; do not summarise generically.`
-    : reviewWordCount > 60
-    ? `The review is ${reviewWordCount} words (medium length). 2-3 sentences. Match the level of detail they offered.`
-    : `The review is ${reviewWordCount} words (short). 2 sentences. Tight, specific, no padding.`;
-
-  // ── SEO instruction [R6] ──────────────────────────────────────────────────
-  const seoInstruction = buildSeoInstruction({ rating, business_name, business_category });
-
-  // v10 follow-up: When inviting private resolution on negative reviews,
-  // the model tends to produce paraphrased variants of "tell us more" —
-  // semantic violations of the rule that the reviewer already shared their
-  // experience. Give the model explicit approved alternatives and banned
-  // variants, plus permission to stay brief when no contact channel exists.
-  const privateResolutionGuidance = rating <= 2
-    ? `The reviewer already explained their experience. Asking them to re-explain — even softened — is a violation. The goal of inviting private resolution is to express openness to making it right, NOT to extract more information.
-
-BANNED — these phrasings ask the reviewer to re-explain, even when softened:
-  - "We'd like to understand what happened"
-  - "We'd genuinely like to understand what happened"
-  - "We'd love the opportunity to learn more"
-  - "If you'd be willing to share what went wrong"
-  - "Tell us more about what happened"
-  - "Please share more details"
-  - "We'd love to hear more about your experience"
-  - ANY variant that asks the reviewer to elaborate, share, explain, describe, or detail what occurred. The semantic intent of "extract more info" is banned regardless of surface phrasing.
-
-APPROVED — use one of these patterns or stay silent. Silence beats a softened banned variant:
-  - "We're sorry. We can do better."
-  - "That's not the experience we want anyone to have here."
-  - "If you're open to it, we'd welcome the chance to make this right." (offering to act, not asking for info)
-  - End the reply after the apology with NO invitation at all.
-
-DEFAULT WHEN UNCERTAIN: omit the invitation entirely. Brevity with dignity beats a softened version of a banned pattern. A short, accountable reply is stronger than a longer reply that asks the reviewer to do more work.`
-    : "";
-
-  // ── Review style instruction [R4, R5] ─────────────────────────────────────
-  const styleInstruction = buildStyleInstruction(review_style, failure_type, rating);
-
-  // v9: Anti-rote instructions are conditional on whether voice samples exist.
-  // When samples are present, we want the model to follow the sample opening
-  // pattern rather than fight it. Without samples, the original anti-template
-  // instructions apply.
-  const antiRoteBlock = hasVoiceSamples
-    ? `ANTI-REPETITION (critical for perceived authenticity):
-- Follow the opening pattern shown in the OWNER VOICE samples below. Do not invent a different opener style.
-- Within that pattern, vary the specific words so each reply feels one-off, not a template.
-- Research proves that rote/boilerplate responses DECREASE future review volume and LOWER
-  future ratings. Prospective customers can detect templated language instantly.`
-    : `ANTI-REPETITION (critical for perceived authenticity):
-- Do NOT start with "Thank you" or any greeting formula.
-- Vary your opening: start with a specific detail, an acknowledgment, a reflection, or
-  jump straight into the substance. Every reply must feel like a one-off, not a template.
-- Research proves that rote/boilerplate responses DECREASE future review volume and LOWER
-  future ratings. Prospective customers can detect templated language instantly.`;
-
-  // ── Dual-audience instruction [R3, R7] ─────────────────────────────────────
-  const dualAudienceBlock = `AUDIENCE AWARENESS (critical):
-This reply is public. It will be read by:
-1. The reviewer — who wants to feel heard and respected.
-2. Prospective customers — who are deciding whether to visit based on how you handle feedback.
-Write for BOTH audiences simultaneously. Prospective customers care most about:
-- Whether you sound like a real person (not a brand).
-- Whether you take accountability (for negatives) or show genuine warmth (for positives).
-- Whether this feels like a place run by people who care.`;
-
-  let ratingStrategy = "";
-  if (rating >= 5) {
-    // [R4] Integrated: acknowledge the feeling AND mirror the specific detail.
-    // [R6] SEO: naturally include business name.
-    // [R7] Return invitation drives repeat visits.
-    ratingStrategy = `5-STAR STRATEGY — Owner gratitude + specific acknowledgment + natural return invite
-- You are the OWNER, not a fellow guest. Do not describe the experience back to them.
-- Lead by acknowledging something SPECIFIC they noticed — a dish, a moment, a staff name, a detail.
-  Frame it as "we're so glad you noticed X" or "hearing that X resonated means a lot" —
-  NEVER as "X really does shine through" or "X is exactly what makes Y special" (peer voice).
-- Combine warmth (emotional) with the specific fact (rational) — integrated responses
-  are 5–10× more effective at driving recommendations than either alone.
-- Close with a natural, low-pressure invitation to return. Make it specific if possible:
-  "next time you're in the neighborhood" or reference a season/event — not a generic
-  "hope to see you again."
-- Do NOT be effusive or over-the-top. Genuine beats enthusiastic.
-- BAD opening (peer voice): "Hosny's passion for Egypt's history really does come through..."
-- GOOD opening (owner voice): "Hearing that Hosny's depth of knowledge stood out to you means a lot — that's exactly why we partner with Egyptologist guides."`;
-  } else if (rating === 4) {
-    // [R3] Full, customized response yields highest satisfaction.
-    // [R4] Integrated: acknowledge what worked AND the gap.
-    ratingStrategy = `4-STAR STRATEGY — Owner appreciation + specific acknowledgment + gentle gap
-- You are the OWNER, not a fellow guest. Do not describe the experience back to them or generalize about how the tour/meal/stay affects "people" or "guests."
-- OPEN with an explicit acknowledgment frame: "Hearing that...", "Knowing that you noticed...", "Reading your review...", "We're so glad you...", or "It means a lot that...".
-- Lead with appreciation SPECIFIC to what they enjoyed — frame it as receiving their observation, not describing what they observed.
-- If the review hints at something imperfect, acknowledge it briefly and naturally. Do not ignore it — prospective customers notice when owners dodge the gap.
-- Close simply and warmly with a specific detail, not a generic closer.
-- Do not over-promise improvements. Calm confidence reads better than defensiveness.
-- BAD opening (peer/marketing voice): "Hosny's knowledge really means something to us — it's exactly the kind of depth that makes a day in Memphis stick with people."
-- GOOD opening (owner voice): "Hearing that Hosny's depth landed with you means a lot. He's an Egyptologist for a reason, and we're glad you got to experience that firsthand alongside the carpet weaving stop."`;
-  } else if (rating === 3) {
-    // [R1] Mixed complaints need balanced rational + emotional approach.
-    // [R4] Integrated style.
-    // [R9] Invite private resolution for the negative parts.
-    ratingStrategy = `3-STAR STRATEGY — Balanced, calm ownership + specific acknowledgment
-- You are the OWNER, not a fellow guest. Open from the owner seat — acknowledge what they shared, do not describe the experience back to them.
-- Acknowledge the mixed experience without defensiveness.
-- Name BOTH what worked and what didn't — be specific about each. Prospective customers
-  reading this want to see that you heard the nuance, not that you gave a generic response.
-- Take responsibility for the gap without over-explaining or making excuses.
-- If the gap is actionable, invite them to reach out directly: provide a channel
-  (email or phone) so resolution happens privately.
-- Close with a calm, genuine note — not a marketing close.
-- VARY YOUR ACCOUNTABILITY LANGUAGE: Never use "that's on us." Rotate between
-  phrasing like "we missed the mark on...", "we should have done better with...",
-  "that wasn't good enough," or simply name the gap without a stock phrase.`;
-  } else if (rating === 2) {
-    // [R1] Procedural → rational cues. Interpersonal → emotional cues.
-    // [R5] Match the review style.
-    // [R9] Invite private resolution.
-    // [R6] No SEO keywords in negative responses.
-    ratingStrategy = `2-STAR STRATEGY — ${failure_type === "procedural" ? "Direct accountability (rational-first)" : failure_type === "interpersonal" ? "Emotional acknowledgment first, then accountability" : "Emotional acknowledgment + direct accountability"}
-- If the reviewer explicitly mentions price or value, acknowledge it directly.
-  "Extremely expensive" combined with food failures is a compounded grievance —
-  the price makes every failure worse and must not be ignored.
-- Do not invite the guest to "tell you more" or "share what happened" —
-  they already did. Instead invite direct contact to resolve it:
-  "Please reach out to us directly at [channel]" not "I'd like to hear more."
-${failure_type === "procedural" ? `- PROCEDURAL FAILURE: Lead with the specific operational fact that went wrong.
-  Name it concretely. Then one sentence of clean ownership. Rational precision
-  outperforms emotional language for process failures.` : ""}${failure_type === "interpersonal" ? `- INTERPERSONAL FAILURE: Lead with genuine emotional acknowledgment —
-  name how the interaction made them feel. Then one sentence of accountability.
-  Emotional acknowledgment outperforms rational language for interpersonal failures.` : ""}${failure_type === "mixed" ? `- MIXED FAILURE: Acknowledge both the emotional impact AND the operational
-  specifics. Lead with whichever the reviewer emphasized more.` : ""}
-- ONE apology maximum. Direct and human. Not corporate.
-- Invite private resolution in one short sentence.
-- The reply should sound like an owner genuinely disappointed in themselves.
-- VARY YOUR ACCOUNTABILITY LANGUAGE: Never use "that's on us." Rotate between
-  phrasing like "we missed the mark on...", "we should have done better with...",
-  "that wasn't good enough," or simply name the gap without a stock phrase.`;
-  } else {
-    // 1-star: [R1], [R5], [R9]
-    ratingStrategy = `1-STAR STRATEGY — Direct, calm, specific accountability
-- Open by naming the specific failure concretely — use the reviewer's own words.
-  If you write "your experience" you have failed.
-${failure_type === "procedural" ? `- PROCEDURAL FAILURE: Be precise and factual. Name the broken process or
-  promise. One clear sentence of ownership. Rational cues drive better outcomes.` : ""}${failure_type === "interpersonal" ? `- INTERPERSONAL FAILURE: Name how the interaction made them feel. Show you
-  understand the human impact, not just the operational failure.` : ""}${failure_type === "mixed" ? `- MIXED: Address both the emotional and operational dimensions.` : ""}
-- ONE apology. Direct and human. Just "I'm sorry." Not a corporate apology.
-- Do not be defensive. Do not explain why it happened. Do not promise systemic change.
-- Invite private resolution: provide a way to reach you directly.
-- Dignity in brevity. Short, specific, accountable replies outperform long ones.
-- Remember: prospective customers reading this want to see how you handle your worst
-  moments. Calm accountability is the strongest possible signal.
-- VARY YOUR ACCOUNTABILITY LANGUAGE: Never use "that's on us." Rotate between
-  phrasing like "we missed the mark," "we should have done better," "that wasn't
-  good enough," or simply name the failure directly without a stock phrase.`;
-  }
-
-  return `You are the owner of "${business_name}" — a hospitality business — writing a public Google review reply. This reply is visible to every future reader, not just the reviewer. It represents the face and character of the business.
-
-${who}
-
-${langInstruction}
-
-════════════════════════════════════════════════════
-  MANDATORY QUALITY STANDARDS — EVERY ONE MUST BE MET
-════════════════════════════════════════════════════
-
-STANDARD 1 — GRAMMAR: NON-NEGOTIABLE. ZERO TOLERANCE.
-
-Every contraction MUST have an apostrophe. Read your output before submitting.
-
-  ✓ CORRECT: we're / we'd / didn't / that's / you're / wasn't / it's / I'd / I'll / we've / can't / won't
-  ✗ BROKEN:  were  / wed  / didnt  / thats  / youre  / wasnt  / its  / Id  / Ill  / weve  / cant  / wont
-
-Every sentence MUST start with a capital letter. After every period, "!", or "?" followed by a space,
-the NEXT word must be capitalised.
-
-Every sentence must be grammatically complete: subject + verb + closing punctuation. No fragments.
-
-Scan your reply word by word before outputting. Fix any broken contraction or uncapitalised sentence start.
-
-STANDARD 2 — SPECIFICITY: PROVE YOU READ THE REVIEW.
-
-Reference at least ONE concrete detail from the review, and reference it EARLY (sentence 1 or 2).
-Pick something specific the reviewer mentioned: a dish, a staff name, a moment, a feature, a feeling.
-Echo it in your own words. Do not summarise in categories.
-
-  ✗ Generic: "We're sorry your experience didn't meet expectations."
-  ✓ Specific: "Having to re-request every order twice isn't what we're about."
-
-ECHO RULE (v10): When you reference a detail from the review, MIRROR what they said.
-Do not extrapolate, embellish, or editorialize ON TOP of their words.
-
-  Reviewer said: "The Pinot Noir was outstanding."
-  ✓ Good echo: "Hearing the Pinot Noir landed for you means a lot."
-  ✗ Over-reach: "We're so glad the Pinot Noir stood out — it's the wine that put our region on the map."
-    (The reviewer did not claim the wine put the region on the map. Do not invent that.)
-
-  Reviewer said: "Pricing is on the higher end."
-  ✓ Good echo: "You're right that the Valley isn't the cheapest wine region."
-  ✗ Over-reach: "We hear you on pricing — we're confident the region will continue to find its footing."
-    (The reviewer made a pricing observation; do not editorialize about the region's trajectory.)
-
-GROUNDING RULE (critical, strict): Use ONLY details and phrasings that appear in the review itself
-or the OWNER VOICE samples below. Do NOT add geographic context, historical facts, market commentary,
-forward-looking statements about the business or region, claims about industry trends, or anything
-else that didn't come directly from the review or samples.
-
-If the review mentions "the Valley", reference "the Valley". Do not add the broader region name.
-If the review names one wine or dish, do not name others.
-If the review describes one moment, do not invent surrounding moments.
-If the reviewer makes a critical observation, acknowledge it but do not editorialize on its causes
-or future trajectory — that is the owner inserting their own narrative on top of the reviewer's words.
-
-Your training-data knowledge of the area, industry, business, or region is NOT a source.
-The review and the voice samples are the only sources.
-
-STANDARD 3 — HUMAN VOICE. NOT A PRESS RELEASE.
-
-Write the way a thoughtful owner would — warm, direct, accountable. Not corporate. Not scripted.
-
-STANDARD 4 — LENGTH: MATCH THE REVIEW.
-
-${lengthGuidance}
-
-Hard cap: ${maxSentences} sentences. But length should TRACK the review, not default to the cap.
-Short review = short reply. Long review = appropriately detailed reply.
-A one-line review getting a 4-sentence reply reads as templated and overwrought.
-
-${reviewer_name ? `STANDARD 5 — REVIEWER NAME: USE IT, NATURALLY.
-
-The reviewer's name is "${reviewer_name}". Use it ONCE in the reply, typically in the opener, the way a real owner would when responding personally.
-
-  Good: "Thank you so much for your thoughtful review, Jonathan, we really appreciate you visiting."
-  Good: "Hi Verena, hearing that the wines landed for you means a lot."
-
-Rules:
-- Use the FIRST NAME ONLY when there is a clear first name (e.g., "Jonathan Royds" becomes "Jonathan", "Yannik Bayha" becomes "Yannik").
-- If the name is initials or a handle (e.g., "GB", "E. Stawinoga", "ABC123"), SKIP name use entirely. Do not force it.
-- If the name looks non-personal (e.g., "Local Guide", "Google User", "Anonymous"), SKIP name use.
-- Use the name ONCE. Do not repeat it. Repeating reads as obsequious.
-- For very short replies (1-2 sentences) the name can feel overly intimate. Exercise judgment. Skip if it feels forced.
-- If voice samples below consistently use or skip reviewer names, follow that sample pattern (samples override this rule).
-` : ""}
-
-════════════════════════════════════════════════════
-  AUDIENCE & ANTI-REPETITION
-════════════════════════════════════════════════════
-
-${dualAudienceBlock}
-
-${antiRoteBlock}
-
-════════════════════════════════════════════════
-  BANNED PHRASES — NEVER USE. NOT EVEN PARTIALLY.
-════════════════════════════════════════════════
-
-${universalBanned}
-
-${scaffoldBlock ? `════════════════════════════════════\n  STRUCTURAL SCAFFOLD\n════════════════════════════════════\n${scaffoldBlock}\n` : ""}════════════════════════════════════
-  RATING STRATEGY${voiceSampleCount >= 3 ? " (REFERENCE — voice samples take priority)" : ""}
-════════════════════════════════════
-${voiceSampleCount >= 3 ? `NOTE: The owner has ${voiceSampleCount} voice samples loaded below. Those samples show how this specific owner actually handles reviews — including critical or negative reviews. If the samples and the strategy below conflict, FOLLOW THE SAMPLES. The strategy below is reference material for the general shape; the samples are the owner's actual fingerprint.\n\n` : ""}${ratingStrategy}
-
-${styleInstruction ? `════════════════════════════════════\n  REVIEW STYLE ADAPTATION\n════════════════════════════════════\n${styleInstruction}\n` : ""}${seoInstruction ? `════════════════════════════════════\n  SEO\n════════════════════════════════════\n${seoInstruction}\n` : ""}${privateResolutionGuidance ? `════════════════════════════════════\n  PRIVATE RESOLUTION PHRASING\n════════════════════════════════════\n${privateResolutionGuidance}\n` : ""}════════════════════════════════════
-  HARD CONSTRAINTS
-════════════════════════════════════
-- ${exclamationRule}
-- No emojis.
-- Do not promise internal changes ("we'll retrain staff", "we've updated our procedures").
-- Do not mention AI, automation, or systems.
-- Do not offer refunds or compensation.
-- Do not use placeholder text like [name] or [business name].
-- Do not copy the reviewer's sentences — paraphrase and engage.
-- One apology only, regardless of rating.
-${rating <= 2 ? "- For negative reviews: invite private/offline resolution (email or phone). Do not litigate publicly.\n- Do not ask the reviewer to \"share more\" or \"tell us what happened\" — they already did." : ""}
-
-${voiceSamplesBlock ? voiceSamplesBlock + "\n\n" : ""}${userRulesBlock ? userRulesBlock + "\n\n" : ""}${signatureRule ? signatureRule + "\n\n" : ""}════════════════════════════════════
-  THE REVIEW (${rating}/5 stars)
-════════════════════════════════════
-${review_text}
-
-────────────────────────────────────
-Write the reply now.
-Complete sentences. Correct apostrophes. Every sentence capitalised. Specific. Human.
-Output ONLY the reply — no labels, no preamble, no explanation.`.trim();
-}
-
-// ─── Post-processing helpers ──────────────────────────────────────────────────
-
-function appendSignatureIfMissing(reply: string, signature: string | null) {
-  const sig = cleanString(signature, 80);
-  if (!sig) return reply;
-  const normalized = reply.toLowerCase();
-  const marker = `— ${sig}`.toLowerCase();
-  if (normalized.includes(marker)) return reply;
-  return `${reply.trim()}\n— ${sig}`.trim();
-}
-
-function stripTemplatedOpeners(text: string) {
-  let t = (text ?? "").trim();
-  const patterns: RegExp[] = [
-    /^\s*(thank you( so much)?( for (your|the) (review|feedback|kind words))?)[,!.]\s*/i,
-    /^\s*(gracias por (tu|su|el|la) (comentario|opinión|feedback|reseña))[,!.]\s*/i,
-    /^\s*(agradecemos (tu|su) (comentario|opinión|feedback))[,!.]\s*/i,
-    /^\s*(we (really )?appreciate( you| your)?( taking the time)?)[,!.]\s*/i,
-    /^\s*(it\s+(sounds|seems)\s+like)[,!.]?\s*/i,
-    /^\s*(we\s+regret(\s+that)?)[,!.]?\s*/i,
-  ];
-  for (const re of patterns) t = t.replace(re, "");
-  return t.trim();
-}
-
-// v10 follow-up: Strip ENTIRE sentences that contain a banned semantic pattern.
-// The existing .replace() approach in sanitizeCorporatePhrases strips just the
-// matched phrase, which leaves grammatical fragments when the banned phrase
-// is embedded in a longer sentence. This helper strips the whole sentence.
-function stripSentencesContainingPatterns(text: string, patterns: RegExp[]): string {
-  const sentences = splitSentences(text);
-  if (sentences.length === 0) return text;
-  const kept = sentences.filter((s) => !patterns.some((re) => re.test(s)));
-  return kept.length === 0 ? text : kept.join(" ").trim();
-}
-
-// v10 follow-up: paraphrased variants of "tell us more" / "share what happened"
-// — semantic violations of the rule that the reviewer already shared. These
-// patterns catch the most common improvisations the model produces in absence
-// of a concrete contact channel.
-const askForReExplanationPatterns: RegExp[] = [
-  /\b(i'd|we'd|i\s+would|we\s+would)\s+(genuinely\s+|truly\s+|really\s+|love\s+to\s+)?(like|love|appreciate|want)?\s*(to\s+)?(hear|learn|know|understand)\s+(more|what)\b/i,
-  /\b(if\s+you('d|'re|\s+would|\s+are))\s+(willing|open|happy|comfortable)\s+to\s+(share|tell|explain|describe)\b/i,
-  /\bwe\s+(would|'d)\s+(love|like|welcome|appreciate)\s+(the\s+)?(chance|opportunity)\s+to\s+(hear|learn|understand|know)\b/i,
-  /\b(please\s+)?(share|tell)\s+(us|me)\s+(more|further|the\s+details|what)\b/i,
-  /\bwe('d|\s+would)?\s+(genuinely\s+|truly\s+)?(like|love)\s+to\s+understand\s+what\s+happened\b/i,
+// ─── Candidate variants ───────────────────────────────────────────────────────
+// When the caller asks for alternatives, each extra candidate gets one short
+// steer appended to the prompt so the options differ in opener and length
+// rather than being near-copies. The first variant is the plain prompt.
+
+const MAX_CANDIDATES = 4;
+
+const CANDIDATE_VARIANTS: ReadonlyArray<{ id: string; hint: string }> = [
+  { id: "standard", hint: "" },
+  {
+    id: "shorter",
+    hint: "Make this version noticeably shorter — the fewest sentences that still feel complete and specific.",
+  },
+  {
+    id: "detail_first",
+    hint: "Open with a different detail from the review than the most obvious one, and use a different opening phrase than usual.",
+  },
+  {
+    id: "fuller",
+    hint: "Use the full sentence allowance, and close with a calm, natural line that is not a generic 'hope to see you again'.",
+  },
 ];
 
-function sanitizeCorporatePhrases(text: string) {
-  let t = text;
-  t = t.replace(/\b(it\s+(sounds|seems)\s+like)\b[, ]*/gi, "");
-  t = t.replace(/\bwe\s+aim\s+to\b/gi, "we want to");
-  t = t.replace(/\bwe\s+aim\s+for\b/gi, "we want");
-  t = t.replace(/\bwe\s+strive\s+to\b/gi, "we try to");
-  t = t.replace(/\bour\s+goal\s+is\s+to\b/gi, "we want to");
-  t = t.replace(/\bwe\s+work\s+hard\s+to\b/gi, "we try to");
-  t = t.replace(/\bwe\s+take\s+(your\s+)?(feedback|concerns|complaint|complaints|comments)\s+(very\s+)?seriously\b[, ]*/gi, "");
-  t = t.replace(/\bwe\s+regret(\s+that)?\b/gi, "sorry");
-  // [R2] Strip "tell me more" / "share more" patterns — reviewer already shared.
-  t = t.replace(/\b(i'd|we'd|i would|we would)\s+(like|love)\s+to\s+(hear|learn|know)\s+more\s+about\s+what\s+happened\b[.,!]?\s*/gi, "");
-  t = t.replace(/\bplease\s+(share|tell)\s+(us|me)\s+more\s+(about|details)\b[.,!]?\s*/gi, "");
-  // Strip repetitive accountability crutch: "that's on us" and variants
-  t = t.replace(/\bthat[''\u2019]?s on us\b[.,]?\s*/gi, "");
-  t = t.replace(/\bthat is on us\b[.,]?\s*/gi, "");
-  t = t.replace(/\bit[''\u2019]?s on us\b[.,]?\s*/gi, "");
-  t = t.replace(/\s+,/g, ",");
-  t = t.replace(/\s+\./g, ".");
-  t = t.replace(/\s+!/g, "!");
-  t = t.replace(/\s+\?/g, "?");
-  t = collapseWhitespace(t);
-  return t.trim();
-}
-
-function reviewerMentionsCapacityExcuse(reviewText: string) {
-  return /(busy|overwhelmed|understaffed|under-staffed|short[-\s]?staffed|slammed|swamped|packed|crowded)/i.test(reviewText ?? "");
-}
-
-function removeExcuseSentencesIfInvented(params: {
-  reply: string;
-  rating: number;
-  review_text: string;
-}) {
-  const { reply, rating, review_text } = params;
-  const t = (reply ?? "").trim();
-  if (!t) return t;
-  if (rating > 2) return t;
-  if (reviewerMentionsCapacityExcuse(review_text)) return t;
-
-  const excuseRe = /\b(busy|overwhelmed|understaffed|under-staffed|short[-\s]?staffed|slammed|swamped)\b/i;
-  const parts = splitSentences(t);
-  const kept = parts.filter((s) => !excuseRe.test(s));
-  return kept.length === 0 ? t : kept.join(" ").trim();
-}
-
-function removeDuplicateApology(reply: string, rating: number): string {
-  if (rating > 3) return reply;
-  const parts = splitSentences(reply);
-  if (parts.length <= 1) return reply;
-
-  const apologyRe = /\b(sorry|apologize|apolog|lo siento|disculp|perd[oó]n|lament|sinto muito|desculp|désolé|mi dispiace|es tut mir leid)\b/i;
-
-  let apologyCount = 0;
-  const kept = parts.filter((s) => {
-    if (apologyRe.test(s)) {
-      apologyCount++;
-      return apologyCount <= 1;
-    }
-    return true;
+function parseCandidateCount(v: unknown) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return 1;
+  return Math.min(Math.max(Math.round(n), 1), MAX_CANDIDATES);
+}
+
+// ─── Streaming response ───────────────────────────────────────────────────────
+// With { stream: true } the route answers with server-sent events:
+//   event: delta    data: { text }                    raw model tokens (pre-clean)
+//   event: cleaned  data: { ok: true, reply, meta… }  same body as the JSON response
+//   event: error    data: { ok: false, error, status }
+// Validation / subscription failures still come back as plain JSON errors
+// before the stream starts.
+
+type DraftOutcome = { payload: Record<string, unknown>; status: number };
+
+function streamDraftResponse(run: (onDelta: (text: string) => void) => Promise<DraftOutcome>) {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      try {
+        const outcome = await run((text) => send("delta", { text }));
+        send(outcome.status === 200 ? "cleaned" : "error", { ...outcome.payload, status: outcome.status });
+      } catch (err: unknown) {
+        console.error("DRAFT-REPLY STREAM ERROR:", err);
+        const message = err instanceof Error ? err.message : "Server error drafting reply";
+        send("error", { ok: false, error: message, status: 500 });
+      } finally {
+        controller.close();
+      }
+    },
   });
 
-  return kept.join(" ").trim() || reply;
-}
-
-const REPETITIVE_CLOSER_RE =
-  /\b(hope to see you again|hope to see you soon|see you again soon|come back soon|visit us again|we look forward to (?:seeing|welcoming) you|esperamos verte pronto|esperamos verte de nuevo|esperamos que (nos |)visites de nuevo)\b/i;
-
-function stripRepetitiveClosers(reply: string, rating: number) {
-  if (rating < 4) return { text: reply, stripped: false };
-  const parts = splitSentences(reply);
-  if (parts.length <= 2) return { text: reply, stripped: false };
-  const kept = parts.filter((s) => !REPETITIVE_CLOSER_RE.test(s));
-  if (kept.length === parts.length) return { text: reply, stripped: false };
-  const out = kept.join(" ").trim();
-  return { text: out || reply, stripped: true };
-}
-
-// ─── SEO keyword stripping for negative responses [R6] ──────────────────────
-// For 1–2 star replies, remove any accidental inclusion of the business name.
-// Widewail's proven strategy: don't give Google keywords to associate with
-// negative content.
-
-function stripBusinessNameFromNegativeReply(reply: string, rating: number, businessName: string): string {
-  if (rating > 2) return reply;
-  if (!businessName) return reply;
-
-  const escaped = businessName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  const nameRe = new RegExp(`\\b${escaped}\\b`, "gi");
-  let t = reply.replace(nameRe, "").trim();
-  t = collapseWhitespace(t);
-  // Clean up orphaned punctuation from removal
-  t = t.replace(/\s+,/g, ",").replace(/\s+\./g, ".").replace(/^\s*[,.]/, "").trim();
-  return t;
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 }
 
 // ─── Route handler ────────────────────────────────────────────────────────────
@@ -1427,23 +255,32 @@ export async function POST(req: Request) {
       );
     }
 
-    const body = await req.json().catch(() => null);
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+
+    const review_text = cleanString(body.review_text, 5000);
+    const business_name = cleanString(body.business_name, 200);
+    const rating = parseRating(body.rating);
+    const debug = !!body.debug || process.env.NODE_ENV !== "production";
+    const candidateCount = parseCandidateCount(body.candidates);
+    const stream = body.stream === true;
+    // Skip the draft cache and always call the model ("Draft another option")
+    const regenerate = body.regenerate === true;
 
-    const review_text = cleanString((body as any)?.review_text, 5000);
-    const business_name = cleanString((body as any)?.business_name, 200);
-    const reviewer_language = cleanLanguage((body as any)?.language);
-    const rating = parseRating((body as any)?.rating);
-    const debug = !!(body as any)?.debug || process.env.NODE_ENV !== "production";
+    // Individual post-clean stages can be switched off for debugging only
+    // (and by a prompt variant, below).
+    const debugPostCleanDisabled = debug ? parsePostCleanStageIds(body.post_clean_disable) : [];
 
     // v10 Change #1: reviewer name from Google review displayName (frontend passes from selectedReview.authorName).
     // Optional. Gracefully handled if absent or empty.
-    const reviewer_name = cleanString((body as any)?.reviewer_name, 100);
+    const reviewer_name = cleanString(body.reviewer_name, 100);
+    const reviewer_url = cleanString(body.reviewer_url, 500) || null;
 
-    const review_id = cleanString((body as any)?.review_id, 80) || null;
-    const google_review_id = cleanString((body as any)?.google_review_id, 140) || null;
+    const review_id = cleanString(body.review_id, 80) || null;
+    const business_id = cleanString(body.business_id, 80) || null;
+    const google_review_id = cleanString(body.google_review_id, 140) || null;
     const google_location_id =
-      cleanString((body as any)?.google_location_id, 240) ||
-      cleanString((body as any)?.location_id, 240) ||
+      cleanString(body.google_location_id, 240) ||
+      cleanString(body.location_id, 240) ||
       null;
 
     if (!review_text) {
@@ -1456,57 +293,80 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "rating must be 1–5" }, { status: 400 });
     }
 
-    const clientToneRaw = parseClientTone((body as any)?.tone);
+    const clientToneRaw = parseClientTone(body.tone);
     const clientTone = clientToneRaw ? clampToneForRating(clientToneRaw, rating) : null;
-    const clientRules = parseClientRules((body as any)?.rules);
-
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { ok: false, error: "Missing ANTHROPIC_API_KEY in server env. Add in Vercel and redeploy." },
-        { status: 500 }
-      );
-    }
+    const clientRules = parseClientRules(body.rules);
 
-    const orgSettings = await loadOrgReplySettings();
+    const draftContext = await loadDraftContext({
+      supabase: sub.supabase,
+      organizationId: sub.organizationId,
+      businessId: business_id,
+      voiceSamples: { maxItems: 5, maxCharsEach: 420, maxTotalChars: 1800 },
+    });
+    const orgSettings = draftContext.settings;
     const owner_language = orgSettings.owner_language || "en";
+    const languageDecision = await resolveDraftReplyLanguage({
+      supabase: sub.supabase,
+      organizationId: sub.organizationId,
+      ownerLanguage: owner_language,
+      businessId: business_id,
+      reviewId: review_id,
+      clientLanguage: cleanString(body.language, 20) || null,
+      clientExplicit: body.language_explicit === true,
+    });
+    const reviewer_language = languageDecision.reply_language;
     const org_reply_tone_raw = orgSettings.reply_tone || "warm";
     const reply_signature = orgSettings.reply_signature ?? null;
     const business_category = orgSettings.business_category ?? null;
+    const categoryPack = draftContext.category_pack;
 
-    const { samples: voiceSamples, sampleIds: voiceSampleIds } = await loadVoiceSamplesForOrg({
-      maxItems: 5,
-      maxCharsEach: 420,
-      maxTotalChars: 1800,
-    });
+    const voiceSamples = draftContext.voice_samples;
+    const voiceSampleIds = draftContext.voice_sample_ids;
 
     // v9: Used for conditional prompt blocks and conditional post-processing.
     const hasVoiceSamples = voiceSamples.length > 0;
 
-    const orgVoice = await loadVoiceProfile();
-    const merged = { ...orgVoice, ...(((body as any)?.voice ?? {}) as any) };
+    const orgVoice = draftContext.voice_profile;
+    const bodyVoice = body.voice && typeof body.voice === "object" ? (body.voice as VoiceProfile) : {};
+    const merged: VoiceProfile = { ...orgVoice, ...bodyVoice };
     const toneFromOrg = normalizeToneFromOrg(org_reply_tone_raw);
 
     const voice = normalizeVoice({
       ...merged,
-      tone: (merged as any)?.tone ? (merged as any).tone : toneFromOrg,
+      tone: merged.tone ? merged.tone : toneFromOrg,
     });
 
+    const reviewHash = sha256Hex(review_text);
+    const promptVariant = await resolvePromptVariantForDraft(reviewHash);
+    const postCleanDisabled = Array.from(
+      new Set([...debugPostCleanDisabled, ...(promptVariant.variant?.post_clean_disable ?? [])])
+    );
+
     // ── Classifiers ──────────────────────────────────────────────────────────
-    const failureType = classifyFailureType(review_text);
+    const reviewTopics = classifyReviewTopics(review_text, rating);
+    const failureType = classifyFailureType(review_text, reviewTopics.aspects);
     const reviewStyle = classifyReviewStyle(review_text);
+    const sensitive = detectSensitiveContent(review_text);
+    const escalation: ReviewEscalation | null = sensitive.sensitive
+      ? await recordEscalation(review_id, sensitive.reasons)
+      : null;
+    const factSheet = draftContext.fact_sheet;
+    const relevantFacts = selectRelevantFacts(factSheet, review_text);
+    const reviewerHistory = await loadReviewerHistoryForDraft({
+      reviewId: review_id,
+      businessId: business_id,
+      reviewerName: reviewer_name,
+      reviewerUrl: reviewer_url,
+      rating,
+    });
 
     // v10: compute review word count here so it can be exposed in debug output
     const reviewWordCount = review_text.trim() ? review_text.trim().split(/\s+/).length : 0;
-    const maxSentences = (() => {
-      if (reviewWordCount === 0 || reviewWordCount < 15) return 2;
-      if (reviewWordCount > 120) return 4;
-      if (reviewWordCount > 60) return 3;
-      return 2;
-    })();
+    const maxSentences = sentencePolicyForRating(rating, reviewWordCount);
 
     const temperature = rating <= 2 ? 0.15 : 0.25;
-    const model = "claude-haiku-4-5-20251001";
+    const provider = resolveLlmProvider(orgSettings.llm_provider);
+    const model = defaultModelFor(provider);
 
     const prompt = buildPrompt({
       business_name,
@@ -1521,203 +381,398 @@ export async function POST(req: Request) {
       failure_type: failureType,
       review_style: reviewStyle,
       business_category: business_category,
+      category_pack: categoryPack,
+      review_topics: reviewTopics.aspects,
+      sensitive_reasons: sensitive.reasons,
+      reviewer_history: reviewerHistory,
+      fact_sheet: { facts: relevantFacts, never_mention: factSheet.never_mention },
       reviewer_name,
+      scaffold: promptVariant.variant?.scaffold ?? true,
+      extra_bans: promptVariant.variant?.extra_bans ?? [],
     });
 
-    // v9: System prompt rule #5 is now conditional on whether voice samples
-    // are loaded. Without samples, the original anti-greeting rule applies.
-    // With samples, we tell the model to mirror the sample patterns instead.
-    const rule5 = hasVoiceSamples
-      ? "5. If owner voice samples are provided in the user message, mirror their opening and closing patterns. Otherwise, vary your openings — avoid defaulting to 'Thank you' generic templates."
-      : "5. NEVER start with 'Thank you' or any greeting formula. Start with substance.";
-
-    const upstream = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+    const system =
+      promptVariant.variant?.system_prompt ??
+      buildSystemPrompt({
+        has_voice_samples: hasVoiceSamples,
+        has_fact_sheet: relevantFacts.length > 0,
+      });
+
+    // §4.3 grounding: where a name, number or date in the reply may come from
+    const groundingSources = [
+      business_name,
+      reviewer_name,
+      reply_signature,
+      ...voiceSamples,
+      ...relevantFacts.map((f) => `${f.label} ${f.value}`),
+    ];
+
+    const promptFingerprint = sha256Hex(
+      [
+        // Control keeps the pre-registry fingerprint
+        promptVariant.variant ? `${PROMPT_VERSION}+${promptVariant.variant_id}` : PROMPT_VERSION,
+        BANNED_LIST_VERSION,
+        POST_CLEAN_VERSION,
+        categoryPack?.id ?? "no-pack",
         model,
-        temperature,
-        max_tokens: 300,
-        system: [
-          "You are a professional hospitality reputation manager writing Google review replies for a white-glove concierge service.",
-          "You write as the business owner — specific, warm, accountable, and never corporate.",
-          "PERSPECTIVE LOCK (most important rule, applies to ALL ratings): You are the OWNER thanking or responding to YOUR guest. You were NOT on the tour, at the table, in the room, or part of the experience they describe. THREE things are FORBIDDEN: (1) Narrating the guest's experience back to them, e.g. 'Hosny's passion really comes through when he's walking you past the pyramids' (testimonial voice). (2) Generalizing about how the experience affects 'people' or 'guests' or 'visitors,' e.g. 'the kind of depth that makes a day in Memphis stick with people' (peer-recommending-to-other-customers voice). (3) Marketing-style descriptions of what makes your business good, e.g. 'it's exactly the kind of authenticity that defines us' (brochure voice). Instead, OPEN with an explicit acknowledgment of the guest's observation — phrases like 'Hearing that...', 'Knowing that you noticed...', 'Reading your review reminded us...', 'We're so glad you...', 'It means a lot that you...'. Reference details from their review only as things you're glad they noticed or sorry they encountered — never as things you're describing or observing.",
-          "ECHO DISCIPLINE (v10): When you reference a specific point the reviewer made, MIRROR what they said. Do not extrapolate, embellish, or add your own commentary on top of their observation. If they made a pricing critique, acknowledge the pricing point — do NOT add forward-looking statements about the region, industry, or business trajectory. If they praised a wine, acknowledge the wine — do NOT claim the wine 'put the region on the map' or similar embellishments. Your knowledge of the business, industry, or region is NOT a source. The review text is the only source of facts.",
-          "CRITICAL GRAMMAR RULES that must never be violated:",
-          "1. Every contraction must have an apostrophe: we're / didn't / that's / you're / I'd / I'll / won't / can't / we've.",
-          "2. Every sentence must begin with a capital letter. After every period, '! ', or '? ', the next word is capitalised.",
-          "3. Every sentence must be grammatically complete — subject, verb, end punctuation. No fragments.",
-          "4. Output ONLY the reply text. No labels, no preamble, no explanation.",
-          rule5,
-          "6. This reply is read by prospective customers deciding whether to visit. Write accordingly.",
-          "7. Never use the phrase 'that's on us' or 'it's on us' — vary accountability language every time.",
-        ].join(" "),
-        messages: [{ role: "user", content: prompt }],
-      }),
-      cache: "no-store",
-    });
+        String(temperature),
+        voiceSampleIds.join(","),
+      ].join("|")
+    );
 
-    const rawText = await upstream.text();
-    let upstreamJson: any = null;
-    try { upstreamJson = JSON.parse(rawText); } catch { }
+    // Draft cache (lib/draftCache.ts). Debug runs that switch off post-clean
+    // stages never read it.
+    const cacheKey: DraftCacheKey = {
+      reviewHash,
+      promptFingerprint,
+      inputHash: sha256Hex([system, prompt, String(candidateCount), postCleanDisabled.join(",")].join("\n---\n")),
+    };
+    const readCache = DRAFT_CACHE_ENABLED && !regenerate && debugPostCleanDisabled.length === 0;
 
-    if (!upstream.ok) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: "Anthropic upstream error",
-          upstreamStatus: upstream.status,
-          upstreamBody: upstreamJson ?? rawText,
-        },
-        { status: 502 }
-      );
-    }
+    // Meta shared by fresh and cached drafts
+    const replyMeta = {
+      owner_language,
+      reviewer_language,
+      reply_language_source: languageDecision.source,
+      reply_language_reason: languageDecision.reason,
+      reply_tone: org_reply_tone_raw,
+      reply_signature: reply_signature ?? null,
+      google_location_id: google_location_id ?? null,
+      failure_type: failureType,
+      review_style: reviewStyle,
+      // Copy / post stay locked until a manager acknowledges (POST /api/reviews/escalation)
+      escalation: sensitive.sensitive
+        ? {
+          reasons: sensitive.reasons,
+          labels: sensitive.reasons.map((r) => SENSITIVE_REASON_LABELS[r]),
+          recorded: !!escalation,
+          acknowledged_at: escalation?.acknowledged_at ?? null,
+        }
+        : null,
+      reviewer_history: reviewerHistory
+        ? {
+          previous_count: reviewerHistory.previous_count,
+          last_rating: reviewerHistory.last_rating,
+          last_replied: reviewerHistory.last_replied,
+          rating_change: reviewerHistory.rating_change,
+        }
+        : null,
+    };
 
-    const contentRaw = upstreamJson?.content?.[0]?.text ?? "";
-    let content = safeTrimReply(String(contentRaw));
-
-    // ── Post-processing pipeline (order matters) ──────────────────────────────
-    content = removeQuotations(content);
-    content = stripEmojis(content);
-    content = collapseWhitespace(content);
-
-    // v9: Only strip templated openers when no voice samples are loaded.
-    // When voice samples are present, the customer's actual voice may legitimately
-    // open with "Thank you so much for..." — stripping that would break voice
-    // fidelity. The prompt already instructs the model to follow the sample
-    // pattern, so we trust the model output here.
-    if (!hasVoiceSamples) {
-      content = stripTemplatedOpeners(content);
-    }
+    // Generation → post-clean → ranking → audit, shared by the JSON and the
+    // streaming response. `onDelta` receives the raw tokens of the first candidate.
+    const finishDraft = async (onDelta?: (text: string) => void): Promise<DraftOutcome> => {
+      const respond = (payload: Record<string, unknown>, init: { status: number }) => ({
+        payload,
+        status: init.status,
+      });
+
+      if (readCache) {
+        try {
+          const { supabase, organizationId } = await requireOrgContext();
+          const cached = await readDraftCache({ supabase, organizationId, key: cacheKey });
+          if (cached) {
+            return respond(
+              {
+                ok: true,
+                reply: cached.reply,
+                ...(candidateCount > 1 && cached.candidates ? { candidates: cached.candidates } : {}),
+                meta: {
+                  ...replyMeta,
+                  cached: true,
+                  cached_at: cached.created_at,
+                  ...(debug
+                    ? {
+                      enforcement: {
+                        prompt_version: PROMPT_VERSION,
+                        prompt_variant: promptVariant.variant_id,
+                        prompt_fingerprint: promptFingerprint,
+                        cache: "hit",
+                      },
+                    }
+                    : {}),
+                },
+              },
+              { status: 200 }
+            );
+          }
+        } catch (e: unknown) {
+          console.warn("draft cache read failed:", e instanceof Error ? e.message : e);
+        }
+      }
 
-    content = sanitizeCorporatePhrases(content);
+      const variants = CANDIDATE_VARIANTS.slice(0, candidateCount);
+
+      // ── Usage quota (lib/llmUsage.ts) — cache hits above don't count ──
+      // Every candidate is its own model call; the contract retry re-checks below.
+      const quotaPlan = usagePlanForStatus(sub.status);
+      const quota = await checkLlmQuota({
+        supabase: sub.supabase,
+        organizationId: sub.organizationId,
+        plan: quotaPlan,
+        calls: variants.length,
+      });
+      if (!quota.ok) return respond(quotaExceededBody(quota), { status: 429 });
+
+      // One model call + post-clean + contract check. `note` is appended to the
+      // prompt (variant steer or contract fix); `streamTo` streams raw tokens.
+      const draftOnce = async (variantId: string, note: string, streamTo?: (text: string) => void) => {
+        const llmReq = {
+          task: "draft" as const,
+          system,
+          prompt: note ? `${prompt}\n\n${note}` : prompt,
+          temperature,
+          maxTokens: 300,
+          model,
+        };
+
+        const llm = streamTo
+          ? await streamText(llmReq, { provider, onDelta: streamTo })
+          : await generateText(llmReq, { provider });
+        await recordLlmUsage({ supabase: sub.supabase, organizationId: sub.organizationId, task: "draft", result: llm });
+
+        // ── Post-processing pipeline (lib/draftPostClean — order matters) ──
+        const postClean = runPostClean(
+          safeTrimReply(llm.text),
+          {
+            rating,
+            review_text,
+            business_name,
+            has_voice_samples: hasVoiceSamples,
+            allow_exclamation: voice.allow_exclamation,
+            max_sentences: maxSentences,
+            reply_signature,
+          },
+          { disabled: postCleanDisabled, trace: debug }
+        );
+
+        const contract = validateReplyAgainstContract(postClean.text, review_text, rating, {
+          reply_as: voice.reply_as,
+          allow_exclamation: voice.allow_exclamation,
+          has_voice_samples: hasVoiceSamples,
+          sensitive: sensitive.sensitive,
+          grounding: {
+            sources: groundingSources,
+            never_mention: factSheet.never_mention,
+            // German capitalizes every noun
+            proper_nouns: !owner_language.toLowerCase().startsWith("de"),
+          },
+        });
+
+        return { variant: variantId, text: postClean.text, llm, postClean, contract };
+      };
 
-    // v10 follow-up: strip whole sentences asking the reviewer to re-explain.
-    // Only for negative reviews where this pattern is most damaging.
-    if (rating <= 2) {
-      content = stripSentencesContainingPatterns(content, askForReExplanationPatterns);
-    }
+      // Each candidate is an independent call. Variants only change the prompt;
+      // temperature stays on the contract value (§8). Only the first (standard)
+      // candidate is streamed to the client.
+      const attempts = await Promise.allSettled(
+        variants.map((variant, i) =>
+          draftOnce(variant.id, variant.hint ? `VARIANT NOTE: ${variant.hint}` : "", i === 0 ? onDelta : undefined)
+        )
+      );
 
-    content = fixApostrophes(content);                // universal apostrophe repair
-    content = fixSentenceCapitalisation(content);     // capitalisation repair — first pass
-    content = removeExcuseSentencesIfInvented({ reply: content, rating, review_text });
-    content = removeDuplicateApology(content, rating);
-
-    const closerStrip = stripRepetitiveClosers(content, rating);
-    content = closerStrip.text;
-
-    // [R6] Strip business name from negative replies for SEO protection
-    content = stripBusinessNameFromNegativeReply(content, rating, business_name);
-
-    content = limitSentences(content, sentencePolicyForRating(rating, reviewWordCount));
-
-    // Exclamation enforcement
-    if (!voice.allow_exclamation) {
-      content = content.replace(/[!¡]/g, ".");
-      content = content.replace(/\.\.+/g, ".").trim();
-    } else {
-      const exCount = (content.match(/[!¡]/g) ?? []).length;
-      if (exCount > 1) {
-        let seen = 0;
-        content = content.replace(/[!¡]/g, (m) => { seen += 1; return seen === 1 ? m : "."; });
-        content = content.replace(/\.\.+/g, ".").trim();
+      const drafted = attempts.flatMap((a) => (a.status === "fulfilled" ? [a.value] : []));
+
+      if (drafted.length === 0) {
+        const e = (attempts[0] as PromiseRejectedResult).reason;
+        if (e instanceof LlmError) {
+          return respond(
+            {
+              ok: false,
+              code: e.code,
+              error: e.message,
+              provider: e.provider,
+              upstreamStatus: e.upstreamStatus,
+              upstreamBody: e.upstreamBody,
+            },
+            { status: e.httpStatus }
+          );
+        }
+        throw e;
       }
-    }
 
-    // Final capitalisation pass — catches anything introduced by prior steps
-    content = fixSentenceCapitalisation(content);
-
-    content = appendSignatureIfMissing(content, reply_signature);
-
-    if (!content) {
-      return NextResponse.json(
-        { ok: false, error: "No reply content returned from Anthropic", upstreamBody: upstreamJson },
-        { status: 502 }
-      );
-    }
+      for (const a of attempts) {
+        if (a.status === "rejected") {
+          console.warn("draft-reply candidate failed:", a.reason?.message ?? a.reason);
+        }
+      }
 
-    // ── Audit log (best-effort) ───────────────────────────────────────────────
-    try {
-      const { supabase, organizationId } = await requireOrgContext();
-      const reviewHash = sha256Hex(review_text);
-      const promptFingerprint = sha256Hex(
-        [PROMPT_VERSION, BANNED_LIST_VERSION, POST_CLEAN_VERSION, model, String(temperature), voiceSampleIds.join(",")].join("|")
+      // Contract-compliant candidates first, then by heuristic score.
+      const ranked = rankCandidates(drafted, { maxSentences: maxSentences }).sort(
+        (x, y) => Number(y.contract.ok) - Number(x.contract.ok)
       );
+      let best = ranked[0] ?? null;
 
-      const auditRow: any = {
-        organization_id: organizationId,
-        rating: Math.round(Number(rating)),
-        review_hash: reviewHash,
-        prompt_fingerprint: promptFingerprint,
-        prompt_version: PROMPT_VERSION,
-        banned_list_version: BANNED_LIST_VERSION,
-        model,
-        temperature,
-        voice_sample_count: voiceSampleIds.length,
-        voice_sample_ids: voiceSampleIds,
-        review_id: review_id,
-        google_review_id: google_review_id,
-        google_location_id: google_location_id,
-        location_id: google_location_id,
-        failure_type: failureType,
-        review_style: reviewStyle,
-      };
-
-      if (
-        auditRow.review_id &&
-        !/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(auditRow.review_id)
-      ) {
-        auditRow.review_id = null;
+      if (!best || !best.text) {
+        return respond(
+          { ok: false, code: "LLM_EMPTY_RESPONSE", error: "No reply content returned from the model" },
+          { status: 502 }
+        );
       }
 
-      const { error: auditErr } = await supabase.from("draft_audit_logs").insert(auditRow);
-      if (auditErr) console.warn("draft_audit_logs insert failed:", auditErr.message);
-    } catch (e: any) {
-      console.warn("draft_audit_logs insert exception:", e?.message ?? e);
-    }
+      // ── Prompt-contract check: one corrective regeneration on hard violations ──
+      const initialContract = best.contract;
+      let contractRegenerated = false;
+
+      const retryQuota = initialContract.ok
+        ? null
+        : await checkLlmQuota({
+          supabase: sub.supabase,
+          organizationId: sub.organizationId,
+          plan: quotaPlan,
+        });
+
+      if (retryQuota && !retryQuota.ok) {
+        console.warn("draft-reply contract regeneration skipped: LLM quota used up");
+      } else if (!initialContract.ok) {
+        contractRegenerated = true;
+        try {
+          const retry = await draftOnce("contract_retry", contractFixInstruction(initialContract));
+          if (retry.text && retry.contract.hard < initialContract.hard) {
+            best = { ...retry, score: scoreCandidate(retry.text, maxSentences) };
+          }
+        } catch (e: unknown) {
+          console.warn("draft-reply contract regeneration failed:", e instanceof Error ? e.message : e);
+        }
+      }
 
-    return NextResponse.json(
-      {
-        ok: true,
-        reply: content,
-        meta: {
-          owner_language,
-          reviewer_language,
-          reply_tone: org_reply_tone_raw,
-          reply_signature: reply_signature ?? null,
-          google_location_id: google_location_id ?? null,
+      const finalCandidates = best === ranked[0] ? ranked : [best, ...ranked];
+      const content = best.text;
+      const { llm, postClean, contract } = best;
+
+      // ── Audit log (best-effort) ───────────────────────────────────────────────
+      try {
+        const { supabase, organizationId } = await requireOrgContext();
+
+        const auditRow: Record<string, unknown> = {
+          organization_id: organizationId,
+          rating: Math.round(Number(rating)),
+          review_hash: reviewHash,
+          prompt_fingerprint: promptFingerprint,
+          prompt_version: PROMPT_VERSION,
+          prompt_variant: promptVariant.variant_id,
+          banned_list_version: BANNED_LIST_VERSION,
+          category_pack: categoryPack?.id ?? null,
+          provider,
+          model,
+          temperature,
+          voice_sample_count: voiceSampleIds.length,
+          voice_sample_ids: voiceSampleIds,
+          candidate_count: drafted.length,
+          contract_version: PROMPT_CONTRACT_VERSION,
+          contract_violations: contract.violations,
+          contract_regenerated: contractRegenerated,
+          contract_initial_violations: contractRegenerated ? initialContract.violations : null,
+          review_id: review_id && UUID_RE.test(review_id) ? review_id : null,
+          google_review_id: google_review_id,
+          google_location_id: google_location_id,
+          location_id: google_location_id,
           failure_type: failureType,
           review_style: reviewStyle,
-          ...(debug
-            ? {
-              enforcement: {
-                prompt_version: PROMPT_VERSION,
-                post_clean_version: POST_CLEAN_VERSION,
-                closer_stripped: closerStrip.stripped,
-                business_category: business_category,
-                has_voice_samples: hasVoiceSamples,
-                review_word_count: reviewWordCount,
-                length_category: lengthCategoryForReview(reviewWordCount),
-                max_sentences: maxSentences,
-                voice_sample_count: voiceSamples.length,
-                scaffold_applied: voiceSamples.length < 3,
-                echo_discipline_active: true,
-                rating_strategy_demoted: voiceSamples.length >= 3,
-                private_resolution_guidance_active: rating <= 2,
-                reviewer_name_provided: !!reviewer_name,
-                reviewer_name_value: reviewer_name || null,
-              },
-            }
-            : {}),
+          topic_tags: reviewTopics.tags,
+          sensitive_reasons: sensitive.reasons,
+          reviewer_previous_count: reviewerHistory?.previous_count ?? 0,
+        };
+
+        const { error: auditErr } = await supabase.from("draft_audit_logs").insert(auditRow);
+        if (auditErr) console.warn("draft_audit_logs insert failed:", auditErr.message);
+      } catch (e: unknown) {
+        console.warn("draft_audit_logs insert exception:", e instanceof Error ? e.message : e);
+      }
+
+      const candidatesOut =
+        candidateCount > 1
+          ? finalCandidates.map((c, i) => ({
+            rank: i + 1,
+            variant: c.variant,
+            reply: c.text,
+            score: c.score,
+            contract_ok: c.contract.ok,
+          }))
+          : null;
+
+      // ── Draft cache write (best-effort; regenerated drafts replace the entry) ──
+      let cacheWarning: string | null = null;
+      if (DRAFT_CACHE_ENABLED && debugPostCleanDisabled.length === 0) {
+        try {
+          const { supabase, organizationId } = await requireOrgContext();
+          cacheWarning = await writeDraftCache({
+            supabase,
+            organizationId,
+            key: cacheKey,
+            reply: content,
+            candidates: candidatesOut,
+          });
+          if (cacheWarning) console.warn("draft cache write failed:", cacheWarning);
+        } catch (e: unknown) {
+          cacheWarning = e instanceof Error ? e.message : "draft cache write failed";
+        }
+      }
+
+      return respond(
+        {
+          ok: true,
+          reply: content,
+          ...(candidatesOut ? { candidates: candidatesOut } : {}),
+          meta: {
+            ...replyMeta,
+            cached: false,
+            ...(debug
+              ? {
+                enforcement: {
+                  prompt_version: PROMPT_VERSION,
+                  prompt_variant: promptVariant.variant_id,
+                  prompt_variant_reason: promptVariant.reason,
+                  prompt_fingerprint: promptFingerprint,
+                  cache: regenerate ? "bypassed" : readCache ? "miss" : "off",
+                  cache_warning: cacheWarning,
+                  provider: llm.provider,
+                  model: llm.model,
+                  post_clean_version: POST_CLEAN_VERSION,
+                  closer_stripped: postClean.changed.includes("strip_repetitive_closers"),
+                  post_clean_changed: postClean.changed,
+                  post_clean_disabled: postCleanDisabled,
+                  post_clean_trace: postClean.trace,
+                  streamed: !!onDelta,
+                  candidates_requested: candidateCount,
+                  candidates_returned: finalCandidates.length,
+                  selected_variant: best.variant,
+                  contract: contract,
+                  contract_regenerated: contractRegenerated,
+                  contract_initial_violations: contractRegenerated ? initialContract.violations : null,
+                  business_category: business_category,
+                  category_pack: categoryPack?.id ?? null,
+                  review_topics: reviewTopics,
+                  sensitive: sensitive,
+                  fact_sheet_facts_used: relevantFacts.map((f) => f.label),
+                  fact_sheet_facts_total: factSheet.facts.length,
+                  has_voice_samples: hasVoiceSamples,
+                  review_word_count: reviewWordCount,
+                  length_category: lengthCategoryForReview(reviewWordCount),
+                  max_sentences: maxSentences,
+                  voice_sample_count: voiceSamples.length,
+                  scaffold_applied: voiceSamples.length < 3,
+                  echo_discipline_active: true,
+                  rating_strategy_demoted: voiceSamples.length >= 3,
+                  private_resolution_guidance_active: rating <= 2,
+                  reviewer_name_provided: !!reviewer_name,
+                  reviewer_name_value: reviewer_name || null,
+                },
+              }
+              : {}),
+          },
         },
-      },
-      { status: 200 }
-    );
-  } catch (err: any) {
+        { status: 200 }
+      );
+    };
+
+    if (!stream) {
+      const outcome = await finishDraft();
+      return NextResponse.json(outcome.payload, { status: outcome.status });
+    }
+
+    return streamDraftResponse(finishDraft);
+  } catch (err: unknown) {
     console.error("DRAFT-REPLY ERROR:", err);
     const message = err instanceof Error ? err.message : "Server error drafting reply";
     return NextResponse.json({ ok: false, error: message }, { status: 500 });
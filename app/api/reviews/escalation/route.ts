@@ -0,0 +1,88 @@
+// app/api/reviews/escalation/route.ts
+//
+// Sensitive-review escalations (lib/sensitiveContent.ts).
+// GET  ?review_id=  — the escalation recorded on the review, if any.
+// POST { review_id, note? } — a manager acknowledges the flag; unlocks copy / post
+//      for that review (see /api/reviews/replies).
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { SENSITIVE_REASON_LABELS, loadReviewEscalation, type ReviewEscalation } from "@/lib/sensitiveContent";
+
+function cleanString(v: unknown, maxLen = 80) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+function withLabels(escalation: ReviewEscalation | null) {
+  if (!escalation) return null;
+  return { ...escalation, labels: escalation.reasons.map((r) => SENSITIVE_REASON_LABELS[r]) };
+}
+
+export async function GET(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const reviewId = cleanString(new URL(req.url).searchParams.get("review_id"));
+
+    if (!reviewId) {
+      return NextResponse.json({ ok: false, error: "review_id is required" }, { status: 400 });
+    }
+
+    const escalation = await loadReviewEscalation({ supabase, organizationId, reviewId });
+    return NextResponse.json({ ok: true, escalation: withLabels(escalation) });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to load escalation";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, organizationId, userId } = await requireOrgContext();
+    const body: Record<string, unknown> = await req.json().catch(() => ({}));
+
+    const reviewId = cleanString(body?.review_id);
+    const note = cleanString(body?.note, 500) || null;
+
+    if (!reviewId) {
+      return NextResponse.json({ ok: false, error: "review_id is required" }, { status: 400 });
+    }
+
+    const escalation = await loadReviewEscalation({ supabase, organizationId, reviewId });
+    if (!escalation) {
+      return NextResponse.json({ ok: false, error: "This review has no open escalation." }, { status: 404 });
+    }
+    if (escalation.acknowledged_at) {
+      return NextResponse.json({ ok: true, escalation: withLabels(escalation) });
+    }
+
+    const acknowledgedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("reviews")
+      .update({
+        escalation_acknowledged_at: acknowledgedAt,
+        escalation_acknowledged_by: userId,
+        escalation_note: note,
+      })
+      .eq("id", reviewId)
+      .eq("organization_id", organizationId);
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      escalation: withLabels({
+        ...escalation,
+        acknowledged_at: acknowledgedAt,
+        acknowledged_by: userId,
+        note,
+      }),
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to acknowledge escalation";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
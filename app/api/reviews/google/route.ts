@@ -3,6 +3,12 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { requireOrgContext } from "@/lib/orgServer";
+import {
+  isMissingLanguageConfidenceColumn,
+  reviewLanguageColumns,
+  withoutLanguageConfidence,
+} from "@/lib/languageDetect";
+import { isMissingTopicColumns, reviewTopicColumns, withoutReviewTopics } from "@/lib/reviewTopics";
 import { requireActiveSubscription } from "@/lib/subscriptionServer";
 import crypto from "crypto";
 
@@ -36,6 +42,10 @@ type ReviewUpsertRow = {
   review_text: string | null;
   review_date: string | null;
   detected_language: string | null;
+  // Optional columns — dropped on retry when they don't exist yet
+  detected_language_confidence?: number;
+  topics?: unknown;
+  topic_tags?: string[];
   raw: unknown;
 };
 
@@ -306,7 +316,9 @@ export async function GET(req: Request) {
       rating: typeof r.rating === "number" ? r.rating : null,
       review_text: r.text ?? null,
       review_date: r.time ? new Date(r.time * 1000).toISOString() : null,
-      detected_language: r.language ?? null,
+      // Places `language` is only a hint — it can be the request locale, not the review's
+      ...reviewLanguageColumns(r.text ?? null, r.language),
+      ...reviewTopicColumns(r.text ?? null, typeof r.rating === "number" ? r.rating : null),
       raw: r,
     }));
 
@@ -339,11 +351,26 @@ export async function GET(req: Request) {
     const updated = rows.length - inserted;
 
     // 6b) Upsert
-    const { data: savedPreview, error: saveErr } = await supabase
-      .from("reviews")
-      .upsert(rows, { onConflict: "organization_id,source,google_review_id" })
-      .select("id, source, google_review_id, rating, author_name, review_date, detected_language, google_location_id")
-      .limit(10);
+    const upsertReviews = (upsertRows: ReviewUpsertRow[]) =>
+      supabase
+        .from("reviews")
+        .upsert(upsertRows, { onConflict: "organization_id,source,google_review_id" })
+        .select("id, source, google_review_id, rating, author_name, review_date, detected_language, google_location_id")
+        .limit(10);
+    let withConfidence = true;
+    let withTopics = true;
+    const optionalColumns = (list: ReviewUpsertRow[]) => {
+      const withoutMissing = withConfidence ? list : withoutLanguageConfidence(list);
+      return withTopics ? withoutMissing : withoutReviewTopics(withoutMissing);
+    };
+    let { data: savedPreview, error: saveErr } = await upsertReviews(rows);
+    // One retry per missing optional column
+    for (;;) {
+      if (withConfidence && isMissingLanguageConfidenceColumn(saveErr)) withConfidence = false;
+      else if (withTopics && isMissingTopicColumns(saveErr)) withTopics = false;
+      else break;
+      ({ data: savedPreview, error: saveErr } = await upsertReviews(optionalColumns(rows)));
+    }
 
     if (saveErr) {
       await upsertSyncStatus({
@@ -0,0 +1,76 @@
+// app/api/reviews/languages/route.ts
+//
+// Backfill for reviews.detected_language (lib/languageDetect.ts).
+// POST { limit?, after_id?, force? } — re-detects one page of the org's
+//      reviews, ordered by id. Without `force` only rows missing a language or
+//      a confidence are touched. Call again with `next_after_id` until `done`.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { LANGUAGE_DETECTOR_VERSION, persistReviewLanguages } from "@/lib/languageDetect";
+
+function parseLimit(v: unknown) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n <= 0) return 200;
+  return Math.min(Math.round(n), 500);
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const limit = parseLimit(body.limit);
+    const afterId = typeof body.after_id === "string" ? body.after_id.trim().slice(0, 80) : "";
+    const force = body.force === true;
+
+    const page = async (missingColumn: "detected_language_confidence" | "detected_language" | null) => {
+      let query = supabase
+        .from("reviews")
+        .select("id, review_text, raw")
+        .eq("organization_id", organizationId)
+        .order("id", { ascending: true })
+        .limit(limit);
+      if (afterId) query = query.gt("id", afterId);
+      if (missingColumn) query = query.is(missingColumn, null);
+      return await query;
+    };
+
+    // Rows without a confidence yet; falls back to rows without a language
+    // when the confidence column doesn't exist.
+    let result = await page(force ? null : "detected_language_confidence");
+    if (result.error && !force) result = await page("detected_language");
+    if (result.error) {
+      return NextResponse.json({ ok: false, error: result.error.message }, { status: 500 });
+    }
+
+    const rows = result.data ?? [];
+    const saved = await persistReviewLanguages({
+      supabase,
+      organizationId,
+      reviews: rows.map((r) => {
+        const raw = (r.raw ?? {}) as Record<string, unknown>;
+        const hint = raw.languageCode ?? raw.language;
+        return {
+          id: String(r.id),
+          review_text: r.review_text ?? null,
+          hint: typeof hint === "string" ? hint : null,
+        };
+      }),
+    });
+
+    return NextResponse.json({
+      ok: true,
+      detector_version: LANGUAGE_DETECTOR_VERSION,
+      processed: rows.length,
+      updated: saved.updated,
+      failed: saved.failed,
+      warning: saved.error,
+      next_after_id: rows.length > 0 ? String(rows[rows.length - 1].id) : null,
+      done: rows.length < limit,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Language backfill failed";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
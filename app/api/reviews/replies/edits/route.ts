@@ -0,0 +1,155 @@
+// app/api/reviews/replies/edits/route.ts
+//
+// Owner-edit feedback loop. Each copied/posted reply stores a diff between the
+// model draft and what the owner actually used (review_replies.edit_diff, see
+// lib/replyDiff.ts).
+//
+// GET  — aggregate view: how much owners edit, by rating, and the phrases they
+//        remove most often.
+// POST — add the most-removed phrases to org_voice_profile.things_to_avoid so
+//        the next drafts stop using them. Body: { min_count?, limit?, phrases? }
+//        (phrases: explicit subset picked from the GET view).
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { aggregateRemovedPhrases, type ReplyEditDiff } from "@/lib/replyDiff";
+
+type OrgSupabase = Awaited<ReturnType<typeof requireOrgContext>>["supabase"];
+
+const RECENT_LIMIT = 500;
+const MAX_THINGS_TO_AVOID = 40;
+
+type EditRow = {
+  rating: number | null;
+  edit_ratio: number | null;
+  edit_diff: ReplyEditDiff | null;
+};
+
+function clampInt(v: unknown, min: number, max: number, fallback: number) {
+  const n = Math.round(Number(v));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+async function loadEditRows(supabase: OrgSupabase, organizationId: string): Promise<EditRow[]> {
+  const { data, error } = await supabase
+    .from("review_replies")
+    .select("rating,edit_ratio,edit_diff")
+    .eq("organization_id", organizationId)
+    .in("status", ["copied", "posted"])
+    .not("edit_diff", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(RECENT_LIMIT);
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as EditRow[];
+}
+
+function summarize(rows: EditRow[], opts: { minCount: number; limit: number }) {
+  const ratios = rows.map((r) => Number(r.edit_ratio ?? r.edit_diff?.edit_ratio ?? 0));
+  const avg = (xs: number[]) =>
+    xs.length === 0 ? 0 : Math.round((xs.reduce((a, b) => a + b, 0) / xs.length) * 1000) / 1000;
+
+  const by_rating: Record<string, { replies: number; edited: number; avg_edit_ratio: number }> = {};
+  for (let star = 1; star <= 5; star++) {
+    const idx = rows.map((r, i) => (Number(r.rating) === star ? i : -1)).filter((i) => i >= 0);
+    const starRatios = idx.map((i) => ratios[i]);
+    by_rating[String(star)] = {
+      replies: idx.length,
+      edited: starRatios.filter((x) => x > 0).length,
+      avg_edit_ratio: avg(starRatios),
+    };
+  }
+
+  return {
+    summary: {
+      replies: rows.length,
+      edited: ratios.filter((x) => x > 0).length,
+      avg_edit_ratio: avg(ratios),
+    },
+    by_rating,
+    removed_phrases: aggregateRemovedPhrases(
+      rows.map((r) => ({ removed_phrases: r.edit_diff?.removed_phrases ?? [] })),
+      { minCount: opts.minCount, limit: opts.limit }
+    ),
+  };
+}
+
+/**
+ * GET /api/reviews/replies/edits?min_count=2&limit=25
+ */
+export async function GET(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const url = new URL(req.url);
+    const minCount = clampInt(url.searchParams.get("min_count"), 1, 100, 2);
+    const limit = clampInt(url.searchParams.get("limit"), 1, 100, 25);
+
+    const rows = await loadEditRows(supabase, organizationId);
+    return NextResponse.json({ ok: true, ...summarize(rows, { minCount, limit }) }, { status: 200 });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to load edits";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/reviews/replies/edits
+ * Merges frequently removed phrases into the voice profile's things_to_avoid.
+ */
+export async function POST(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body: Record<string, unknown> = await req.json().catch(() => ({}));
+
+    const minCount = clampInt(body?.min_count, 2, 100, 3);
+    const limit = clampInt(body?.limit, 1, 20, 10);
+    const picked: string[] = Array.isArray(body?.phrases)
+      ? body.phrases.map((p: unknown) => String(p ?? "").toLowerCase().trim()).filter(Boolean)
+      : [];
+
+    const rows = await loadEditRows(supabase, organizationId);
+    const candidates = summarize(rows, { minCount, limit: 100 }).removed_phrases.map((p) => p.phrase);
+
+    // Only phrases that actually come from edits can be applied through this endpoint.
+    const toAdd = (picked.length > 0 ? candidates.filter((p) => picked.includes(p)) : candidates).slice(0, limit);
+
+    const { data: profile, error: loadErr } = await supabase
+      .from("org_voice_profile")
+      .select("things_to_avoid")
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+
+    if (loadErr) {
+      return NextResponse.json({ ok: false, error: loadErr.message }, { status: 500 });
+    }
+
+    const existing: string[] = Array.isArray(profile?.things_to_avoid)
+      ? profile.things_to_avoid.map((x: unknown) => String(x)).filter(Boolean)
+      : [];
+    const existingLower = new Set(existing.map((x) => x.toLowerCase()));
+    const added = toAdd.filter((p) => !existingLower.has(p));
+
+    if (added.length === 0) {
+      return NextResponse.json({ ok: true, added: [], things_to_avoid: existing }, { status: 200 });
+    }
+
+    // Newest additions win when the list is full.
+    const things_to_avoid = [...existing, ...added].slice(-MAX_THINGS_TO_AVOID);
+
+    const { error: saveErr } = await supabase
+      .from("org_voice_profile")
+      .upsert({ organization_id: organizationId, things_to_avoid }, { onConflict: "organization_id" });
+
+    if (saveErr) {
+      return NextResponse.json({ ok: false, error: saveErr.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true, added, things_to_avoid }, { status: 200 });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to apply edits";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
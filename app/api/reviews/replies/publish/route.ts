@@ -0,0 +1,339 @@
+// app/api/reviews/replies/publish/route.ts
+//
+// Publishes a reply record to Google Business Profile (lib/gbpReplies.ts).
+// Only ever runs on an explicit user click: the request must carry
+// `confirm: true` and the exact text the user confirmed, which is posted
+// unchanged.
+//
+// POST   { reply_id, text, confirm: true, replace_existing?, draft_text?, final_text? }
+//        — posts (or edits) the reply on Google, marks the record posted and
+//        stores Google's updateTime. The edit diff compares owner-language
+//        texts: draft_text / final_text as on copy, else `text` when the reply
+//        is in the owner language (no diff otherwise). Posted replies go to the
+//        voice sample inbox like ones marked posted by hand. An owner reply already on Google that
+//        wasn't posted from here is only replaced with replace_existing. The
+//        review is read from Google first, because reviews.raw is only as
+//        fresh as the last sync; if that read fails for any reason but a 404,
+//        the synced copy decides (and may miss a reply added since).
+// DELETE { reply_id, confirm: true }
+//        — removes the reply from Google; the record goes back to draft.
+// GBP failures use the lib/gbpErrors.ts codes (same as gbp/reviews/sync).
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireOrgContext } from "@/lib/orgServer";
+import { SENSITIVE_REASON_LABELS, loadReviewEscalation } from "@/lib/sensitiveContent";
+import { computeReplyEditDiff } from "@/lib/replyDiff";
+import { suggestVoiceSampleFromReply } from "@/lib/voiceSamples";
+import { normalizeLanguageTag } from "@/lib/replyLanguage";
+import type { GbpError } from "@/lib/gbpErrors";
+import {
+  GBP_REPLY_MAX_LEN,
+  deleteGbpReply,
+  getGbpReviewReply,
+  gbpReviewName,
+  loadGbpAccessToken,
+  putGbpReply,
+} from "@/lib/gbpReplies";
+
+type OrgSupabase = Awaited<ReturnType<typeof requireOrgContext>>["supabase"];
+
+function cleanString(v: unknown, maxLen = 4000) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+/** Same base language, so es / es-ES compare equal (as in DraftReplyPanel) */
+function sameLanguage(a: unknown, b: unknown) {
+  const base = (v: unknown) => normalizeLanguageTag(v)?.split("-")[0] ?? null;
+  return !!base(a) && base(a) === base(b);
+}
+
+function gbpErrorResponse(e: GbpError) {
+  return NextResponse.json({ ok: false, code: e.code, error: e.error, detail: e.detail }, { status: e.status });
+}
+
+function confirmationRequired() {
+  return NextResponse.json(
+    {
+      ok: false,
+      code: "CONFIRMATION_REQUIRED",
+      error: "Posting to Google needs an explicit confirmation.",
+    },
+    { status: 400 }
+  );
+}
+
+/** The reply record and its GBP review, or the error response to return. */
+async function loadPublishTarget(params: { supabase: OrgSupabase; organizationId: string; replyId: string }) {
+  const { supabase, organizationId, replyId } = params;
+
+  const { data: reply, error } = await supabase
+    .from("review_replies")
+    .select("id, review_id, draft_text, owner_language, reviewer_language, rating, status, google_location_id")
+    .eq("id", replyId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+  if (error) return { response: NextResponse.json({ ok: false, error: error.message }, { status: 500 }) };
+  if (!reply?.review_id) {
+    return { response: NextResponse.json({ ok: false, error: "Reply record not found" }, { status: 404 }) };
+  }
+
+  const { data: review, error: revErr } = await supabase
+    .from("reviews")
+    .select("id, source, google_review_id, google_location_id, raw")
+    .eq("id", reply.review_id)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+  if (revErr) return { response: NextResponse.json({ ok: false, error: revErr.message }, { status: 500 }) };
+
+  const reviewName = review?.source === "google_gbp" ? gbpReviewName(review) : null;
+  if (!review || !reviewName) {
+    return {
+      response: NextResponse.json(
+        {
+          ok: false,
+          code: "NOT_A_GBP_REVIEW",
+          error: "Only reviews synced from Google Business Profile can be posted directly. Copy the reply instead.",
+        },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // When this record was last published (optional column)
+  let publishedUpdateTime: string | null = null;
+  try {
+    const { data: pub, error: pubErr } = await supabase
+      .from("review_replies")
+      .select("google_reply_update_time")
+      .eq("id", replyId)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+    if (!pubErr && pub?.google_reply_update_time) publishedUpdateTime = String(pub.google_reply_update_time);
+  } catch {
+    // Column does not exist yet
+  }
+
+  const raw = review.raw && typeof review.raw === "object" ? (review.raw as Record<string, unknown>) : {};
+
+  return {
+    reply,
+    review,
+    reviewName,
+    publishedUpdateTime,
+    // As of the last sync — POST checks Google before replacing anything
+    syncedHasGoogleReply: !!raw.reviewReply,
+  };
+}
+
+/** Best-effort write of the optional publish columns. Returns a warning instead of failing. */
+async function savePublishColumns(params: {
+  supabase: OrgSupabase;
+  organizationId: string;
+  replyId: string;
+  updates: Record<string, unknown>;
+}): Promise<string | null> {
+  try {
+    const { error } = await params.supabase
+      .from("review_replies")
+      .update(params.updates)
+      .eq("id", params.replyId)
+      .eq("organization_id", params.organizationId);
+    return error ? error.message : null;
+  } catch (e: unknown) {
+    return e instanceof Error ? e.message : "publish details not saved";
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+
+    const replyId = cleanString(body.reply_id, 80);
+    const text = cleanString(body.text, GBP_REPLY_MAX_LEN + 1);
+    // Owner-language model draft and final text, when the posted text is a translation
+    const bodyDraftText = cleanString(body.draft_text, 5000);
+    const bodyFinalText = cleanString(body.final_text, 5000);
+
+    if (body.confirm !== true) return confirmationRequired();
+    if (!replyId) {
+      return NextResponse.json({ ok: false, error: "reply_id is required" }, { status: 400 });
+    }
+    if (!text) {
+      return NextResponse.json({ ok: false, error: "text is required" }, { status: 400 });
+    }
+    if (text.length > GBP_REPLY_MAX_LEN) {
+      return NextResponse.json(
+        { ok: false, error: `Google replies are limited to ${GBP_REPLY_MAX_LEN} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const target = await loadPublishTarget({ supabase, organizationId, replyId });
+    if ("response" in target) return target.response;
+    const { reply, review, reviewName, publishedUpdateTime } = target;
+
+    // Sensitive reviews stay locked until a manager acknowledges (same rule as copy / posted)
+    const escalation = await loadReviewEscalation({ supabase, organizationId, reviewId: String(review.id) });
+    if (escalation && !escalation.acknowledged_at) {
+      return NextResponse.json(
+        {
+          ok: false,
+          code: "ESCALATION_UNACKNOWLEDGED",
+          error: "This review was flagged as sensitive. A manager needs to acknowledge it before the reply is used.",
+          reasons: escalation.reasons,
+          labels: escalation.reasons.map((r) => SENSITIVE_REASON_LABELS[r]),
+        },
+        { status: 409 }
+      );
+    }
+
+    const token = await loadGbpAccessToken(organizationId);
+    if (!token.ok) return gbpErrorResponse(token.error);
+
+    const live = await getGbpReviewReply({ accessToken: token.accessToken, reviewName });
+    if (!live.ok && live.error.code === "REVIEW_NOT_FOUND") return gbpErrorResponse(live.error);
+    if (!live.ok) console.warn("live GBP reply check failed, using synced review:", live.error.error);
+    const hasGoogleReply = live.ok ? !!live.reply : target.syncedHasGoogleReply;
+
+    if (hasGoogleReply && !publishedUpdateTime && body.replace_existing !== true) {
+      return NextResponse.json(
+        {
+          ok: false,
+          code: "GBP_REPLY_EXISTS",
+          error: "This review already has a reply on Google. Confirm again to replace it.",
+          existing_reply: live.ok ? (live.reply?.comment ?? null) : null,
+        },
+        { status: 409 }
+      );
+    }
+
+    const published = await putGbpReply({ accessToken: token.accessToken, reviewName, comment: text });
+    if (!published.ok) return gbpErrorResponse(published.error);
+
+    // Google has the reply now — record failures below are warnings, not errors
+    const nowIso = new Date().toISOString();
+    const { data: record, error: updErr } = await supabase
+      .from("review_replies")
+      .update({ status: "posted", posted_at: nowIso, ...(bodyDraftText ? { draft_text: bodyDraftText } : {}) })
+      .eq("id", replyId)
+      .eq("organization_id", organizationId)
+      .select("id, review_id, draft_text, owner_language, reviewer_language, rating, status, google_location_id, posted_at")
+      .single();
+
+    // Never diff the owner-language draft against a translation
+    const draftText = bodyDraftText || (typeof reply.draft_text === "string" ? reply.draft_text : "");
+    const finalText = bodyFinalText || (sameLanguage(reply.owner_language, reply.reviewer_language) ? text : "");
+    const diff = draftText && finalText ? computeReplyEditDiff(draftText, finalText) : null;
+    const publish_warning = await savePublishColumns({
+      supabase,
+      organizationId,
+      replyId,
+      updates: {
+        google_reply_update_time: published.update_time ?? nowIso,
+        google_reply_published_at: nowIso,
+        ...(finalText ? { final_text: finalText } : {}),
+        ...(diff ? { edit_distance: diff.edit_distance, edit_ratio: diff.edit_ratio, edit_diff: diff } : {}),
+      },
+    });
+
+    const { error: evErr } = await supabase.from("review_reply_events").insert({
+      organization_id: organizationId,
+      review_id: String(review.id),
+      google_review_id: review.google_review_id ?? null,
+      google_location_id: reply.google_location_id ?? review.google_location_id ?? null,
+      source: "gbp_api",
+      rating: typeof reply.rating === "number" ? reply.rating : null,
+      reviewer_language: reply.reviewer_language ?? null,
+      owner_language: reply.owner_language ?? null,
+      event_type: "posted",
+      reply_text: text,
+    });
+
+    // Posted replies the owner rewrote go to the voice sample inbox (best-effort)
+    let voice_sample_suggested = false;
+    if (!updErr) {
+      const suggestion = await suggestVoiceSampleFromReply({
+        supabase,
+        organizationId,
+        replyId,
+        finalText: finalText || null,
+        editRatio: diff?.edit_ratio ?? null,
+      });
+      voice_sample_suggested = suggestion.suggested;
+      if (!suggestion.suggested && suggestion.reason === "error") {
+        console.warn("voice sample suggestion failed:", suggestion.error);
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      edited: !!publishedUpdateTime,
+      google_update_time: published.update_time,
+      reply_record: record ?? null,
+      record_warning: updErr?.message ?? null,
+      publish_warning,
+      event_warning: evErr?.message ?? null,
+      edit_diff: diff,
+      voice_sample_suggested,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to post reply to Google";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const replyId = cleanString(body.reply_id, 80);
+
+    if (body.confirm !== true) return confirmationRequired();
+    if (!replyId) {
+      return NextResponse.json({ ok: false, error: "reply_id is required" }, { status: 400 });
+    }
+
+    const target = await loadPublishTarget({ supabase, organizationId, replyId });
+    if ("response" in target) return target.response;
+    if (!target.publishedUpdateTime && target.reply.status !== "posted") {
+      return NextResponse.json(
+        { ok: false, code: "NOT_PUBLISHED", error: "This reply hasn’t been posted to Google from here." },
+        { status: 409 }
+      );
+    }
+
+    const token = await loadGbpAccessToken(organizationId);
+    if (!token.ok) return gbpErrorResponse(token.error);
+
+    const removed = await deleteGbpReply({ accessToken: token.accessToken, reviewName: target.reviewName });
+    if (!removed.ok) return gbpErrorResponse(removed.error);
+
+    const { data: record, error: updErr } = await supabase
+      .from("review_replies")
+      .update({ status: "draft", posted_at: null })
+      .eq("id", replyId)
+      .eq("organization_id", organizationId)
+      .select("id, review_id, draft_text, status, posted_at")
+      .single();
+
+    const publish_warning = await savePublishColumns({
+      supabase,
+      organizationId,
+      replyId,
+      updates: { google_reply_update_time: null, google_reply_deleted_at: new Date().toISOString() },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      reply_record: record ?? null,
+      record_warning: updErr?.message ?? null,
+      publish_warning,
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to remove reply from Google";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
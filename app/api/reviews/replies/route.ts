@@ -3,6 +3,9 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { requireOrgContext } from "@/lib/orgServer";
+import { computeReplyEditDiff, type ReplyEditDiff } from "@/lib/replyDiff";
+import { suggestVoiceSampleFromReply } from "@/lib/voiceSamples";
+import { SENSITIVE_REASON_LABELS, loadReviewEscalation } from "@/lib/sensitiveContent";
 
 function cleanString(v: unknown, maxLen = 4000) {
   if (typeof v !== "string") return "";
@@ -32,6 +35,66 @@ function cleanLocationId(v: unknown) {
   return s ? s : null;
 }
 
+/**
+ * Best-effort: store what the owner changed between the model draft and the
+ * text they copied/posted. Columns may not exist yet — never fails the request.
+ */
+async function saveEditDiff(params: {
+  supabase: Awaited<ReturnType<typeof requireOrgContext>>["supabase"];
+  organizationId: string;
+  id: string;
+  draftText: string;
+  finalText: string;
+}): Promise<{ diff: ReplyEditDiff | null; warning: string | null }> {
+  const { supabase, organizationId, id, draftText, finalText } = params;
+  if (!draftText || !finalText) return { diff: null, warning: null };
+
+  const diff = computeReplyEditDiff(draftText, finalText);
+
+  try {
+    const { error } = await supabase
+      .from("review_replies")
+      .update({
+        final_text: finalText,
+        edit_distance: diff.edit_distance,
+        edit_ratio: diff.edit_ratio,
+        edit_diff: diff,
+      })
+      .eq("id", id)
+      .eq("organization_id", organizationId);
+
+    return { diff, warning: error ? error.message : null };
+  } catch (e: unknown) {
+    return { diff, warning: e instanceof Error ? e.message : "edit diff not saved" };
+  }
+}
+
+/**
+ * Sensitive reviews (lib/sensitiveContent.ts) can't be copied or posted until a
+ * manager acknowledges the escalation. Returns the 409 response, or null to proceed.
+ */
+async function unacknowledgedEscalationResponse(params: {
+  supabase: Awaited<ReturnType<typeof requireOrgContext>>["supabase"];
+  organizationId: string;
+  reviewId: string | null;
+}) {
+  const { supabase, organizationId, reviewId } = params;
+  if (!reviewId) return null;
+  const escalation = await loadReviewEscalation({ supabase, organizationId, reviewId });
+  if (!escalation || escalation.acknowledged_at) return null;
+
+  return NextResponse.json(
+    {
+      ok: false,
+      code: "ESCALATION_UNACKNOWLEDGED",
+      error: "This review was flagged as sensitive. A manager needs to acknowledge it before the reply is used.",
+      reasons: escalation.reasons,
+      labels: escalation.reasons.map((r) => SENSITIVE_REASON_LABELS[r]),
+    },
+    { status: 409 }
+  );
+}
+
 /**
  * GET /api/reviews/replies
  * Quick ping to confirm the route exists in prod
@@ -47,25 +110,27 @@ export async function GET() {
 export async function POST(req: Request) {
   try {
     const { supabase, organizationId } = await requireOrgContext();
-    const body = await req.json().catch(() => ({}));
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
 
-    const review_id = cleanUuid((body as any)?.review_id);
-    const business_id = cleanUuid((body as any)?.business_id);
-    const draft_text = cleanString((body as any)?.draft_text, 5000);
+    const review_id = cleanUuid(body.review_id);
+    const business_id = cleanUuid(body.business_id);
+    const draft_text = cleanString(body.draft_text, 5000);
+    // What the owner actually copied/posted (owner language), if they edited the draft
+    const final_text = cleanString(body.final_text, 5000);
 
-    const owner_language = cleanString((body as any)?.owner_language, 24) || null;
-    const reviewer_language = cleanString((body as any)?.reviewer_language, 24) || null;
+    const owner_language = cleanString(body.owner_language, 24) || null;
+    const reviewer_language = cleanString(body.reviewer_language, 24) || null;
 
-    const ratingRaw = parseRating((body as any)?.rating);
+    const ratingRaw = parseRating(body.rating);
     const rating =
       Number.isFinite(ratingRaw) && ratingRaw >= 1 && ratingRaw <= 5 ? Math.round(ratingRaw) : null;
 
-    const status: Status = parseStatus((body as any)?.status) ?? "draft";
+    const status: Status = parseStatus(body.status) ?? "draft";
 
     // ✅ C1: accept location id (support both keys)
     const google_location_id =
-      cleanLocationId((body as any)?.google_location_id) ??
-      cleanLocationId((body as any)?.location_id) ??
+      cleanLocationId(body.google_location_id) ??
+      cleanLocationId(body.location_id) ??
       null;
 
     if (!review_id) {
@@ -78,9 +143,14 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "draft_text is required" }, { status: 400 });
     }
 
+    if (status === "copied" || status === "posted") {
+      const blocked = await unacknowledgedEscalationResponse({ supabase, organizationId, reviewId: review_id });
+      if (blocked) return blocked;
+    }
+
     const nowIso = new Date().toISOString();
 
-    const insertRow: any = {
+    const insertRow: Record<string, unknown> = {
       organization_id: organizationId,
       business_id,
       review_id,
@@ -141,16 +211,50 @@ export async function POST(req: Request) {
         reviewer_language,
         owner_language,
         event_type: status, // "copied" | "posted"
-        reply_text: draft_text,
+        reply_text: final_text || draft_text,
       });
 
       if (evErr) event_warning = evErr.message;
     }
 
-    return NextResponse.json({ ok: true, reply_record: data, event_warning }, { status: 200 });
-  } catch (err: any) {
+    let edit_diff: ReplyEditDiff | null = null;
+    let edit_warning: string | null = null;
+
+    if ((status === "copied" || status === "posted") && final_text && data?.id) {
+      const saved = await saveEditDiff({
+        supabase,
+        organizationId,
+        id: String(data.id),
+        draftText: draft_text,
+        finalText: final_text,
+      });
+      edit_diff = saved.diff;
+      edit_warning = saved.warning;
+    }
+
+    // Posted replies the owner rewrote go to the voice sample inbox (best-effort)
+    let voice_sample_suggested = false;
+    if (status === "posted" && data?.id) {
+      const suggestion = await suggestVoiceSampleFromReply({
+        supabase,
+        organizationId,
+        replyId: String(data.id),
+        finalText: final_text || null,
+        editRatio: edit_diff?.edit_ratio ?? null,
+      });
+      voice_sample_suggested = suggestion.suggested;
+      if (!suggestion.suggested && suggestion.reason === "error") {
+        console.warn("voice sample suggestion failed:", suggestion.error);
+      }
+    }
+
+    return NextResponse.json(
+      { ok: true, reply_record: data, event_warning, edit_diff, edit_warning, voice_sample_suggested },
+      { status: 200 }
+    );
+  } catch (err: unknown) {
     return NextResponse.json(
-      { ok: false, error: err?.message ?? "Failed to save reply" },
+      { ok: false, error: err instanceof Error ? err.message : "Failed to save reply" },
       { status: 500 }
     );
   }
@@ -160,19 +264,25 @@ export async function POST(req: Request) {
  * PATCH /api/reviews/replies
  * Update status for a reply record (copied/posted)
  * Also logs an event with full context (no null placeholders).
+ * With final_text, also stores the edit diff against draft_text.
  */
 export async function PATCH(req: Request) {
   try {
     const { supabase, organizationId } = await requireOrgContext();
-    const body = await req.json().catch(() => ({}));
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
 
-    const id = cleanUuid((body as any)?.id);
-    const status = parseStatus((body as any)?.status);
+    const id = cleanUuid(body.id);
+    const status = parseStatus(body.status);
+
+    // Optional: final owner text, and the draft it was edited from (when the
+    // owner switched to an alternative candidate after the record was created)
+    const final_text = cleanString(body.final_text, 5000);
+    const draft_text = cleanString(body.draft_text, 5000);
 
     // ✅ C1: accept location id on PATCH too
     const google_location_id =
-      cleanLocationId((body as any)?.google_location_id) ??
-      cleanLocationId((body as any)?.location_id) ??
+      cleanLocationId(body.google_location_id) ??
+      cleanLocationId(body.location_id) ??
       null;
 
     if (!id) {
@@ -185,7 +295,22 @@ export async function PATCH(req: Request) {
       );
     }
 
-    const updates: any = { status };
+    if (status === "copied" || status === "posted") {
+      const { data: current } = await supabase
+        .from("review_replies")
+        .select("review_id")
+        .eq("id", id)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+      const blocked = await unacknowledgedEscalationResponse({
+        supabase,
+        organizationId,
+        reviewId: current?.review_id ? String(current.review_id) : null,
+      });
+      if (blocked) return blocked;
+    }
+
+    const updates: Record<string, unknown> = { status };
     const nowIso = new Date().toISOString();
 
     if (status === "copied") updates.copied_at = nowIso;
@@ -193,6 +318,7 @@ export async function PATCH(req: Request) {
 
     // If provided, persist location on the reply record
     if (google_location_id) updates.google_location_id = google_location_id;
+    if (draft_text) updates.draft_text = draft_text;
 
     // IMPORTANT: select the fields we need for the event (review_id, languages, rating, text)
     const { data, error } = await supabase
@@ -251,16 +377,50 @@ export async function PATCH(req: Request) {
         reviewer_language: data?.reviewer_language ?? null,
         owner_language: data?.owner_language ?? null,
         event_type: status,
-        reply_text: data?.draft_text ?? null,
+        reply_text: final_text || (data?.draft_text ?? null),
       });
 
       if (evErr) event_warning = evErr.message;
     }
 
-    return NextResponse.json({ ok: true, reply_record: data, event_warning }, { status: 200 });
-  } catch (err: any) {
+    let edit_diff: ReplyEditDiff | null = null;
+    let edit_warning: string | null = null;
+
+    if ((status === "copied" || status === "posted") && final_text) {
+      const saved = await saveEditDiff({
+        supabase,
+        organizationId,
+        id,
+        draftText: typeof data?.draft_text === "string" ? data.draft_text : "",
+        finalText: final_text,
+      });
+      edit_diff = saved.diff;
+      edit_warning = saved.warning;
+    }
+
+    // Posted replies the owner rewrote go to the voice sample inbox (best-effort)
+    let voice_sample_suggested = false;
+    if (status === "posted" && data?.id) {
+      const suggestion = await suggestVoiceSampleFromReply({
+        supabase,
+        organizationId,
+        replyId: String(data.id),
+        finalText: final_text || null,
+        editRatio: edit_diff?.edit_ratio ?? null,
+      });
+      voice_sample_suggested = suggestion.suggested;
+      if (!suggestion.suggested && suggestion.reason === "error") {
+        console.warn("voice sample suggestion failed:", suggestion.error);
+      }
+    }
+
+    return NextResponse.json(
+      { ok: true, reply_record: data, event_warning, edit_diff, edit_warning, voice_sample_suggested },
+      { status: 200 }
+    );
+  } catch (err: unknown) {
     return NextResponse.json(
-      { ok: false, error: err?.message ?? "Failed to update reply" },
+      { ok: false, error: err instanceof Error ? err.message : "Failed to update reply" },
       { status: 500 }
     );
   }
@@ -0,0 +1,325 @@
+// app/api/reviews/revise-reply/route.ts
+//
+// Targeted revision of an existing draft: the current text plus one owner
+// instruction ("shorter", "mention the Malbec", "less apologetic", "more
+// formal"). The revised text goes through the same post-clean pipeline and
+// prompt-contract check as draft-reply, including one corrective retry.
+//
+// GET  ?reply_id=  — revision history of a review_replies record.
+// POST { draft_text, instruction, review_text, business_name, rating,
+//        reply_id?, business_id?, reviewer_name? }
+//      With reply_id the revision is stored (lib/replyRevisions.ts) and
+//      draft_text falls back to the record's current draft. The record's
+//      draft_text only follows while it is still a draft.
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { requireActiveSubscription } from "@/lib/subscriptionServer";
+import { requireOrgContext } from "@/lib/orgServer";
+import { generateText, LlmError, resolveLlmProvider, defaultModelFor } from "@/lib/llmProvider";
+import { selectRelevantFacts } from "@/lib/factSheet";
+import { loadDraftContext } from "@/lib/draftContext";
+import { detectSensitiveContent } from "@/lib/sensitiveContent";
+import { POST_CLEAN_VERSION, runPostClean } from "@/lib/draftPostClean";
+import {
+  PROMPT_VERSION,
+  buildRevisionPrompt,
+  buildSystemPrompt,
+  normalizeVoice,
+  sentencePolicyForRating,
+} from "@/lib/draftPrompt";
+import {
+  PROMPT_CONTRACT_VERSION,
+  contractFixInstruction,
+  validateReplyAgainstContract,
+} from "@/lib/promptContract";
+import { checkLlmQuota, quotaExceededBody, recordLlmUsage, usagePlanForStatus } from "@/lib/llmUsage";
+import { MAX_REVISION_INSTRUCTION_LEN, loadReplyRevisions, recordReplyRevision } from "@/lib/replyRevisions";
+
+function cleanString(v: unknown, maxLen = 4000) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+function parseRating(v: unknown) {
+  if (typeof v === "number") return v;
+  const n = Number(String(v ?? "").replace(/[^\d.]/g, ""));
+  return n;
+}
+
+// ─── Route handlers ───────────────────────────────────────────────────────────
+
+export async function GET(req: Request) {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const replyId = cleanString(new URL(req.url).searchParams.get("reply_id"), 80);
+
+    if (!replyId) {
+      return NextResponse.json({ ok: false, error: "reply_id is required" }, { status: 400 });
+    }
+
+    const revisions = await loadReplyRevisions({ supabase, organizationId, replyId });
+    return NextResponse.json({ ok: true, reply_id: replyId, revisions });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Failed to load revisions";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const sub = await requireActiveSubscription();
+    if (!sub.ok) {
+      return NextResponse.json(
+        {
+          ok: false,
+          upgradeRequired: true,
+          status: sub.status,
+          error: "Your plan isn't active yet. Subscribe to revise replies.",
+        },
+        { status: 402 }
+      );
+    }
+
+    const { supabase, organizationId, userId } = await requireOrgContext();
+    const body: Record<string, unknown> = await req.json().catch(() => ({}));
+
+    const instruction = cleanString(body?.instruction, MAX_REVISION_INSTRUCTION_LEN).replace(/\s+/g, " ");
+    const review_text = cleanString(body?.review_text, 5000);
+    const business_name = cleanString(body?.business_name, 200);
+    const rating = parseRating(body?.rating);
+    const reviewer_name = cleanString(body?.reviewer_name, 100);
+    const reply_id = cleanString(body?.reply_id, 80) || null;
+    let business_id = cleanString(body?.business_id, 80) || null;
+    let current = cleanString(body?.draft_text, 5000);
+
+    if (!instruction) {
+      return NextResponse.json({ ok: false, error: "instruction is required" }, { status: 400 });
+    }
+    if (!review_text) {
+      return NextResponse.json({ ok: false, error: "review_text is required" }, { status: 400 });
+    }
+    if (!business_name) {
+      return NextResponse.json({ ok: false, error: "business_name is required" }, { status: 400 });
+    }
+    if (!Number.isFinite(rating) || rating < 1 || rating > 5) {
+      return NextResponse.json({ ok: false, error: "rating must be 1–5" }, { status: 400 });
+    }
+
+    if (reply_id) {
+      const { data: record } = await supabase
+        .from("review_replies")
+        .select("id, draft_text, business_id")
+        .eq("id", reply_id)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+
+      if (!record) {
+        return NextResponse.json({ ok: false, error: "Reply record not found." }, { status: 404 });
+      }
+      if (!current) current = cleanString(record.draft_text, 5000);
+      if (!business_id && record.business_id) business_id = String(record.business_id);
+    }
+
+    if (!current) {
+      return NextResponse.json({ ok: false, error: "draft_text is required" }, { status: 400 });
+    }
+
+    // The contract retry re-checks the quota below
+    const quotaPlan = usagePlanForStatus(sub.status);
+    const quota = await checkLlmQuota({ supabase, organizationId, plan: quotaPlan });
+    if (!quota.ok) return NextResponse.json(quotaExceededBody(quota), { status: 429 });
+
+    // Same org / business context as draft-reply (lib/draftContext.ts). The
+    // samples are only grounding sources and post-clean / contract flags; the
+    // revision prompt itself doesn't re-render them.
+    const draftContext = await loadDraftContext({ supabase, organizationId, businessId: business_id });
+    const orgSettings = draftContext.settings;
+    const owner_language = orgSettings.owner_language;
+    const reply_signature = orgSettings.reply_signature;
+    const voice = normalizeVoice(draftContext.voice_profile);
+    const voiceSamples = draftContext.voice_samples;
+    const hasVoiceSamples = voiceSamples.length > 0;
+
+    const sensitive = detectSensitiveContent(review_text);
+    const factSheet = draftContext.fact_sheet;
+    // Facts the instruction asks for count as relevant too ("mention the Malbec")
+    const relevantFacts = selectRelevantFacts(factSheet, `${review_text}\n${instruction}`);
+
+    const reviewWordCount = review_text.trim() ? review_text.trim().split(/\s+/).length : 0;
+    const maxSentencesPolicy = sentencePolicyForRating(rating, reviewWordCount);
+
+    const provider = resolveLlmProvider(orgSettings.llm_provider);
+    const model = defaultModelFor(provider);
+    const temperature = rating <= 2 ? 0.15 : 0.25;
+
+    const prompt = buildRevisionPrompt({
+      business_name,
+      rating,
+      owner_language,
+      review_text,
+      current_reply: current,
+      instruction,
+      voice,
+      reply_signature,
+      max_sentences: maxSentencesPolicy,
+      sensitive_reasons: sensitive.reasons,
+      fact_sheet: { facts: relevantFacts, never_mention: factSheet.never_mention },
+    });
+
+    const system = buildSystemPrompt({
+      has_voice_samples: hasVoiceSamples,
+      has_fact_sheet: relevantFacts.length > 0,
+    });
+
+    // §4.3 grounding: the current draft and the instruction are sources too —
+    // details the owner typed into either are theirs to keep.
+    const groundingSources = [
+      business_name,
+      reviewer_name,
+      reply_signature,
+      current,
+      instruction,
+      ...voiceSamples,
+      ...relevantFacts.map((f) => `${f.label} ${f.value}`),
+    ];
+
+    const reviseOnce = async (note: string) => {
+      const llm = await generateText(
+        {
+          task: "revise",
+          system,
+          prompt: note ? `${prompt}\n\n${note}` : prompt,
+          temperature,
+          maxTokens: 300,
+          model,
+        },
+        { provider }
+      );
+      await recordLlmUsage({ supabase, organizationId, task: "revise", result: llm });
+
+      const postClean = runPostClean(llm.text.trim().slice(0, 900), {
+        rating,
+        review_text,
+        business_name,
+        has_voice_samples: hasVoiceSamples,
+        allow_exclamation: voice.allow_exclamation,
+        max_sentences: maxSentencesPolicy,
+        reply_signature,
+      });
+
+      const contract = validateReplyAgainstContract(postClean.text, review_text, rating, {
+        reply_as: voice.reply_as,
+        allow_exclamation: voice.allow_exclamation,
+        has_voice_samples: hasVoiceSamples,
+        sensitive: sensitive.sensitive,
+        grounding: {
+          sources: groundingSources,
+          never_mention: factSheet.never_mention,
+          proper_nouns: !owner_language.toLowerCase().startsWith("de"),
+        },
+      });
+
+      return { text: postClean.text, llm, postClean, contract };
+    };
+
+    let best: Awaited<ReturnType<typeof reviseOnce>>;
+    try {
+      best = await reviseOnce("");
+    } catch (e: unknown) {
+      if (e instanceof LlmError) {
+        return NextResponse.json(
+          {
+            ok: false,
+            code: e.code,
+            error: e.message,
+            provider: e.provider,
+            upstreamStatus: e.upstreamStatus,
+            upstreamBody: e.upstreamBody,
+          },
+          { status: e.httpStatus }
+        );
+      }
+      throw e;
+    }
+
+    // ── Prompt-contract check: one corrective regeneration on hard violations ──
+    const initialContract = best.contract;
+    let contractRegenerated = false;
+
+    const retryQuota = initialContract.ok ? null : await checkLlmQuota({ supabase, organizationId, plan: quotaPlan });
+
+    if (retryQuota && !retryQuota.ok) {
+      console.warn("revise-reply contract regeneration skipped: LLM quota used up");
+    } else if (!initialContract.ok) {
+      contractRegenerated = true;
+      try {
+        const retry = await reviseOnce(contractFixInstruction(initialContract));
+        if (retry.text && retry.contract.hard < initialContract.hard) best = retry;
+      } catch (e: unknown) {
+        console.warn("revise-reply contract regeneration failed:", e instanceof Error ? e.message : e);
+      }
+    }
+
+    if (!best.text) {
+      return NextResponse.json(
+        { ok: false, code: "LLM_EMPTY_RESPONSE", error: "No reply content returned from the model" },
+        { status: 502 }
+      );
+    }
+
+    const saved = reply_id
+      ? await recordReplyRevision({
+        supabase,
+        organizationId,
+        replyId: reply_id,
+        userId,
+        instruction,
+        previousText: current,
+        revisedText: best.text,
+        promptVersion: PROMPT_VERSION,
+        contractViolations: best.contract.violations,
+      })
+      : { revision: null, error: null };
+
+    if (saved.error) console.warn("review_reply_revisions insert failed:", saved.error);
+
+    const debug = !!body?.debug || process.env.NODE_ENV !== "production";
+
+    return NextResponse.json(
+      {
+        ok: true,
+        reply: best.text,
+        revision: saved.revision,
+        revision_warning: saved.error,
+        meta: {
+          owner_language,
+          instruction,
+          contract_ok: best.contract.ok,
+          ...(debug
+            ? {
+              enforcement: {
+                prompt_version: PROMPT_VERSION,
+                contract_version: PROMPT_CONTRACT_VERSION,
+                post_clean_version: POST_CLEAN_VERSION,
+                provider: best.llm.provider,
+                model: best.llm.model,
+                post_clean_changed: best.postClean.changed,
+                contract: best.contract,
+                contract_regenerated: contractRegenerated,
+                contract_initial_violations: contractRegenerated ? initialContract.violations : null,
+                sensitive: sensitive,
+                fact_sheet_facts_used: relevantFacts.map((f) => f.label),
+              },
+            }
+            : {}),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err: unknown) {
+    console.error("REVISE-REPLY ERROR:", err);
+    const message = err instanceof Error ? err.message : "Server error revising reply";
+    return NextResponse.json({ ok: false, error: message }, { status: message === "Unauthorized" ? 401 : 500 });
+  }
+}
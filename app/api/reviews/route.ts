@@ -2,6 +2,16 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { requireOrgContext } from "@/lib/orgServer";
+import {
+  classifyReviewTopics,
+  hasTopic,
+  isMissingTopicColumns,
+  parseStoredTopics,
+  topicTagsMatching,
+  type ReviewTopics,
+} from "@/lib/reviewTopics";
+import { GBP_IMPORT_ORIGIN } from "@/lib/gbpReplyImport";
+import { loadReviewChangeSummaries } from "@/lib/reviewRevisions";
 
 /**
  * Doctrine-aligned reviews list API
@@ -13,12 +23,33 @@ import { requireOrgContext } from "@/lib/orgServer";
  * C1:
  * - Adds google_location_id to each returned review.
  * - For Places MVP (single place per business), we default google_location_id to business.google_place_id.
+ *
+ * Topics:
+ * - Adds `topics` (lib/reviewTopics.ts) to each review: stored reviews.topics when
+ *   current, otherwise classified on read.
+ * - Optional filters: ?topic=service_speed&sentiment=negative, applied to the
+ *   stored reviews.topic_tags in the query (so older reviews are found too);
+ *   without that column, only the newest `limit` reviews are filtered.
+ *
+ * Replies:
+ * - Adds `reply_status` ("posted" | "copied" | "draft" | null) from review_replies,
+ *   strongest status wins, and `reply_imported` when the posted reply was
+ *   imported from Google (lib/gbpReplyImport.ts) rather than written here.
+ *
+ * Changes on Google (lib/reviewRevisions.ts):
+ * - Adds `original_rating` (the rating before the guest first edited the
+ *   review, null when never edited), `revision_count`, `last_changed_at`,
+ *   and `removed_at` when a full resync found the review gone.
  */
 
+const REPLY_STATUS_RANK: Record<string, number> = { draft: 1, copied: 2, posted: 3 };
+
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const limitRaw = Number(url.searchParams.get("limit") ?? "50");
   const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 1), 200) : 50;
+  const topicFilter = (url.searchParams.get("topic") ?? "").trim().toLowerCase();
+  const sentimentFilter = (url.searchParams.get("sentiment") ?? "").trim().toLowerCase() || null;
 
   try {
     const { supabase, organizationId } = await requireOrgContext();
@@ -45,16 +76,24 @@ export async function GET(req: Request) {
     }
 
     // Reviews for this business + org
-    const { data: reviews, error: revErr } = await supabase
-      .from("reviews")
-      .select(
-        "id, business_id, source, google_review_id, rating, author_name, author_url, review_text, review_date, detected_language, created_at"
-      )
-      .eq("organization_id", organizationId)
-      .eq("business_id", biz.id)
-      .order("review_date", { ascending: false, nullsFirst: false })
-      .order("created_at", { ascending: false })
-      .limit(limit);
+    const selectReviews = (filterTopicTags: boolean) => {
+      let query = supabase
+        .from("reviews")
+        .select(
+          "id, business_id, source, google_review_id, rating, author_name, author_url, review_text, review_date, detected_language, created_at"
+        )
+        .eq("organization_id", organizationId)
+        .eq("business_id", biz.id);
+      if (filterTopicTags) query = query.overlaps("topic_tags", topicTagsMatching(topicFilter, sentimentFilter));
+      return query
+        .order("review_date", { ascending: false, nullsFirst: false })
+        .order("created_at", { ascending: false })
+        .limit(limit);
+    };
+    let { data: reviews, error: revErr } = await selectReviews(!!topicFilter);
+    if (topicFilter && isMissingTopicColumns(revErr)) {
+      ({ data: reviews, error: revErr } = await selectReviews(false));
+    }
 
     if (revErr) {
       return NextResponse.json({ ok: false, error: "Failed to load reviews." }, { status: 500 });
@@ -64,10 +103,93 @@ export async function GET(req: Request) {
     // For Places MVP, treat the connected place as the location.
     const googleLocationId = biz.google_place_id ? String(biz.google_place_id) : null;
 
-    const reviewsWithLocation = (reviews ?? []).map((r: any) => ({
-      ...r,
-      google_location_id: r?.google_location_id ?? r?.location_id ?? googleLocationId,
-    }));
+    // Stored topics live in an optional column — loaded separately so a
+    // missing column never breaks the list.
+    const storedTopics = new Map<string, ReviewTopics>();
+    try {
+      const ids = (reviews ?? []).map((r) => r.id);
+      if (ids.length > 0) {
+        const { data: topicRows, error: topicErr } = await supabase
+          .from("reviews")
+          .select("id, topics")
+          .eq("organization_id", organizationId)
+          .in("id", ids);
+        if (!topicErr) {
+          for (const row of topicRows ?? []) {
+            const parsed = parseStoredTopics(row.topics);
+            if (parsed) storedTopics.set(String(row.id), parsed);
+          }
+        }
+      }
+    } catch {
+      // Column does not exist yet — classify on read
+    }
+
+    // Reply state per review — a failed lookup leaves reply_status null
+    const replyStatus = new Map<string, string>();
+    const importedReply = new Set<string>();
+    const reviewIds = (reviews ?? []).map((r) => String(r.id));
+    if (reviewIds.length > 0) {
+      const { data: replyRows } = await supabase
+        .from("review_replies")
+        .select("review_id, status")
+        .eq("organization_id", organizationId)
+        .in("review_id", reviewIds);
+      for (const row of replyRows ?? []) {
+        const id = String(row.review_id);
+        const current = replyStatus.get(id);
+        if ((REPLY_STATUS_RANK[row.status] ?? 0) > (current ? REPLY_STATUS_RANK[current] : 0)) {
+          replyStatus.set(id, row.status);
+        }
+      }
+
+      try {
+        const { data: importedRows, error: importedErr } = await supabase
+          .from("review_replies")
+          .select("review_id")
+          .eq("organization_id", organizationId)
+          .eq("reply_origin", GBP_IMPORT_ORIGIN)
+          .in("review_id", reviewIds);
+        if (!importedErr) for (const row of importedRows ?? []) importedReply.add(String(row.review_id));
+      } catch {
+        // Column does not exist yet
+      }
+    }
+
+    // Edits / removals — revisions table and removed_at column are both optional
+    const changes = await loadReviewChangeSummaries({
+      supabase,
+      organizationId,
+      reviewIds,
+    });
+    const removedAt = new Map<string, string>();
+    try {
+      if (reviewIds.length > 0) {
+        const { data: removedRows, error: removedErr } = await supabase
+          .from("reviews")
+          .select("id, removed_at")
+          .eq("organization_id", organizationId)
+          .in("id", reviewIds)
+          .not("removed_at", "is", null);
+        if (!removedErr) for (const row of removedRows ?? []) removedAt.set(String(row.id), String(row.removed_at));
+      }
+    } catch {
+      // Column does not exist yet
+    }
+
+    const reviewsWithLocation = (reviews ?? [])
+      .map((r: any) => ({
+        ...r,
+        original_rating: changes.get(String(r.id))?.original_rating ?? null,
+        revision_count: changes.get(String(r.id))?.revision_count ?? 0,
+        last_changed_at: changes.get(String(r.id))?.last_changed_at ?? null,
+        removed_at: removedAt.get(String(r.id)) ?? null,
+        reply_status: replyStatus.get(String(r.id)) ?? null,
+        reply_imported: importedReply.has(String(r.id)),
+        google_location_id: r?.google_location_id ?? r?.location_id ?? googleLocationId,
+        topics: storedTopics.get(String(r.id)) ?? classifyReviewTopics(r?.review_text ?? "", r?.rating ?? null),
+      }))
+      .filter((r) => !topicFilter || hasTopic(r.topics, topicFilter, sentimentFilter));
 
     return NextResponse.json(
       {
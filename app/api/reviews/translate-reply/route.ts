@@ -3,17 +3,15 @@ export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import { requireActiveSubscription } from "@/lib/subscriptionServer";
 import { requireOrgContext } from "@/lib/orgServer";
+import { generateText, LlmError, resolveLlmProvider } from "@/lib/llmProvider";
+import { checkLlmQuota, quotaExceededBody, recordLlmUsage, usagePlanForStatus } from "@/lib/llmUsage";
+import { loadReplyLanguageInputs, resolveReplyLanguage } from "@/lib/replyLanguage";
 
 function cleanString(v: unknown, maxLen = 4000) {
   if (typeof v !== "string") return "";
   return v.trim().slice(0, maxLen);
 }
 
-function cleanLanguage(v: unknown) {
-  const raw = cleanString(v, 20) || "en";
-  return raw.slice(0, 12);
-}
-
 function languageLabel(tag: string) {
   const t = (tag || "en").toLowerCase();
   switch (t) {
@@ -51,6 +49,23 @@ async function loadOrgSignature(): Promise<string | null> {
   }
 }
 
+// Optional per-org provider override (same column draft-reply reads).
+async function loadOrgLlmProvider(): Promise<string | null> {
+  try {
+    const { supabase, organizationId } = await requireOrgContext();
+    const { data, error } = await supabase
+      .from("organizations")
+      .select("llm_provider")
+      .eq("id", organizationId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return cleanString(data.llm_provider, 20) || null;
+  } catch {
+    return null;
+  }
+}
+
 function ensureSignatureAtEnd(text: string, signature: string | null) {
   const sig = cleanString(signature, 80);
   if (!sig) return text.trim();
@@ -75,30 +90,40 @@ export async function POST(req: Request) {
 
     const body = await req.json().catch(() => null);
     const text = cleanString(body?.text, 5000);
-    const target_language = cleanLanguage(body?.target_language);
+    const requestedLanguage = cleanString(body?.target_language, 20) || null;
 
     if (!text) {
       return NextResponse.json({ ok: false, error: "text is required" }, { status: 400 });
     }
-    if (!target_language) {
-      return NextResponse.json(
-        { ok: false, error: "target_language is required" },
-        { status: 400 }
-      );
-    }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { ok: false, error: "Missing ANTHROPIC_API_KEY in server env." },
-        { status: 500 }
-      );
+    // An explicit target_language wins; otherwise the reply language policy
+    // (lib/replyLanguage.ts) decides from the review and the org settings.
+    const languageDecision = resolveReplyLanguage({
+      inputs: await loadReplyLanguageInputs({
+        supabase: sub.supabase,
+        organizationId: sub.organizationId,
+        businessId: cleanString(body?.business_id, 80) || null,
+        reviewId: cleanString(body?.review_id, 80) || null,
+      }),
+      client_language: requestedLanguage,
+      client_explicit: !!requestedLanguage,
+    });
+    const target_language = languageDecision.reply_language;
+
+    const quota = await checkLlmQuota({
+      supabase: sub.supabase,
+      organizationId: sub.organizationId,
+      plan: usagePlanForStatus(sub.status),
+    });
+    if (!quota.ok) {
+      return NextResponse.json(quotaExceededBody(quota), { status: 429 });
     }
 
     // pull org signature (so translated output keeps it)
     const signature = await loadOrgSignature();
 
     const targetLabel = languageLabel(target_language);
+    const provider = resolveLlmProvider(await loadOrgLlmProvider());
 
     const prompt = `
 Translate the reply below into ${targetLabel}.
@@ -120,44 +145,37 @@ ${text}
 """
 `.trim();
 
-    const upstream = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "claude-haiku-4-5-20251001",
-        temperature: 0.1,
-        max_tokens: 350,
-        system: "You are a precise translation engine.",
-        messages: [{ role: "user", content: prompt }],
-      }),
-      cache: "no-store",
-    });
-
-    const rawText = await upstream.text();
-    let upstreamJson: any = null;
+    let translated = "";
     try {
-      upstreamJson = JSON.parse(rawText);
-    } catch {}
-
-    if (!upstream.ok) {
-      return NextResponse.json(
+      const llm = await generateText(
         {
-          ok: false,
-          error: "Anthropic upstream error",
-          upstreamStatus: upstream.status,
-          upstreamBody: upstreamJson ?? rawText,
+          task: "translate",
+          system: "You are a precise translation engine.",
+          prompt,
+          temperature: 0.1,
+          maxTokens: 350,
         },
-        { status: 502 }
+        { provider }
       );
+      await recordLlmUsage({ supabase: sub.supabase, organizationId: sub.organizationId, task: "translate", result: llm });
+      translated = cleanString(llm.text, 5000);
+    } catch (e: unknown) {
+      if (e instanceof LlmError && e.code !== "LLM_EMPTY_RESPONSE") {
+        return NextResponse.json(
+          {
+            ok: false,
+            code: e.code,
+            error: e.message,
+            provider: e.provider,
+            upstreamStatus: e.upstreamStatus,
+            upstreamBody: e.upstreamBody,
+          },
+          { status: e.httpStatus }
+        );
+      }
+      if (!(e instanceof LlmError)) throw e;
     }
 
-    const contentRaw = upstreamJson?.content?.[0]?.text ?? "";
-    let translated = cleanString(contentRaw, 5000);
-
     // normalize whitespace
     translated = translated.replace(/\s+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
 
@@ -168,7 +186,16 @@ ${text}
       return NextResponse.json({ ok: false, error: "No translated content returned" }, { status: 502 });
     }
 
-    return NextResponse.json({ ok: true, translated }, { status: 200 });
+    return NextResponse.json(
+      {
+        ok: true,
+        translated,
+        target_language,
+        language_source: languageDecision.source,
+        language_reason: languageDecision.reason,
+      },
+      { status: 200 }
+    );
   } catch (err: any) {
     console.error("TRANSLATE-REPLY ERROR:", err);
     const message = err instanceof Error ? err.message : "Server error translating reply";
@@ -17,6 +17,9 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
+import { generateText, LlmError } from "@/lib/llmProvider";
+import { checkLlmQuota, recordLlmUsage } from "@/lib/llmUsage";
+import { DEFAULT_REPLY_LANGUAGE_PREFERENCES, resolveReplyLanguage } from "@/lib/replyLanguage";
 import crypto from "crypto";
 
 const FREE_LIMIT = 3;
@@ -29,11 +32,6 @@ function cleanString(v: unknown, maxLen = 4000) {
   return v.trim().slice(0, maxLen);
 }
 
-function cleanLanguage(v: unknown) {
-  const raw = cleanString(v, 20) || "en";
-  return raw.slice(0, 12);
-}
-
 function parseRating(v: unknown) {
   if (typeof v === "number") return v;
   const n = Number(String(v ?? "").replace(/[^\d.]/g, ""));
@@ -111,7 +109,15 @@ export async function POST(req: Request) {
 
     const review_text   = cleanString((body as any)?.review_text, 5000);
     const business_name = cleanString((body as any)?.business_name, 200);
-    const language      = cleanLanguage((body as any)?.language);
+    // No org settings on /try: the visitor's pick is the review's language
+    const language      = resolveReplyLanguage({
+      inputs: {
+        owner_language: "en",
+        preferences: DEFAULT_REPLY_LANGUAGE_PREFERENCES,
+        location_language: null,
+        detected_language: cleanString((body as any)?.language, 20) || null,
+      },
+    }).reply_language;
     const rating        = parseRating((body as any)?.rating);
     const emailRaw      = cleanString((body as any)?.email, 200).toLowerCase();
     const email         = isValidEmail(emailRaw) ? emailRaw : null;
@@ -173,13 +179,16 @@ export async function POST(req: Request) {
       );
     }
 
-    // ── Anthropic API key ────────────────────────────────────────────────────
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      console.error("[try/draft] Missing ANTHROPIC_API_KEY");
+    // ── Shared daily cap across all anonymous visitors (lib/llmUsage.ts) ─────
+    const quota = await checkLlmQuota({ supabase: supabaseServer(), organizationId: null, plan: "try" });
+    if (!quota.ok) {
       return NextResponse.json(
-        { ok: false, error: "Server configuration error. Please try again later." },
-        { status: 500 }
+        {
+          ok: false,
+          code: quota.code,
+          error: "The demo is very busy today. Please try again tomorrow.",
+        },
+        { status: 429 }
       );
     }
 
@@ -222,36 +231,37 @@ ${review_text}
 
 Write the reply now. Output ONLY the reply — no labels, no preamble.`;
 
-    const upstream = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "claude-haiku-4-5-20251001",
-        temperature: rating <= 2 ? 0.15 : 0.25,
-        max_tokens: 300,
+    // Anonymous endpoint: provider comes from env only (no org override).
+    let draft = "";
+    try {
+      const llm = await generateText({
+        task: "try",
         system: "You are a professional hospitality reputation manager writing Google review replies. Write as the business owner — specific, warm, accountable, never corporate. Never narrate the guest's experience back to them. Open with an acknowledgment frame.",
-        messages: [{ role: "user", content: prompt }],
-      }),
-      cache: "no-store",
-    });
-
-    if (!upstream.ok) {
-      const errText = await upstream.text().catch(() => "");
-      console.error("[try/draft] Anthropic upstream error:", upstream.status, errText);
-      return NextResponse.json(
-        { ok: false, error: "Drafting service is temporarily unavailable. Please try again." },
-        { status: 502 }
-      );
+        prompt,
+        temperature: rating <= 2 ? 0.15 : 0.25,
+        maxTokens: 300,
+      });
+      await recordLlmUsage({ supabase: supabaseServer(), organizationId: null, subject: ipHash, task: "try", result: llm });
+      draft = llm.text.trim();
+    } catch (e: unknown) {
+      if (!(e instanceof LlmError)) throw e;
+
+      console.error("[try/draft] LLM error:", e.code, e.upstreamStatus, e.upstreamBody);
+
+      if (e.code === "LLM_CONFIG_MISSING") {
+        return NextResponse.json(
+          { ok: false, error: "Server configuration error. Please try again later." },
+          { status: 500 }
+        );
+      }
+      if (e.code !== "LLM_EMPTY_RESPONSE") {
+        return NextResponse.json(
+          { ok: false, error: "Drafting service is temporarily unavailable. Please try again." },
+          { status: 502 }
+        );
+      }
     }
 
-    const upstreamJson = await upstream.json();
-    const draftRaw = upstreamJson?.content?.[0]?.text ?? "";
-    const draft = String(draftRaw).trim();
-
     if (!draft) {
       return NextResponse.json(
         { ok: false, error: "Couldn't generate a draft. Please try again." },
@@ -0,0 +1,319 @@
+// app/dashboard/BulkDraftPanel.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+type BulkDraftJob = {
+  id: string;
+  status: "running" | "paused" | "completed" | "canceled";
+  filters: { min_rating: number; max_rating: number; days: number; limit: number };
+  total: number;
+  drafted: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+  error: string | null;
+};
+
+type BulkDraftFailure = {
+  id: string;
+  review_id: string;
+  error: string | null;
+  review: { author_name: string | null; rating: number | null; excerpt: string } | null;
+};
+
+type JobResp =
+  | { ok: true; job: BulkDraftJob | null; failures?: BulkDraftFailure[]; processed?: number }
+  | { ok: false; error: string; code?: string; job?: BulkDraftJob };
+
+const RATING_OPTIONS = [
+  { id: "4-5", label: "4–5★", min: 4, max: 5 },
+  { id: "5-5", label: "5★ only", min: 5, max: 5 },
+  { id: "3-3", label: "3★", min: 3, max: 3 },
+  { id: "1-5", label: "Any rating", min: 1, max: 5 },
+];
+
+const DAY_OPTIONS = [30, 90, 180, 365];
+
+const LIMIT_OPTIONS = [25, 50, 100, 300];
+
+export default function BulkDraftPanel() {
+  const [ratingId, setRatingId] = useState("4-5");
+  const [days, setDays] = useState(90);
+  const [limit, setLimit] = useState(50);
+
+  const [job, setJob] = useState<BulkDraftJob | null>(null);
+  const [failures, setFailures] = useState<BulkDraftFailure[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only this tab drives the job; leaving the page simply stops the loop
+  const drivingRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  const loadJob = useCallback(async (jobId?: string) => {
+    const res = await fetch(`/api/reviews/bulk-draft${jobId ? `?job_id=${encodeURIComponent(jobId)}` : ""}`, {
+      cache: "no-store",
+    });
+    const json = (await res.json()) as JobResp;
+    if (!res.ok || !json.ok) throw new Error(json.ok ? "Couldn’t load the bulk job." : json.error);
+    if (!mountedRef.current) return null;
+    setJob(json.job);
+    setFailures(json.failures ?? []);
+    return json.job;
+  }, []);
+
+  const drive = useCallback(
+    async (jobId: string) => {
+      if (drivingRef.current) return;
+      drivingRef.current = true;
+      try {
+        while (mountedRef.current) {
+          const res = await fetch("/api/reviews/bulk-draft/run", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ job_id: jobId }),
+          });
+          const json = (await res.json()) as JobResp;
+          if (!res.ok || !json.ok) throw new Error(json.ok ? "Bulk drafting stopped." : json.error);
+          if (!mountedRef.current) break;
+          setJob(json.job);
+          if (!json.job || json.job.status !== "running") break;
+        }
+        await loadJob(jobId);
+      } catch (e: unknown) {
+        if (mountedRef.current) setError(e instanceof Error ? e.message : "Bulk drafting stopped.");
+      } finally {
+        drivingRef.current = false;
+      }
+    },
+    [loadJob]
+  );
+
+  useEffect(() => {
+    mountedRef.current = true;
+    (async () => {
+      try {
+        const latest = await loadJob();
+        if (latest?.status === "running") void drive(latest.id);
+      } catch {
+        // No job yet, or the tables aren't there — the panel still lets you start one
+      }
+    })();
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [loadJob, drive]);
+
+  async function onStart() {
+    const rating = RATING_OPTIONS.find((r) => r.id === ratingId) ?? RATING_OPTIONS[0];
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/reviews/bulk-draft", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filters: { min_rating: rating.min, max_rating: rating.max, days, limit } }),
+      });
+      const json = (await res.json()) as JobResp;
+      if (!res.ok || !json.ok) {
+        if (!json.ok && json.job) setJob(json.job);
+        throw new Error(json.ok ? "Couldn’t start bulk drafting." : json.error);
+      }
+      setJob(json.job);
+      setFailures([]);
+      if (json.job?.status === "running") void drive(json.job.id);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t start bulk drafting.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onAction(action: "pause" | "resume" | "cancel" | "retry_failed") {
+    if (!job) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/reviews/bulk-draft", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ job_id: job.id, action }),
+      });
+      const json = (await res.json()) as JobResp;
+      if (!res.ok || !json.ok) throw new Error(json.ok ? "Couldn’t update the bulk job." : json.error);
+      const updated = await loadJob(job.id);
+      if (updated?.status === "running") void drive(updated.id);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t update the bulk job.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const active = job?.status === "running" || job?.status === "paused";
+  const done = job ? job.drafted + job.failed + job.skipped : 0;
+  const pct = job && job.total > 0 ? Math.round((done / job.total) * 100) : 0;
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ fontWeight: 900, marginBottom: 4 }}>Draft the backlog</div>
+      <div style={{ fontSize: 13, opacity: 0.78, lineHeight: 1.45, marginBottom: 12 }}>
+        Drafts replies for reviews that don’t have one yet. Drafts are saved for you to review — nothing is posted.
+      </div>
+
+      {!active && (
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+          <select value={ratingId} onChange={(e) => setRatingId(e.target.value)} style={selectStyle}>
+            {RATING_OPTIONS.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} style={selectStyle}>
+            {DAY_OPTIONS.map((d) => (
+              <option key={d} value={d}>
+                Last {d} days
+              </option>
+            ))}
+          </select>
+          <select value={limit} onChange={(e) => setLimit(Number(e.target.value))} style={selectStyle}>
+            {LIMIT_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                Up to {n} reviews
+              </option>
+            ))}
+          </select>
+          <button onClick={onStart} disabled={busy} style={buttonStyle(busy, true)}>
+            {busy ? "Starting…" : "Draft unreplied reviews"}
+          </button>
+        </div>
+      )}
+
+      {job && (
+        <div style={{ marginTop: active ? 0 : 14 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13, marginBottom: 4 }}>
+            <span>
+              {job.status === "running"
+                ? "Drafting…"
+                : job.status === "paused"
+                  ? "Paused"
+                  : job.status === "canceled"
+                    ? "Canceled"
+                    : job.total === 0
+                      ? "No unreplied reviews matched."
+                      : "Done"}
+            </span>
+            <span style={{ opacity: 0.8 }}>
+              {done} / {job.total}
+            </span>
+          </div>
+          <div style={barTrackStyle}>
+            <div style={{ ...barFillStyle, width: `${pct}%` }} />
+          </div>
+          <div style={{ fontSize: 12, opacity: 0.75, marginTop: 6 }}>
+            {job.drafted} drafted · {job.failed} failed · {job.skipped} skipped
+          </div>
+
+          {job.status === "paused" && job.error && (
+            <div style={{ fontSize: 13, color: "#fbbf24", marginTop: 8 }}>{job.error}</div>
+          )}
+
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+            {job.status === "running" && (
+              <button onClick={() => onAction("pause")} disabled={busy} style={buttonStyle(busy)}>
+                Pause
+              </button>
+            )}
+            {job.status === "paused" && (
+              <button onClick={() => onAction("resume")} disabled={busy} style={buttonStyle(busy, true)}>
+                Resume
+              </button>
+            )}
+            {active && (
+              <button onClick={() => onAction("cancel")} disabled={busy} style={buttonStyle(busy)}>
+                Cancel
+              </button>
+            )}
+            {job.failed > 0 && job.status !== "canceled" && job.status !== "running" && (
+              <button onClick={() => onAction("retry_failed")} disabled={busy} style={buttonStyle(busy)}>
+                Retry failed
+              </button>
+            )}
+          </div>
+
+          {failures.length > 0 && (
+            <div style={{ marginTop: 12, display: "grid", gap: 6 }}>
+              <div style={{ fontSize: 12, fontWeight: 800, opacity: 0.85 }}>Couldn’t draft</div>
+              {failures.map((f) => (
+                <div key={f.id} style={failureRowStyle}>
+                  <div style={{ opacity: 0.85 }}>
+                    {f.review
+                      ? `${f.review.rating ?? "?"}★ ${f.review.author_name ?? "Guest"} — “${f.review.excerpt}”`
+                      : f.review_id}
+                  </div>
+                  <div style={{ color: "#f87171", marginTop: 2 }}>{f.error ?? "Unknown error"}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 13, color: "#f87171", marginTop: 10 }}>{error}</div>}
+    </div>
+  );
+}
+
+const panelStyle: React.CSSProperties = {
+  border: "1px solid rgba(148,163,184,0.25)",
+  borderRadius: 16,
+  padding: 16,
+  background: "#0f172a",
+  color: "#e2e8f0",
+  width: "100%",
+  marginBottom: 16,
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 12,
+  border: "1px solid rgba(148,163,184,0.35)",
+  background: "rgba(15,23,42,0.85)",
+  color: "#e2e8f0",
+};
+
+const barTrackStyle: React.CSSProperties = {
+  height: 6,
+  borderRadius: 999,
+  background: "rgba(148,163,184,0.18)",
+  overflow: "hidden",
+};
+
+const barFillStyle: React.CSSProperties = {
+  height: "100%",
+  borderRadius: 999,
+  background: "#60a5fa",
+};
+
+const failureRowStyle: React.CSSProperties = {
+  fontSize: 12,
+  lineHeight: 1.4,
+  padding: "6px 8px",
+  borderRadius: 10,
+  background: "rgba(2,6,23,0.35)",
+};
+
+function buttonStyle(disabled: boolean, primary = false): React.CSSProperties {
+  return {
+    padding: "8px 12px",
+    borderRadius: 12,
+    border: "1px solid rgba(148,163,184,0.35)",
+    background: primary && !disabled ? "rgba(99,102,241,0.50)" : "rgba(15,23,42,0.85)",
+    cursor: disabled ? "not-allowed" : "pointer",
+    color: "#e2e8f0",
+    fontWeight: 800,
+    opacity: disabled ? 0.6 : 1,
+  };
+}
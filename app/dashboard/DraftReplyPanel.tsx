@@ -3,18 +3,54 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 
+type DraftCandidate = {
+  rank: number;
+  variant: string;
+  reply: string;
+  score?: { total?: number; banned_hits?: string[] };
+};
+
 type DraftReplyResponse = {
   ok: boolean;
   reply?: string;
+  candidates?: DraftCandidate[];
   error?: string;
   meta?: {
     owner_language?: string;
     reviewer_language?: string;
+    // Why the server picked reviewer_language (lib/replyLanguage.ts)
+    reply_language_source?: string;
+    reply_language_reason?: string;
     reply_tone?: string;
     reply_signature?: string | null;
+    // Served from the draft cache (same review, nothing changed since)
+    cached?: boolean;
+    cached_at?: string | null;
+    escalation?: DraftEscalation | null;
+    reviewer_history?: {
+      previous_count: number;
+      last_rating: number | null;
+      last_replied: boolean;
+      rating_change: number | null;
+    } | null;
   };
 };
 
+// Sensitive review flag from the draft route (lib/sensitiveContent.ts)
+type DraftEscalation = {
+  reasons: string[];
+  labels: string[];
+  recorded: boolean;
+  acknowledged_at: string | null;
+};
+
+type ReviseReplyResponse = {
+  ok: boolean;
+  reply?: string;
+  error?: string;
+  revision?: { revision_number: number } | null;
+};
+
 type TranslateReplyResponse = {
   ok: boolean;
   translated?: string;
@@ -50,6 +86,7 @@ type RcSelectReviewDetail = {
 
   rating?: number | null;
   authorName?: string | null;
+  authorUrl?: string | null;
   createdAt?: string | null;
   source?: string | null;
 };
@@ -61,6 +98,7 @@ type SelectedReview = {
   google_location_id?: string | null;
   rating: number | null;
   authorName: string | null;
+  authorUrl?: string | null;
   createdAt: string | null;
   language: string | null;
   source: string | null;
@@ -103,6 +141,21 @@ function toneFromRating(r: number) {
   return "very apologetic, calm, accountable, invite offline resolution";
 }
 
+/** How many ranked alternatives to ask the server for (it caps at 4). */
+const DRAFT_CANDIDATE_COUNT = 3;
+
+/** One-click revision instructions (free text works too). */
+const REVISION_PRESETS = ["Shorter", "Less apologetic", "More formal", "Warmer"];
+
+/** Split a reply into sentences so single lines can be merged into the draft. */
+function splitReplySentences(text: string) {
+  return (text || "")
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
 /** Step 8: anti-robot rules (sent to server; server can use or ignore) */
 const DRAFT_RULES = [
   "Keep it 2–4 sentences.",
@@ -145,6 +198,74 @@ async function fetchJson<T = any>(input: RequestInfo, init?: RequestInit): Promi
   return { ok: res.ok, status, json, rawText };
 }
 
+/**
+ * POST to draft-reply in streaming mode. Calls onDelta with raw tokens as they
+ * arrive and resolves with the final "cleaned" (or "error") payload, in the
+ * same shape as fetchJson. Falls back to plain JSON when the server answers
+ * without a stream (validation / subscription errors).
+ */
+async function fetchDraftStream<T = unknown>(
+  input: RequestInfo,
+  init: RequestInit,
+  onDelta: (text: string) => void
+): Promise<{ ok: boolean; status: number; json: T | null; rawText: string }> {
+  const res = await fetch(input, init);
+  const contentType = res.headers.get("content-type") || "";
+
+  if (!contentType.includes("text/event-stream") || !res.body) {
+    const rawText = await res.text().catch(() => "");
+    let json: T | null = null;
+    try {
+      json = rawText ? (JSON.parse(rawText) as T) : null;
+    } catch {
+      json = null;
+    }
+    if (!res.ok) console.warn("[fetchDraftStream] request failed", { status: res.status, json });
+    return { ok: res.ok, status: res.status, json, rawText };
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let final: { status: number; json: T | null; rawText: string } | null = null;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) !== -1) {
+      const chunk = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+
+      let event = "message";
+      let data = "";
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trimStart();
+      }
+
+      let parsed: (T & { text?: unknown; status?: unknown }) | null = null;
+      try {
+        parsed = data ? JSON.parse(data) : null;
+      } catch {
+        parsed = null;
+      }
+
+      if (event === "delta" && typeof parsed?.text === "string") {
+        onDelta(parsed.text);
+      } else if (event === "cleaned" || event === "error") {
+        final = { status: Number(parsed?.status) || (event === "cleaned" ? 200 : 500), json: parsed, rawText: data };
+      }
+    }
+  }
+
+  if (!final) return { ok: false, status: 502, json: null, rawText: "Draft stream ended early." };
+  if (final.status !== 200) console.warn("[fetchDraftStream] draft failed", final);
+  return { ok: final.status === 200, ...final };
+}
+
 export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps) {
   const panelRef = useRef<HTMLElement | null>(null);
   const reviewTextareaRef = useRef<HTMLTextAreaElement | null>(null);
@@ -156,11 +277,17 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
 
   /** ✅ This dropdown represents the REVIEWER language (copy-ready output). */
   const [replyLanguage, setReplyLanguage] = useState<string>("en");
+  // Set once the owner picks a language; until then the org's language policy decides
+  const [replyLanguageExplicit, setReplyLanguageExplicit] = useState(false);
+  const [replyLanguageReason, setReplyLanguageReason] = useState<string | null>(null);
 
   const [reviewText, setReviewText] = useState("");
 
   // Owner-language draft (editable)
   const [draft, setDraft] = useState("");
+  // What the model proposed (or the alternative picked), before owner edits.
+  // Sent on copy so the server can diff it against what was actually used.
+  const [modelDraft, setModelDraft] = useState("");
 
   // Copy-ready reply (reviewer language)
   const [finalReply, setFinalReply] = useState("");
@@ -173,6 +300,8 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
   const [copied, setCopied] = useState(false);
   // ✅ FIX: track live re-translation state
   const [isTranslating, setIsTranslating] = useState(false);
+  // True while raw tokens are still arriving (before the cleaned reply replaces them)
+  const [isStreaming, setIsStreaming] = useState(false);
 
   const copiedTimer = useRef<number | null>(null);
   // ✅ FIX: debounce timer for live re-translation
@@ -180,9 +309,33 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
 
   const [version, setVersion] = useState<number>(0);
 
+  // Ranked alternatives from the last draft request (best first).
+  const [candidates, setCandidates] = useState<DraftCandidate[]>([]);
+
+  // Set when the last draft came from the server's draft cache
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+
   // Track DB record created on draft (so copy can PATCH it)
   const [replyRecordId, setReplyRecordId] = useState<string | null>(null);
 
+  // Last reply posted to Google from here (keyed by record, so a new draft starts unposted)
+  const [gbpPublished, setGbpPublished] = useState<{ replyId: string; updateTime: string | null } | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  // Sensitive review: copy stays locked until a manager acknowledges
+  const [escalation, setEscalation] = useState<DraftEscalation | null>(null);
+  const [isAcknowledging, setIsAcknowledging] = useState(false);
+
+  // Earlier reviews by the same reviewer (shown as a hint under the actions)
+  const [reviewerHistory, setReviewerHistory] = useState<
+    NonNullable<DraftReplyResponse["meta"]>["reviewer_history"] | null
+  >(null);
+
+  // Targeted revision of the current draft (POST /api/reviews/revise-reply)
+  const [revisionInstruction, setRevisionInstruction] = useState("");
+  const [isRevising, setIsRevising] = useState(false);
+  const [revisionCount, setRevisionCount] = useState(0);
+
   const isNarrow = useIsNarrow(720);
 
   const COPY = {
@@ -260,6 +413,7 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
         google_location_id: loc,
         rating: typeof d.rating === "number" ? d.rating : null,
         authorName: d.authorName ?? null,
+        authorUrl: d.authorUrl ?? null,
         createdAt: d.createdAt ?? null,
         language: langRaw ?? null,
         source: d.source ?? null,
@@ -278,8 +432,12 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
       }
 
       setDraft("");
+      setModelDraft("");
       setFinalReply("");
+      setCandidates([]);
       setOwnerLanguage("en");
+      setReplyLanguageExplicit(false);
+      setReplyLanguageReason(null);
       setVersion(0);
       setStatus("idle");
       setErrorMessage("");
@@ -321,6 +479,7 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
   // ✅ FIX: Re-translate copy-ready reply whenever owner edits the draft
   useEffect(() => {
     if (sameLang) return;
+    if (isStreaming) return;
     if (!draft.trim()) return;
 
     if (translateTimer.current) window.clearTimeout(translateTimer.current);
@@ -341,7 +500,7 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
       if (translateTimer.current) window.clearTimeout(translateTimer.current);
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [draft, replyLanguage, sameLang]);
+  }, [draft, replyLanguage, sameLang, isStreaming]);
 
   async function requestTranslate(text: string, targetLanguage: string) {
     const { ok, json, status, rawText } = await fetchJson<TranslateReplyResponse>(
@@ -397,7 +556,8 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
   async function patchReplyRecord(
     id: string,
     statusValue: "copied" | "posted",
-    google_location_id?: string
+    google_location_id?: string,
+    edit?: { draft_text: string; final_text: string }
   ) {
     const { ok, json, status, rawText } = await fetchJson<any>("/api/reviews/replies", {
       method: "PATCH",
@@ -407,6 +567,8 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
         status: statusValue,
         google_location_id: google_location_id?.trim() || "",
         location_id: google_location_id?.trim() || "",
+        draft_text: edit?.draft_text || "",
+        final_text: edit?.final_text || "",
       }),
     });
 
@@ -426,6 +588,7 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
     review_id: string;
     business_id: string;
     draft_text: string;
+    final_text?: string;
     owner_language: string;
     reviewer_language: string;
     rating: number;
@@ -450,14 +613,19 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
     return typeof id === "string" && id ? id : null;
   }
 
-  async function requestDraft() {
+  async function requestDraft(opts?: { regenerate?: boolean }) {
     setStatus("loading");
     setErrorMessage("");
+    setCachedAt(null);
 
     const tone = toneFromRating(rating);
 
     try {
-      const { ok, json, status: httpStatus, rawText } = await fetchJson<DraftReplyResponse>(
+      // Raw tokens fill the draft box as they arrive; the cleaned reply replaces them.
+      let streamed = "";
+      setIsStreaming(true);
+
+      const { ok, json, status: httpStatus, rawText } = await fetchDraftStream<DraftReplyResponse>(
         "/api/reviews/draft-reply",
         {
           method: "POST",
@@ -466,16 +634,29 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
             business_name: businessNameState.trim(),
             rating,
             language: replyLanguage,
+            language_explicit: replyLanguageExplicit,
             review_text: reviewText.trim(),
             google_location_id: selectedReview?.google_location_id?.trim() || "",
             location_id: selectedReview?.google_location_id?.trim() || "",
             tone,
             rules: DRAFT_RULES,
             reviewer_name: selectedReview?.authorName?.trim() || "",
+            reviewer_url: selectedReview?.authorUrl?.trim() || "",
+            business_id: selectedReview?.businessId?.trim() || "",
+            review_id: selectedReview?.reviewId?.trim() || "",
+            candidates: DRAFT_CANDIDATE_COUNT,
+            regenerate: !!opts?.regenerate,
+            stream: true,
           }),
+        },
+        (text) => {
+          streamed += text;
+          setDraft(streamed);
         }
       );
 
+      setIsStreaming(false);
+
       if (!ok || !json || json.ok === false) {
         const msg =
           (json as any)?.error ||
@@ -483,6 +664,8 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
 
         setDraft("");
         setFinalReply("");
+
+        setCandidates([]);
         setStatus("error");
         setErrorMessage(msg);
         setReplyRecordId(null);
@@ -492,6 +675,7 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
       if (typeof json.reply !== "string" || !json.reply.trim()) {
         setDraft("");
         setFinalReply("");
+        setCandidates([]);
         setStatus("error");
         setErrorMessage("No reply was returned.");
         setReplyRecordId(null);
@@ -500,11 +684,18 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
 
       const ownerDraft = json.reply.trim();
       setDraft(ownerDraft);
+      setModelDraft(ownerDraft);
+      setCandidates(Array.isArray(json.candidates) ? json.candidates : []);
+      setEscalation(json.meta?.escalation ?? null);
+      setReviewerHistory(json.meta?.reviewer_history ?? null);
+      setCachedAt(json.meta?.cached ? json.meta.cached_at || new Date().toISOString() : null);
 
       const ownerLangRaw = json.meta?.owner_language || "en";
       setOwnerLanguage(ownerLangRaw);
 
-      const reviewerLangRaw = replyLanguage || json.meta?.reviewer_language || "en";
+      const reviewerLangRaw = json.meta?.reviewer_language || replyLanguage || "en";
+      if (normLang(reviewerLangRaw) !== normLang(replyLanguage)) setReplyLanguage(normLang(reviewerLangRaw));
+      setReplyLanguageReason(json.meta?.reply_language_reason ?? null);
 
       if (normLang(ownerLangRaw) !== normLang(reviewerLangRaw)) {
         const translated = await requestTranslate(ownerDraft, reviewerLangRaw);
@@ -533,8 +724,10 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
       setStatus("success");
       return { ok: true as const };
     } catch (err: unknown) {
+      setIsStreaming(false);
       setDraft("");
       setFinalReply("");
+      setCandidates([]);
       setStatus("error");
       setErrorMessage(err instanceof Error ? err.message : COPY.errorDefault);
       setReplyRecordId(null);
@@ -544,16 +737,20 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
 
   async function onDraft() {
     setDraft("");
+    setModelDraft("");
+    setEscalation(null);
     setFinalReply("");
     setVersion(0);
     setReplyRecordId(null);
+    setRevisionCount(0);
     const result = await requestDraft();
     if (result.ok) setVersion(1);
   }
 
   async function onDraftAnother() {
     setReplyRecordId(null);
-    const result = await requestDraft();
+    setRevisionCount(0);
+    const result = await requestDraft({ regenerate: true });
     if (result.ok) setVersion((v) => (v > 0 ? v + 1 : 1));
   }
 
@@ -569,14 +766,18 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
       const google_location_id = selectedReview?.google_location_id?.trim() || "";
 
       if (review_id && business_id) {
+        // Owner-language texts on both sides, so the edit diff compares like with like
+        const edit = modelDraft ? { draft_text: modelDraft, final_text: draft.trim() } : undefined;
+
         if (replyRecordId) {
-          await patchReplyRecord(replyRecordId, "copied", google_location_id);
+          await patchReplyRecord(replyRecordId, "copied", google_location_id, edit);
         } else {
           const fallbackId = await createCopiedReplyRecordFallback({
             review_id,
             business_id,
             google_location_id,
-            draft_text: textToCopy,
+            draft_text: edit?.draft_text || textToCopy,
+            final_text: edit?.final_text,
             owner_language: ownerLanguage,
             reviewer_language: replyLanguage,
             rating,
@@ -599,22 +800,209 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
     }
   }
 
+  // Posts only after the user confirms the exact text in a dialog — never automatically.
+  async function onPublishToGoogle(replaceExisting = false) {
+    const text = (sameLang ? draft : finalReply || draft).trim();
+    if (!text || !replyRecordId || isPublishing) return;
+
+    const editing = gbpPublished?.replyId === replyRecordId;
+    const ok = replaceExisting || window.confirm(
+      `${editing ? "Update" : "Post"} this reply on Google? It will be public immediately.\n\n${text}`
+    );
+    if (!ok) return;
+
+    setIsPublishing(true);
+    setErrorMessage("");
+    try {
+      const { json } = await fetchJson<{
+        ok: boolean;
+        code?: string;
+        error?: string;
+        google_update_time?: string | null;
+        existing_reply?: string | null;
+      }>("/api/reviews/replies/publish", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        // Owner-language texts for the edit diff, as on copy; `text` may be a translation
+        body: JSON.stringify({
+          reply_id: replyRecordId,
+          text,
+          confirm: true,
+          replace_existing: replaceExisting,
+          draft_text: modelDraft || undefined,
+          final_text: draft.trim() || undefined,
+        }),
+      });
+
+      if (json?.code === "GBP_REPLY_EXISTS" && !replaceExisting) {
+        const existing = json.existing_reply ? `\n\nCurrent reply on Google:\n${json.existing_reply}` : "";
+        if (window.confirm(`This review already has a reply on Google. Replace it with this one?${existing}`)) {
+          await onPublishToGoogle(true);
+        }
+        return;
+      }
+
+      if (!json?.ok) {
+        setStatus("error");
+        setErrorMessage(json?.error || "Couldn't post the reply to Google.");
+        return;
+      }
+
+      setGbpPublished({ replyId: replyRecordId, updateTime: json.google_update_time ?? new Date().toISOString() });
+    } finally {
+      setIsPublishing(false);
+    }
+  }
+
+  async function onRemoveFromGoogle() {
+    if (!replyRecordId || isPublishing) return;
+    if (!window.confirm("Remove this reply from Google? The review will show no owner reply.")) return;
+
+    setIsPublishing(true);
+    setErrorMessage("");
+    try {
+      const { json } = await fetchJson<{ ok: boolean; error?: string }>("/api/reviews/replies/publish", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reply_id: replyRecordId, confirm: true }),
+      });
+
+      if (!json?.ok) {
+        setStatus("error");
+        setErrorMessage(json?.error || "Couldn't remove the reply from Google.");
+        return;
+      }
+
+      setGbpPublished(null);
+    } finally {
+      setIsPublishing(false);
+    }
+  }
+
+  async function onAcknowledgeEscalation() {
+    if (!escalation || isAcknowledging) return;
+    const review_id = selectedReview?.reviewId?.trim() || "";
+
+    // Pasted reviews have nothing to record against — the acknowledgement stays local.
+    if (!review_id || !escalation.recorded) {
+      setEscalation({ ...escalation, acknowledged_at: new Date().toISOString() });
+      return;
+    }
+
+    setIsAcknowledging(true);
+    try {
+      const { ok, json } = await fetchJson<{
+        ok: boolean;
+        error?: string;
+        escalation?: { acknowledged_at?: string | null } | null;
+      }>("/api/reviews/escalation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ review_id }),
+      });
+
+      if (!ok || !json?.ok) {
+        setStatus("error");
+        setErrorMessage(json?.error || "Couldn't record the acknowledgement.");
+        return;
+      }
+
+      setEscalation({ ...escalation, acknowledged_at: json.escalation?.acknowledged_at ?? new Date().toISOString() });
+    } finally {
+      setIsAcknowledging(false);
+    }
+  }
+
+  async function onRevise(instructionOverride?: string) {
+    const instruction = (instructionOverride ?? revisionInstruction).trim();
+    const current = draft.trim();
+    if (!instruction || !current || isRevising) return;
+
+    setIsRevising(true);
+    setErrorMessage("");
+    try {
+      const { ok, json, status: httpStatus, rawText } = await fetchJson<ReviseReplyResponse>(
+        "/api/reviews/revise-reply",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            draft_text: current,
+            instruction,
+            review_text: reviewText.trim(),
+            business_name: businessNameState.trim(),
+            rating,
+            reviewer_name: selectedReview?.authorName?.trim() || "",
+            business_id: selectedReview?.businessId?.trim() || "",
+            reply_id: replyRecordId || "",
+          }),
+        }
+      );
+
+      if (!ok || !json || json.ok === false || typeof json.reply !== "string" || !json.reply.trim()) {
+        setStatus("error");
+        setErrorMessage(
+          json?.error || `Couldn't revise the reply. (status ${httpStatus}) ${rawText.slice(0, 120)}`
+        );
+        return;
+      }
+
+      // The revision is the new model text: owner edits from here on are diffed against it
+      const revised = json.reply.trim();
+      setDraft(revised);
+      setModelDraft(revised);
+      setCachedAt(null);
+      setRevisionCount((n) => json.revision?.revision_number ?? n + 1);
+      setRevisionInstruction("");
+      setStatus("success");
+    } catch (err: unknown) {
+      setStatus("error");
+      setErrorMessage(err instanceof Error ? err.message : "Couldn't revise the reply.");
+    } finally {
+      setIsRevising(false);
+    }
+  }
+
+  function onUseCandidate(c: DraftCandidate) {
+    setDraft(c.reply.trim());
+    setModelDraft(c.reply.trim());
+  }
+
+  function onAddSentence(sentence: string) {
+    setDraft((prev) => {
+      const base = prev.trim();
+      if (!base) return sentence;
+      if (base.includes(sentence)) return base;
+      return `${base} ${sentence}`;
+    });
+  }
+
   function onClearSelection() {
     setSelectedReview(null);
     setReviewText("");
     setDraft("");
+    setModelDraft("");
     setFinalReply("");
+    setCandidates([]);
     setOwnerLanguage("en");
     setVersion(0);
     setStatus("idle");
     setErrorMessage("");
     setReplyRecordId(null);
+    setEscalation(null);
+    setReviewerHistory(null);
+    setRevisionInstruction("");
+    setRevisionCount(0);
+    setCachedAt(null);
   }
 
   const isLoading = status === "loading";
   const hasDraft = Boolean(draft.trim());
   const hasFinal = Boolean(finalReply.trim());
-  const canCopy = (hasDraft && (sameLang || hasFinal)) && !isLoading;
+  const escalationLocked = !!escalation && !escalation.acknowledged_at;
+  const canCopy = (hasDraft && (sameLang || hasFinal)) && !isLoading && !escalationLocked;
+  const canPublish = selectedReview?.source === "google_gbp" && !!replyRecordId;
+  const publishedOnGoogle = !!replyRecordId && gbpPublished?.replyId === replyRecordId;
 
   const statusPill = useMemo(() => {
     if (status === "loading") return { label: COPY.statusDrafting, tone: "neutral" as const };
@@ -717,7 +1105,7 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
           {hasDraft ? (
             <div style={{ marginTop: 8, fontSize: 12, color: "rgba(226,232,240,0.55)" }}>
               Draft language (owner): <b>{normLang(ownerLanguage).toUpperCase()}</b> • Copy-ready:{" "}
-              <b>{normLang(replyLanguage).toUpperCase()}</b>
+              <b title={replyLanguageReason ?? undefined}>{normLang(replyLanguage).toUpperCase()}</b>
             </div>
           ) : null}
         </div>
@@ -760,7 +1148,10 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
           <div style={labelStyle}>Reviewer language (copy-ready)</div>
           <select
             value={replyLanguage}
-            onChange={(e) => setReplyLanguage(e.target.value)}
+            onChange={(e) => {
+              setReplyLanguage(e.target.value);
+              setReplyLanguageExplicit(true);
+            }}
             style={selectStyle}
           >
             <option value="en">EN</option>
@@ -819,21 +1210,92 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
               {isLoading ? "Drafting…" : "Draft another option"}
             </button>
 
-            <button onClick={onCopy} disabled={!canCopy} style={secondaryButtonStyle(!canCopy)}>
+            <button
+              onClick={onCopy}
+              disabled={!canCopy}
+              style={secondaryButtonStyle(!canCopy)}
+              title={escalationLocked ? "Acknowledge the sensitive-review flag first" : undefined}
+            >
               {copied ? "Copied" : "Copy reply"}
             </button>
+
+            {canPublish ? (
+              <button
+                onClick={() => onPublishToGoogle()}
+                disabled={!canCopy || isPublishing}
+                style={secondaryButtonStyle(!canCopy || isPublishing)}
+                title={escalationLocked ? "Acknowledge the sensitive-review flag first" : "Asks for confirmation before posting"}
+              >
+                {isPublishing ? "Posting…" : publishedOnGoogle ? "Update on Google" : "Post to Google"}
+              </button>
+            ) : null}
+
+            {canPublish && publishedOnGoogle ? (
+              <>
+                <span style={{ fontSize: 12, color: "rgba(226,232,240,0.7)" }}>
+                  Posted on Google
+                  {gbpPublished?.updateTime ? ` · ${new Date(gbpPublished.updateTime).toLocaleString()}` : ""}
+                </span>
+                <button onClick={onRemoveFromGoogle} disabled={isPublishing} style={smallButtonStyle(isPublishing)}>
+                  Remove from Google
+                </button>
+              </>
+            ) : null}
           </>
         )}
 
         {status === "error" ? <span style={{ color: "#fecaca", fontSize: 13 }}>{errorMessage}</span> : null}
       </div>
 
+      {reviewerHistory && hasDraft ? (
+        <div style={{ marginTop: 8, fontSize: 12, color: "rgba(226,232,240,0.7)" }}>
+          Returning reviewer · {reviewerHistory.previous_count} earlier review
+          {reviewerHistory.previous_count === 1 ? "" : "s"}
+          {reviewerHistory.last_rating !== null ? `, last one ${reviewerHistory.last_rating}★` : ""}
+          {reviewerHistory.last_replied ? " (replied)" : " (no reply)"}
+        </div>
+      ) : null}
+
+      {/* Sensitive review escalation */}
+      {escalation && hasDraft ? (
+        <div style={escalationBoxStyle(!!escalation.acknowledged_at)}>
+          <div style={{ fontWeight: 800, fontSize: 13 }}>
+            {escalation.acknowledged_at ? "Sensitive review — acknowledged" : "Sensitive review — take it offline"}
+          </div>
+          <div style={{ marginTop: 4, fontSize: 12, lineHeight: 1.45, color: "rgba(226,232,240,0.8)" }}>
+            Flagged for: {escalation.labels.join(", ")}. The draft avoids admitting fault and moves the
+            conversation to a direct channel. A manager should read the review and the draft before it’s used.
+          </div>
+          {!escalation.acknowledged_at ? (
+            <button
+              type="button"
+              onClick={onAcknowledgeEscalation}
+              disabled={isAcknowledging}
+              style={{ ...smallButtonStyle(isAcknowledging), marginTop: 8 }}
+            >
+              {isAcknowledging ? "Saving…" : "I’ve reviewed this — unlock copy"}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
       {/* Owner Draft output */}
       <div style={{ marginTop: 14 }}>
-        <div style={labelStyle}>Owner draft (editable)</div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <div style={labelStyle}>Owner draft (editable){isStreaming ? " — Writing…" : ""}</div>
+          {cachedAt && hasDraft ? (
+            <span
+              style={versionBadgeStyle}
+              title={`Same review and settings as a draft from ${new Date(cachedAt).toLocaleString()}. “Draft another option” asks for a fresh one.`}
+            >
+              Cached draft
+            </span>
+          ) : null}
+        </div>
 
         <textarea
           value={draft}
+          readOnly={isStreaming}
           onChange={(e) => setDraft(e.target.value)}
           placeholder="A suggested reply will appear here…"
           rows={7}
@@ -841,6 +1303,118 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
         />
       </div>
 
+      {/* Targeted revision: one instruction applied to the current draft */}
+      {hasDraft && !isStreaming ? (
+        <div style={{ marginTop: 10 }}>
+          <div style={labelStyle}>
+            Revise this draft{revisionCount > 0 ? ` — revision ${revisionCount}` : ""}
+            {isRevising ? " — Revising…" : ""}
+          </div>
+
+          <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap", alignItems: "center" }}>
+            {REVISION_PRESETS.map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() => onRevise(preset)}
+                disabled={isRevising || isLoading}
+                style={smallButtonStyle(isRevising || isLoading)}
+              >
+                {preset}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            <input
+              value={revisionInstruction}
+              onChange={(e) => setRevisionInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  onRevise();
+                }
+              }}
+              placeholder="e.g. mention the Malbec"
+              maxLength={300}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              type="button"
+              onClick={() => onRevise()}
+              disabled={!revisionInstruction.trim() || isRevising || isLoading}
+              style={secondaryButtonStyle(!revisionInstruction.trim() || isRevising || isLoading)}
+            >
+              {isRevising ? "Revising…" : "Revise"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {/* Ranked alternatives (pick one, or add single sentences to the draft) */}
+      {candidates.length > 1 ? (
+        <div style={{ marginTop: 14 }}>
+          <div style={labelStyle}>Alternatives (best first)</div>
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: isNarrow ? "1fr" : `repeat(${Math.min(candidates.length, 3)}, 1fr)`,
+              gap: 10,
+              marginTop: 6,
+            }}
+          >
+            {candidates.map((c) => {
+              const isCurrent = c.reply.trim() === draft.trim();
+              return (
+                <div key={`${c.rank}-${c.variant}`} style={candidateCardStyle(isCurrent)}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center" }}>
+                    <span style={{ fontSize: 12, color: "rgba(226,232,240,0.72)" }}>
+                      #{c.rank}
+                      {typeof c.score?.total === "number" ? ` · score ${Math.round(c.score.total * 100)}` : ""}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onUseCandidate(c)}
+                      disabled={isCurrent || isLoading}
+                      style={smallButtonStyle(isCurrent || isLoading)}
+                      title="Replace the draft with this option"
+                    >
+                      {isCurrent ? "In use" : "Use this"}
+                    </button>
+                  </div>
+
+                  <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+                    {splitReplySentences(c.reply).map((sentence, i) => (
+                      <button
+                        key={i}
+                        type="button"
+                        onClick={() => onAddSentence(sentence)}
+                        disabled={isLoading || draft.includes(sentence)}
+                        style={sentenceButtonStyle(isLoading || draft.includes(sentence))}
+                        title="Add this sentence to the end of your draft"
+                      >
+                        {sentence}
+                      </button>
+                    ))}
+                  </div>
+
+                  {c.score?.banned_hits && c.score.banned_hits.length > 0 ? (
+                    <div style={{ marginTop: 8, fontSize: 12, color: "#fecaca" }}>
+                      Uses a phrase we avoid: {c.score.banned_hits.join(", ")}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ marginTop: 6, fontSize: 12, color: "rgba(226,232,240,0.6)" }}>
+            Click a sentence to add it to your draft.
+          </div>
+        </div>
+      ) : null}
+
       {/* Copy-ready output (ONLY when different language) */}
       {!sameLang ? (
         <div style={{ marginTop: 14 }}>
@@ -861,7 +1435,9 @@ export default function DraftReplyPanel({ businessName }: DraftReplyPanelProps)
 
       {/* Footer note */}
       <div style={{ marginTop: 10, fontSize: 12, color: "rgba(226,232,240,0.6)", lineHeight: 1.45 }}>
-        Tip: Copy the reply, then paste it into Google Reviews to post. Nothing is posted automatically.
+        {canPublish
+          ? "Tip: Post to Google asks you to confirm the exact text first. Nothing is posted automatically."
+          : "Tip: Copy the reply, then paste it into Google Reviews to post. Nothing is posted automatically."}
       </div>
     </section>
   );
@@ -945,6 +1521,54 @@ function secondaryButtonStyle(disabled: boolean): React.CSSProperties {
   };
 }
 
+function candidateCardStyle(active: boolean): React.CSSProperties {
+  return {
+    border: active ? "1px solid rgba(99,102,241,0.65)" : "1px solid rgba(148,163,184,0.25)",
+    borderRadius: 12,
+    padding: 10,
+    background: "rgba(15,23,42,0.75)",
+  };
+}
+
+function escalationBoxStyle(acknowledged: boolean): React.CSSProperties {
+  return {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    border: acknowledged ? "1px solid rgba(148,163,184,0.28)" : "1px solid rgba(248,113,113,0.55)",
+    background: acknowledged ? "rgba(15,23,42,0.6)" : "rgba(127,29,29,0.25)",
+    color: "#e2e8f0",
+  };
+}
+
+function smallButtonStyle(disabled: boolean): React.CSSProperties {
+  return {
+    padding: "4px 10px",
+    borderRadius: 999,
+    border: "1px solid rgba(148,163,184,0.28)",
+    background: "rgba(15,23,42,0.85)",
+    color: "#e2e8f0",
+    cursor: disabled ? "not-allowed" : "pointer",
+    fontSize: 12,
+    opacity: disabled ? 0.6 : 1,
+  };
+}
+
+function sentenceButtonStyle(disabled: boolean): React.CSSProperties {
+  return {
+    textAlign: "left",
+    padding: "6px 8px",
+    borderRadius: 8,
+    border: "1px dashed rgba(148,163,184,0.28)",
+    background: "transparent",
+    color: "#e2e8f0",
+    cursor: disabled ? "default" : "pointer",
+    fontSize: 13,
+    lineHeight: 1.4,
+    opacity: disabled ? 0.5 : 1,
+  };
+}
+
 function statusPillStyle(tone: "neutral" | "success" | "error"): React.CSSProperties {
   const base: React.CSSProperties = {
     fontSize: 12,
@@ -3,9 +3,11 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import DraftReplyPanel from "./DraftReplyPanel";
+import BulkDraftPanel from "./BulkDraftPanel";
 import { supabaseBrowser } from "@/lib/supabaseBrowser";
 import SubscribeButton from "./SubscribeButton";
 import { startCheckout } from "@/lib/startCheckout";
+import { REVIEW_TOPIC_LABELS, hasTopic, type ReviewTopicId, type ReviewTopics } from "@/lib/reviewTopics";
 
 type Review = {
   id: string;
@@ -20,6 +22,14 @@ type Review = {
   review_date: string | null;
   detected_language: string | null;
   created_at: string | null;
+  topics?: ReviewTopics | null;
+  reply_status?: "draft" | "copied" | "posted" | null;
+  reply_imported?: boolean;
+  // Edited / removed on Google (lib/reviewRevisions.ts)
+  original_rating?: number | null;
+  revision_count?: number;
+  last_changed_at?: string | null;
+  removed_at?: string | null;
 };
 
 type ReviewsApiResponse = {
@@ -100,6 +110,26 @@ function safeJsonParse<T>(value: string | null): T | null {
   }
 }
 
+function changeBadgeStyle(tone: "up" | "down" | "neutral"): React.CSSProperties {
+  const color =
+    tone === "up" ? "rgba(34,197,94,0.35)" : tone === "down" ? "rgba(248,113,113,0.4)" : "rgba(148,163,184,0.35)";
+  return {
+    fontSize: 11,
+    borderRadius: 999,
+    padding: "3px 10px",
+    border: `1px solid ${color}`,
+    color: "rgba(226,232,240,0.9)",
+    fontWeight: 700,
+  };
+}
+
+// Starting status from the server's reply record (a reply already on Google counts as handled)
+function statusFromReply(r: Review): ReviewStatus {
+  if (r.reply_status === "posted" || r.reply_status === "copied") return "handled";
+  if (r.reply_status === "draft") return "drafted";
+  return "needs_reply";
+}
+
 function maskLocationId(id?: string | null) {
   if (!id) return "Unknown";
   const s = String(id);
@@ -159,6 +189,9 @@ export default function DashboardPage() {
     filtersClear: "Clear",
     filtersStatus: "Status",
     filtersLocation: "Location", // ✅ C2
+    filtersTopic: "Topic",
+    topicAll: "All topics",
+    topicComplaintsOnly: "Complaints only",
     statusAll: "All",
     statusNeeds: "Needs reply",
     statusDrafted: "Drafted",
@@ -234,6 +267,8 @@ export default function DashboardPage() {
   const [ratingFilter, setRatingFilter] = useState<number | "all">("all");
   const [query, setQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<ReviewStatus | "all">("all");
+  const [topicFilter, setTopicFilter] = useState<ReviewTopicId | "all">("all");
+  const [topicNegativeOnly, setTopicNegativeOnly] = useState(false);
 
   const [reviewLocal, setReviewLocal] = useState<Record<string, ReviewLocalState>>({});
   const [whyOpen, setWhyOpen] = useState(false);
@@ -684,7 +719,7 @@ export default function DashboardPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const reviews = data?.reviews ?? [];
+  const reviews = useMemo(() => data?.reviews ?? [], [data?.reviews]);
 
   // ✅ C2: compute available locations from current review rows
   const locationOptions = useMemo(() => {
@@ -714,15 +749,17 @@ export default function DashboardPage() {
       let changed = false;
       const next = { ...prev };
       for (const r of reviews) {
-        if (!next[r.id]) {
-          next[r.id] = { status: "needs_reply", updatedAt: new Date().toISOString() };
+        const fromReply = statusFromReply(r);
+        // Untouched reviews follow the server; a local choice other than the default wins
+        if (!next[r.id] || (next[r.id].status === "needs_reply" && fromReply !== "needs_reply")) {
+          next[r.id] = { status: fromReply, updatedAt: new Date().toISOString() };
           changed = true;
         }
       }
       return changed ? next : prev;
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [reviews?.length]);
+  }, [reviews]);
 
   const filteredReviews = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -746,6 +783,10 @@ export default function DashboardPage() {
       const matchesStatus = statusFilter === "all" ? true : local.status === statusFilter;
       if (!matchesStatus) return false;
 
+      if (topicFilter !== "all" && !hasTopic(r.topics, topicFilter, topicNegativeOnly ? "negative" : null)) {
+        return false;
+      }
+
       if (!q) return true;
 
       const haystack = [
@@ -761,7 +802,7 @@ export default function DashboardPage() {
       return haystack.includes(q);
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [reviews, ratingFilter, query, statusFilter, reviewLocal, locationFilter]);
+  }, [reviews, ratingFilter, query, statusFilter, reviewLocal, locationFilter, topicFilter, topicNegativeOnly]);
 
   const avgRating = useMemo(() => {
     const n = business?.google_rating;
@@ -839,6 +880,7 @@ export default function DashboardPage() {
           text,
           rating: typeof review.rating === "number" ? review.rating : null,
           authorName: review.author_name ?? null,
+          authorUrl: review.author_url ?? null,
           createdAt: review.review_date ?? review.created_at ?? null,
           language: review.detected_language ?? null,
           source: review.source ?? null,
@@ -873,6 +915,13 @@ export default function DashboardPage() {
     return "rgba(251,191,36,0.28)";
   }
 
+  function topicBorder(sentiment: string) {
+    if (sentiment === "negative") return "rgba(248,113,113,0.45)";
+    if (sentiment === "positive") return "rgba(34,197,94,0.40)";
+    if (sentiment === "mixed") return "rgba(251,191,36,0.40)";
+    return "rgba(148,163,184,0.25)";
+  }
+
   const syncTone = useMemo(() => {
     // Your schema doesn’t have last_sync_status; infer:
     // - if last_synced_at present and last_error null => success
@@ -1316,6 +1365,7 @@ export default function DashboardPage() {
 
       <div id="rc-draft-panel-anchor" style={{ position: "relative", top: -10 }} />
       <DraftReplyPanel businessName={displayBusinessName === "Unknown" ? "" : displayBusinessName} />
+      <BulkDraftPanel />
 
       {/* Filters */}
       <div
@@ -1381,6 +1431,31 @@ export default function DashboardPage() {
           </select>
         </div>
 
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <span style={{ opacity: 0.8, fontSize: 13 }}>{COPY.filtersTopic}</span>
+          <select
+            value={topicFilter}
+            onChange={(e) => setTopicFilter(e.target.value as ReviewTopicId | "all")}
+            style={selectStyle}
+          >
+            <option value="all">{COPY.topicAll}</option>
+            {(Object.keys(REVIEW_TOPIC_LABELS) as ReviewTopicId[]).map((t) => (
+              <option key={t} value={t}>
+                {REVIEW_TOPIC_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, opacity: 0.8 }}>
+            <input
+              type="checkbox"
+              checked={topicNegativeOnly}
+              onChange={(e) => setTopicNegativeOnly(e.target.checked)}
+              disabled={topicFilter === "all"}
+            />
+            {COPY.topicComplaintsOnly}
+          </label>
+        </div>
+
         <div style={{ display: "flex", gap: 8, alignItems: "center", flex: 1 }}>
           <span style={{ opacity: 0.8, fontSize: 13 }}>{COPY.filtersSearch}</span>
           <input
@@ -1397,6 +1472,8 @@ export default function DashboardPage() {
             setLocationFilter("all");
             setRatingFilter("all");
             setStatusFilter("all");
+            setTopicFilter("all");
+            setTopicNegativeOnly(false);
             setQuery("");
           }}
           style={buttonStyle}
@@ -1451,6 +1528,8 @@ export default function DashboardPage() {
                     setLocationFilter("all");
                     setRatingFilter("all");
                     setStatusFilter("all");
+                    setTopicFilter("all");
+                    setTopicNegativeOnly(false);
                     setQuery("");
                   }}
                   style={{ ...buttonStyle, padding: "10px 14px", borderRadius: 10 }}
@@ -1517,6 +1596,22 @@ export default function DashboardPage() {
                       </span>
                     )}
 
+                    {(r.topics?.aspects ?? []).map((a) => (
+                      <span
+                        key={a.topic}
+                        style={{
+                          fontSize: 11,
+                          padding: "2px 8px",
+                          borderRadius: 999,
+                          border: `1px solid ${topicBorder(a.sentiment)}`,
+                          opacity: 0.85,
+                        }}
+                        title={a.evidence.length > 0 ? `Mentions: ${a.evidence.join(", ")}` : undefined}
+                      >
+                        {REVIEW_TOPIC_LABELS[a.topic]}
+                      </span>
+                    ))}
+
                     <span
                       style={{
                         fontSize: 11,
@@ -1533,6 +1628,38 @@ export default function DashboardPage() {
                       {statusLabel(local.status)}
                     </span>
 
+                    {typeof r.original_rating === "number" &&
+                      typeof r.rating === "number" &&
+                      r.original_rating !== r.rating && (
+                        <span
+                          style={changeBadgeStyle(r.rating > r.original_rating ? "up" : "down")}
+                          title={r.last_changed_at ? `Changed ${formatDate(r.last_changed_at)}` : undefined}
+                        >
+                          Rating changed from {r.original_rating}★ to {r.rating}★
+                        </span>
+                      )}
+
+                    {(r.revision_count ?? 0) > 0 && r.original_rating === r.rating && (
+                      <span
+                        style={changeBadgeStyle("neutral")}
+                        title={r.last_changed_at ? `Changed ${formatDate(r.last_changed_at)}` : undefined}
+                      >
+                        Edited by guest
+                      </span>
+                    )}
+
+                    {r.removed_at && (
+                      <span style={changeBadgeStyle("down")} title={`Missing since ${formatDate(r.removed_at)}`}>
+                        Removed by Google
+                      </span>
+                    )}
+
+                    {r.reply_imported && (
+                      <span style={{ fontSize: 11, opacity: 0.7 }} title="Owner reply imported from Google Business Profile">
+                        Replied on Google
+                      </span>
+                    )}
+
                     {local.updatedAt && (
                       <span style={{ fontSize: 11, opacity: 0.55 }}>
                         updated {formatDate(local.updatedAt)}
@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type PackOption = { id: string; category: string; label: string };
+
+type BusinessPack = {
+  id: string;
+  business_name: string | null;
+  category_pack: string | null;
+  effective_pack: string | null;
+};
+
+type ApiResp =
+  | {
+      ok: true;
+      packs: PackOption[];
+      business_category: string | null;
+      org_pack: string | null;
+      effective_pack: string | null;
+      businesses: BusinessPack[];
+    }
+  | { ok: false; error: string };
+
+// "" = no override: the pack follows the business category
+const AUTO = "";
+
+export default function CategoryPackCard() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const [packs, setPacks] = useState<PackOption[]>([]);
+  const [businessCategory, setBusinessCategory] = useState<string | null>(null);
+  const [orgPack, setOrgPack] = useState<string>(AUTO);
+  const [effectivePack, setEffectivePack] = useState<string | null>(null);
+  const [businesses, setBusinesses] = useState<BusinessPack[]>([]);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/organizations/category-pack", { cache: "no-store" });
+      const json = (await res.json()) as ApiResp;
+      if (!res.ok || !json.ok) {
+        setError(json.ok ? "Couldn’t load category packs." : json.error);
+        return;
+      }
+      setPacks(json.packs ?? []);
+      setBusinessCategory(json.business_category);
+      setOrgPack(json.org_pack ?? AUTO);
+      setEffectivePack(json.effective_pack);
+      setBusinesses(Array.isArray(json.businesses) ? json.businesses : []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t load category packs.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function save(packId: string, businessId?: string) {
+    const key = businessId ?? "org";
+    if (savingKey) return;
+    setSavingKey(key);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/organizations/category-pack", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pack_id: packId || null, ...(businessId ? { business_id: businessId } : {}) }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json?.ok) {
+        setError(json?.error ?? "Couldn’t save category pack.");
+        return;
+      }
+      // Effective packs depend on both levels — reload instead of recomputing here
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t save category pack.");
+    } finally {
+      setSavingKey(null);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const labelFor = (id: string | null) => packs.find((p) => p.id === id)?.label ?? "None";
+
+  return (
+    <div style={cardStyle}>
+      <div style={{ fontWeight: 800, marginBottom: 6 }}>Business type</div>
+      <div style={{ opacity: 0.78, fontSize: 13, lineHeight: 1.45, marginBottom: 10 }}>
+        Tunes drafts to your kind of business — the words guests use, common pitfalls, and closers that
+        fit the visit.
+      </div>
+
+      {loading ? (
+        <div style={{ fontSize: 13, opacity: 0.75 }}>Loading…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          <select
+            value={orgPack}
+            onChange={(e) => save(e.target.value)}
+            disabled={!!savingKey}
+            style={selectStyle}
+          >
+            <option value={AUTO}>
+              Automatic{businessCategory ? ` (${businessCategory})` : ""}
+            </option>
+            {packs.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+
+          <div style={{ fontSize: 12, opacity: 0.65 }}>In use: {labelFor(effectivePack)}</div>
+
+          {businesses.length > 1 ? (
+            <div style={{ display: "grid", gap: 8, marginTop: 4 }}>
+              <div style={{ fontSize: 12, opacity: 0.78 }}>Per business</div>
+              {businesses.map((b) => (
+                <div key={b.id} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <div style={{ fontSize: 13, minWidth: 160 }}>{b.business_name || "Unnamed business"}</div>
+                  <select
+                    value={b.category_pack ?? AUTO}
+                    onChange={(e) => save(e.target.value, b.id)}
+                    disabled={!!savingKey}
+                    style={{ ...selectStyle, maxWidth: 240 }}
+                  >
+                    <option value={AUTO}>Same as organization</option>
+                    {packs.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                  <div style={{ fontSize: 11, opacity: 0.55 }}>{labelFor(b.effective_pack)}</div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 13, color: "#f87171", marginTop: 8 }}>{error}</div>}
+    </div>
+  );
+}
+
+const cardStyle: React.CSSProperties = {
+  border: "1px solid rgba(148,163,184,0.25)",
+  borderRadius: 14,
+  padding: 14,
+  background: "#0f172a",
+  color: "#e2e8f0",
+};
+
+const selectStyle: React.CSSProperties = {
+  width: "100%",
+  maxWidth: 420,
+  padding: "10px 10px",
+  borderRadius: 10,
+  border: "1px solid rgba(148,163,184,0.35)",
+  background: "#0f172a",
+  color: "#e2e8f0",
+  outline: "none",
+};
@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Fact = { label: string; value: string; always?: boolean };
+
+type Sheet = { facts: Fact[]; never_mention: string[] };
+
+type ApiResp =
+  | {
+      ok: true;
+      org_sheet: Sheet;
+      business_sheet: Sheet | null;
+      businesses: Array<{ id: string; business_name: string | null }>;
+      limits: { facts: number; never_mention: number };
+    }
+  | { ok: false; error: string };
+
+// "" = the organization-wide sheet
+const ORG = "";
+
+const LABEL_SUGGESTIONS = ["Owner", "Sommelier", "Head chef", "Opening hours", "Recently fixed", "Contact email"];
+
+export default function FactSheetCard() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const [scope, setScope] = useState<string>(ORG);
+  const [businesses, setBusinesses] = useState<Array<{ id: string; business_name: string | null }>>([]);
+  const [maxFacts, setMaxFacts] = useState(20);
+
+  const [facts, setFacts] = useState<Fact[]>([]);
+  const [neverText, setNeverText] = useState("");
+
+  async function load(nextScope: string) {
+    setLoading(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const qs = nextScope ? `?business_id=${encodeURIComponent(nextScope)}` : "";
+      const res = await fetch(`/api/organizations/fact-sheet${qs}`, { cache: "no-store" });
+      const json = (await res.json()) as ApiResp;
+      if (!res.ok || !json.ok) {
+        setError(json.ok ? "Couldn’t load the fact sheet." : json.error);
+        return;
+      }
+      const sheet = nextScope ? json.business_sheet ?? { facts: [], never_mention: [] } : json.org_sheet;
+      setFacts(sheet.facts ?? []);
+      setNeverText((sheet.never_mention ?? []).join("\n"));
+      setBusinesses(Array.isArray(json.businesses) ? json.businesses : []);
+      setMaxFacts(json.limits?.facts ?? 20);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t load the fact sheet.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function save() {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    try {
+      const res = await fetch("/api/organizations/fact-sheet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(scope ? { business_id: scope } : {}),
+          facts: facts.filter((f) => f.label.trim() && f.value.trim()),
+          never_mention: neverText
+            .split("\n")
+            .map((s) => s.trim())
+            .filter(Boolean),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json?.ok) {
+        setError(json?.error ?? "Couldn’t save the fact sheet.");
+        return;
+      }
+      setFacts(json.sheet?.facts ?? facts);
+      setNeverText((json.sheet?.never_mention ?? []).join("\n"));
+      setSaved(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t save the fact sheet.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function updateFact(i: number, patch: Partial<Fact>) {
+    setFacts((prev) => prev.map((f, idx) => (idx === i ? { ...f, ...patch } : f)));
+    setSaved(false);
+  }
+
+  function addFact(label = "") {
+    if (facts.length >= maxFacts) return;
+    setFacts((prev) => [...prev, { label, value: "" }]);
+    setSaved(false);
+  }
+
+  function removeFact(i: number) {
+    setFacts((prev) => prev.filter((_, idx) => idx !== i));
+    setSaved(false);
+  }
+
+  useEffect(() => {
+    load(ORG);
+  }, []);
+
+  const unusedSuggestions = LABEL_SUGGESTIONS.filter(
+    (s) => !facts.some((f) => f.label.trim().toLowerCase() === s.toLowerCase())
+  );
+
+  return (
+    <div style={cardStyle}>
+      <div style={{ fontWeight: 800, marginBottom: 6 }}>Fact sheet</div>
+      <div style={{ opacity: 0.78, fontSize: 13, lineHeight: 1.45, marginBottom: 10 }}>
+        Real details drafts may use when a review touches on them — who the sommelier is, your hours, something
+        you’ve fixed. Anything not in the review or here is left out of replies.
+      </div>
+
+      {businesses.length > 1 ? (
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value);
+            load(e.target.value);
+          }}
+          disabled={loading || saving}
+          style={{ ...inputStyle, maxWidth: 320, marginBottom: 10 }}
+        >
+          <option value={ORG}>All businesses</option>
+          {businesses.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.business_name || "Unnamed business"} (overrides)
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {loading ? (
+        <div style={{ fontSize: 13, opacity: 0.75 }}>Loading…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 8 }}>
+          {facts.map((f, i) => (
+            <div key={i} style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <input
+                value={f.label}
+                onChange={(e) => updateFact(i, { label: e.target.value })}
+                placeholder="Label (e.g. Sommelier)"
+                maxLength={60}
+                style={{ ...inputStyle, maxWidth: 180 }}
+              />
+              <input
+                value={f.value}
+                onChange={(e) => updateFact(i, { value: e.target.value })}
+                placeholder="Fact (e.g. Marco leads our tastings)"
+                maxLength={240}
+                style={{ ...inputStyle, flex: 1, minWidth: 200 }}
+              />
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, opacity: 0.8 }}>
+                <input
+                  type="checkbox"
+                  checked={!!f.always}
+                  onChange={(e) => updateFact(i, { always: e.target.checked || undefined })}
+                />
+                Always offer
+              </label>
+              <button type="button" onClick={() => removeFact(i)} style={ghostButtonStyle}>
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <button type="button" onClick={() => addFact()} disabled={facts.length >= maxFacts} style={ghostButtonStyle}>
+              Add fact
+            </button>
+            {unusedSuggestions.slice(0, 4).map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => addFact(s)}
+                disabled={facts.length >= maxFacts}
+                style={{ ...ghostButtonStyle, fontSize: 12, padding: "6px 10px" }}
+              >
+                + {s}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ fontSize: 12, opacity: 0.78, marginTop: 6 }}>Never mention (one per line)</div>
+          <textarea
+            value={neverText}
+            onChange={(e) => {
+              setNeverText(e.target.value);
+              setSaved(false);
+            }}
+            placeholder={"e.g. the renovation\nour old name"}
+            rows={3}
+            style={textareaStyle}
+          />
+
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <button type="button" onClick={save} disabled={saving} style={buttonStyle}>
+              {saving ? "Saving…" : "Save fact sheet"}
+            </button>
+            {saved ? <span style={{ fontSize: 12, opacity: 0.7 }}>Saved</span> : null}
+          </div>
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 13, color: "#f87171", marginTop: 8 }}>{error}</div>}
+    </div>
+  );
+}
+
+const cardStyle: React.CSSProperties = {
+  border: "1px solid rgba(148,163,184,0.25)",
+  borderRadius: 14,
+  padding: 14,
+  background: "#0f172a",
+  color: "#e2e8f0",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: 10,
+  border: "1px solid rgba(148,163,184,0.35)",
+  background: "#0f172a",
+  color: "#e2e8f0",
+  outline: "none",
+  fontSize: 13,
+};
+
+const textareaStyle: React.CSSProperties = {
+  width: "100%",
+  resize: "vertical",
+  borderRadius: 12,
+  padding: "10px 12px",
+  border: "1px solid rgba(148,163,184,0.22)",
+  background: "rgba(15,23,42,0.65)",
+  color: "#e2e8f0",
+  outline: "none",
+  lineHeight: 1.5,
+  fontSize: 13,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(148,163,184,0.35)",
+  background: "#0f172a",
+  cursor: "pointer",
+  color: "#e2e8f0",
+};
+
+const ghostButtonStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(148,163,184,0.25)",
+  background: "rgba(15,23,42,0.35)",
+  cursor: "pointer",
+  color: "rgba(226,232,240,0.92)",
+};
@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Totals = { calls: number; input_tokens: number; output_tokens: number };
+
+type Limits = { daily_calls: number | null; monthly_calls: number | null; monthly_tokens: number | null };
+
+type ApiResp =
+  | {
+      ok: true;
+      plan: string;
+      limits: Limits;
+      usage: { day: Totals; month: Totals; by_task: Record<string, Totals> };
+    }
+  | { ok: false; error: string };
+
+const TASK_LABELS: Record<string, string> = {
+  draft: "Drafts",
+  revise: "Revisions",
+  translate: "Translations",
+};
+
+function formatCount(n: number) {
+  return n >= 10_000 ? `${Math.round(n / 1000)}k` : n.toLocaleString();
+}
+
+export default function UsageCard() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<Extract<ApiResp, { ok: true }> | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/org/usage", { cache: "no-store" });
+        const json = (await res.json()) as ApiResp;
+        if (!res.ok || !json.ok) {
+          setError(json.ok ? "Couldn’t load usage." : json.error);
+          return;
+        }
+        setData(json);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Couldn’t load usage.");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const rows = data
+    ? [
+        { label: "Model calls today", used: data.usage.day.calls, limit: data.limits.daily_calls },
+        { label: "Model calls this month", used: data.usage.month.calls, limit: data.limits.monthly_calls },
+        {
+          label: "Tokens this month",
+          used: data.usage.month.input_tokens + data.usage.month.output_tokens,
+          limit: data.limits.monthly_tokens,
+        },
+      ]
+    : [];
+
+  return (
+    <div style={cardStyle}>
+      <div style={{ fontWeight: 800, marginBottom: 6 }}>Usage</div>
+      <div style={{ opacity: 0.78, fontSize: 13, lineHeight: 1.45, marginBottom: 10 }}>
+        Drafting, revising and translating replies all count. Reopening a review you already drafted doesn’t.
+      </div>
+
+      {loading ? (
+        <div style={{ fontSize: 13, opacity: 0.75 }}>Loading…</div>
+      ) : data ? (
+        <div style={{ display: "grid", gap: 10 }}>
+          {rows.map((r) => {
+            const pct = r.limit ? Math.min(100, Math.round((r.used / r.limit) * 100)) : 0;
+            return (
+              <div key={r.label}>
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13 }}>
+                  <span>{r.label}</span>
+                  <span style={{ opacity: 0.8 }}>
+                    {formatCount(r.used)}
+                    {r.limit !== null ? ` / ${formatCount(r.limit)}` : ""}
+                  </span>
+                </div>
+                {r.limit !== null ? (
+                  <div style={barTrackStyle}>
+                    <div style={{ ...barFillStyle, width: `${pct}%`, background: pct >= 90 ? "#f87171" : "#60a5fa" }} />
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+
+          <div style={{ fontSize: 12, opacity: 0.7 }}>
+            {Object.entries(data.usage.by_task)
+              .filter(([task]) => TASK_LABELS[task])
+              .map(([task, t]) => `${TASK_LABELS[task]}: ${t.calls}`)
+              .join(" · ") || "No model calls this month yet."}
+          </div>
+        </div>
+      ) : null}
+
+      {error && <div style={{ fontSize: 13, color: "#f87171", marginTop: 8 }}>{error}</div>}
+    </div>
+  );
+}
+
+const cardStyle: React.CSSProperties = {
+  border: "1px solid rgba(148,163,184,0.25)",
+  borderRadius: 14,
+  padding: 14,
+  background: "#0f172a",
+  color: "#e2e8f0",
+};
+
+const barTrackStyle: React.CSSProperties = {
+  marginTop: 4,
+  height: 6,
+  borderRadius: 999,
+  background: "rgba(148,163,184,0.18)",
+  overflow: "hidden",
+};
+
+const barFillStyle: React.CSSProperties = {
+  height: "100%",
+  borderRadius: 999,
+};
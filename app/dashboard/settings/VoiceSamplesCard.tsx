@@ -15,6 +15,19 @@ type ApiListResp =
   | { ok: true; voice_samples?: VoiceSample[]; samples?: VoiceSample[] }
   | { ok: false; error: string };
 
+// Proposed from posted replies the owner rewrote (approval inbox)
+type VoiceSampleSuggestion = {
+  id: string;
+  sample_text: string;
+  edit_ratio?: number | null;
+  created_at?: string;
+  warnings?: string[];
+};
+
+type ApiSuggestionsResp =
+  | { ok: true; suggestions?: VoiceSampleSuggestion[] }
+  | { ok: false; error: string };
+
 type ApiSingleResp =
   | { ok: true; voice_sample?: VoiceSample; sample?: VoiceSample }
   | { ok: false; error: string };
@@ -165,6 +178,10 @@ export default function VoiceSamplesCard() {
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
+  // Suggestion inbox state
+  const [suggestions, setSuggestions] = useState<VoiceSampleSuggestion[]>([]);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
   const trimmedNew = useMemo(() => newSample.trim(), [newSample]);
   const newCharCount = useMemo(() => newSample.length, [newSample]);
   const newValidation = useMemo(() => validateSampleText(newSample), [newSample]);
@@ -254,6 +271,48 @@ export default function VoiceSamplesCard() {
     }
   }
 
+  async function loadSuggestions() {
+    try {
+      const res = await fetch("/api/org/voice-samples/suggestions", { cache: "no-store" });
+      const json = (await res.json()) as ApiSuggestionsResp;
+      if (!res.ok || !json.ok) {
+        // Inbox is optional — keep the card usable if it fails
+        setSuggestions([]);
+        return;
+      }
+      setSuggestions(Array.isArray(json.suggestions) ? json.suggestions : []);
+    } catch {
+      setSuggestions([]);
+    }
+  }
+
+  async function decideSuggestion(id: string, action: "approve" | "dismiss") {
+    if (!id || decidingId) return;
+    setDecidingId(id);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/org/voice-samples/suggestions/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      const json = await res.json();
+      if (!res.ok || !json?.ok) {
+        setError(json?.error ?? "Couldn’t update suggestion.");
+        return;
+      }
+
+      setSuggestions((xs) => xs.filter((x) => x.id !== id));
+      if (action === "approve") await loadSamples();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn’t update suggestion.");
+    } finally {
+      setDecidingId(null);
+    }
+  }
+
   function beginEdit(s: VoiceSample) {
     setError(null);
     setConfirmDeleteId(null);
@@ -359,6 +418,7 @@ export default function VoiceSamplesCard() {
 
   useEffect(() => {
     loadSamples();
+    loadSuggestions();
   }, []);
 
   const newHasPii = newWarnings.some(isPiiWarning);
@@ -458,6 +518,96 @@ export default function VoiceSamplesCard() {
 
         {error && <div style={{ fontSize: 13, color: "#f87171", marginTop: 2 }}>{error}</div>}
 
+        {/* Suggestion inbox */}
+        {suggestions.length > 0 ? (
+          <div
+            style={{
+              borderTop: "1px solid rgba(148,163,184,0.18)",
+              paddingTop: 12,
+              marginTop: 6,
+            }}
+          >
+            <div style={{ fontSize: 12, opacity: 0.78, marginBottom: 4 }}>
+              Suggested from your posted replies
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.6, lineHeight: 1.4, marginBottom: 10 }}>
+              You rewrote these drafts before posting. Approve the ones that sound like you.
+            </div>
+
+            <div style={{ display: "grid", gap: 10 }}>
+              {suggestions.map((sg) => {
+                const isDecidingThis = decidingId === sg.id;
+                const warnings = (Array.isArray(sg.warnings) ? sg.warnings : []).filter(
+                  (w) => !isPiiWarning(w)
+                );
+
+                return (
+                  <div
+                    key={sg.id}
+                    style={{
+                      border: "1px dashed rgba(148,163,184,0.30)",
+                      borderRadius: 12,
+                      padding: 12,
+                      background: "rgba(2,6,23,0.25)",
+                    }}
+                  >
+                    <div style={{ fontSize: 13, lineHeight: 1.55, opacity: 0.95, whiteSpace: "pre-wrap" }}>
+                      {sg.sample_text}
+                    </div>
+
+                    <div
+                      style={{
+                        marginTop: 10,
+                        display: "flex",
+                        justifyContent: "space-between",
+                        gap: 10,
+                        alignItems: "center",
+                        flexWrap: "wrap",
+                      }}
+                    >
+                      <div style={{ fontSize: 11, opacity: 0.55 }}>
+                        {typeof sg.edit_ratio === "number"
+                          ? `${Math.round(sg.edit_ratio * 100)}% rewritten`
+                          : ""}
+                        {warnings.length ? ` • ${warnings.map(warningLabel).slice(0, 2).join(" • ")}` : ""}
+                      </div>
+
+                      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <button
+                          onClick={() => decideSuggestion(sg.id, "approve")}
+                          disabled={!!decidingId}
+                          style={{
+                            ...buttonStyle,
+                            padding: "8px 10px",
+                            borderRadius: 10,
+                            fontSize: 12,
+                            opacity: decidingId ? 0.6 : 1,
+                          }}
+                        >
+                          {isDecidingThis ? "Saving…" : "Add as sample"}
+                        </button>
+                        <button
+                          onClick={() => decideSuggestion(sg.id, "dismiss")}
+                          disabled={!!decidingId}
+                          style={{
+                            ...ghostButtonStyle,
+                            padding: "8px 10px",
+                            borderRadius: 10,
+                            fontSize: 12,
+                            opacity: decidingId ? 0.6 : 1,
+                          }}
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : null}
+
         {/* List */}
         <div
           style={{
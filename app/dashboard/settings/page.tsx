@@ -3,6 +3,9 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import VoiceSamplesCard from "./VoiceSamplesCard";
+import CategoryPackCard from "./CategoryPackCard";
+import FactSheetCard from "./FactSheetCard";
+import UsageCard from "./UsageCard";
 
 type Settings = {
   owner_language: string;
@@ -248,6 +251,10 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        <CategoryPackCard />
+
+        <FactSheetCard />
+
         {/* ✅ NEW: Voice Samples (clean + future-proof) */}
         <VoiceSamplesCard />
 
@@ -264,6 +271,8 @@ export default function SettingsPage() {
             style={inputStyle}
           />
         </div>
+
+        <UsageCard />
       </div>
 
       {toast && (
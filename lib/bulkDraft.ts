@@ -0,0 +1,463 @@
+// lib/bulkDraft.ts
+//
+// Bulk drafting for the unreplied backlog. A job snapshots a filtered set of
+// reviews (rating range, age, optional business) that have no reply record
+// yet, then drafts them in small batches through the regular draft pipeline
+// (POST /api/reviews/bulk-draft/run). Every result is stored as a `draft` row
+// in review_replies — bulk jobs never copy or post anything.
+//
+// bulk_draft_jobs: id, organization_id, created_by, filters jsonb, status,
+// total, drafted, failed, skipped, error, created_at, updated_at,
+// completed_at.
+// bulk_draft_items: id, job_id, organization_id, review_id, status, reply_id,
+// error, created_at, updated_at.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export type BulkDraftJobStatus = "running" | "paused" | "completed" | "canceled";
+
+export type BulkDraftItemStatus = "pending" | "running" | "drafted" | "failed" | "skipped";
+
+export type BulkDraftFilters = {
+  business_id: string | null;
+  min_rating: number;
+  max_rating: number;
+  days: number;
+  limit: number;
+};
+
+export type BulkDraftJob = {
+  id: string;
+  status: BulkDraftJobStatus;
+  filters: BulkDraftFilters;
+  total: number;
+  drafted: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+  error: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  completed_at: string | null;
+};
+
+export type BulkDraftItem = {
+  id: string;
+  review_id: string;
+  status: BulkDraftItemStatus;
+  reply_id: string | null;
+  error: string | null;
+};
+
+export const MAX_BULK_DRAFT_ITEMS = 300;
+
+// Reviews drafted per run request, and how many of those call the model at once
+export const BULK_DRAFT_BATCH_SIZE = 6;
+export const BULK_DRAFT_CONCURRENCY = 2;
+
+// A run that died mid-batch leaves items "running"; they are retried after this
+const STALE_RUNNING_MS = 5 * 60 * 1000;
+
+// Reply statuses that count as "already handled" for the backlog
+const REPLIED_STATUSES = ["draft", "copied", "posted"];
+
+const JOB_COLUMNS = "id, status, filters, total, drafted, failed, skipped, error, created_at, updated_at, completed_at";
+
+type Client = OrgContext["supabase"];
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+function clampInt(v: unknown, min: number, max: number, fallback: number) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(Math.round(n), min), max);
+}
+
+/** Defaults: 4–5★ from the last 90 days, all businesses, up to 100 reviews. */
+export function parseBulkDraftFilters(v: unknown): BulkDraftFilters {
+  const o = v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+  const minRating = clampInt(o.min_rating, 1, 5, 4);
+  const maxRating = clampInt(o.max_rating, 1, 5, 5);
+  const businessId = typeof o.business_id === "string" ? o.business_id.trim().slice(0, 80) : "";
+
+  return {
+    business_id: businessId || null,
+    min_rating: Math.min(minRating, maxRating),
+    max_rating: Math.max(minRating, maxRating),
+    days: clampInt(o.days, 1, 730, 90),
+    limit: clampInt(o.limit, 1, MAX_BULK_DRAFT_ITEMS, 100),
+  };
+}
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+/**
+ * Review ids matching the filters that have no draft / copied / posted reply
+ * record yet, newest first.
+ */
+export async function selectUnrepliedReviewIds(params: {
+  supabase: Client;
+  organizationId: string;
+  filters: BulkDraftFilters;
+}): Promise<{ ids: string[]; error: string | null }> {
+  const { supabase, organizationId, filters } = params;
+  const since = new Date(Date.now() - filters.days * 24 * 60 * 60 * 1000).toISOString();
+
+  let query = supabase
+    .from("reviews")
+    .select("id, review_text")
+    .eq("organization_id", organizationId)
+    .gte("rating", filters.min_rating)
+    .lte("rating", filters.max_rating)
+    .gte("review_date", since)
+    .order("review_date", { ascending: false })
+    // Over-fetch: some of these already have replies
+    .limit(Math.min(filters.limit * 3, 2000));
+  if (filters.business_id) query = query.eq("business_id", filters.business_id);
+
+  const { data: reviews, error } = await query;
+  if (error) return { ids: [], error: error.message };
+
+  const candidates = (reviews ?? [])
+    .filter((r) => typeof r.review_text === "string" && r.review_text.trim())
+    .map((r) => String(r.id));
+  if (candidates.length === 0) return { ids: [], error: null };
+
+  const replied = new Set<string>();
+  for (let i = 0; i < candidates.length; i += 200) {
+    const { data: replies, error: repErr } = await supabase
+      .from("review_replies")
+      .select("review_id")
+      .eq("organization_id", organizationId)
+      .in("status", REPLIED_STATUSES)
+      .in("review_id", candidates.slice(i, i + 200));
+    if (repErr) return { ids: [], error: repErr.message };
+    for (const r of replies ?? []) replied.add(String(r.review_id));
+  }
+
+  return { ids: candidates.filter((id) => !replied.has(id)).slice(0, filters.limit), error: null };
+}
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+type JobRow = {
+  id: string;
+  status: string | null;
+  filters: unknown;
+  total: number | null;
+  drafted: number | null;
+  failed: number | null;
+  skipped: number | null;
+  error: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  completed_at: string | null;
+};
+
+function toJob(r: JobRow): BulkDraftJob {
+  const total = Number(r.total) || 0;
+  const drafted = Number(r.drafted) || 0;
+  const failed = Number(r.failed) || 0;
+  const skipped = Number(r.skipped) || 0;
+  const status = r.status === "paused" || r.status === "completed" || r.status === "canceled" ? r.status : "running";
+
+  return {
+    id: String(r.id),
+    status,
+    filters: parseBulkDraftFilters(r.filters),
+    total,
+    drafted,
+    failed,
+    skipped,
+    pending: Math.max(0, total - drafted - failed - skipped),
+    error: r.error ?? null,
+    created_at: r.created_at ?? null,
+    updated_at: r.updated_at ?? null,
+    completed_at: r.completed_at ?? null,
+  };
+}
+
+/** Creates a job and its items. A job with no matching reviews is created already completed. */
+export async function createBulkDraftJob(params: {
+  supabase: Client;
+  organizationId: string;
+  userId: string;
+  filters: BulkDraftFilters;
+}): Promise<{ job: BulkDraftJob | null; error: string | null }> {
+  const { supabase, organizationId, userId, filters } = params;
+
+  const selection = await selectUnrepliedReviewIds({ supabase, organizationId, filters });
+  if (selection.error) return { job: null, error: selection.error };
+
+  const nowIso = new Date().toISOString();
+  const { data: jobRow, error: jobErr } = await supabase
+    .from("bulk_draft_jobs")
+    .insert({
+      organization_id: organizationId,
+      created_by: userId,
+      filters,
+      status: selection.ids.length > 0 ? "running" : "completed",
+      total: selection.ids.length,
+      drafted: 0,
+      failed: 0,
+      skipped: 0,
+      updated_at: nowIso,
+      completed_at: selection.ids.length > 0 ? null : nowIso,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+  if (jobErr || !jobRow) return { job: null, error: jobErr?.message ?? "bulk_draft_jobs insert failed" };
+
+  if (selection.ids.length > 0) {
+    const { error: itemsErr } = await supabase.from("bulk_draft_items").insert(
+      selection.ids.map((reviewId) => ({
+        job_id: jobRow.id,
+        organization_id: organizationId,
+        review_id: reviewId,
+        status: "pending",
+      }))
+    );
+    if (itemsErr) {
+      await supabase.from("bulk_draft_jobs").delete().eq("id", jobRow.id).eq("organization_id", organizationId);
+      return { job: null, error: itemsErr.message };
+    }
+  }
+
+  return { job: toJob(jobRow as JobRow), error: null };
+}
+
+/** One job (or the organization's most recent one when jobId is null). */
+export async function loadBulkDraftJob(params: {
+  supabase: Client;
+  organizationId: string;
+  jobId: string | null;
+}): Promise<BulkDraftJob | null> {
+  const { supabase, organizationId, jobId } = params;
+  let query = supabase.from("bulk_draft_jobs").select(JOB_COLUMNS).eq("organization_id", organizationId);
+  query = jobId ? query.eq("id", jobId) : query.order("created_at", { ascending: false }).limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    console.warn("bulk_draft_jobs lookup failed:", error.message);
+    return null;
+  }
+  return data ? toJob(data as JobRow) : null;
+}
+
+/** Failed items of a job, most recent first. */
+export async function loadFailedBulkDraftItems(params: {
+  supabase: Client;
+  organizationId: string;
+  jobId: string;
+  limit?: number;
+}): Promise<BulkDraftItem[]> {
+  const { supabase, organizationId, jobId } = params;
+  const { data, error } = await supabase
+    .from("bulk_draft_items")
+    .select("id, review_id, status, reply_id, error")
+    .eq("organization_id", organizationId)
+    .eq("job_id", jobId)
+    .eq("status", "failed")
+    .order("updated_at", { ascending: false })
+    .limit(params.limit ?? 50);
+  if (error) {
+    console.warn("bulk_draft_items lookup failed:", error.message);
+    return [];
+  }
+  return (data ?? []).map((r) => ({
+    id: String(r.id),
+    review_id: String(r.review_id),
+    status: "failed",
+    reply_id: r.reply_id ? String(r.reply_id) : null,
+    error: r.error ?? null,
+  }));
+}
+
+/** Sets the job status (pause / resume / cancel) and an optional error note. */
+export async function setBulkDraftJobStatus(params: {
+  supabase: Client;
+  organizationId: string;
+  jobId: string;
+  status: BulkDraftJobStatus;
+  error?: string | null;
+}): Promise<string | null> {
+  const { supabase, organizationId, jobId, status } = params;
+  const nowIso = new Date().toISOString();
+  const { error } = await supabase
+    .from("bulk_draft_jobs")
+    .update({
+      status,
+      error: params.error ?? null,
+      updated_at: nowIso,
+      completed_at: status === "completed" || status === "canceled" ? nowIso : null,
+    })
+    .eq("id", jobId)
+    .eq("organization_id", organizationId);
+  return error ? error.message : null;
+}
+
+/** Puts a job's failed items back in the queue. Returns how many were reset. */
+export async function retryFailedBulkDraftItems(params: {
+  supabase: Client;
+  organizationId: string;
+  jobId: string;
+}): Promise<{ count: number; error: string | null }> {
+  const { supabase, organizationId, jobId } = params;
+  const { data, error } = await supabase
+    .from("bulk_draft_items")
+    .update({ status: "pending", error: null, updated_at: new Date().toISOString() })
+    .eq("organization_id", organizationId)
+    .eq("job_id", jobId)
+    .eq("status", "failed")
+    .select("id");
+  if (error) return { count: 0, error: error.message };
+  return { count: (data ?? []).length, error: null };
+}
+
+// ─── Items ────────────────────────────────────────────────────────────────────
+
+/**
+ * Marks up to `limit` pending items as running and returns them. Items stuck in
+ * "running" from a run that never finished are picked up again.
+ */
+export async function claimBulkDraftItems(params: {
+  supabase: Client;
+  organizationId: string;
+  jobId: string;
+  limit: number;
+}): Promise<{ items: BulkDraftItem[]; error: string | null }> {
+  const { supabase, organizationId, jobId, limit } = params;
+  const nowIso = new Date().toISOString();
+
+  await supabase
+    .from("bulk_draft_items")
+    .update({ status: "pending", updated_at: nowIso })
+    .eq("organization_id", organizationId)
+    .eq("job_id", jobId)
+    .eq("status", "running")
+    .lt("updated_at", new Date(Date.now() - STALE_RUNNING_MS).toISOString());
+
+  const { data: pending, error } = await supabase
+    .from("bulk_draft_items")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("job_id", jobId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true })
+    .limit(limit);
+  if (error) return { items: [], error: error.message };
+  const ids = (pending ?? []).map((r) => String(r.id));
+  if (ids.length === 0) return { items: [], error: null };
+
+  // Only rows still pending are claimed, so two overlapping runs don't draft the same review
+  const { data: claimed, error: claimErr } = await supabase
+    .from("bulk_draft_items")
+    .update({ status: "running", updated_at: nowIso })
+    .eq("organization_id", organizationId)
+    .eq("status", "pending")
+    .in("id", ids)
+    .select("id, review_id, status, reply_id, error");
+  if (claimErr) return { items: [], error: claimErr.message };
+
+  return {
+    items: (claimed ?? []).map((r) => ({
+      id: String(r.id),
+      review_id: String(r.review_id),
+      status: "running",
+      reply_id: null,
+      error: null,
+    })),
+    error: null,
+  };
+}
+
+/** Records the outcome of one item. Best-effort. */
+export async function finishBulkDraftItem(params: {
+  supabase: Client;
+  organizationId: string;
+  itemId: string;
+  status: Exclude<BulkDraftItemStatus, "running">;
+  replyId?: string | null;
+  error?: string | null;
+}) {
+  const { supabase, organizationId, itemId, status } = params;
+  const { error } = await supabase
+    .from("bulk_draft_items")
+    .update({
+      status,
+      reply_id: params.replyId ?? null,
+      error: params.error ? params.error.slice(0, 500) : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", itemId)
+    .eq("organization_id", organizationId);
+  if (error) console.warn("bulk_draft_items update failed:", error.message);
+}
+
+/**
+ * Recounts a job's items and stores the totals. A running job with nothing
+ * left to draft is marked completed.
+ */
+export async function refreshBulkDraftJob(params: {
+  supabase: Client;
+  organizationId: string;
+  jobId: string;
+}): Promise<BulkDraftJob | null> {
+  const { supabase, organizationId, jobId } = params;
+
+  const { data: items, error } = await supabase
+    .from("bulk_draft_items")
+    .select("status")
+    .eq("organization_id", organizationId)
+    .eq("job_id", jobId)
+    .limit(MAX_BULK_DRAFT_ITEMS * 2);
+  if (error) {
+    console.warn("bulk_draft_items count failed:", error.message);
+    return loadBulkDraftJob({ supabase, organizationId, jobId });
+  }
+
+  const counts: Record<BulkDraftItemStatus, number> = { pending: 0, running: 0, drafted: 0, failed: 0, skipped: 0 };
+  for (const r of items ?? []) {
+    const s = String(r.status) as BulkDraftItemStatus;
+    if (s in counts) counts[s] += 1;
+  }
+
+  const current = await loadBulkDraftJob({ supabase, organizationId, jobId });
+  if (!current) return null;
+
+  const done = counts.pending === 0 && counts.running === 0;
+  const nowIso = new Date().toISOString();
+  const { data, error: updErr } = await supabase
+    .from("bulk_draft_jobs")
+    .update({
+      total: (items ?? []).length,
+      drafted: counts.drafted,
+      failed: counts.failed,
+      skipped: counts.skipped,
+      updated_at: nowIso,
+      ...(done && current.status === "running" ? { status: "completed", completed_at: nowIso } : {}),
+    })
+    .eq("id", jobId)
+    .eq("organization_id", organizationId)
+    .select(JOB_COLUMNS)
+    .single();
+  if (updErr || !data) {
+    console.warn("bulk_draft_jobs update failed:", updErr?.message);
+    return current;
+  }
+  return toJob(data as JobRow);
+}
+
+// ─── Concurrency ──────────────────────────────────────────────────────────────
+
+/** Runs `fn` over `items` with at most `limit` calls in flight. */
+export async function runWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await fn(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+}
@@ -0,0 +1,163 @@
+// lib/categoryPacks.ts
+//
+// Per-business-category prompt packs. A pack carries what the generic prompt
+// can't know about a type of business: the words guests use, how replies in
+// that category typically go wrong, phrases to ban on top of BANNED_PHRASES,
+// and closers that fit the visit.
+//
+// Pack ids are versioned ("winery-v1"). Changing a pack's text means adding a
+// new id and pointing CATEGORY_PACKS at it, so the id recorded in the prompt
+// fingerprint always identifies the exact text that was sent.
+//
+// Selection order (see resolveCategoryPack): explicit pack id on the business,
+// explicit pack id on the organization, then the business category label
+// (the waitlist categories: Winery, Restaurant, Bar, Cafe, Nightclub, Tour Operator).
+
+export type CategoryId = "winery" | "restaurant" | "bar" | "cafe" | "nightclub" | "tour_operator";
+
+export type CategoryPack = {
+  id: string;
+  category: CategoryId;
+  label: string;
+  // Nouns guests in this category actually write about — reply should use theirs, not invent
+  vocabulary: string[];
+  // Ways replies in this category typically go wrong
+  failure_modes: string[];
+  // Category-specific phrases, added to the universal banned list
+  bans: string[];
+  // Closers that fit this kind of visit (used when no voice samples set the close)
+  safe_closers: string[];
+};
+
+const WINERY_V1: CategoryPack = {
+  id: "winery-v1",
+  category: "winery",
+  label: "Winery",
+  vocabulary: ["tasting", "flight", "cellar door", "vintage", "varietal", "pairing", "barrel room", "vineyard tour", "wine club"],
+  failure_modes: [
+    "Naming wines, vintages or tasting notes the reviewer never mentioned.",
+    "Turning the reply into a wine club or shipping pitch.",
+    "Talking about the harvest or terroir when the review was about service.",
+  ],
+  bans: ["join our wine club", "sip, swirl", "liquid poetry", "wine lover's paradise", "cheers to"],
+  safe_closers: [
+    "We'd love to pour for you again next time you're in the valley.",
+    "Hope to see you at the tasting room again.",
+  ],
+};
+
+const RESTAURANT_V1: CategoryPack = {
+  id: "restaurant-v1",
+  category: "restaurant",
+  label: "Restaurant",
+  vocabulary: ["dish", "menu", "kitchen", "table", "reservation", "course", "server", "dessert", "wait"],
+  failure_modes: [
+    "Describing dishes the reviewer didn't order or mention.",
+    "Blaming a busy night for slow service.",
+    "Promising the chef will change a recipe.",
+  ],
+  bans: ["culinary journey", "tantalize your taste buds", "feast for the senses", "mouth-watering"],
+  safe_closers: ["We'd love to cook for you again.", "Hope to have you back at the table soon."],
+};
+
+const BAR_V1: CategoryPack = {
+  id: "bar-v1",
+  category: "bar",
+  label: "Bar",
+  vocabulary: ["drinks", "cocktail", "bartender", "happy hour", "pint", "tap list", "music", "crowd"],
+  failure_modes: [
+    "Encouraging heavy drinking or promoting drink specials.",
+    "Arguing about door policy or ID checks in public.",
+    "Naming staff involved in a complaint.",
+  ],
+  bans: ["drinks on us", "first round", "bottoms up", "party all night"],
+  safe_closers: ["Next round's a good reason to come back.", "Hope to see you at the bar again soon."],
+};
+
+const CAFE_V1: CategoryPack = {
+  id: "cafe-v1",
+  category: "cafe",
+  label: "Cafe",
+  vocabulary: ["coffee", "espresso", "latte", "pastry", "barista", "brunch", "seating", "wifi", "queue"],
+  failure_modes: [
+    "Guessing at the coffee origin or roast when the reviewer didn't mention it.",
+    "Over-long replies to a quick coffee review.",
+  ],
+  bans: ["cup of joe", "caffeine fix", "brewed to perfection", "latte love"],
+  safe_closers: ["Your next coffee is waiting.", "Hope to see you in the morning queue again soon."],
+};
+
+const NIGHTCLUB_V1: CategoryPack = {
+  id: "nightclub-v1",
+  category: "nightclub",
+  label: "Nightclub",
+  vocabulary: ["DJ", "set", "dance floor", "door", "queue", "VIP", "sound", "table service", "security"],
+  failure_modes: [
+    "Debating a door or security decision publicly.",
+    "Promising guest-list spots or free entry.",
+    "Describing the night in hype language instead of addressing what happened.",
+  ],
+  bans: ["guest list", "VIP treatment", "turn up", "epic night", "lit"],
+  safe_closers: ["Hope to see you on the dance floor again.", "Thanks for spending the night with us."],
+};
+
+const TOUR_OPERATOR_V1: CategoryPack = {
+  id: "tour_operator-v1",
+  category: "tour_operator",
+  label: "Tour Operator",
+  vocabulary: ["guide", "tour", "itinerary", "pickup", "group", "booking", "stop", "route", "driver"],
+  failure_modes: [
+    "Inventing sights or stops that weren't part of the review.",
+    "Blaming weather or traffic without owning the guest's experience.",
+    "Discussing booking refunds or changes publicly.",
+  ],
+  bans: ["adventure of a lifetime", "unforgettable journey", "bucket list", "memories to last a lifetime"],
+  safe_closers: ["We'd love to show you another route next time.", "Hope to have you on another tour soon."],
+};
+
+// Current pack per category. Older ids stay resolvable so old fingerprints still map to text.
+export const CATEGORY_PACKS: Record<CategoryId, CategoryPack> = {
+  winery: WINERY_V1,
+  restaurant: RESTAURANT_V1,
+  bar: BAR_V1,
+  cafe: CAFE_V1,
+  nightclub: NIGHTCLUB_V1,
+  tour_operator: TOUR_OPERATOR_V1,
+};
+
+const ALL_PACKS: CategoryPack[] = [WINERY_V1, RESTAURANT_V1, BAR_V1, CAFE_V1, NIGHTCLUB_V1, TOUR_OPERATOR_V1];
+
+export function listCategoryPacks() {
+  return Object.values(CATEGORY_PACKS).map((p) => ({ id: p.id, category: p.category, label: p.label }));
+}
+
+export function getCategoryPack(id: string | null | undefined): CategoryPack | null {
+  const key = String(id ?? "").trim().toLowerCase();
+  if (!key) return null;
+  return ALL_PACKS.find((p) => p.id === key) ?? null;
+}
+
+/** "Tour Operator", "tour-operator", "tour_operator" → "tour_operator". Unknown / "Other" → null. */
+export function categoryIdFromLabel(label: string | null | undefined): CategoryId | null {
+  const key = String(label ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  if (!key) return null;
+  if (key === "café") return "cafe";
+  if (key === "club") return "nightclub";
+  if (key === "tours" || key === "tour") return "tour_operator";
+  if (key === "wine_bar" || key === "vineyard" || key === "wine_estate") return "winery";
+  return key in CATEGORY_PACKS ? (key as CategoryId) : null;
+}
+
+export function resolveCategoryPack(params: {
+  business_pack_id?: string | null;
+  org_pack_id?: string | null;
+  business_category?: string | null;
+}): CategoryPack | null {
+  const explicit = getCategoryPack(params.business_pack_id) ?? getCategoryPack(params.org_pack_id);
+  if (explicit) return explicit;
+  const category = categoryIdFromLabel(params.business_category);
+  return category ? CATEGORY_PACKS[category] : null;
+}
@@ -0,0 +1,109 @@
+// lib/draftCache.ts
+//
+// Draft response cache. Reopening a review with nothing changed returns the
+// previous draft instead of calling the model again.
+//
+// Entries are keyed by review_hash + prompt_fingerprint (the same values the
+// draft audit log records) plus input_hash, a hash of the full system + user
+// prompt and the output options. The fingerprint alone doesn't cover
+// per-request inputs such as the rating, the fact sheet or reviewer history;
+// input_hash does, so any change to what the model would see is a miss.
+//
+// draft_cache: organization_id, review_hash, prompt_fingerprint, input_hash,
+// reply_text, candidates jsonb, created_at. Disabled with
+// DRAFT_CACHE_ENABLED=false (lib/featureFlags.ts).
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export type CachedDraftCandidate = {
+  rank: number;
+  variant: string;
+  reply: string;
+  score?: unknown;
+  contract_ok?: boolean;
+};
+
+export type CachedDraft = {
+  reply: string;
+  candidates: CachedDraftCandidate[] | null;
+  created_at: string;
+};
+
+export type DraftCacheKey = {
+  reviewHash: string;
+  promptFingerprint: string;
+  inputHash: string;
+};
+
+export const DRAFT_CACHE_TTL_HOURS = 24 * 7;
+
+/** Cached draft for this key, or null on a miss, an expired entry or any error. */
+export async function readDraftCache(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  key: DraftCacheKey;
+}): Promise<CachedDraft | null> {
+  const { supabase, organizationId, key } = params;
+  const since = new Date(Date.now() - DRAFT_CACHE_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+  try {
+    const { data, error } = await supabase
+      .from("draft_cache")
+      .select("reply_text, candidates, created_at")
+      .eq("organization_id", organizationId)
+      .eq("review_hash", key.reviewHash)
+      .eq("prompt_fingerprint", key.promptFingerprint)
+      .eq("input_hash", key.inputHash)
+      .gte("created_at", since)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data || typeof data.reply_text !== "string" || !data.reply_text.trim()) return null;
+
+    return {
+      reply: data.reply_text,
+      candidates: Array.isArray(data.candidates) ? (data.candidates as CachedDraftCandidate[]) : null,
+      created_at: String(data.created_at ?? ""),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores a draft, replacing any entry for the same key so a regenerated draft
+ * is what the next reopen gets. Best-effort: returns the error message instead
+ * of throwing.
+ */
+export async function writeDraftCache(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  key: DraftCacheKey;
+  reply: string;
+  candidates: CachedDraftCandidate[] | null;
+}): Promise<string | null> {
+  const { supabase, organizationId, key } = params;
+  try {
+    const { error: deleteErr } = await supabase
+      .from("draft_cache")
+      .delete()
+      .eq("organization_id", organizationId)
+      .eq("review_hash", key.reviewHash)
+      .eq("prompt_fingerprint", key.promptFingerprint)
+      .eq("input_hash", key.inputHash);
+    if (deleteErr) return deleteErr.message;
+
+    const { error } = await supabase.from("draft_cache").insert({
+      organization_id: organizationId,
+      review_hash: key.reviewHash,
+      prompt_fingerprint: key.promptFingerprint,
+      input_hash: key.inputHash,
+      reply_text: params.reply,
+      candidates: params.candidates,
+    });
+    return error ? error.message : null;
+  } catch (e: unknown) {
+    return e instanceof Error ? e.message : "draft cache write failed";
+  }
+}
@@ -0,0 +1,306 @@
+// lib/draftContext.ts
+//
+// Org and business context a reply draft is written with, shared by
+// draft-reply and revise-reply so both read the same settings the same way:
+// reply settings (organizations), the voice profile (org_voice_profile), the
+// best voice samples (org_voice_samples), the fact sheet (lib/factSheet.ts),
+// and the category pack (lib/categoryPacks.ts). draft-reply also resolves the
+// reply language (lib/replyLanguage.ts) with resolveDraftReplyLanguage;
+// revisions stay in the owner language.
+//
+// Every loader is best-effort: a missing row, optional column or table falls
+// back to the defaults so drafting never fails on context.
+import "server-only";
+
+import type { OrgContext } from "@/lib/orgServer";
+import { resolveCategoryPack, type CategoryPack } from "@/lib/categoryPacks";
+import { EMPTY_FACT_SHEET, loadFactSheet, type FactSheet } from "@/lib/factSheet";
+import {
+  DEFAULT_REPLY_LANGUAGE_PREFERENCES,
+  loadReplyLanguageInputs,
+  resolveReplyLanguage,
+  type ReplyLanguageDecision,
+  type ReplyLanguageInputs,
+} from "@/lib/replyLanguage";
+import { collapseWhitespace, removeQuotations, stripEmojis } from "@/lib/draftPostClean";
+import { jaccard, scoreSample, tokenize } from "@/lib/draftScoring";
+import type { VoiceProfile } from "@/lib/draftPrompt";
+
+type DraftClient = OrgContext["supabase"];
+
+export type OrgReplySettings = {
+  owner_language: string;
+  reply_tone: string;
+  reply_signature: string | null;
+  business_category: string | null;
+  category_pack: string | null;
+  llm_provider: string | null;
+};
+
+export type VoiceSampleOptions = {
+  maxItems?: number;
+  maxCharsEach?: number;
+  maxTotalChars?: number;
+};
+
+export type DraftContext = {
+  settings: OrgReplySettings;
+  // As stored; routes merge request overrides before normalizeVoice
+  voice_profile: VoiceProfile;
+  voice_samples: string[];
+  voice_sample_ids: string[];
+  fact_sheet: FactSheet;
+  category_pack: CategoryPack | null;
+};
+
+const DEFAULT_SETTINGS: OrgReplySettings = {
+  owner_language: "en",
+  reply_tone: "warm",
+  reply_signature: null,
+  business_category: null,
+  category_pack: null,
+  llm_provider: null,
+};
+
+function cleanString(v: unknown, maxLen = 4000) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+function cleanLanguage(v: unknown) {
+  const raw = cleanString(v, 20) || "en";
+  return raw.slice(0, 12);
+}
+
+// ─── Loaders ──────────────────────────────────────────────────────────────────
+
+/** One optional organizations column; null when it doesn't exist yet. */
+async function loadOptionalOrgColumn(supabase: DraftClient, organizationId: string, column: string) {
+  try {
+    const { data, error } = await supabase.from("organizations").select(column).eq("id", organizationId).maybeSingle();
+    if (error || !data) return null;
+    return (data as unknown as Record<string, unknown>)[column];
+  } catch {
+    return null;
+  }
+}
+
+export async function loadOrgReplySettings(params: {
+  supabase: DraftClient;
+  organizationId: string;
+}): Promise<OrgReplySettings> {
+  const { supabase, organizationId } = params;
+  try {
+    // Core settings — only columns guaranteed to exist in the schema
+    const { data, error } = await supabase
+      .from("organizations")
+      .select("owner_language, reply_tone, reply_signature")
+      .eq("id", organizationId)
+      .maybeSingle();
+
+    if (error || !data) return DEFAULT_SETTINGS;
+
+    // Optional columns are loaded one by one so a missing column never
+    // poisons the core settings load (breaks language, tone, signature).
+    // llm_provider: per-org override of the LLM_PROVIDER env default (e.g.
+    // "stub" for a demo org). category_pack: explicit prompt pack id; when
+    // unset the pack follows business_category.
+    const [business_category, llm_provider, category_pack] = await Promise.all([
+      loadOptionalOrgColumn(supabase, organizationId, "business_category"),
+      loadOptionalOrgColumn(supabase, organizationId, "llm_provider"),
+      loadOptionalOrgColumn(supabase, organizationId, "category_pack"),
+    ]);
+
+    return {
+      owner_language: cleanLanguage(data.owner_language),
+      reply_tone: cleanString(data.reply_tone, 40) || "warm",
+      reply_signature: cleanString(data.reply_signature, 80) || null,
+      business_category: cleanString(business_category, 80) || null,
+      category_pack: cleanString(category_pack, 40) || null,
+      llm_provider: cleanString(llm_provider, 20) || null,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Per-business pack override (businesses.category_pack). Optional column.
+async function loadBusinessCategoryPack(
+  supabase: DraftClient,
+  organizationId: string,
+  businessId: string | null
+): Promise<string | null> {
+  if (!businessId) return null;
+  try {
+    const { data, error } = await supabase
+      .from("businesses")
+      .select("category_pack")
+      .eq("id", businessId)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return cleanString(data.category_pack, 40) || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadVoiceProfile(params: { supabase: DraftClient; organizationId: string }): Promise<VoiceProfile> {
+  try {
+    const { data, error } = await params.supabase
+      .from("org_voice_profile")
+      .select("reply_as,tone,brevity,formality,things_to_avoid,allow_exclamation")
+      .eq("organization_id", params.organizationId)
+      .maybeSingle();
+
+    if (error) return {};
+    return (data ?? {}) as VoiceProfile;
+  } catch {
+    return {};
+  }
+}
+
+function truncateForPrompt(s: string, maxLen: number) {
+  const t = (s ?? "").trim();
+  if (!t) return "";
+  if (t.length <= maxLen) return t;
+  return t.slice(0, maxLen - 1).trimEnd() + "…";
+}
+
+/**
+ * The org's best voice samples for a prompt: cleaned, highest scored first,
+ * near-duplicates dropped, within the item and character budgets.
+ */
+export async function loadVoiceSamples(
+  params: { supabase: DraftClient; organizationId: string },
+  opts?: VoiceSampleOptions
+): Promise<{ samples: string[]; sampleIds: string[] }> {
+  const maxItems = opts?.maxItems ?? 5;
+  const maxCharsEach = opts?.maxCharsEach ?? 420;
+  const maxTotalChars = opts?.maxTotalChars ?? 1800;
+
+  try {
+    const { data, error } = await params.supabase
+      .from("org_voice_samples")
+      .select("id,sample_text,created_at")
+      .eq("organization_id", params.organizationId)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) return { samples: [], sampleIds: [] };
+
+    const candidates = (data ?? []).flatMap((r) => {
+      const raw = cleanString(r.sample_text, 5000);
+      const clipped = truncateForPrompt(raw, maxCharsEach);
+      const normalized = collapseWhitespace(removeQuotations(stripEmojis(clipped)));
+      if (!normalized) return [];
+      return [
+        {
+          id: String(r.id),
+          cleaned: normalized,
+          score: scoreSample(normalized),
+          tokenSet: new Set(tokenize(normalized)),
+          created_at: r.created_at ? String(r.created_at) : "",
+        },
+      ];
+    });
+
+    if (candidates.length === 0) return { samples: [], sampleIds: [] };
+
+    candidates.sort((a, b) => {
+      if (b.score !== a.score) return b.score - a.score;
+      return b.created_at.localeCompare(a.created_at);
+    });
+
+    const selected: Array<{ id: string; cleaned: string; tokenSet: Set<string> }> = [];
+    let total = 0;
+
+    for (const c of candidates) {
+      if (selected.length >= Math.max(1, Math.min(maxItems, 12))) break;
+      const nextLen = c.cleaned.length + 10;
+      if (total + nextLen > maxTotalChars) continue;
+      if (selected.some((s) => jaccard(c.tokenSet, s.tokenSet) >= 0.78)) continue;
+      selected.push({ id: c.id, cleaned: c.cleaned, tokenSet: c.tokenSet });
+      total += nextLen;
+    }
+
+    return {
+      samples: selected.map((x) => x.cleaned),
+      sampleIds: selected.map((x) => x.id),
+    };
+  } catch {
+    return { samples: [], sampleIds: [] };
+  }
+}
+
+/**
+ * Reply language policy for a draft. Pass the owner language from
+ * DraftContext.settings so the draft and the decision never disagree.
+ */
+export async function resolveDraftReplyLanguage(params: {
+  supabase: DraftClient;
+  organizationId: string;
+  ownerLanguage: string;
+  businessId: string | null;
+  reviewId: string | null;
+  clientLanguage: string | null;
+  clientExplicit: boolean;
+}): Promise<ReplyLanguageDecision> {
+  let inputs: ReplyLanguageInputs = {
+    owner_language: params.ownerLanguage,
+    preferences: DEFAULT_REPLY_LANGUAGE_PREFERENCES,
+    location_language: null,
+    detected_language: null,
+  };
+  try {
+    const loaded = await loadReplyLanguageInputs({
+      supabase: params.supabase,
+      organizationId: params.organizationId,
+      businessId: params.businessId,
+      reviewId: params.reviewId,
+    });
+    inputs = { ...loaded, owner_language: params.ownerLanguage };
+  } catch {
+    // Defaults: match the review, else the owner language
+  }
+  return resolveReplyLanguage({
+    inputs,
+    client_language: params.clientLanguage,
+    client_explicit: params.clientExplicit,
+  });
+}
+
+// ─── Context ──────────────────────────────────────────────────────────────────
+
+/** Everything draft-reply and revise-reply read before building a prompt. */
+export async function loadDraftContext(params: {
+  supabase: DraftClient;
+  organizationId: string;
+  businessId: string | null;
+  voiceSamples?: VoiceSampleOptions;
+}): Promise<DraftContext> {
+  const { supabase, organizationId, businessId } = params;
+  const org = { supabase, organizationId };
+
+  const [settings, businessPack, voice_profile, samples, fact_sheet] = await Promise.all([
+    loadOrgReplySettings(org),
+    loadBusinessCategoryPack(supabase, organizationId, businessId),
+    loadVoiceProfile(org),
+    loadVoiceSamples(org, params.voiceSamples),
+    loadFactSheet({ supabase, organizationId, businessId }).catch(() => EMPTY_FACT_SHEET),
+  ]);
+
+  return {
+    settings,
+    voice_profile,
+    voice_samples: samples.samples,
+    voice_sample_ids: samples.sampleIds,
+    fact_sheet,
+    category_pack: resolveCategoryPack({
+      business_pack_id: businessPack,
+      org_pack_id: settings.category_pack,
+      business_category: settings.business_category,
+    }),
+  };
+}
@@ -0,0 +1,489 @@
+// lib/draftEval.ts
+import "server-only";
+
+import { readFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Offline evaluation for the draft pipeline.
+ * - Input: a JSONL corpus of reviews (one case per line — see docs/eval/draft-eval-corpus.jsonl).
+ * - Each case runs through the same prompt → model → post-clean chain as draft-reply.
+ * - Output: a scorecard (ban-list hits, opener distribution, sentence-count compliance,
+ *   placeholder leaks, language mismatches, contract violations) plus per-case results.
+ * - Scorecards are plain JSON with stable keys; diffScorecards() compares two runs,
+ *   e.g. one per PROMPT_VERSION. Scorecards saved under docs/eval/scorecards/
+ *   ({prompt_version}.{provider}.json) are the baselines a new prompt is diffed
+ *   against, since only the current prompt can be built.
+ * - Run with `npm run eval:drafts` (scripts/draft-eval.ts) or /api/dev/draft-eval.
+ *
+ * Default provider is "stub" so runs are free and deterministic; pass "anthropic"
+ * (or "openai") to evaluate real model output.
+ */
+
+import { resolveCategoryPack } from "@/lib/categoryPacks";
+import { classifyReviewTopics } from "@/lib/reviewTopics";
+import { detectLanguage } from "@/lib/languageDetect";
+import { detectSensitiveContent } from "@/lib/sensitiveContent";
+import { defaultModelFor, generateText, type LlmProviderId } from "@/lib/llmProvider";
+import {
+  PROMPT_VERSION,
+  buildPrompt,
+  buildSystemPrompt,
+  classifyFailureType,
+  classifyReviewStyle,
+  normalizeVoice,
+  sentencePolicyForRating,
+  type VoiceProfile,
+} from "@/lib/draftPrompt";
+import { POST_CLEAN_VERSION, runPostClean, splitSentences } from "@/lib/draftPostClean";
+import { BANNED_LIST_VERSION, findBannedPhrases } from "@/lib/draftScoring";
+import {
+  PROMPT_CONTRACT_VERSION,
+  contractMaxSentences,
+  validateReplyAgainstContract,
+} from "@/lib/promptContract";
+
+// ─── Corpus ───────────────────────────────────────────────────────────────────
+
+export type EvalCase = {
+  id: string;
+  rating: number;
+  language: string;
+  category: string | null;
+  review_text: string;
+  business_name?: string;
+  reviewer_name?: string;
+};
+
+const DEFAULT_BUSINESS_NAME = "Casa Lokma";
+
+function asText(v: unknown, maxLen: number) {
+  return typeof v === "string" ? v.trim().slice(0, maxLen) : "";
+}
+
+/** Parse a JSONL corpus. Bad lines are reported, not thrown, so one typo doesn't sink a run. */
+export function parseEvalCorpus(jsonl: string): { cases: EvalCase[]; errors: string[] } {
+  const cases: EvalCase[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  (jsonl || "").split(/\r?\n/).forEach((line, i) => {
+    const raw = line.trim();
+    if (!raw || raw.startsWith("//")) return;
+
+    let row: Record<string, unknown>;
+    try {
+      row = JSON.parse(raw);
+    } catch {
+      errors.push(`line ${i + 1}: invalid JSON`);
+      return;
+    }
+
+    const rating = Number(row.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      errors.push(`line ${i + 1}: rating must be 1–5`);
+      return;
+    }
+
+    const id = asText(row.id, 80) || `case-${i + 1}`;
+    if (seen.has(id)) {
+      errors.push(`line ${i + 1}: duplicate id "${id}"`);
+      return;
+    }
+    seen.add(id);
+
+    cases.push({
+      id,
+      rating,
+      language: (asText(row.language, 12) || "en").toLowerCase(),
+      category: asText(row.category, 80) || null,
+      review_text: asText(row.review_text, 5000),
+      business_name: asText(row.business_name, 200) || undefined,
+      reviewer_name: asText(row.reviewer_name, 100) || undefined,
+    });
+  });
+
+  return { cases, errors };
+}
+
+// ─── Per-reply checks ─────────────────────────────────────────────────────────
+
+// Same buckets as the rating harness, plus the acknowledgment openers the
+// system prompt recommends.
+export function detectOpenerTag(reply: string) {
+  const t = (reply || "").trim().toLowerCase().replace(/[‘’]/g, "'");
+
+  if (!t) return "empty";
+  if (t.startsWith("we regret")) return "we_regret";
+  if (t.startsWith("sorry") || t.startsWith("we're sorry") || t.startsWith("we are sorry") || t.startsWith("i'm sorry"))
+    return "sorry";
+  if (t.startsWith("thank you") || t.startsWith("thanks")) return "thanks";
+  if (/^(hi|hey|hello|dear)\b/.test(t)) return "greeting";
+  if (t.startsWith("appreciate")) return "appreciate";
+  if (/^(hearing|knowing|reading|it means a lot|we're so glad|i'm so glad)\b/.test(t)) return "acknowledgment";
+  return "other";
+}
+
+function openerWords(reply: string) {
+  return (reply || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .split(/\s+/)
+    .slice(0, 3)
+    .join(" ")
+    .replace(/[.,!?;:]+$/, "");
+}
+
+const PLACEHOLDER_PATTERNS: RegExp[] = [
+  /\[[^\]\n]{1,40}\]/g,
+  /\{\{?[^}\n]{1,40}\}?\}/g,
+  /<[a-z _-]{2,30}>/gi,
+  /\b(business name|reviewer name|guest name|your name here|insert \w+)\b/gi,
+  /\bX{3,}\b/g,
+];
+
+export function findPlaceholderLeaks(reply: string): string[] {
+  const hits: string[] = [];
+  for (const re of PLACEHOLDER_PATTERNS) {
+    for (const m of reply.match(re) ?? []) hits.push(m);
+  }
+  return Array.from(new Set(hits));
+}
+
+// ─── Runner ───────────────────────────────────────────────────────────────────
+
+export type EvalRunOptions = {
+  prompt_version?: string;
+  provider?: LlmProviderId;
+  // Language drafts are written in. Omit to draft each case in its own language.
+  owner_language?: string | null;
+  voice?: VoiceProfile | null;
+  reply_signature?: string | null;
+  limit?: number;
+};
+
+export type EvalCaseResult = {
+  id: string;
+  rating: number;
+  category: string | null;
+  expected_language: string;
+  detected_language: string | null;
+  language_ok: boolean;
+  reply: string;
+  error: string | null;
+  opener: string;
+  opener_words: string;
+  sentence_count: number;
+  max_sentences: number;
+  sentences_ok: boolean;
+  banned_hits: string[];
+  placeholder_leaks: string[];
+  contract_hard: string[];
+};
+
+export type EvalScorecard = {
+  prompt_version: string;
+  post_clean_version: string;
+  banned_list_version: string;
+  contract_version: string;
+  provider: LlmProviderId;
+  model: string;
+  total: number;
+  errors: number;
+  banned: { replies_with_hits: number; hits: Record<string, number> };
+  openers: Record<string, number>;
+  top_opener_words: Record<string, number>;
+  sentences: { compliant: number; over_limit: number; by_rating: Record<string, { total: number; compliant: number }> };
+  placeholders: { replies_with_leaks: number; leaks: Record<string, number> };
+  language: { mismatches: number; by_expected: Record<string, { total: number; mismatches: number }> };
+  contract: { replies_ok: number; hard_by_code: Record<string, number> };
+};
+
+export class EvalConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EvalConfigError";
+  }
+}
+
+// Keeps an eval from hammering the provider: a few requests in flight at a time.
+const EVAL_CONCURRENCY = 3;
+
+async function evaluateCase(c: EvalCase, opts: EvalRunOptions, provider: LlmProviderId, model: string) {
+  const voice = normalizeVoice(opts.voice ?? null);
+  const expected_language = (opts.owner_language || c.language || "en").toLowerCase().split("-")[0];
+  const reviewWordCount = c.review_text ? c.review_text.split(/\s+/).length : 0;
+  const maxSentencesPolicy = sentencePolicyForRating(c.rating, reviewWordCount);
+  const business_name = c.business_name || DEFAULT_BUSINESS_NAME;
+
+  const base = {
+    id: c.id,
+    rating: c.rating,
+    category: c.category,
+    expected_language,
+    max_sentences: contractMaxSentences(c.rating),
+  };
+
+  let reply = "";
+  let error: string | null = null;
+  const sensitive = detectSensitiveContent(c.review_text);
+
+  try {
+    const aspects = classifyReviewTopics(c.review_text, c.rating).aspects;
+    const prompt = buildPrompt({
+      business_name,
+      rating: c.rating,
+      owner_language: expected_language,
+      review_text: c.review_text,
+      voice,
+      reply_signature: opts.reply_signature ?? null,
+      voice_samples: [],
+      failure_type: classifyFailureType(c.review_text, aspects),
+      review_style: classifyReviewStyle(c.review_text),
+      business_category: c.category,
+      category_pack: resolveCategoryPack({ business_category: c.category }),
+      review_topics: aspects,
+      sensitive_reasons: sensitive.reasons,
+      reviewer_name: c.reviewer_name ?? "",
+    });
+
+    const llm = await generateText(
+      {
+        task: "draft",
+        system: buildSystemPrompt({ has_voice_samples: false }),
+        prompt,
+        temperature: c.rating <= 2 ? 0.15 : 0.25,
+        maxTokens: 300,
+        model,
+      },
+      { provider }
+    );
+
+    reply = runPostClean(llm.text.trim().slice(0, 900), {
+      rating: c.rating,
+      review_text: c.review_text,
+      business_name,
+      has_voice_samples: false,
+      allow_exclamation: voice.allow_exclamation,
+      max_sentences: maxSentencesPolicy,
+      reply_signature: opts.reply_signature ?? null,
+    }).text;
+  } catch (e: unknown) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const sentence_count = splitSentences(reply).length;
+  const detected_language = reply ? detectLanguage(reply).language : null;
+  const contract = validateReplyAgainstContract(reply, c.review_text, c.rating, {
+    reply_as: voice.reply_as,
+    allow_exclamation: voice.allow_exclamation,
+    sensitive: sensitive.sensitive,
+    grounding: {
+      sources: [business_name, c.reviewer_name, opts.reply_signature],
+      proper_nouns: !expected_language.startsWith("de"),
+    },
+  });
+
+  const result: EvalCaseResult = {
+    ...base,
+    reply,
+    error,
+    detected_language,
+    language_ok: !reply || detected_language === null || detected_language === expected_language,
+    opener: detectOpenerTag(reply),
+    opener_words: openerWords(reply),
+    sentence_count,
+    sentences_ok: sentence_count <= base.max_sentences,
+    banned_hits: findBannedPhrases(reply),
+    placeholder_leaks: findPlaceholderLeaks(reply),
+    contract_hard: contract.violations.filter((v) => v.severity === "hard").map((v) => v.code),
+  };
+
+  return result;
+}
+
+function bump(map: Record<string, number>, key: string, by = 1) {
+  map[key] = (map[key] ?? 0) + by;
+}
+
+// Sorted keys so two scorecards serialise identically and diff cleanly.
+function sortKeys<T>(map: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(map).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function buildScorecard(
+  results: EvalCaseResult[],
+  meta: { prompt_version: string; provider: LlmProviderId; model: string }
+): EvalScorecard {
+  const bannedHits: Record<string, number> = {};
+  const openers: Record<string, number> = {};
+  const openerWordCounts: Record<string, number> = {};
+  const byRating: Record<string, { total: number; compliant: number }> = {};
+  const leaks: Record<string, number> = {};
+  const byLanguage: Record<string, { total: number; mismatches: number }> = {};
+  const hardByCode: Record<string, number> = {};
+
+  const drafted = results.filter((r) => !r.error);
+
+  for (const r of drafted) {
+    r.banned_hits.forEach((p) => bump(bannedHits, p));
+    bump(openers, r.opener);
+    if (r.opener_words) bump(openerWordCounts, r.opener_words);
+
+    const rk = String(r.rating);
+    byRating[rk] = byRating[rk] ?? { total: 0, compliant: 0 };
+    byRating[rk].total += 1;
+    if (r.sentences_ok) byRating[rk].compliant += 1;
+
+    r.placeholder_leaks.forEach((p) => bump(leaks, p));
+
+    byLanguage[r.expected_language] = byLanguage[r.expected_language] ?? { total: 0, mismatches: 0 };
+    byLanguage[r.expected_language].total += 1;
+    if (!r.language_ok) byLanguage[r.expected_language].mismatches += 1;
+
+    r.contract_hard.forEach((code) => bump(hardByCode, code));
+  }
+
+  const topOpenerWords = Object.entries(openerWordCounts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 10);
+
+  return {
+    prompt_version: meta.prompt_version,
+    post_clean_version: POST_CLEAN_VERSION,
+    banned_list_version: BANNED_LIST_VERSION,
+    contract_version: PROMPT_CONTRACT_VERSION,
+    provider: meta.provider,
+    model: meta.model,
+    total: results.length,
+    errors: results.length - drafted.length,
+    banned: {
+      replies_with_hits: drafted.filter((r) => r.banned_hits.length > 0).length,
+      hits: sortKeys(bannedHits),
+    },
+    openers: sortKeys(openers),
+    top_opener_words: sortKeys(Object.fromEntries(topOpenerWords)),
+    sentences: {
+      compliant: drafted.filter((r) => r.sentences_ok).length,
+      over_limit: drafted.filter((r) => !r.sentences_ok).length,
+      by_rating: sortKeys(byRating),
+    },
+    placeholders: {
+      replies_with_leaks: drafted.filter((r) => r.placeholder_leaks.length > 0).length,
+      leaks: sortKeys(leaks),
+    },
+    language: {
+      mismatches: drafted.filter((r) => !r.language_ok).length,
+      by_expected: sortKeys(byLanguage),
+    },
+    contract: {
+      replies_ok: drafted.filter((r) => r.contract_hard.length === 0).length,
+      hard_by_code: sortKeys(hardByCode),
+    },
+  };
+}
+
+/**
+ * Run every case through the draft pipeline and score the replies.
+ * Only the prompt currently in lib/draftPrompt.ts can be built, so asking for a
+ * different prompt_version is an error — diff against that version's stored
+ * scorecard (loadStoredScorecard) instead.
+ */
+export async function runDraftEval(
+  cases: EvalCase[],
+  opts: EvalRunOptions = {}
+): Promise<{ scorecard: EvalScorecard; results: EvalCaseResult[] }> {
+  const promptVersion = opts.prompt_version || PROMPT_VERSION;
+  if (promptVersion !== PROMPT_VERSION) {
+    throw new EvalConfigError(
+      `Prompt version "${promptVersion}" is not available in this build (current: ${PROMPT_VERSION}).`
+    );
+  }
+
+  const provider = opts.provider ?? "stub";
+  const model = defaultModelFor(provider);
+  const selected = typeof opts.limit === "number" && opts.limit > 0 ? cases.slice(0, opts.limit) : cases;
+
+  const results: EvalCaseResult[] = new Array(selected.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < selected.length) {
+      const i = next++;
+      results[i] = await evaluateCase(selected[i], opts, provider, model);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(EVAL_CONCURRENCY, selected.length) }, worker));
+
+  return {
+    scorecard: buildScorecard(results, { prompt_version: promptVersion, provider, model }),
+    results,
+  };
+}
+
+// ─── Stored scorecards ────────────────────────────────────────────────────────
+
+export const EVAL_SCORECARD_DIR = path.join(process.cwd(), "docs", "eval", "scorecards");
+
+export function isEvalScorecard(v: unknown): v is EvalScorecard {
+  return !!v && typeof v === "object" && typeof (v as EvalScorecard).prompt_version === "string";
+}
+
+export function storedScorecardPath(promptVersion: string, provider: LlmProviderId) {
+  // Versions are plain ids ("draft-reply-v17"); anything else can't name a file here
+  const safe = promptVersion.replace(/[^a-zA-Z0-9._-]/g, "");
+  return path.join(EVAL_SCORECARD_DIR, `${safe}.${provider}.json`);
+}
+
+/** The saved scorecard for a prompt version and provider, or null when there is none. */
+export async function loadStoredScorecard(
+  promptVersion: string,
+  provider: LlmProviderId
+): Promise<EvalScorecard | null> {
+  try {
+    const parsed: unknown = JSON.parse(await readFile(storedScorecardPath(promptVersion, provider), "utf8"));
+    return isEvalScorecard(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+export type ScorecardDiffRow = { metric: string; before: number | string | null; after: number | string | null; delta: number | null };
+
+function flatten(obj: unknown, prefix = "", out: Record<string, number | string> = {}) {
+  if (obj && typeof obj === "object") {
+    for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
+      flatten(v, prefix ? `${prefix}.${k}` : k, out);
+    }
+  } else if (typeof obj === "number" || typeof obj === "string") {
+    out[prefix] = obj;
+  }
+  return out;
+}
+
+/** Metrics that changed between two scorecards (numbers get a delta; strings just before/after). */
+export function diffScorecards(before: EvalScorecard, after: EvalScorecard): ScorecardDiffRow[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+
+  const rows: ScorecardDiffRow[] = [];
+  for (const metric of keys) {
+    const x = a[metric] ?? null;
+    const y = b[metric] ?? null;
+    if (x === y) continue;
+
+    const numeric = (typeof x === "number" || x === null) && (typeof y === "number" || y === null);
+    rows.push({
+      metric,
+      before: x,
+      after: y,
+      delta: numeric ? Number(y ?? 0) - Number(x ?? 0) : null,
+    });
+  }
+  return rows;
+}
@@ -0,0 +1,457 @@
+// lib/draftPostClean.ts
+//
+// Post-clean pipeline for drafted review replies.
+//
+// Every model draft runs through the same ordered list of named stages
+// (POST_CLEAN_STAGES). Each stage can be switched off individually and, in
+// debug mode, reports what it changed — so a ban-list or regex tweak can be
+// checked stage by stage instead of diffing the final reply only.
+//
+// The stage bodies were lifted unchanged from app/api/reviews/draft-reply/route.ts
+// (postclean-v10). Bump POST_CLEAN_VERSION whenever a stage's behaviour changes
+// and re-run the golden cases (lib/draftPostCleanGolden.ts).
+
+export const POST_CLEAN_VERSION = "postclean-v10";
+
+// ─── Text utilities ───────────────────────────────────────────────────────────
+
+export function stripEmojis(text: string) {
+  return text.replace(
+    /[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}\u{1F1E6}-\u{1F1FF}]/gu,
+    ""
+  );
+}
+
+export function removeQuotations(text: string) {
+  // Strip ONLY double quotes (straight + curly).
+  // Single quotes / apostrophes are preserved so possessives like "Hosny's"
+  // and contractions like "we're" survive into the apostrophe-repair pipeline.
+  return text.replace(/["“”]/g, "");
+}
+
+export function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function splitSentences(text: string) {
+  const t = (text ?? "").trim();
+  if (!t) return [];
+  return t
+    .split(/(?<=[.!?])\s+/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+export function limitSentences(text: string, maxSentences: number) {
+  const t = (text ?? "").trim();
+  if (!t) return t;
+  const parts = splitSentences(t);
+  if (parts.length <= maxSentences) return t;
+  return parts.slice(0, maxSentences).join(" ");
+}
+
+// ─── Apostrophe repair ────────────────────────────────────────────────────────
+// VERSION: postclean-v7 (universal regex engine — see postclean-v6 notes)
+
+export function fixApostrophes(text: string): string {
+  let t = text;
+  t = t.replace(/\byoud\b/gi, "you'd");
+
+  // ── Negative contractions (unambiguous — no real-word conflicts) ───────────
+  t = t.replace(/\bcant\b(?!o|al|ed|ing)/gi, "can't");
+  t = t.replace(/\bwont\b(?!ed|s\b)/gi, "won't");
+  t = t.replace(/\bdont\b/gi, "don't");
+  t = t.replace(/\bdidnt\b/gi, "didn't");
+  t = t.replace(/\bdoesnt\b/gi, "doesn't");
+  t = t.replace(/\bwasnt\b/gi, "wasn't");
+  t = t.replace(/\bwerent\b/gi, "weren't");
+  t = t.replace(/\bwouldnt\b/gi, "wouldn't");
+  t = t.replace(/\bcouldnt\b/gi, "couldn't");
+  t = t.replace(/\bshouldnt\b/gi, "shouldn't");
+  t = t.replace(/\bisnt\b/gi, "isn't");
+  t = t.replace(/\barent\b/gi, "aren't");
+  t = t.replace(/\bhasnt\b/gi, "hasn't");
+  t = t.replace(/\bhavent\b/gi, "haven't");
+  t = t.replace(/\bhadnt\b/gi, "hadn't");
+  t = t.replace(/\bmusnt\b/gi, "mustn't");
+  t = t.replace(/\bneednt\b/gi, "needn't");
+
+  // ── "were" → "we're" ─────────────────────────────────────────────────────
+  t = t.replace(
+    /(?<!they |you |he |she |it |guests |staff |people |team |customers |visitors )\bwere ([a-z]+ing)\b/gi,
+    (_m, verb) => `we're ${verb}`
+  );
+  t = t.replace(
+    /(?<!they |you |he |she |it |guests |staff |people |team )\bwere about\b/gi,
+    "we're about"
+  );
+  t = t.replace(
+    /(?<!they |you |he |she |it |guests |staff |people |team )\bwere (sorry|glad|happy|thrilled|delighted|committed|aware|able|ready|pleased|excited|grateful|wrong|right|mistaken|confused|disappointed|surprised|certain|sure|devastated|embarrassed)\b/gi,
+    (_m, adj) => `we're ${adj}`
+  );
+  // were + adverb + predicate adjective: "were genuinely sorry", "were truly glad"
+  t = t.replace(
+    /(?<!they |you |he |she |it |guests |staff |people |team )\bwere (genuinely|truly|really|so|very|deeply|sincerely|absolutely|honestly|incredibly) (sorry|glad|happy|thrilled|delighted|committed|aware|able|ready|pleased|excited|grateful|wrong|right|mistaken|confused|disappointed|surprised|certain|sure|devastated|embarrassed)\b/gi,
+    (_m, adv, adj) => `we're ${adv} ${adj}`
+  );
+
+  // ── "wed" → "we'd" ───────────────────────────────────────────────────────
+  t = t.replace(
+    /\bwed (like|love|appreciate|be|rather|prefer|suggest|recommend|hope|welcome|hate|expect|want|need|genuinely|really|truly|absolutely|certainly|never|hate to)\b/gi,
+    (_m, w) => `we'd ${w}`
+  );
+
+  // ── "well" → "we'll" ─────────────────────────────────────────────────────
+  t = t.replace(
+    /\bwell (be|have|make|take|get|do|look|reach|follow|check|send|ensure|try|work|fix|address|handle|see|find|speak|talk|connect|pass|do better|reach out|make sure|look into|pass this along)\b/gi,
+    (_m, w) => `we'll ${w}`
+  );
+
+  // ── "its" → "it's" (predicate only, not possessive) ─────────────────────
+  t = t.replace(
+    /\bits (a|an|the|not|been|clear|important|something|worth|hard|difficult|fair|unfair|obvious|true|also|just|never|always|on us|our fault)\b/gi,
+    (_m, w) => `it's ${w}`
+  );
+
+  // ── Simple unambiguous swaps ─────────────────────────────────────────────
+  t = t.replace(/\bthats\b/gi, "that's");
+  t = t.replace(/\bwhats\b/gi, "what's");
+  t = t.replace(/\btheres\b/gi, "there's");
+  t = t.replace(/\bheres\b/gi, "here's");
+  t = t.replace(/\byoure\b/gi, "you're");
+  t = t.replace(/\btheyre\b/gi, "they're");
+  t = t.replace(/\bweve\b/gi, "we've");
+  t = t.replace(/\byouve\b/gi, "you've");
+  t = t.replace(/\btheyve\b/gi, "they've");
+  t = t.replace(/\bshouldve\b/gi, "should've");
+  t = t.replace(/\bcouldve\b/gi, "could've");
+  t = t.replace(/\bwouldve\b/gi, "would've");
+  t = t.replace(/\bmightve\b/gi, "might've");
+  t = t.replace(/\bmustve\b/gi, "must've");
+  t = t.replace(/\bsomeones\b/gi, "someone's");
+  t = t.replace(/\beveryones\b/gi, "everyone's");
+  t = t.replace(/\byoull\b/gi, "you'll");
+  t = t.replace(/\btheyll\b/gi, "they'll");
+  t = t.replace(/\bIm\b/g, "I'm");
+  t = t.replace(/\bIve\b/g, "I've");
+  t = t.replace(
+    /\bId (like|love|appreciate|be|rather|prefer|suggest|recommend|hope|want|need|welcome|genuinely|really|truly)\b/g,
+    (_m, w) => `I'd ${w}`
+  );
+  t = t.replace(
+    /\bIll (be|have|make|take|get|do|look|check|send|ensure|try|work|fix|address|see|find|speak|talk|connect|do better|reach out|make sure|look into|pass this)\b/g,
+    (_m, w) => `I'll ${w}`
+  );
+
+  return t;
+}
+
+// ─── Sentence capitalisation repair ──────────────────────────────────────────
+export function fixSentenceCapitalisation(text: string): string {
+  if (!text) return text;
+  let t = text.charAt(0).toUpperCase() + text.slice(1);
+  t = t.replace(/([.!?][\s]+)([a-z])/g, (_match, punct, letter) => punct + letter.toUpperCase());
+  return t;
+}
+
+export function appendSignatureIfMissing(reply: string, signature: string | null) {
+  const sig = (signature ?? "").trim().slice(0, 80);
+  if (!sig) return reply;
+  const normalized = reply.toLowerCase();
+  const marker = `— ${sig}`.toLowerCase();
+  if (normalized.includes(marker)) return reply;
+  return `${reply.trim()}\n— ${sig}`.trim();
+}
+
+function stripTemplatedOpeners(text: string) {
+  let t = (text ?? "").trim();
+  const patterns: RegExp[] = [
+    /^\s*(thank you( so much)?( for (your|the) (review|feedback|kind words))?)[,!.]\s*/i,
+    /^\s*(gracias por (tu|su|el|la) (comentario|opinión|feedback|reseña))[,!.]\s*/i,
+    /^\s*(agradecemos (tu|su) (comentario|opinión|feedback))[,!.]\s*/i,
+    /^\s*(we (really )?appreciate( you| your)?( taking the time)?)[,!.]\s*/i,
+    /^\s*(it\s+(sounds|seems)\s+like)[,!.]?\s*/i,
+    /^\s*(we\s+regret(\s+that)?)[,!.]?\s*/i,
+  ];
+  for (const re of patterns) t = t.replace(re, "");
+  return t.trim();
+}
+
+// v10 follow-up: Strip ENTIRE sentences that contain a banned semantic pattern.
+// The existing .replace() approach in sanitizeCorporatePhrases strips just the
+// matched phrase, which leaves grammatical fragments when the banned phrase
+// is embedded in a longer sentence. This helper strips the whole sentence.
+export function stripSentencesContainingPatterns(text: string, patterns: RegExp[]): string {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) return text;
+  const kept = sentences.filter((s) => !patterns.some((re) => re.test(s)));
+  return kept.length === 0 ? text : kept.join(" ").trim();
+}
+
+// v10 follow-up: paraphrased variants of "tell us more" / "share what happened"
+// — semantic violations of the rule that the reviewer already shared. These
+// patterns catch the most common improvisations the model produces in absence
+// of a concrete contact channel.
+const askForReExplanationPatterns: RegExp[] = [
+  /\b(i'd|we'd|i\s+would|we\s+would)\s+(genuinely\s+|truly\s+|really\s+|love\s+to\s+)?(like|love|appreciate|want)?\s*(to\s+)?(hear|learn|know|understand)\s+(more|what)\b/i,
+  /\b(if\s+you('d|'re|\s+would|\s+are))\s+(willing|open|happy|comfortable)\s+to\s+(share|tell|explain|describe)\b/i,
+  /\bwe\s+(would|'d)\s+(love|like|welcome|appreciate)\s+(the\s+)?(chance|opportunity)\s+to\s+(hear|learn|understand|know)\b/i,
+  /\b(please\s+)?(share|tell)\s+(us|me)\s+(more|further|the\s+details|what)\b/i,
+  /\bwe('d|\s+would)?\s+(genuinely\s+|truly\s+)?(like|love)\s+to\s+understand\s+what\s+happened\b/i,
+];
+
+function sanitizeCorporatePhrases(text: string) {
+  let t = text;
+  t = t.replace(/\b(it\s+(sounds|seems)\s+like)\b[, ]*/gi, "");
+  t = t.replace(/\bwe\s+aim\s+to\b/gi, "we want to");
+  t = t.replace(/\bwe\s+aim\s+for\b/gi, "we want");
+  t = t.replace(/\bwe\s+strive\s+to\b/gi, "we try to");
+  t = t.replace(/\bour\s+goal\s+is\s+to\b/gi, "we want to");
+  t = t.replace(/\bwe\s+work\s+hard\s+to\b/gi, "we try to");
+  t = t.replace(/\bwe\s+take\s+(your\s+)?(feedback|concerns|complaint|complaints|comments)\s+(very\s+)?seriously\b[, ]*/gi, "");
+  t = t.replace(/\bwe\s+regret(\s+that)?\b/gi, "sorry");
+  // [R2] Strip "tell me more" / "share more" patterns — reviewer already shared.
+  t = t.replace(/\b(i'd|we'd|i would|we would)\s+(like|love)\s+to\s+(hear|learn|know)\s+more\s+about\s+what\s+happened\b[.,!]?\s*/gi, "");
+  t = t.replace(/\bplease\s+(share|tell)\s+(us|me)\s+more\s+(about|details)\b[.,!]?\s*/gi, "");
+  // Strip repetitive accountability crutch: "that's on us" and variants
+  t = t.replace(/\bthat[''\u2019]?s on us\b[.,]?\s*/gi, "");
+  t = t.replace(/\bthat is on us\b[.,]?\s*/gi, "");
+  t = t.replace(/\bit[''\u2019]?s on us\b[.,]?\s*/gi, "");
+  t = t.replace(/\s+,/g, ",");
+  t = t.replace(/\s+\./g, ".");
+  t = t.replace(/\s+!/g, "!");
+  t = t.replace(/\s+\?/g, "?");
+  t = collapseWhitespace(t);
+  return t.trim();
+}
+
+function reviewerMentionsCapacityExcuse(reviewText: string) {
+  return /(busy|overwhelmed|understaffed|under-staffed|short[-\s]?staffed|slammed|swamped|packed|crowded)/i.test(reviewText ?? "");
+}
+
+function removeExcuseSentencesIfInvented(params: {
+  reply: string;
+  rating: number;
+  review_text: string;
+}) {
+  const { reply, rating, review_text } = params;
+  const t = (reply ?? "").trim();
+  if (!t) return t;
+  if (rating > 2) return t;
+  if (reviewerMentionsCapacityExcuse(review_text)) return t;
+
+  const excuseRe = /\b(busy|overwhelmed|understaffed|under-staffed|short[-\s]?staffed|slammed|swamped)\b/i;
+  const parts = splitSentences(t);
+  const kept = parts.filter((s) => !excuseRe.test(s));
+  return kept.length === 0 ? t : kept.join(" ").trim();
+}
+
+function removeDuplicateApology(reply: string, rating: number): string {
+  if (rating > 3) return reply;
+  const parts = splitSentences(reply);
+  if (parts.length <= 1) return reply;
+
+  const apologyRe = /\b(sorry|apologize|apolog|lo siento|disculp|perd[oó]n|lament|sinto muito|desculp|désolé|mi dispiace|es tut mir leid)\b/i;
+
+  let apologyCount = 0;
+  const kept = parts.filter((s) => {
+    if (apologyRe.test(s)) {
+      apologyCount++;
+      return apologyCount <= 1;
+    }
+    return true;
+  });
+
+  return kept.join(" ").trim() || reply;
+}
+
+const REPETITIVE_CLOSER_RE =
+  /\b(hope to see you again|hope to see you soon|see you again soon|come back soon|visit us again|we look forward to (?:seeing|welcoming) you|esperamos verte pronto|esperamos verte de nuevo|esperamos que (nos |)visites de nuevo)\b/i;
+
+function stripRepetitiveClosers(reply: string, rating: number) {
+  if (rating < 4) return { text: reply, stripped: false };
+  const parts = splitSentences(reply);
+  if (parts.length <= 2) return { text: reply, stripped: false };
+  const kept = parts.filter((s) => !REPETITIVE_CLOSER_RE.test(s));
+  if (kept.length === parts.length) return { text: reply, stripped: false };
+  const out = kept.join(" ").trim();
+  return { text: out || reply, stripped: true };
+}
+
+// ─── SEO keyword stripping for negative responses [R6] ──────────────────────
+// For 1–2 star replies, remove any accidental inclusion of the business name.
+// Widewail's proven strategy: don't give Google keywords to associate with
+// negative content.
+
+function stripBusinessNameFromNegativeReply(reply: string, rating: number, businessName: string): string {
+  if (rating > 2) return reply;
+  if (!businessName) return reply;
+
+  const escaped = businessName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const nameRe = new RegExp(`\\b${escaped}\\b`, "gi");
+  let t = reply.replace(nameRe, "").trim();
+  t = collapseWhitespace(t);
+  // Clean up orphaned punctuation from removal
+  t = t.replace(/\s+,/g, ",").replace(/\s+\./g, ".").replace(/^\s*[,.]/, "").trim();
+  return t;
+}
+
+
+// ─── Exclamation enforcement ─────────────────────────────────────────────────
+
+function enforceExclamations(text: string, allowExclamation: boolean) {
+  let t = text;
+  if (!allowExclamation) {
+    t = t.replace(/[!¡]/g, ".");
+    t = t.replace(/\.\.+/g, ".").trim();
+  } else {
+    const exCount = (t.match(/[!¡]/g) ?? []).length;
+    if (exCount > 1) {
+      let seen = 0;
+      t = t.replace(/[!¡]/g, (m) => { seen += 1; return seen === 1 ? m : "."; });
+      t = t.replace(/\.\.+/g, ".").trim();
+    }
+  }
+  return t;
+}
+
+// ─── Pipeline ────────────────────────────────────────────────────────────────
+
+export type PostCleanContext = {
+  rating: number;
+  review_text: string;
+  business_name: string;
+  has_voice_samples: boolean;
+  allow_exclamation: boolean;
+  max_sentences: number;
+  reply_signature: string | null;
+};
+
+export type PostCleanStageId =
+  | "remove_quotations"
+  | "strip_emojis"
+  | "collapse_whitespace"
+  | "strip_templated_openers"
+  | "sanitize_corporate_phrases"
+  | "strip_re_explanation_requests"
+  | "fix_apostrophes"
+  | "fix_capitalisation"
+  | "remove_invented_excuses"
+  | "remove_duplicate_apology"
+  | "strip_repetitive_closers"
+  | "strip_business_name_negative"
+  | "limit_sentences"
+  | "enforce_exclamations"
+  | "fix_capitalisation_final"
+  | "append_signature";
+
+type PostCleanStage = {
+  id: PostCleanStageId;
+  // Stages that only make sense in some contexts (e.g. negative reviews) say so here.
+  // A stage that does not apply is reported as skipped, not as disabled.
+  applies?: (ctx: PostCleanContext) => boolean;
+  run: (text: string, ctx: PostCleanContext) => string;
+};
+
+// Order matters — this is the v10 route order, unchanged.
+export const POST_CLEAN_STAGES: readonly PostCleanStage[] = [
+  { id: "remove_quotations", run: (t) => removeQuotations(t) },
+  { id: "strip_emojis", run: (t) => stripEmojis(t) },
+  { id: "collapse_whitespace", run: (t) => collapseWhitespace(t) },
+  {
+    // v9: Only strip templated openers when no voice samples are loaded.
+    // When voice samples are present, the customer's actual voice may legitimately
+    // open with "Thank you so much for..." — stripping that would break voice
+    // fidelity. The prompt already instructs the model to follow the sample
+    // pattern, so we trust the model output here.
+    id: "strip_templated_openers",
+    applies: (ctx) => !ctx.has_voice_samples,
+    run: (t) => stripTemplatedOpeners(t),
+  },
+  { id: "sanitize_corporate_phrases", run: (t) => sanitizeCorporatePhrases(t) },
+  {
+    // v10 follow-up: strip whole sentences asking the reviewer to re-explain.
+    // Only for negative reviews where this pattern is most damaging.
+    id: "strip_re_explanation_requests",
+    applies: (ctx) => ctx.rating <= 2,
+    run: (t) => stripSentencesContainingPatterns(t, askForReExplanationPatterns),
+  },
+  { id: "fix_apostrophes", run: (t) => fixApostrophes(t) },
+  { id: "fix_capitalisation", run: (t) => fixSentenceCapitalisation(t) },
+  {
+    id: "remove_invented_excuses",
+    run: (t, ctx) => removeExcuseSentencesIfInvented({ reply: t, rating: ctx.rating, review_text: ctx.review_text }),
+  },
+  { id: "remove_duplicate_apology", run: (t, ctx) => removeDuplicateApology(t, ctx.rating) },
+  { id: "strip_repetitive_closers", run: (t, ctx) => stripRepetitiveClosers(t, ctx.rating).text },
+  {
+    // [R6] Strip business name from negative replies for SEO protection
+    id: "strip_business_name_negative",
+    run: (t, ctx) => stripBusinessNameFromNegativeReply(t, ctx.rating, ctx.business_name),
+  },
+  { id: "limit_sentences", run: (t, ctx) => limitSentences(t, ctx.max_sentences) },
+  { id: "enforce_exclamations", run: (t, ctx) => enforceExclamations(t, ctx.allow_exclamation) },
+  {
+    // Final capitalisation pass — catches anything introduced by prior steps
+    id: "fix_capitalisation_final",
+    run: (t) => fixSentenceCapitalisation(t),
+  },
+  { id: "append_signature", run: (t, ctx) => appendSignatureIfMissing(t, ctx.reply_signature) },
+];
+
+export const POST_CLEAN_STAGE_IDS: readonly PostCleanStageId[] = POST_CLEAN_STAGES.map((s) => s.id);
+
+export function parsePostCleanStageIds(v: unknown): PostCleanStageId[] {
+  if (!Array.isArray(v)) return [];
+  const known = new Set<string>(POST_CLEAN_STAGE_IDS);
+  return v.map((x) => String(x ?? "").trim()).filter((x): x is PostCleanStageId => known.has(x));
+}
+
+export type PostCleanTraceEntry = {
+  stage: PostCleanStageId;
+  status: "changed" | "unchanged" | "skipped" | "disabled";
+  before?: string;
+  after?: string;
+};
+
+export type PostCleanResult = {
+  text: string;
+  // Stages that actually modified the text (always populated, cheap).
+  changed: PostCleanStageId[];
+  // Per-stage detail, only when opts.trace is set (debug responses).
+  trace: PostCleanTraceEntry[] | null;
+};
+
+export function runPostClean(
+  raw: string,
+  ctx: PostCleanContext,
+  opts?: { disabled?: readonly PostCleanStageId[]; trace?: boolean }
+): PostCleanResult {
+  const disabled = new Set(opts?.disabled ?? []);
+  const trace: PostCleanTraceEntry[] = [];
+  const changed: PostCleanStageId[] = [];
+  let text = raw;
+
+  for (const stage of POST_CLEAN_STAGES) {
+    if (disabled.has(stage.id)) {
+      trace.push({ stage: stage.id, status: "disabled" });
+      continue;
+    }
+    if (stage.applies && !stage.applies(ctx)) {
+      trace.push({ stage: stage.id, status: "skipped" });
+      continue;
+    }
+
+    const before = text;
+    text = stage.run(text, ctx);
+
+    if (text !== before) {
+      changed.push(stage.id);
+      trace.push({ stage: stage.id, status: "changed", before, after: text });
+    } else {
+      trace.push({ stage: stage.id, status: "unchanged" });
+    }
+  }
+
+  return { text, changed, trace: opts?.trace ? trace : null };
+}
@@ -0,0 +1,1100 @@
+// lib/draftPrompt.ts
+//
+// Prompt construction for review reply drafts: classifiers, voice helpers and
+// the system / user prompts sent to the model.
+//
+// Lifted from app/api/reviews/draft-reply/route.ts so the route and offline
+// tooling (lib/draftEval.ts) build exactly the same prompt. PROMPT_VERSION
+// still tracks every change to the text below.
+
+import type { CategoryPack } from "@/lib/categoryPacks";
+import type { FactSheet } from "@/lib/factSheet";
+import { BANNED_PHRASES } from "@/lib/draftScoring";
+import { contractMaxSentences } from "@/lib/promptContract";
+import type { ReviewerHistory } from "@/lib/reviewerHistory";
+import { REVIEW_TOPIC_LABELS, type ReviewAspect } from "@/lib/reviewTopics";
+import { SENSITIVE_REASON_LABELS, type SensitiveReason } from "@/lib/sensitiveContent";
+
+// ─── VERSION HISTORY ──────────────────────────────────────────────────────────
+// v17 (2026-10-19): Draft revisions.
+//   buildRevisionPrompt: rewrites an existing draft per one owner instruction
+//   ("shorter", "mention the Malbec", "more formal") under the same hard
+//   constraints, grounding and sensitive-review rules as a fresh draft.
+// v16 (2026-10-19): Business fact sheet (lib/factSheet.ts).
+//   1. BUSINESS FACTS block with the owner's facts relevant to this review;
+//      GROUNDING RULE and the system prompt's ECHO DISCIPLINE name the fact
+//      sheet as the only source besides the review.
+//   2. Never-mention list rendered under the banned phrases.
+// v15 (2026-10-19): Returning reviewers (lib/reviewerHistory.ts).
+//   RETURNING REVIEWER block with the previous rating, whether it got a reply
+//   and how the rating moved, so the reply can acknowledge a return visit.
+//   Not rendered for sensitive reviews.
+// v14 (2026-10-19): Sensitive reviews (lib/sensitiveContent.ts).
+//   Reviews flagged for illness, allergic reactions, injury, discrimination,
+//   harassment or legal threats get the SENSITIVE REVIEW strategy instead of
+//   the rating strategy: no admission of fault, no repeating incident details,
+//   take it offline. Scaffold, style, aspects, SEO and private-resolution
+//   blocks are left out for these reviews.
+// v13 (2026-10-19): Aspect topics (lib/reviewTopics.ts).
+//   1. ASPECTS block lists the topics the reviewer raised with per-aspect
+//      sentiment; every negative aspect must be addressed.
+//   2. classifyFailureType uses negative aspects when given (works for es/pt),
+//      classifyReviewStyle gained Spanish / Portuguese signals.
+// v12 (2026-10-19): Category packs (lib/categoryPacks.ts).
+//   1. CATEGORY block: vocabulary hints and typical failure modes for the
+//      business type, placed after REVIEW STYLE ADAPTATION.
+//   2. Pack bans are appended to the universal banned list.
+//   3. Scaffold offers the pack's safe closers for 3–5★ and star-only replies.
+// v11 (2026-10-19): Owner edit feedback.
+//   voice.things_to_avoid (fed by phrases owners keep deleting from drafts —
+//   see lib/replyDiff.ts) is now rendered under the banned phrases block.
+// v9 (2026-05-08): Voice fidelity fix.
+//   1. voiceSamplesBlock rewritten to explicitly instruct the model to mirror
+//      opening and closing patterns from samples, with override priority over
+//      rating-strategy opener examples.
+//   2. antiRoteBlock made conditional on voice samples — when samples exist,
+//      the "do not start with Thank you" rule is replaced with "follow the
+//      sample opening pattern."
+//   3. System prompt rule #5 made conditional on voice samples (same logic).
+//   4. stripTemplatedOpeners() post-processor only runs when no voice samples
+//      are loaded (otherwise it deletes openers that match the customer voice).
+//   5. GROUNDING RULE added to STANDARD 2 — model must use only details from
+//      the review or voice samples, not inferred geographic / training-data
+//      knowledge. Prevents hallucinations like "Overberg" appearing in replies
+//      to a Hemel-en-Aarde Valley review.
+// v8: prior baseline — see git history.
+export const PROMPT_VERSION = "draft-reply-v17";
+
+// ─── Research references (informational — traceable decisions) ─────────────────
+//
+// [R1] Ravichandran & Deng (2022) "Effects of Managerial Response to Negative
+//      Reviews on Future Review Valence and Complaints" — Information Systems
+//      Research. Procedural complaints → rational cues outperform emotional.
+//      Interpersonal complaints → emotional acknowledgment outperforms rational.
+//
+// [R2] Liu et al. (2021) "To be similar or to be different? The effect of hotel
+//      managers' rote response on subsequent reviews" — Tourism Management.
+//      Rote/boilerplate responses decrease subsequent review volume and lower
+//      future review valence. Independent hotels hurt more than chains.
+//
+// [R3] 2025 Vietnamese Mekong Delta study — "Satisfaction with response: The
+//      impact on potential customers' perceived service quality and intent to
+//      stay." Full, customized responses yield the highest satisfaction and
+//      perceived service quality. Rote content significantly underperforms.
+//
+// [R4] Wu & Morwitz (Columbia Business School, 2025) — Integrated reviews
+//      (combining emotional + rational elements) produce 5–10× higher odds of
+//      recommending the business. Responses should mirror this: acknowledge
+//      emotion AND address factual specifics.
+//
+// [R5] 2025 ScienceDirect — "This is inequity!" — Subjective reviews benefit
+//      from faster, empathetic responses. Objective/factual reviews benefit from
+//      more thoughtful, detail-oriented replies.
+//
+// [R6] Widewail SEO strategy (industry best practice, validated by Moz local
+//      ranking factors) — Naturally include business name/category keywords in
+//      positive review responses (Google bolds them). Avoid keywords in negative
+//      review responses to prevent Google from surfacing them.
+//
+// [R7] Proserpio & Zervas (2017); HBR — Businesses that respond consistently
+//      to reviews receive ~12% more reviews. 95% of consumers read reviews
+//      before booking. 77% of travelers more likely to book when business
+//      responds to positive reviews.
+//
+// [R8] Spiegel Research Center — Ratings between 4.2–4.5 are more likely to
+//      lead to a sale than perfect 5.0 (avoids "too good to be true" effect).
+//      Google filters out <4.0 from "best X near me" queries.
+//
+// [R9] Service recovery literature consensus — For negative reviews, invite
+//      private/offline resolution. Do not litigate issues publicly. Prospective
+//      customers observe how you handle conflict.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─── Language instruction ─────────────────────────────────────────────────────
+function languageInstruction(languageTag: string) {
+  const tag = (languageTag || "en").toLowerCase().trim();
+  // Handle regional variants: "es-ar" -> "es", "pt-br" stays "pt-br"
+  const base = tag.split("-")[0];
+
+  switch (tag) {
+    case "en":
+    case "en-us":
+    case "en-gb":
+    case "en-au":
+      return "Write in English. Natural, human, non-corporate.";
+    case "es":
+    case "es-ar":
+    case "es-mx":
+    case "es-es":
+    case "es-cl":
+    case "es-co":
+    case "es-pe":
+      return "Escribe en espa\u00f1ol. Espa\u00f1ol natural, no una traducci\u00f3n literal. Suena como una persona real, no una marca.";
+    case "pt":
+    case "pt-br":
+    case "pt-pt":
+      return "Escreva em portugu\u00eas. Portugu\u00eas natural, n\u00e3o uma tradu\u00e7\u00e3o literal.";
+    case "fr":
+    case "fr-fr":
+    case "fr-ca":
+      return "\u00c9cris en fran\u00e7ais. Fran\u00e7ais naturel, pas une traduction litt\u00e9rale.";
+    case "it":
+    case "it-it":
+      return "Scrivi in italiano. Italiano naturale, non una traduzione letterale.";
+    case "de":
+    case "de-de":
+    case "de-at":
+    case "de-ch":
+      return "Schreibe auf Deutsch. Nat\u00fcrliches Deutsch, keine w\u00f6rtliche \u00dcbersetzung.";
+    default:
+      break;
+  }
+
+  // Fallback: check base language code if full tag didn't match
+  switch (base) {
+    case "es":
+      return "Escribe en espa\u00f1ol. Espa\u00f1ol natural, no una traducci\u00f3n literal. Suena como una persona real, no una marca.";
+    case "pt":
+      return "Escreva em portugu\u00eas. Portugu\u00eas natural, n\u00e3o uma tradu\u00e7\u00e3o literal.";
+    case "fr":
+      return "\u00c9cris en fran\u00e7ais. Fran\u00e7ais naturel, pas une traduction litt\u00e9rale.";
+    case "it":
+      return "Scrivi in italiano. Italiano naturale, non una traduzione letterale.";
+    case "de":
+      return "Schreibe auf Deutsch. Nat\u00fcrliches Deutsch, keine w\u00f6rtliche \u00dcbersetzung.";
+    default:
+      // For any other language: instruct clearly so the model doesn't default to English
+      return `Write the reply in ${languageTag}. Use natural, human phrasing in that language \u2014 not a translation from English. Sound like a real person, not a brand.`;
+  }
+}
+
+// ─── Failure-type classifier ──────────────────────────────────────────────────
+// Research basis: [R1] Ravichandran & Deng (2022, ISR) — procedural complaints
+// benefit from rational cues; interpersonal complaints benefit from emotional
+// acknowledgment. This classifier drives the strategy split in 1–2 star prompts.
+
+export type FailureType = "procedural" | "interpersonal" | "mixed";
+
+// Negative aspects from lib/reviewTopics.ts map onto the same split:
+// staff attitude is interpersonal, everything else is procedural.
+const PROCEDURAL_TOPICS = new Set(["service_speed", "food", "price", "cleanliness", "noise", "booking"]);
+
+export function classifyFailureType(reviewText: string, aspects?: ReviewAspect[] | null): FailureType {
+  const t = (reviewText || "").toLowerCase();
+
+  const negative = (aspects ?? []).filter((a) => a.sentiment === "negative" || a.sentiment === "mixed");
+  if (negative.length > 0) {
+    const interpersonal = negative.some((a) => a.topic === "staff_attitude");
+    const procedural = negative.some((a) => PROCEDURAL_TOPICS.has(a.topic));
+    if (interpersonal && !procedural) return "interpersonal";
+    if (procedural && !interpersonal) return "procedural";
+    return "mixed";
+  }
+
+  const proceduralSignals = [
+    /\b(wait(ed|ing)?|took (too )?long|slow service|never (came|arrived|showed))\b/,
+    /\b(wrong (order|item|dish|table)|missing (item|order|dish))\b/,
+    /\b(reservation|booking|cancelled|no show|double.?booked)\b/,
+    /\b(charged|overcharged|billing|invoice|price|expensive|cost)\b/,
+    /\b(promised|told us|said (they|it) would|never delivered)\b/,
+    /\b(cold (food|dish|meal)|reheated|undercooked|overcooked|raw)\b/,
+    /\b(incomplete|wrong item|wrong order)\b/,
+  ];
+
+  const interpersonalSignals = [
+    /\b(rude|condescending|dismissive|disrespectful|unprofessional)\b/,
+    /\b(ignored|ignored us|no one (came|helped|acknowledged))\b/,
+    /\b(attitude|eye roll|rolled (their )?eyes|snapped|snappy)\b/,
+    /\b(made (us|me) feel|felt (unwelcome|ignored|dismissed|judged|embarrassed))\b/,
+    /\b(didn.t (apologize|acknowledge|care))\b/,
+    /\b(talked (down|to us)|spoke (rudely|harshly))\b/,
+  ];
+
+  const proceduralHits = proceduralSignals.filter((re) => re.test(t)).length;
+  const interpersonalHits = interpersonalSignals.filter((re) => re.test(t)).length;
+
+  if (proceduralHits === 0 && interpersonalHits === 0) return "mixed";
+  if (proceduralHits > 0 && interpersonalHits === 0) return "procedural";
+  if (interpersonalHits > 0 && proceduralHits === 0) return "interpersonal";
+  return "mixed";
+}
+
+// ─── Review style classifier ─────────────────────────────────────────────────
+// Research basis: [R5] 2025 ScienceDirect — subjective/emotional reviews benefit
+// from empathetic replies; objective/factual reviews benefit from thoughtful,
+// detail-oriented replies. [R4] Columbia (Wu & Morwitz) — integrated responses
+// (emotional + rational) outperform either alone by 5–10×.
+//
+// Returns "subjective" | "objective" | "integrated" to inform strategy.
+
+export type ReviewStyle = "subjective" | "objective" | "integrated";
+
+export function classifyReviewStyle(reviewText: string): ReviewStyle {
+  const t = (reviewText || "").toLowerCase();
+
+  const subjectiveSignals = [
+    /\b(felt|feeling|feel|angry|frustrated|upset|disappointed|disgusted|horrible|awful|terrible|worst|loved|amazing|incredible|fantastic|wonderful|best|beautiful)\b/,
+    /[!]{2,}/,
+    /\b(never again|last time|ruined|destroyed|heartbroken|devastated)\b/,
+    /\b(can't believe|couldn't believe|unbelievable|unacceptable|ridiculous)\b/,
+    // es / pt (\b doesn't see accented letters, so explicit boundaries)
+    /(^|[^\p{L}])(decepcionad[oa]s?|horrible|pésim[oa]|increíble|maravillos[oa]|nunca más|furios[oa]|indignad[oa])(?![\p{L}])/u,
+    /(^|[^\p{L}])(decepcionad[oa]s?|horrível|péssim[oa]|incrível|maravilhos[oa]|nunca mais|absurdo)(?![\p{L}])/u,
+  ];
+
+  const objectiveSignals = [
+    /\b(\d+ (minutes|hours|mins|hrs|days))\b/,
+    /\$\d+|\d+\s*(dollars|euros|pesos)/,
+    /\b(ordered|received|arrived|checked in|checked out|booked|reserved)\b/,
+    /\b(specifically|exactly|precisely|on (monday|tuesday|wednesday|thursday|friday|saturday|sunday))\b/i,
+    /\b(table|room|floor|server|waiter|waitress|host|hostess|manager)\b/,
+    /\b\d+\s*(minutos|horas|min)\b/,
+    /(^|[^\p{L}])(pedimos|reservamos|llegó|chegou|mesa|mozo|mesero|camarero|garçom|gerente|encargado)(?![\p{L}])/u,
+  ];
+
+  const subjectiveHits = subjectiveSignals.filter((re) => re.test(t)).length;
+  const objectiveHits = objectiveSignals.filter((re) => re.test(t)).length;
+
+  if (subjectiveHits > 0 && objectiveHits > 0) return "integrated";
+  if (subjectiveHits > objectiveHits) return "subjective";
+  if (objectiveHits > subjectiveHits) return "objective";
+  return "integrated";
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type VoiceProfile = {
+  reply_as?: "owner" | "manager" | "we";
+  tone?: "warm" | "neutral" | "direct" | "playful";
+  brevity?: "short" | "medium";
+  formality?: "casual" | "professional";
+  things_to_avoid?: string[] | null;
+  allow_exclamation?: boolean | null;
+};
+
+export const DEFAULT_VOICE = {
+  reply_as: "we" as const,
+  tone: "warm" as const,
+  brevity: "short" as const,
+  formality: "professional" as const,
+  things_to_avoid: [] as string[],
+  allow_exclamation: false,
+};
+
+// ─── Voice helpers ────────────────────────────────────────────────────────────
+
+export function normalizeVoice(v?: VoiceProfile | null) {
+  const vv = v ?? {};
+  return {
+    ...DEFAULT_VOICE,
+    ...vv,
+    things_to_avoid: Array.isArray(vv.things_to_avoid)
+      ? vv.things_to_avoid.map((x) => String(x)).filter(Boolean)
+      : DEFAULT_VOICE.things_to_avoid,
+    allow_exclamation:
+      typeof vv.allow_exclamation === "boolean"
+        ? vv.allow_exclamation
+        : DEFAULT_VOICE.allow_exclamation,
+  };
+}
+
+export function normalizeToneFromOrg(tone: string): VoiceProfile["tone"] {
+  const t = (tone || "").toLowerCase().trim();
+  if (t === "playful") return "playful";
+  if (t === "direct") return "direct";
+  if (t === "neutral") return "neutral";
+  if (t === "professional") return "neutral";
+  return "warm";
+}
+
+export function clampToneForRating(tone: VoiceProfile["tone"], rating: number): VoiceProfile["tone"] {
+  if (!tone) return tone;
+  if (rating <= 2 && tone === "playful") return "neutral";
+  return tone;
+}
+
+// Length tracks the review, within the contract's per-rating limit
+// (lib/promptContract.ts §3) so a long 3–4★ review never earns a retry.
+export function sentencePolicyForRating(rating: number, reviewWordCount?: number) {
+  const words = reviewWordCount ?? 0;
+  const byLength = (() => {
+    if (words === 0) return 2;   // star-only review: max 2 short sentences
+    if (words < 15) return 2;    // ultra-short ("Great place!"): max 2 short sentences
+    if (words > 120) return 4;
+    if (words > 60) return 3;
+    return 2;
+  })();
+  return Math.min(byLength, contractMaxSentences(rating));
+}
+
+// v10: Returns a human-readable length category for the debug response.
+// Helps verify the length-matching rule is firing correctly per review.
+export function lengthCategoryForReview(reviewWordCount: number): "star_only" | "ultra_short" | "short" | "medium" | "long" {
+  if (reviewWordCount === 0) return "star_only";
+  if (reviewWordCount < 15) return "ultra_short";
+  if (reviewWordCount > 120) return "long";
+  if (reviewWordCount > 60) return "medium";
+  return "short";
+}
+
+// ─── SEO keyword helper ──────────────────────────────────────────────────────
+// Research basis: [R6] Widewail — Include business name + category keywords
+// naturally in positive (4–5 star) responses. Google bolds matched keywords
+// in review responses, improving local search visibility. For negative (1–2
+// star) responses, AVOID keywords to prevent Google from surfacing them.
+
+function buildSeoInstruction(params: {
+  rating: number;
+  business_name: string;
+  business_category?: string | null;
+}): string {
+  const { rating, business_name, business_category } = params;
+
+  if (rating >= 4) {
+    const categoryHint = business_category
+      ? ` and the type of experience ("${business_category}")`
+      : "";
+    return `SEO NOTE (for search visibility): Naturally mention the business name "${business_name}"${categoryHint} once in the reply. Do NOT force it — weave it in where it reads naturally. Example: "That's exactly what we aim for at ${business_name}." This helps Google surface the reply for local searches.`;
+  }
+
+  if (rating <= 2) {
+    return `SEO NOTE: Do NOT mention the business name, location, or category in this reply. Keep the response free of searchable keywords — you do not want Google to surface negative review responses in search results.`;
+  }
+
+  // 3-star: neutral — no special SEO instruction
+  return "";
+}
+
+// ─── Review style instruction ────────────────────────────────────────────────
+// Research basis: [R5] Subjective reviews → empathetic reply first; objective
+// reviews → detail-oriented reply. [R4] Integrated approach always wins.
+
+function buildStyleInstruction(reviewStyle: ReviewStyle, failureType: FailureType, rating: number): string {
+  if (rating >= 4) return ""; // style classification mainly matters for negative/mixed
+
+  if (reviewStyle === "subjective") {
+    return `REVIEW STYLE: This review is emotionally driven. Lead with genuine emotional acknowledgment before addressing any specifics. The reviewer needs to feel heard first.`;
+  }
+
+  if (reviewStyle === "objective") {
+    if (failureType === "procedural") {
+      return `REVIEW STYLE: This review is fact-based and specific. Match their precision — acknowledge the exact facts they cited, then take clear ownership. Rational cues outperform emotional ones for procedural complaints (ISR 2022).`;
+    }
+    return `REVIEW STYLE: This review is fact-based. Address their specific points directly and concretely. Show you read the details.`;
+  }
+
+  // integrated
+  return `REVIEW STYLE: This review mixes emotion and facts. Mirror that: acknowledge how they felt AND address the specific issue. Integrated responses (emotional + rational) are the most effective at rebuilding trust.`;
+}
+
+// ─── Structural scaffold (v10) ────────────────────────────────────────────────
+// When voice samples are absent or thin (<3), the model has no concrete pattern
+// to mirror and drifts toward generic AI-shaped replies. The scaffold gives
+// it a structural frame to fill in. When 3+ voice samples exist, the samples
+// themselves provide the pattern and the scaffold is suppressed.
+
+function buildStructuralScaffold(params: {
+  rating: number;
+  voice_sample_count: number;
+  is_star_only: boolean;
+  is_ultra_short: boolean;
+  has_reply_signature: boolean;
+  safe_closers?: string[];
+}): string {
+  const { rating, voice_sample_count, is_star_only, is_ultra_short, has_reply_signature } = params;
+
+  // Suppress scaffold when 3+ voice samples exist; let the samples drive structure.
+  if (voice_sample_count >= 3) return "";
+
+  const signoffLine = has_reply_signature
+    ? "Sign-off line (the signature is appended automatically — do NOT include it in your reply text)."
+    : "Sign-off line is omitted (no signature configured).";
+
+  // v12: category pack closers. Never offered for 1–2★ (those close with private resolution).
+  const closers = rating >= 3 ? (params.safe_closers ?? []).slice(0, 3) : [];
+  const closerLine = closers.length
+    ? `If you close with a return note, adapt one of these to the review: ${closers.map((c) => `"${c}"`).join(" / ")}\n  `
+    : "";
+
+  // Star-only and ultra-short get a tighter scaffold
+  if (is_star_only) {
+    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
+
+  Sentence 1: Brief warm acknowledgement of the rating. No invented details.
+  Sentence 2 (optional): One-line invitation back, generic and warm.
+  ${closerLine}${signoffLine}
+
+  This is a fallback frame because the owner has fewer than 3 voice samples loaded. Once they paste more samples, the system will rely on those patterns instead.`;
+  }
+
+  if (is_ultra_short) {
+    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
+
+  Sentence 1: Acknowledge the sentiment ("We're so glad..." / "Thank you for...") without inventing details.
+  Sentence 2: A brief grounded note tied to what the reviewer wrote, OR a return invitation.
+  ${closerLine}${signoffLine}`;
+  }
+
+  // 4-5 star: warmth + specific echo + close
+  if (rating >= 4) {
+    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
+
+  Sentence 1: Owner-voice acknowledgement that echoes a SPECIFIC detail from the review.
+    Pattern: "Hearing that [SPECIFIC_DETAIL] means a lot to us..." or
+             "Thank you so much for [SPECIFIC_OBSERVATION]..."
+  Sentence 2: A brief expansion or honest note tied to that detail. Stay grounded in the review.
+  Sentence 3 (optional, only for reviews ${rating === 4 ? "with a gentle gap to acknowledge" : "longer than ~60 words"}): A natural return invitation or warm close.
+  ${closerLine}${signoffLine}
+
+  This is a fallback frame because the owner has fewer than 3 voice samples loaded. The shape is honest, warm, and specific — but it is a default, not a fingerprint. Once more voice samples are loaded the system will mirror those patterns instead.`;
+  }
+
+  // 3-star: balanced acknowledgement
+  if (rating === 3) {
+    return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
+
+  Sentence 1: Acknowledge BOTH what worked and what didn't — be specific about each.
+  Sentence 2: Brief ownership of the gap without over-explaining.
+  Sentence 3 (optional): Invitation to reach out directly to resolve, if the gap is actionable.
+  ${closerLine}${signoffLine}`;
+  }
+
+  // 1-2 star: accountability scaffold
+  return `STRUCTURAL SCAFFOLD (use this shape — no voice samples loaded, or sample count is thin):
+
+  Sentence 1: Name the specific failure concretely, using the reviewer's own framing.
+  Sentence 2: One direct apology. One sentence of accountability. No defensiveness.
+  Sentence 3 (optional): Invite private resolution — provide a way to reach you directly.
+  ${signoffLine}
+
+  This is a fallback frame because the owner has fewer than 3 voice samples loaded. Calm, specific, accountable. Do not pad.`;
+}
+
+// ─── Returning reviewers (v15) ────────────────────────────────────────────────
+
+function buildReviewerHistoryBlock(history: ReviewerHistory, rating: number) {
+  const count = history.previous_count;
+  const earlier = count === 1 ? "one earlier review" : `${count} earlier reviews`;
+  const lastRating = history.last_rating !== null ? `${history.last_rating}★` : "an unrated review";
+  const when = history.last_review_date ? ` (${history.last_review_date.slice(0, 10)})` : "";
+  const replied = history.last_replied ? "We replied to it." : "It did not get a reply from us.";
+
+  const change = history.rating_change;
+  const guidance =
+    change !== null && change > 0
+      ? `Their rating went up from ${history.last_rating}★ to ${rating}★. You may acknowledge, in one short clause, that it's good to have them back and that this visit went better. Do not dwell on the earlier visit.`
+      : change !== null && change < 0
+        ? `Their rating went down from ${history.last_rating}★ to ${rating}★. You may acknowledge, in one short clause, that they've been with us before and this visit wasn't up to their last one. Do not be defensive.`
+        : `You may acknowledge, in one short clause, that it's good to see them again.`;
+
+  return `This reviewer has left ${earlier} for this business. Most recent: ${lastRating}${when}. ${replied}
+${guidance}
+- This is optional context, not a required element. Skip it if it doesn't fit naturally.
+- Never quote or describe the earlier review — you only know its rating.
+- Do not claim to remember them personally.`;
+}
+
+// ─── Sensitive reviews (v14) ──────────────────────────────────────────────────
+
+function buildSensitiveStrategy(reasons: SensitiveReason[]) {
+  const labels = reasons.map((r) => SENSITIVE_REASON_LABELS[r].toLowerCase()).join(", ");
+
+  return `This review raises a safety or legal concern (${labels}). It will be read by a manager before
+posting. Write a short, calm reply that moves the conversation offline.
+- 2–3 sentences. Nothing more.
+- Acknowledge that they had a difficult experience, in general terms. Do NOT name or describe the
+  illness, reaction, injury, incident or accusation, and do not repeat their words about it.
+- Do NOT admit fault, negligence, responsibility or liability. Never write "our fault", "we made you
+  sick", "we should have checked", "we are responsible" or any variant.
+- Do NOT dispute, deny or explain what happened, and do not question their account.
+- Do NOT mention investigations, outcomes, staff discipline, refunds, medical costs, insurance or
+  lawyers.
+- Express concern and ask them to contact the owner or manager directly (email or phone) so it can be
+  handled privately.
+- Sympathy without admission: "I'm sorry to read about your visit" is fine; "I'm sorry we caused
+  this" is not.`;
+}
+
+// ─── Prompt builder ───────────────────────────────────────────────────────────
+
+export function buildPrompt(params: {
+  business_name: string;
+  rating: number;
+  owner_language: string;
+  review_text: string;
+  voice: ReturnType<typeof normalizeVoice>;
+  reply_signature: string | null;
+  client_tone?: VoiceProfile["tone"] | null;
+  client_rules?: string[];
+  voice_samples?: string[];
+  failure_type?: FailureType;
+  review_style?: ReviewStyle;
+  business_category?: string | null;
+  category_pack?: CategoryPack | null;
+  review_topics?: ReviewAspect[] | null;
+  sensitive_reasons?: SensitiveReason[] | null;
+  reviewer_history?: ReviewerHistory | null;
+  // Relevant facts only (selectRelevantFacts) plus the full never-mention list
+  fact_sheet?: FactSheet | null;
+  reviewer_name?: string;
+  // Prompt variant overrides (lib/promptVariants.ts); defaults are control
+  scaffold?: boolean;
+  extra_bans?: string[];
+}) {
+  const {
+    business_name,
+    rating,
+    owner_language,
+    review_text,
+    voice,
+    reply_signature,
+    client_rules,
+    voice_samples,
+    failure_type = "mixed",
+    review_style = "integrated",
+    business_category = null,
+    category_pack = null,
+    review_topics = null,
+    sensitive_reasons = null,
+    reviewer_history = null,
+    fact_sheet = null,
+    reviewer_name = "",
+    scaffold = true,
+    extra_bans = [],
+  } = params;
+
+  // v14: flagged reviews swap the rating strategy for the conservative template.
+  const sensitive = !!(sensitive_reasons && sensitive_reasons.length > 0);
+
+  // v9: Whether voice samples are present drives several conditional blocks below.
+  const hasVoiceSamples = !!(voice_samples && voice_samples.length > 0);
+  const voiceSampleCount = voice_samples?.length ?? 0;
+
+  // v10: Compute structural scaffold (returns empty string if voice samples are sufficient).
+  const reviewWordCountInBuildPrompt = review_text.trim() ? review_text.trim().split(/\s+/).length : 0;
+  const scaffoldBlock = sensitive || !scaffold ? "" : buildStructuralScaffold({
+    rating,
+    voice_sample_count: voiceSampleCount,
+    is_star_only: reviewWordCountInBuildPrompt === 0,
+    is_ultra_short: reviewWordCountInBuildPrompt > 0 && reviewWordCountInBuildPrompt < 15,
+    has_reply_signature: !!reply_signature,
+    safe_closers: category_pack?.safe_closers,
+  });
+
+  const who =
+    voice.reply_as === "owner" || voice.reply_as === "manager"
+      ? 'Write in first-person singular ("I") as the owner.'
+      : 'Write in first-person plural ("we") as the business.';
+
+  const langInstruction = languageInstruction(owner_language);
+
+  const universalBanned = [...BANNED_PHRASES, ...(category_pack?.bans ?? []), ...extra_bans].join(" | ");
+
+  // v13: aspects the reviewer raised, negative first (lib/reviewTopics.ts sorts them).
+  const aspects = review_topics ?? [];
+  const negativeAspects = aspects.filter((a) => a.sentiment === "negative" || a.sentiment === "mixed");
+  const aspectsBlock = aspects.length && !sensitive
+    ? [
+        ...aspects.map(
+          (a) =>
+            `- ${REVIEW_TOPIC_LABELS[a.topic]}: ${a.sentiment}${a.evidence.length ? ` (their words: ${a.evidence.map((e) => `"${e}"`).join(", ")})` : ""}`
+        ),
+        negativeAspects.length
+          ? `Address every negative or mixed aspect above, briefly and specifically. Do not list the positives back to them — pick at most one.`
+          : `Pick the one aspect that matters most to them and respond to it specifically. Do not list every aspect.`,
+      ].join("\n")
+    : "";
+
+  // v15: returning reviewer — facts only, the model must not invent what the earlier visit was like.
+  const historyBlock = reviewer_history && !sensitive ? buildReviewerHistoryBlock(reviewer_history, rating) : "";
+
+  // v12: category pack — vocabulary always, failure modes where they matter most.
+  const categoryBlock = category_pack
+    ? [
+        `Business type: ${category_pack.label}.`,
+        `Guests of a ${category_pack.label.toLowerCase()} talk about things like: ${category_pack.vocabulary.join(", ")}. Use the reviewer's own words for these; never add ones they didn't mention.`,
+        `Replies for this type of business typically go wrong by:\n${category_pack.failure_modes.map((f) => `- ${f}`).join("\n")}`,
+      ].join("\n")
+    : "";
+
+  // v11: phrases this owner has asked to avoid or keeps deleting from drafts.
+  const ownerAvoid = voice.things_to_avoid.slice(0, 40);
+  const ownerAvoidBlock =
+    ownerAvoid.length > 0
+      ? `THIS OWNER ALSO AVOIDS (their own list, plus phrases they keep deleting from drafts):\n${ownerAvoid.join(" | ")}`
+      : "";
+
+  // v16: owner fact sheet. Facts are already filtered to the ones relevant to this review.
+  const facts = fact_sheet?.facts ?? [];
+  const factsBlock = facts.length
+    ? `${facts.map((f) => `- ${f.label}: ${f.value}`).join("\n")}
+Use a fact ONLY if it directly relates to something the reviewer said (e.g. they praised the sommelier and
+you know the sommelier's name, or they complained about something that has since been fixed). At most one
+fact per reply. Never list facts, and never use one just because it is here.`
+    : "";
+  const neverMention = fact_sheet?.never_mention ?? [];
+  const neverMentionBlock = neverMention.length
+    ? `NEVER MENTION (owner's list — not even indirectly):\n${neverMention.join(" | ")}`
+    : "";
+
+  const exclamationRule = voice.allow_exclamation
+    ? "Maximum 1 exclamation point, only if it is completely natural."
+    : "No exclamation points. Replace any with a period.";
+
+  const signatureRule = reply_signature ? `Close with: — ${reply_signature}` : "";
+
+  // v10: Voice samples now explicitly take priority over the rating-strategy block
+  // for criticism handling, tone, register, and structural patterns. The strategy
+  // is reference material; the samples are the owner's actual fingerprint.
+  const voiceSamplesBlock = hasVoiceSamples
+    ? `OWNER VOICE — these are real replies this owner has written. Your reply must feel like it could have been written by the same person.
+
+MIRROR these patterns from the samples:
+- The OPENING phrase pattern (first 3–5 words)
+- Sentence STRUCTURE and length
+- The CLOSING phrase pattern
+- Register, formality, warmth level
+- Specific phrases the owner uses repeatedly
+- HOW this owner handles criticism, gaps, or negative observations (whether they apologize first, acknowledge first, redirect, or take ownership)
+- HOW this owner expresses warmth (effusive vs restrained, brief vs detailed, formal vs conversational)
+
+Do NOT copy specific details (guest names, dishes, dates, staff names) from the samples themselves.
+DO reuse phrasing patterns. If the samples open with "Thank you so much for...", you should too.
+If the samples close with "We hope to welcome you back...", you should too.
+
+PRIORITY: These patterns OVERRIDE the rating-strategy block ENTIRELY when in conflict.
+That includes opener style, accountability framing, criticism handling, and closing patterns.
+The rating strategy describes what the literature says works on average; the samples describe
+what this specific owner actually does. The samples win every time.
+
+Samples:
+${(voice_samples ?? []).map((s, i) => `${i + 1}. ${s}`).join("\n\n")}`
+    : "";
+
+  const userRulesBlock =
+    client_rules && client_rules.length > 0
+      ? `OWNER-SPECIFIC RULES:\n${client_rules.map((r) => `- ${r}`).join("\n")}`
+      : "";
+
+  const reviewWordCount = review_text.trim().split(/\s+/).length;
+  const isStarOnly = reviewWordCount === 0 || !review_text.trim();
+  const isUltraShort = reviewWordCount > 0 && reviewWordCount < 15;
+  const maxSentences = sentencePolicyForRating(rating, isStarOnly ? 0 : reviewWordCount);
+
+  // v10: length guidance describes the TARGET shape of the reply,
+  // not just the cap. Prevents the model from producing 2 long sentences
+  // when the review is one line.
+  const lengthGuidance = isStarOnly
+    ? "The review is a star rating with no text. Reply with 1-2 short sentences only. A brief warm acknowledgement plus a return note. Do NOT pad. Do NOT invent details that weren't given."
+    : isUltraShort
+    ? `The review is ${reviewWordCount} words. Match that brevity. 1-2 short sentences. A one-line review gets a one-line reply.`
+    : reviewWordCount > 120
+    ? `The review is ${reviewWordCount} words (long, detailed). Up to ${maxSentences} sentences. Engage with the specific points raised; do not summarise generically.`
+    : reviewWordCount > 60
+    ? `The review is ${reviewWordCount} words (medium length). ${maxSentences > 2 ? "2-3" : "2"} sentences. Match the level of detail they offered.`
+    : `The review is ${reviewWordCount} words (short). 2 sentences. Tight, specific, no padding.`;
+
+  // ── SEO instruction [R6] ──────────────────────────────────────────────────
+  const seoInstruction = sensitive ? "" : buildSeoInstruction({ rating, business_name, business_category });
+
+  // v10 follow-up: When inviting private resolution on negative reviews,
+  // the model tends to produce paraphrased variants of "tell us more" —
+  // semantic violations of the rule that the reviewer already shared their
+  // experience. Give the model explicit approved alternatives and banned
+  // variants, plus permission to stay brief when no contact channel exists.
+  const privateResolutionGuidance = rating <= 2 && !sensitive
+    ? `The reviewer already explained their experience. Asking them to re-explain — even softened — is a violation. The goal of inviting private resolution is to express openness to making it right, NOT to extract more information.
+
+BANNED — these phrasings ask the reviewer to re-explain, even when softened:
+  - "We'd like to understand what happened"
+  - "We'd genuinely like to understand what happened"
+  - "We'd love the opportunity to learn more"
+  - "If you'd be willing to share what went wrong"
+  - "Tell us more about what happened"
+  - "Please share more details"
+  - "We'd love to hear more about your experience"
+  - ANY variant that asks the reviewer to elaborate, share, explain, describe, or detail what occurred. The semantic intent of "extract more info" is banned regardless of surface phrasing.
+
+APPROVED — use one of these patterns or stay silent. Silence beats a softened banned variant:
+  - "We're sorry. We can do better."
+  - "That's not the experience we want anyone to have here."
+  - "If you're open to it, we'd welcome the chance to make this right." (offering to act, not asking for info)
+  - End the reply after the apology with NO invitation at all.
+
+DEFAULT WHEN UNCERTAIN: omit the invitation entirely. Brevity with dignity beats a softened version of a banned pattern. A short, accountable reply is stronger than a longer reply that asks the reviewer to do more work.`
+    : "";
+
+  // ── Review style instruction [R4, R5] ─────────────────────────────────────
+  const styleInstruction = sensitive ? "" : buildStyleInstruction(review_style, failure_type, rating);
+
+  // v9: Anti-rote instructions are conditional on whether voice samples exist.
+  // When samples are present, we want the model to follow the sample opening
+  // pattern rather than fight it. Without samples, the original anti-template
+  // instructions apply.
+  const antiRoteBlock = hasVoiceSamples
+    ? `ANTI-REPETITION (critical for perceived authenticity):
+- Follow the opening pattern shown in the OWNER VOICE samples below. Do not invent a different opener style.
+- Within that pattern, vary the specific words so each reply feels one-off, not a template.
+- Research proves that rote/boilerplate responses DECREASE future review volume and LOWER
+  future ratings. Prospective customers can detect templated language instantly.`
+    : `ANTI-REPETITION (critical for perceived authenticity):
+- Do NOT start with "Thank you" or any greeting formula.
+- Vary your opening: start with a specific detail, an acknowledgment, a reflection, or
+  jump straight into the substance. Every reply must feel like a one-off, not a template.
+- Research proves that rote/boilerplate responses DECREASE future review volume and LOWER
+  future ratings. Prospective customers can detect templated language instantly.`;
+
+  // ── Dual-audience instruction [R3, R7] ─────────────────────────────────────
+  const dualAudienceBlock = `AUDIENCE AWARENESS (critical):
+This reply is public. It will be read by:
+1. The reviewer — who wants to feel heard and respected.
+2. Prospective customers — who are deciding whether to visit based on how you handle feedback.
+Write for BOTH audiences simultaneously. Prospective customers care most about:
+- Whether you sound like a real person (not a brand).
+- Whether you take accountability (for negatives) or show genuine warmth (for positives).
+- Whether this feels like a place run by people who care.`;
+
+  let ratingStrategy = "";
+  if (rating >= 5) {
+    // [R4] Integrated: acknowledge the feeling AND mirror the specific detail.
+    // [R6] SEO: naturally include business name.
+    // [R7] Return invitation drives repeat visits.
+    ratingStrategy = `5-STAR STRATEGY — Owner gratitude + specific acknowledgment + natural return invite
+- You are the OWNER, not a fellow guest. Do not describe the experience back to them.
+- Lead by acknowledging something SPECIFIC they noticed — a dish, a moment, a staff name, a detail.
+  Frame it as "we're so glad you noticed X" or "hearing that X resonated means a lot" —
+  NEVER as "X really does shine through" or "X is exactly what makes Y special" (peer voice).
+- Combine warmth (emotional) with the specific fact (rational) — integrated responses
+  are 5–10× more effective at driving recommendations than either alone.
+- Close with a natural, low-pressure invitation to return. Make it specific if possible:
+  "next time you're in the neighborhood" or reference a season/event — not a generic
+  "hope to see you again."
+- Do NOT be effusive or over-the-top. Genuine beats enthusiastic.
+- BAD opening (peer voice): "Hosny's passion for Egypt's history really does come through..."
+- GOOD opening (owner voice): "Hearing that Hosny's depth of knowledge stood out to you means a lot — that's exactly why we partner with Egyptologist guides."`;
+  } else if (rating === 4) {
+    // [R3] Full, customized response yields highest satisfaction.
+    // [R4] Integrated: acknowledge what worked AND the gap.
+    ratingStrategy = `4-STAR STRATEGY — Owner appreciation + specific acknowledgment + gentle gap
+- You are the OWNER, not a fellow guest. Do not describe the experience back to them or generalize about how the tour/meal/stay affects "people" or "guests."
+- OPEN with an explicit acknowledgment frame: "Hearing that...", "Knowing that you noticed...", "Reading your review...", "We're so glad you...", or "It means a lot that...".
+- Lead with appreciation SPECIFIC to what they enjoyed — frame it as receiving their observation, not describing what they observed.
+- If the review hints at something imperfect, acknowledge it briefly and naturally. Do not ignore it — prospective customers notice when owners dodge the gap.
+- Close simply and warmly with a specific detail, not a generic closer.
+- Do not over-promise improvements. Calm confidence reads better than defensiveness.
+- BAD opening (peer/marketing voice): "Hosny's knowledge really means something to us — it's exactly the kind of depth that makes a day in Memphis stick with people."
+- GOOD opening (owner voice): "Hearing that Hosny's depth landed with you means a lot. He's an Egyptologist for a reason, and we're glad you got to experience that firsthand alongside the carpet weaving stop."`;
+  } else if (rating === 3) {
+    // [R1] Mixed complaints need balanced rational + emotional approach.
+    // [R4] Integrated style.
+    // [R9] Invite private resolution for the negative parts.
+    ratingStrategy = `3-STAR STRATEGY — Balanced, calm ownership + specific acknowledgment
+- You are the OWNER, not a fellow guest. Open from the owner seat — acknowledge what they shared, do not describe the experience back to them.
+- Acknowledge the mixed experience without defensiveness.
+- Name BOTH what worked and what didn't — be specific about each. Prospective customers
+  reading this want to see that you heard the nuance, not that you gave a generic response.
+- Take responsibility for the gap without over-explaining or making excuses.
+- If the gap is actionable, invite them to reach out directly: provide a channel
+  (email or phone) so resolution happens privately.
+- Close with a calm, genuine note — not a marketing close.
+- VARY YOUR ACCOUNTABILITY LANGUAGE: Never use "that's on us." Rotate between
+  phrasing like "we missed the mark on...", "we should have done better with...",
+  "that wasn't good enough," or simply name the gap without a stock phrase.`;
+  } else if (rating === 2) {
+    // [R1] Procedural → rational cues. Interpersonal → emotional cues.
+    // [R5] Match the review style.
+    // [R9] Invite private resolution.
+    // [R6] No SEO keywords in negative responses.
+    ratingStrategy = `2-STAR STRATEGY — ${failure_type === "procedural" ? "Direct accountability (rational-first)" : failure_type === "interpersonal" ? "Emotional acknowledgment first, then accountability" : "Emotional acknowledgment + direct accountability"}
+- If the reviewer explicitly mentions price or value, acknowledge it directly.
+  "Extremely expensive" combined with food failures is a compounded grievance —
+  the price makes every failure worse and must not be ignored.
+- Do not invite the guest to "tell you more" or "share what happened" —
+  they already did. Instead invite direct contact to resolve it:
+  "Please reach out to us directly at [channel]" not "I'd like to hear more."
+${failure_type === "procedural" ? `- PROCEDURAL FAILURE: Lead with the specific operational fact that went wrong.
+  Name it concretely. Then one sentence of clean ownership. Rational precision
+  outperforms emotional language for process failures.` : ""}${failure_type === "interpersonal" ? `- INTERPERSONAL FAILURE: Lead with genuine emotional acknowledgment —
+  name how the interaction made them feel. Then one sentence of accountability.
+  Emotional acknowledgment outperforms rational language for interpersonal failures.` : ""}${failure_type === "mixed" ? `- MIXED FAILURE: Acknowledge both the emotional impact AND the operational
+  specifics. Lead with whichever the reviewer emphasized more.` : ""}
+- ONE apology maximum. Direct and human. Not corporate.
+- Invite private resolution in one short sentence.
+- The reply should sound like an owner genuinely disappointed in themselves.
+- VARY YOUR ACCOUNTABILITY LANGUAGE: Never use "that's on us." Rotate between
+  phrasing like "we missed the mark on...", "we should have done better with...",
+  "that wasn't good enough," or simply name the gap without a stock phrase.`;
+  } else {
+    // 1-star: [R1], [R5], [R9]
+    ratingStrategy = `1-STAR STRATEGY — Direct, calm, specific accountability
+- Open by naming the specific failure concretely — use the reviewer's own words.
+  If you write "your experience" you have failed.
+${failure_type === "procedural" ? `- PROCEDURAL FAILURE: Be precise and factual. Name the broken process or
+  promise. One clear sentence of ownership. Rational cues drive better outcomes.` : ""}${failure_type === "interpersonal" ? `- INTERPERSONAL FAILURE: Name how the interaction made them feel. Show you
+  understand the human impact, not just the operational failure.` : ""}${failure_type === "mixed" ? `- MIXED: Address both the emotional and operational dimensions.` : ""}
+- ONE apology. Direct and human. Just "I'm sorry." Not a corporate apology.
+- Do not be defensive. Do not explain why it happened. Do not promise systemic change.
+- Invite private resolution: provide a way to reach you directly.
+- Dignity in brevity. Short, specific, accountable replies outperform long ones.
+- Remember: prospective customers reading this want to see how you handle your worst
+  moments. Calm accountability is the strongest possible signal.
+- VARY YOUR ACCOUNTABILITY LANGUAGE: Never use "that's on us." Rotate between
+  phrasing like "we missed the mark," "we should have done better," "that wasn't
+  good enough," or simply name the failure directly without a stock phrase.`;
+  }
+
+  if (sensitive) {
+    ratingStrategy = buildSensitiveStrategy(sensitive_reasons ?? []);
+  }
+
+  return `You are the owner of "${business_name}" — a hospitality business — writing a public Google review reply. This reply is visible to every future reader, not just the reviewer. It represents the face and character of the business.
+
+${who}
+
+${langInstruction}
+
+════════════════════════════════════════════════════
+  MANDATORY QUALITY STANDARDS — EVERY ONE MUST BE MET
+════════════════════════════════════════════════════
+
+STANDARD 1 — GRAMMAR: NON-NEGOTIABLE. ZERO TOLERANCE.
+
+Every contraction MUST have an apostrophe. Read your output before submitting.
+
+  ✓ CORRECT: we're / we'd / didn't / that's / you're / wasn't / it's / I'd / I'll / we've / can't / won't
+  ✗ BROKEN:  were  / wed  / didnt  / thats  / youre  / wasnt  / its  / Id  / Ill  / weve  / cant  / wont
+
+Every sentence MUST start with a capital letter. After every period, "!", or "?" followed by a space,
+the NEXT word must be capitalised.
+
+Every sentence must be grammatically complete: subject + verb + closing punctuation. No fragments.
+
+Scan your reply word by word before outputting. Fix any broken contraction or uncapitalised sentence start.
+
+STANDARD 2 — SPECIFICITY: PROVE YOU READ THE REVIEW.
+
+Reference at least ONE concrete detail from the review, and reference it EARLY (sentence 1 or 2).
+Pick something specific the reviewer mentioned: a dish, a staff name, a moment, a feature, a feeling.
+Echo it in your own words. Do not summarise in categories.
+
+  ✗ Generic: "We're sorry your experience didn't meet expectations."
+  ✓ Specific: "Having to re-request every order twice isn't what we're about."
+
+ECHO RULE (v10): When you reference a detail from the review, MIRROR what they said.
+Do not extrapolate, embellish, or editorialize ON TOP of their words.
+
+  Reviewer said: "The Pinot Noir was outstanding."
+  ✓ Good echo: "Hearing the Pinot Noir landed for you means a lot."
+  ✗ Over-reach: "We're so glad the Pinot Noir stood out — it's the wine that put our region on the map."
+    (The reviewer did not claim the wine put the region on the map. Do not invent that.)
+
+  Reviewer said: "Pricing is on the higher end."
+  ✓ Good echo: "You're right that the Valley isn't the cheapest wine region."
+  ✗ Over-reach: "We hear you on pricing — we're confident the region will continue to find its footing."
+    (The reviewer made a pricing observation; do not editorialize about the region's trajectory.)
+
+GROUNDING RULE (critical, strict): Use ONLY details and phrasings that appear in the review itself${factsBlock ? ",\nthe BUSINESS FACTS block," : ""}
+or the OWNER VOICE samples below. Do NOT add geographic context, historical facts, market commentary,
+forward-looking statements about the business or region, claims about industry trends, or anything
+else that didn't come directly from the review or samples.
+
+If the review mentions "the Valley", reference "the Valley". Do not add the broader region name.
+If the review names one wine or dish, do not name others.
+If the review describes one moment, do not invent surrounding moments.
+If the reviewer makes a critical observation, acknowledge it but do not editorialize on its causes
+or future trajectory — that is the owner inserting their own narrative on top of the reviewer's words.
+
+Your training-data knowledge of the area, industry, business, or region is NOT a source.
+The review${factsBlock ? ", the business facts" : ""} and the voice samples are the only sources.
+Names, numbers, times, prices and days that are not in those sources will be rejected.
+
+STANDARD 3 — HUMAN VOICE. NOT A PRESS RELEASE.
+
+Write the way a thoughtful owner would — warm, direct, accountable. Not corporate. Not scripted.
+
+STANDARD 4 — LENGTH: MATCH THE REVIEW.
+
+${lengthGuidance}
+
+Hard cap: ${maxSentences} sentences. But length should TRACK the review, not default to the cap.
+Short review = short reply. Long review = appropriately detailed reply.
+A one-line review getting a 4-sentence reply reads as templated and overwrought.
+
+${reviewer_name ? `STANDARD 5 — REVIEWER NAME: USE IT, NATURALLY.
+
+The reviewer's name is "${reviewer_name}". Use it ONCE in the reply, typically in the opener, the way a real owner would when responding personally.
+
+  Good: "Thank you so much for your thoughtful review, Jonathan, we really appreciate you visiting."
+  Good: "Hi Verena, hearing that the wines landed for you means a lot."
+
+Rules:
+- Use the FIRST NAME ONLY when there is a clear first name (e.g., "Jonathan Royds" becomes "Jonathan", "Yannik Bayha" becomes "Yannik").
+- If the name is initials or a handle (e.g., "GB", "E. Stawinoga", "ABC123"), SKIP name use entirely. Do not force it.
+- If the name looks non-personal (e.g., "Local Guide", "Google User", "Anonymous"), SKIP name use.
+- Use the name ONCE. Do not repeat it. Repeating reads as obsequious.
+- For very short replies (1-2 sentences) the name can feel overly intimate. Exercise judgment. Skip if it feels forced.
+- If voice samples below consistently use or skip reviewer names, follow that sample pattern (samples override this rule).
+` : ""}
+
+════════════════════════════════════════════════════
+  AUDIENCE & ANTI-REPETITION
+════════════════════════════════════════════════════
+
+${dualAudienceBlock}
+
+${antiRoteBlock}
+
+════════════════════════════════════════════════
+  BANNED PHRASES — NEVER USE. NOT EVEN PARTIALLY.
+════════════════════════════════════════════════
+
+${universalBanned}
+
+${ownerAvoidBlock ? ownerAvoidBlock + "\n\n" : ""}${neverMentionBlock ? neverMentionBlock + "\n\n" : ""}${scaffoldBlock ? `════════════════════════════════════\n  STRUCTURAL SCAFFOLD\n════════════════════════════════════\n${scaffoldBlock}\n` : ""}════════════════════════════════════
+  ${sensitive ? "SENSITIVE REVIEW — THIS OVERRIDES VOICE SAMPLES AND STANDARD 2" : `RATING STRATEGY${voiceSampleCount >= 3 ? " (REFERENCE — voice samples take priority)" : ""}`}
+════════════════════════════════════
+${voiceSampleCount >= 3 && !sensitive ? `NOTE: The owner has ${voiceSampleCount} voice samples loaded below. Those samples show how this specific owner actually handles reviews — including critical or negative reviews. If the samples and the strategy below conflict, FOLLOW THE SAMPLES. The strategy below is reference material for the general shape; the samples are the owner's actual fingerprint.\n\n` : ""}${ratingStrategy}
+
+${styleInstruction ? `════════════════════════════════════\n  REVIEW STYLE ADAPTATION\n════════════════════════════════════\n${styleInstruction}\n` : ""}${categoryBlock ? `════════════════════════════════════\n  CATEGORY\n════════════════════════════════════\n${categoryBlock}\n` : ""}${aspectsBlock ? `════════════════════════════════════\n  ASPECTS THE REVIEWER RAISED\n════════════════════════════════════\n${aspectsBlock}\n` : ""}${historyBlock ? `════════════════════════════════════\n  RETURNING REVIEWER\n════════════════════════════════════\n${historyBlock}\n` : ""}${factsBlock ? `════════════════════════════════════\n  BUSINESS FACTS (from the owner)\n════════════════════════════════════\n${factsBlock}\n` : ""}${seoInstruction ? `════════════════════════════════════\n  SEO\n════════════════════════════════════\n${seoInstruction}\n` : ""}${privateResolutionGuidance ? `════════════════════════════════════\n  PRIVATE RESOLUTION PHRASING\n════════════════════════════════════\n${privateResolutionGuidance}\n` : ""}════════════════════════════════════
+  HARD CONSTRAINTS
+════════════════════════════════════
+- ${exclamationRule}
+- No emojis.
+- Do not promise internal changes ("we'll retrain staff", "we've updated our procedures").
+- Do not mention AI, automation, or systems.
+- Do not offer refunds or compensation.
+- Do not use placeholder text like [name] or [business name].
+- Do not copy the reviewer's sentences — paraphrase and engage.
+- One apology only, regardless of rating.
+${rating <= 2 ? "- For negative reviews: invite private/offline resolution (email or phone). Do not litigate publicly.\n- Do not ask the reviewer to \"share more\" or \"tell us what happened\" — they already did." : ""}
+
+${voiceSamplesBlock ? voiceSamplesBlock + "\n\n" : ""}${userRulesBlock ? userRulesBlock + "\n\n" : ""}${signatureRule ? signatureRule + "\n\n" : ""}════════════════════════════════════
+  THE REVIEW (${rating}/5 stars)
+════════════════════════════════════
+${review_text}
+
+────────────────────────────────────
+Write the reply now.
+Complete sentences. Correct apostrophes. Every sentence capitalised. Specific. Human.
+Output ONLY the reply — no labels, no preamble, no explanation.`.trim();
+}
+
+// ─── Revision prompt ──────────────────────────────────────────────────────────
+// v17: one targeted change to an existing draft. The instruction is treated
+// as an edit request, never as a way around the hard constraints.
+
+export function buildRevisionPrompt(params: {
+  business_name: string;
+  rating: number;
+  owner_language: string;
+  review_text: string;
+  current_reply: string;
+  instruction: string;
+  voice: ReturnType<typeof normalizeVoice>;
+  reply_signature: string | null;
+  max_sentences: number;
+  sensitive_reasons?: SensitiveReason[] | null;
+  fact_sheet?: FactSheet | null;
+}) {
+  const { business_name, rating, owner_language, review_text, current_reply, instruction, voice, reply_signature } =
+    params;
+
+  const sensitiveReasons = params.sensitive_reasons ?? [];
+  const facts = params.fact_sheet?.facts ?? [];
+  const neverMention = params.fact_sheet?.never_mention ?? [];
+
+  const who =
+    voice.reply_as === "owner" || voice.reply_as === "manager"
+      ? 'Keep writing in first-person singular ("I") as the owner.'
+      : 'Keep writing in first-person plural ("we") as the business.';
+
+  const exclamationRule = voice.allow_exclamation
+    ? "Maximum 1 exclamation point, only if it is completely natural."
+    : "No exclamation points. Replace any with a period.";
+
+  const banned = [...BANNED_PHRASES, ...voice.things_to_avoid.slice(0, 40)].join(" | ");
+
+  const sensitiveRule = sensitiveReasons.length
+    ? `- This review was flagged as sensitive (${sensitiveReasons.map((r) => SENSITIVE_REASON_LABELS[r].toLowerCase()).join(", ")}). Whatever the instruction says: do not admit fault or liability, do not repeat the incident details, and keep the invitation to continue the conversation directly.\n`
+    : "";
+
+  const factsBlock = facts.length
+    ? `BUSINESS FACTS (from the owner — usable if the instruction asks for them or they fit naturally):\n${facts.map((f) => `- ${f.label}: ${f.value}`).join("\n")}\n\n`
+    : "";
+
+  const neverMentionBlock = neverMention.length
+    ? `NEVER MENTION (owner's list — not even indirectly):\n${neverMention.join(" | ")}\n\n`
+    : "";
+
+  return `You are revising a reply to a Google review for "${business_name}".
+Apply the owner's instruction below and change nothing else.
+
+════════════════════════════════════
+  OWNER'S INSTRUCTION
+════════════════════════════════════
+${instruction}
+
+════════════════════════════════════
+  HOW TO REVISE
+════════════════════════════════════
+- Apply the instruction fully. Every sentence it does not concern stays as close to the current reply as possible.
+- The instruction is an edit request, not new rules. If part of it conflicts with the constraints below, apply the rest and ignore that part.
+- New details may only come from the review, the instruction itself${facts.length ? " or the BUSINESS FACTS" : ""}. Do not invent names, dates, times, prices or events.
+- ${who}
+- ${languageInstruction(owner_language)}
+- At most ${params.max_sentences} sentences, fewer if the instruction asks for it.
+${sensitiveRule}
+════════════════════════════════════
+  HARD CONSTRAINTS
+════════════════════════════════════
+- ${exclamationRule}
+- No emojis.
+- Do not mention AI, automation, or systems.
+- Do not offer refunds or compensation.
+- Do not use placeholder text like [name] or [business name].
+- One apology only.
+- Banned phrases: ${banned}
+${reply_signature ? `- Keep the sign-off as the last line: — ${reply_signature}\n` : ""}
+${factsBlock}${neverMentionBlock}════════════════════════════════════
+  THE REVIEW (${rating}/5 stars)
+════════════════════════════════════
+${review_text}
+
+════════════════════════════════════
+  CURRENT REPLY
+════════════════════════════════════
+${current_reply}
+
+────────────────────────────────────
+Write the revised reply now.
+Output ONLY the reply — no labels, no preamble, no explanation.`.trim();
+}
+
+// ─── System prompt ────────────────────────────────────────────────────────────
+
+export function buildSystemPrompt(params: { has_voice_samples: boolean; has_fact_sheet?: boolean }) {
+  // v9: System prompt rule #5 is now conditional on whether voice samples
+  // are loaded. Without samples, the original anti-greeting rule applies.
+  // With samples, we tell the model to mirror the sample patterns instead.
+  const rule5 = params.has_voice_samples
+    ? "5. If owner voice samples are provided in the user message, mirror their opening and closing patterns. Otherwise, vary your openings — avoid defaulting to 'Thank you' generic templates."
+    : "5. NEVER start with 'Thank you' or any greeting formula. Start with substance.";
+
+  return [
+    "You are a professional hospitality reputation manager writing Google review replies for a white-glove concierge service.",
+    "You write as the business owner — specific, warm, accountable, and never corporate.",
+    "PERSPECTIVE LOCK (most important rule, applies to ALL ratings): You are the OWNER thanking or responding to YOUR guest. You were NOT on the tour, at the table, in the room, or part of the experience they describe. THREE things are FORBIDDEN: (1) Narrating the guest's experience back to them, e.g. 'Hosny's passion really comes through when he's walking you past the pyramids' (testimonial voice). (2) Generalizing about how the experience affects 'people' or 'guests' or 'visitors,' e.g. 'the kind of depth that makes a day in Memphis stick with people' (peer-recommending-to-other-customers voice). (3) Marketing-style descriptions of what makes your business good, e.g. 'it's exactly the kind of authenticity that defines us' (brochure voice). Instead, OPEN with an explicit acknowledgment of the guest's observation — phrases like 'Hearing that...', 'Knowing that you noticed...', 'Reading your review reminded us...', 'We're so glad you...', 'It means a lot that you...'. Reference details from their review only as things you're glad they noticed or sorry they encountered — never as things you're describing or observing.",
+    "ECHO DISCIPLINE (v10): When you reference a specific point the reviewer made, MIRROR what they said. Do not extrapolate, embellish, or add your own commentary on top of their observation. If they made a pricing critique, acknowledge the pricing point — do NOT add forward-looking statements about the region, industry, or business trajectory. If they praised a wine, acknowledge the wine — do NOT claim the wine 'put the region on the map' or similar embellishments. Your knowledge of the business, industry, or region is NOT a source. " +
+      (params.has_fact_sheet
+        ? "The review text and the owner's BUSINESS FACTS block are the only sources of facts."
+        : "The review text is the only source of facts."),
+    "CRITICAL GRAMMAR RULES that must never be violated:",
+    "1. Every contraction must have an apostrophe: we're / didn't / that's / you're / I'd / I'll / won't / can't / we've.",
+    "2. Every sentence must begin with a capital letter. After every period, '! ', or '? ', the next word is capitalised.",
+    "3. Every sentence must be grammatically complete — subject, verb, end punctuation. No fragments.",
+    "4. Output ONLY the reply text. No labels, no preamble, no explanation.",
+    rule5,
+    "6. This reply is read by prospective customers deciding whether to visit. Write accordingly.",
+    "7. Never use the phrase 'that's on us' or 'it's on us' — vary accountability language every time.",
+  ].join(" ");
+}
@@ -0,0 +1,238 @@
+// lib/draftScoring.ts
+//
+// Heuristic scoring for reply text.
+//
+// Used for two things:
+//  - ranking the org's voice samples before they go into the prompt
+//  - ranking candidate drafts when the caller asks for alternatives
+//
+// The scorers were lifted unchanged from app/api/reviews/draft-reply/route.ts.
+// The ban list is the one the prompt sends to the model (banned-v5); checking
+// drafts against the same list keeps "what we asked for" and "what we reward"
+// in step. Bump BANNED_LIST_VERSION whenever the list changes.
+
+import { splitSentences } from "@/lib/draftPostClean";
+
+export const BANNED_LIST_VERSION = "banned-v5";
+
+export const BANNED_PHRASES: readonly string[] = [
+  "thank you for your feedback", "we appreciate your feedback", "we appreciate your thoughts",
+  "we appreciate your comments", "thank you for taking the time", "thank you for sharing",
+  "we strive", "we will look into this", "we take this seriously", "please accept our apologies",
+  "valued customer", "valued guest", "did not meet expectations", "fell short of",
+  "we understand your frustration", "we hear you", "we recognize", "it's disappointing to hear",
+  "it's concerning to hear", "we'll keep that in mind", "we aim to", "we strive to",
+  "our goal is to", "we work hard to", "we regret", "we were busy", "short-staffed", "understaffed",
+  "i'd like to hear more about what happened", "tell us more about your experience",
+  "please share more details", "we'd love to learn more about what went wrong",
+  "gracias por tu comentario", "gracias por tu opinión", "agradecemos tu comentario",
+  "agradecemos tu opinión", "agradecemos tu feedback", "lamentamos profundamente",
+  "nos disculpamos sinceramente", "nos disculpamos profundamente", "entendemos tu frustración",
+  "entendemos tu decepción", "entiendo tu frustración", "entiendo la frustración",
+  "comprendo tu frustración", "comprendo la frustración", "tomamos esto muy en serio",
+  "tomaremos en cuenta", "trabajamos para mejorar", "nos esforzamos", "nuestro objetivo es",
+  "esperamos verte pronto", "esperamos que nos des otra oportunidad",
+  "agradecemos o seu comentário", "agradecemos o seu feedback", "lamentamos profundamente",
+  "pedimos desculpas sinceramente", "entendemos a sua frustração", "nos esforçamos",
+  "merci pour votre commentaire", "nous vous remercions", "nous nous excusons sincèrement",
+  "nous comprenons votre frustration", "nous nous efforçons",
+  "grazie per il tuo feedback", "ci scusiamo sinceramente", "ci impegniamo",
+  "danke für ihr feedback", "wir entschuldigen uns aufrichtig", "wir bemühen uns",
+  "that's on us", "thats on us", "that is on us", "it's on us", "its on us",
+];
+
+// ─── Sample / text scorers ────────────────────────────────────────────────────
+
+export function clamp01(n: number) {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(1, n));
+}
+
+export function tokenize(s: string) {
+  return (s || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9áéíóúüñçàèìòùâêîôûãõäëïöüß\s]/gi, " ")
+    .split(/\s+/)
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .slice(0, 250);
+}
+
+export function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 && b.size === 0) return 1;
+  let inter = 0;
+  for (const x of a) if (b.has(x)) inter += 1;
+  const union = a.size + b.size - inter;
+  return union === 0 ? 0 : inter / union;
+}
+
+export function scoreLength(text: string) {
+  const L = (text || "").length;
+  if (!L) return 0;
+  const min = 80;
+  const idealLo = 110;
+  const idealHi = 420;
+  const hardMax = 700;
+  if (L < min) return clamp01(L / min) * 0.4;
+  if (L >= idealLo && L <= idealHi) return 1.0;
+  if (L > hardMax) return 0.2;
+  const decay = 1 - (L - idealHi) / (hardMax - idealHi);
+  return clamp01(decay);
+}
+
+export function scoreSpecificity(text: string) {
+  const raw = text || "";
+  const tokens = tokenize(raw);
+  if (tokens.length === 0) return 0;
+  const unique = new Set(tokens);
+  const uniqRatio = unique.size / tokens.length;
+  const hasDigit = /\d/.test(raw);
+  const hasCapWord = /\b[A-Z][a-z]{2,}\b/.test(raw);
+  const hasDetailMarker = /\b(today|tonight|yesterday|weekend|morning|afternoon|evening)\b/i.test(raw);
+  const base = clamp01((uniqRatio - 0.35) / 0.35);
+  const bonus = (hasDigit ? 0.15 : 0) + (hasCapWord ? 0.12 : 0) + (hasDetailMarker ? 0.08 : 0);
+  return clamp01(base + bonus);
+}
+
+export function scoreAntiTemplate(text: string) {
+  const t = (text || "").toLowerCase();
+  let penalty = 0;
+
+  const templatePhrases = [
+    "thank you for your feedback",
+    "we appreciate your feedback",
+    "we appreciate your thoughts",
+    "we appreciate your comments",
+    "thank you for taking the time",
+    "thank you for sharing",
+    "we strive",
+    "we will look into this",
+    "we take this seriously",
+    "please accept our apologies",
+    "valued customer",
+    "valued guest",
+    "did not meet expectations",
+    "fell short of",
+    "we understand your frustration",
+    "entendemos tu frustración",
+    "lamentamos profundamente",
+    "nos disculpamos sinceramente",
+    "agradecemos tu comentario",
+    "agradecemos tu opinión",
+    "tomaremos en cuenta",
+    "trabajamos para mejorar",
+    "agradecemos o seu comentário",
+    "agradecemos o seu feedback",
+    "agradecemos sua opinião",
+    "pedimos desculpas sinceramente",
+    "entendemos a sua frustração",
+    "entendemos sua frustração",
+    "levamos isso muito a sério",
+    "trabalharemos para melhorar",
+    "nos esforçamos",
+    "esperamos vê-lo em breve",
+    "esperamos recebê-lo novamente",
+  ];
+
+  for (const p of templatePhrases) {
+    if (t.includes(p)) penalty += 0.35;
+  }
+
+  if (/\b(book now|special offer|promo|discount|follow us|check out|visit our)\b/i.test(t)) penalty += 0.35;
+  if ((t.match(/[!¡]/g) ?? []).length >= 2) penalty += 0.15;
+
+  return clamp01(1 - penalty);
+}
+
+export function scoreSample(cleanedText: string) {
+  const L = scoreLength(cleanedText);
+  const S = scoreSpecificity(cleanedText);
+  const A = scoreAntiTemplate(cleanedText);
+  const sent = splitSentences(cleanedText).length;
+  const sentScore = sent >= 1 && sent <= 3 ? 1 : sent === 4 ? 0.7 : 0.45;
+  return 0.48 * A + 0.26 * L + 0.18 * S + 0.08 * sentScore;
+}
+
+// ─── Ban-list check ───────────────────────────────────────────────────────────
+
+function normalizeForBanCheck(text: string) {
+  // Curly apostrophes are common in model output; the list uses straight ones.
+  return (text || "").toLowerCase().replace(/[\u2018\u2019]/g, "'");
+}
+
+/** Banned phrases (from BANNED_PHRASES) that appear in the text, in list order. */
+export function findBannedPhrases(text: string): string[] {
+  const t = normalizeForBanCheck(text);
+  if (!t) return [];
+  const hits = BANNED_PHRASES.filter((p) => t.includes(p));
+  return Array.from(new Set(hits));
+}
+
+// ─── Candidate ranking ────────────────────────────────────────────────────────
+
+export type CandidateScore = {
+  total: number;
+  specificity: number;
+  anti_template: number;
+  length: number;
+  sentence_fit: number;
+  banned_hits: string[];
+};
+
+export type RankedCandidate<T> = T & { text: string; score: CandidateScore };
+
+// Near-duplicates (same reply with a word or two swapped) are dropped so the
+// alternatives shown side by side are actually different.
+const CANDIDATE_SIMILARITY_LIMIT = 0.85;
+
+export function scoreCandidate(text: string, maxSentences: number): CandidateScore {
+  const specificity = scoreSpecificity(text);
+  const anti_template = scoreAntiTemplate(text);
+  const length = scoreLength(text);
+  const sent = splitSentences(text).length;
+  const sentence_fit = sent >= 1 && sent <= Math.max(1, maxSentences) ? 1 : 0.4;
+  const banned_hits = findBannedPhrases(text);
+
+  const base = 0.4 * anti_template + 0.3 * specificity + 0.15 * length + 0.15 * sentence_fit;
+  const total = clamp01(base - 0.25 * banned_hits.length);
+
+  return {
+    total: Math.round(total * 1000) / 1000,
+    specificity: Math.round(specificity * 1000) / 1000,
+    anti_template: Math.round(anti_template * 1000) / 1000,
+    length: Math.round(length * 1000) / 1000,
+    sentence_fit,
+    banned_hits,
+  };
+}
+
+/**
+ * Score, de-duplicate and rank candidate drafts (best first).
+ * Candidates with ban-list hits always rank below clean ones.
+ */
+export function rankCandidates<T extends { text: string }>(
+  candidates: T[],
+  opts: { maxSentences: number }
+): RankedCandidate<T>[] {
+  const scored = candidates
+    .filter((c) => (c.text ?? "").trim())
+    .map((c) => ({ ...c, score: scoreCandidate(c.text, opts.maxSentences) }));
+
+  scored.sort((a, b) => {
+    const banA = a.score.banned_hits.length;
+    const banB = b.score.banned_hits.length;
+    if (banA !== banB) return banA - banB;
+    return b.score.total - a.score.total;
+  });
+
+  const kept: RankedCandidate<T>[] = [];
+  const keptTokens: Set<string>[] = [];
+  for (const c of scored) {
+    const tokenSet = new Set(tokenize(c.text));
+    if (keptTokens.some((k) => jaccard(k, tokenSet) >= CANDIDATE_SIMILARITY_LIMIT)) continue;
+    kept.push(c);
+    keptTokens.push(tokenSet);
+  }
+
+  return kept;
+}
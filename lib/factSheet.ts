@@ -0,0 +1,230 @@
+// lib/factSheet.ts
+//
+// Business fact sheet: owner-maintained key facts (owner's name, the
+// sommelier, opening hours, something that was fixed) plus a "never mention"
+// list. Stored per organization and optionally per business in
+// business_fact_sheets; a business sheet overrides org facts with the same label.
+//
+// buildPrompt only sees facts relevant to the review (selectRelevantFacts).
+// findUngroundedClaims backs the grounding check in lib/promptContract.ts
+// (§4.3): names, numbers, times and days in a reply must appear in the
+// review, the fact sheet or another known source.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export type FactSheetFact = {
+  label: string;
+  value: string;
+  // Offered to the model for every review, not only when the review relates to it
+  always?: boolean;
+};
+
+export type FactSheet = {
+  facts: FactSheetFact[];
+  never_mention: string[];
+};
+
+export const FACT_SHEET_MAX_FACTS = 20;
+export const FACT_SHEET_MAX_NEVER = 20;
+const MAX_LABEL_LEN = 60;
+const MAX_VALUE_LEN = 240;
+const MAX_NEVER_LEN = 80;
+
+// Relevant facts passed to the prompt per review
+const MAX_PROMPT_FACTS = 5;
+
+export const EMPTY_FACT_SHEET: FactSheet = { facts: [], never_mention: [] };
+
+// ─── Normalization ────────────────────────────────────────────────────────────
+
+function cleanText(v: unknown, maxLen: number) {
+  if (typeof v !== "string") return "";
+  return v.replace(/\s+/g, " ").trim().slice(0, maxLen);
+}
+
+/** Sanitizes a fact sheet from a request body or a DB row. Drops empty and duplicate entries. */
+export function normalizeFactSheet(raw: unknown): FactSheet {
+  const r = (raw ?? {}) as { facts?: unknown; never_mention?: unknown };
+
+  const facts: FactSheetFact[] = [];
+  const seen = new Set<string>();
+  for (const f of Array.isArray(r.facts) ? r.facts : []) {
+    const label = cleanText(f?.label, MAX_LABEL_LEN);
+    const value = cleanText(f?.value, MAX_VALUE_LEN);
+    if (!label || !value || seen.has(label.toLowerCase())) continue;
+    seen.add(label.toLowerCase());
+    facts.push({ label, value, ...(f?.always === true ? { always: true } : {}) });
+    if (facts.length >= FACT_SHEET_MAX_FACTS) break;
+  }
+
+  const never_mention = Array.from(
+    new Set(
+      (Array.isArray(r.never_mention) ? r.never_mention : [])
+        .map((v: unknown) => cleanText(v, MAX_NEVER_LEN))
+        .filter(Boolean)
+    )
+  ).slice(0, FACT_SHEET_MAX_NEVER) as string[];
+
+  return { facts, never_mention };
+}
+
+/** Business facts win over org facts with the same label; never-mention lists are combined. */
+export function mergeFactSheets(org: FactSheet | null, business: FactSheet | null): FactSheet {
+  const byLabel = new Map<string, FactSheetFact>();
+  for (const f of org?.facts ?? []) byLabel.set(f.label.toLowerCase(), f);
+  for (const f of business?.facts ?? []) byLabel.set(f.label.toLowerCase(), f);
+
+  return {
+    facts: Array.from(byLabel.values()).slice(0, FACT_SHEET_MAX_FACTS),
+    never_mention: Array.from(new Set([...(org?.never_mention ?? []), ...(business?.never_mention ?? [])])),
+  };
+}
+
+// ─── Relevance ────────────────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "was", "were", "are", "our", "your", "you",
+  "have", "has", "had", "not", "very", "from", "they", "them", "their", "what", "when",
+  "about", "just", "really", "been", "will", "would", "could", "there", "here",
+]);
+
+function contentTokens(text: string) {
+  return new Set(
+    (text || "")
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length >= 4 && !STOPWORDS.has(t))
+  );
+}
+
+// Loose prefix match so "hours" relates to "hour", "sommelier" to "sommeliers"
+function sharesToken(a: Set<string>, b: Set<string>) {
+  for (const x of a) {
+    for (const y of b) {
+      if (x === y || (x.length >= 5 && y.startsWith(x.slice(0, 5))) || (y.length >= 5 && x.startsWith(y.slice(0, 5)))) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/** Facts worth offering for this review: "always" facts plus any that share a word with it. */
+export function selectRelevantFacts(sheet: FactSheet | null, reviewText: string): FactSheetFact[] {
+  if (!sheet || sheet.facts.length === 0) return [];
+  const review = contentTokens(reviewText);
+
+  return sheet.facts
+    .filter((f) => f.always || sharesToken(contentTokens(`${f.label} ${f.value}`), review))
+    .slice(0, MAX_PROMPT_FACTS);
+}
+
+// ─── Grounding ────────────────────────────────────────────────────────────────
+
+const DAY_OR_MONTH_RE =
+  /^(monday|tuesday|wednesday|thursday|friday|saturday|sunday|january|february|march|april|june|july|august|september|october|november|december)$/i;
+
+// Capitalized words that aren't claims
+const COMMON_CAPITALIZED = new Set(["i", "i'm", "i've", "i'd", "i'll", "ok", "okay", "google"]);
+
+function foldForMatch(text: string) {
+  return (text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'");
+}
+
+/**
+ * Checkable claims in a reply — proper nouns mid-sentence, numbers (times,
+ * prices, years, phone numbers) and day/month names — that appear in none of
+ * `sources`. Returns the unsupported claims as written in the reply.
+ * Pass `properNouns: false` for languages that capitalize every noun (German).
+ */
+export function findUngroundedClaims(
+  reply: string,
+  sources: Array<string | null | undefined>,
+  opts: { properNouns?: boolean } = {}
+): string[] {
+  const checkProperNouns = opts.properNouns !== false;
+  const haystack = foldForMatch(sources.filter(Boolean).join(" \n "));
+  const claims: string[] = [];
+
+  const sentences = (reply || "").split(/(?<=[.!?])\s+|\n+/);
+  for (const sentence of sentences) {
+    const words = sentence.split(/\s+/).filter(Boolean);
+    words.forEach((raw, i) => {
+      const word = raw.replace(/^[^\p{L}\p{N}$€£]+|[^\p{L}\p{N}%]+$/gu, "");
+      if (!word) return;
+
+      const isNumber = /\d/.test(word);
+      const isProperNoun = checkProperNouns && i > 0 && /^\p{Lu}/u.test(word) && !COMMON_CAPITALIZED.has(word.toLowerCase());
+      const isDayOrMonth = DAY_OR_MONTH_RE.test(word);
+      if (!isNumber && !isProperNoun && !isDayOrMonth) return;
+
+      // Numbers compare on their digits ("9am" vs "9 am", "$25" vs "25")
+      const needle = isNumber ? word.replace(/[^\d:.,]/g, "") : foldForMatch(word);
+      if (!needle) return;
+      if (isNumber ? haystack.includes(needle) : new RegExp(`(^|[^\\p{L}])${escapeRegExp(needle)}`, "u").test(haystack)) {
+        return;
+      }
+      if (!claims.includes(word)) claims.push(word);
+    });
+  }
+
+  return claims;
+}
+
+/** Never-mention entries that appear in the reply. */
+export function findNeverMentionHits(reply: string, neverMention: string[]): string[] {
+  const text = foldForMatch(reply);
+  return neverMention.filter((term) => {
+    const t = foldForMatch(term);
+    return !!t && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(t)}($|[^\\p{L}\\p{N}])`, "u").test(text);
+  });
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+// business_fact_sheets: organization_id, business_id (null = org-level),
+// facts jsonb, never_mention text[], updated_at.
+
+export async function loadFactSheetRow(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  businessId: string | null;
+}): Promise<FactSheet | null> {
+  const { supabase, organizationId, businessId } = params;
+  try {
+    let query = supabase
+      .from("business_fact_sheets")
+      .select("facts, never_mention")
+      .eq("organization_id", organizationId);
+    query = businessId ? query.eq("business_id", businessId) : query.is("business_id", null);
+
+    const { data, error } = await query.maybeSingle();
+    if (error || !data) return null;
+    return normalizeFactSheet(data);
+  } catch {
+    return null;
+  }
+}
+
+/** Org sheet merged with the business sheet. Best-effort: empty when the table is missing. */
+export async function loadFactSheet(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  businessId?: string | null;
+}): Promise<FactSheet> {
+  const { supabase, organizationId } = params;
+  const org = await loadFactSheetRow({ supabase, organizationId, businessId: null });
+  const business = params.businessId
+    ? await loadFactSheetRow({ supabase, organizationId, businessId: params.businessId })
+    : null;
+  return mergeFactSheets(org, business);
+}
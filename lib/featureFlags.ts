@@ -5,4 +5,6 @@
 
 export const GBP_ENABLED =
   process.env.GBP_ENABLED === "true" ||
-  process.env.NEXT_PUBLIC_GBP_ENABLED === "true";
\ No newline at end of file
+  process.env.NEXT_PUBLIC_GBP_ENABLED === "true";
+// DRAFT_CACHE_ENABLED=false → draft-reply always calls the model (see lib/draftCache.ts)
+export const DRAFT_CACHE_ENABLED = process.env.DRAFT_CACHE_ENABLED !== "false";
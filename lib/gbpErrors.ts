@@ -0,0 +1,108 @@
+// lib/gbpErrors.ts
+//
+// Google Business Profile API error mapping shared by review sync
+// (gbp/reviews/sync) and reply publishing (reviews/replies/publish), so the
+// dashboard sees the same codes whichever call failed.
+
+export type GbpErrorCode =
+  | "NO_GOOGLE_CONNECTION"
+  | "GOOGLE_AUTH_EXPIRED"
+  | "GBP_ACCESS_PENDING"
+  | "LOCATION_NOT_FOUND"
+  | "REVIEW_NOT_FOUND"
+  | "REVIEWS_FETCH_FAILED"
+  | "REPLY_PUBLISH_FAILED"
+  | "REPLY_DELETE_FAILED";
+
+export type GbpError = {
+  code: GbpErrorCode;
+  // HTTP status for our own response
+  status: number;
+  error: string;
+  detail?: string;
+};
+
+// Google often includes quota_limit_value "0" when GBP access isn't approved yet.
+export function looksLikeQuotaZero(detailText: string) {
+  const t = String(detailText || "");
+  return (
+    (t.includes("quota_limit_value") && t.includes('"0"')) ||
+    (t.includes("quota_limit_value") && t.includes(": 0")) ||
+    t.includes("RESOURCE_EXHAUSTED")
+  );
+}
+
+// When GBP access isn’t approved / permitted yet, you may see 403 with various messages.
+export function looksLikeGbpAccessPending403(detailText: string) {
+  const t = String(detailText || "").toLowerCase();
+  return (
+    t.includes("has not been used in project") ||
+    t.includes("is disabled") ||
+    t.includes("access not configured") ||
+    t.includes("not authorized") ||
+    t.includes("permission denied") ||
+    t.includes("insufficient permission") ||
+    t.includes("the caller does not have permission") ||
+    t.includes("google business profile api has not been used") ||
+    t.includes("mybusiness") // often appears in these payloads
+  );
+}
+
+/**
+ * Maps a failed GBP response. `feature` names what will start working once
+ * access is granted ("review sync", "posting replies"); `notFound` and
+ * `fallback` say what a 404 or any other failure means for this call.
+ */
+export function gbpErrorFromResponse(params: {
+  status: number;
+  text: string;
+  feature: string;
+  notFound: { code: GbpErrorCode; message: string };
+  fallback: GbpErrorCode;
+}): GbpError {
+  const { status, text, feature } = params;
+
+  if (status === 429 && looksLikeQuotaZero(text)) {
+    return {
+      code: "GBP_ACCESS_PENDING",
+      status: 429,
+      error: `Google Business Profile API access is still pending approval for this project (quota appears to be 0). OAuth is connected successfully; ${feature} will work as soon as Google grants access.`,
+      detail: text,
+    };
+  }
+
+  if (status === 403 && looksLikeGbpAccessPending403(text)) {
+    return {
+      code: "GBP_ACCESS_PENDING",
+      status: 403,
+      error: `Google Business Profile API access is not available for this project/account yet (403). OAuth is connected; ${feature} will work once GBP API access is granted/enabled.`,
+      detail: text,
+    };
+  }
+
+  if (status === 401) {
+    return {
+      code: "GOOGLE_AUTH_EXPIRED",
+      status: 401,
+      error: "Google rejected the saved connection. Reconnect your Google account and try again.",
+      detail: text,
+    };
+  }
+
+  if (status === 404) {
+    return { code: params.notFound.code, status: 404, error: params.notFound.message, detail: text };
+  }
+
+  return {
+    code: params.fallback,
+    status: 502,
+    error: text || `Google request failed: ${status}`,
+    detail: text,
+  };
+}
+
+export const NO_GOOGLE_CONNECTION_ERROR: GbpError = {
+  code: "NO_GOOGLE_CONNECTION",
+  status: 400,
+  error: "No Google connection yet. Complete OAuth connect first.",
+};
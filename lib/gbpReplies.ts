@@ -0,0 +1,233 @@
+// lib/gbpReplies.ts
+//
+// Owner replies on Google Business Profile reviews:
+//   GET    v4/{accounts/*/locations/*/reviews/*}         — current reviewReply
+//   PUT    v4/{accounts/*/locations/*/reviews/*}/reply  { comment }
+//   DELETE v4/{accounts/*/locations/*/reviews/*}/reply
+// Only called from POST / DELETE /api/reviews/replies/publish after the user
+// confirmed the exact text — nothing here runs automatically.
+//
+// Google's updateTime for the reply is stored on the reply record
+// (review_replies.google_reply_update_time) so later syncs can tell our
+// published reply from one edited on Google.
+
+import "server-only";
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getAccessTokenFromRefreshToken } from "@/lib/googleOAuthServer";
+import { NO_GOOGLE_CONNECTION_ERROR, gbpErrorFromResponse, type GbpError } from "@/lib/gbpErrors";
+
+export const GBP_API_BASE = "https://mybusiness.googleapis.com/v4";
+
+// GBP rejects reply comments longer than this
+export const GBP_REPLY_MAX_LEN = 4096;
+
+export type GbpReplyResult =
+  | { ok: true; comment: string; update_time: string | null }
+  | { ok: false; error: GbpError };
+
+/**
+ * Resource name of a synced GBP review: raw.name when the sync stored it,
+ * otherwise built from the location and review ids.
+ */
+export function gbpReviewName(review: {
+  google_location_id: string | null;
+  google_review_id: string | null;
+  raw?: unknown;
+}): string | null {
+  const raw = review.raw && typeof review.raw === "object" ? (review.raw as Record<string, unknown>) : {};
+  if (typeof raw.name === "string" && raw.name.includes("/reviews/")) return raw.name;
+
+  const location = (review.google_location_id ?? "").trim();
+  const reviewId = (review.google_review_id ?? "").trim();
+  if (!location.startsWith("accounts/") || !location.includes("/locations/") || !reviewId) return null;
+  return `${location}/reviews/${reviewId}`;
+}
+
+/** Access token from the org's active google_integrations row. */
+export async function loadGbpAccessToken(
+  organizationId: string
+): Promise<{ ok: true; accessToken: string } | { ok: false; error: GbpError }> {
+  const supabase = supabaseServer();
+  const { data: integ, error } = await supabase
+    .from("google_integrations")
+    .select("refresh_token")
+    .eq("org_id", organizationId)
+    .eq("status", "active")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, error: { code: "NO_GOOGLE_CONNECTION", status: 500, error: error.message } };
+  }
+  if (!integ?.refresh_token) return { ok: false, error: NO_GOOGLE_CONNECTION_ERROR };
+
+  try {
+    const { accessToken } = await getAccessTokenFromRefreshToken(String(integ.refresh_token));
+    return { ok: true, accessToken };
+  } catch (e: unknown) {
+    return {
+      ok: false,
+      error: {
+        code: "GOOGLE_AUTH_EXPIRED",
+        status: 401,
+        error: "Google rejected the saved connection. Reconnect your Google account and try again.",
+        detail: e instanceof Error ? e.message : undefined,
+      },
+    };
+  }
+}
+
+const REVIEW_NOT_FOUND = {
+  code: "REVIEW_NOT_FOUND" as const,
+  message: "Google returned 404 for this review. It may have been removed.",
+};
+
+/**
+ * fetch() that reports network failures (DNS, reset, timeout) as the call's
+ * fallback GbpError instead of throwing.
+ */
+async function gbpFetch(
+  url: string,
+  init: RequestInit,
+  fallback: GbpError["code"]
+): Promise<{ ok: true; res: Response; text: string } | { ok: false; error: GbpError }> {
+  try {
+    const res = await fetch(url, { ...init, cache: "no-store" });
+    return { ok: true, res, text: await res.text() };
+  } catch (e: unknown) {
+    return {
+      ok: false,
+      error: {
+        code: fallback,
+        status: 502,
+        error: "Couldn’t reach Google. Please try again.",
+        detail: e instanceof Error ? e.message : undefined,
+      },
+    };
+  }
+}
+
+export type GbpLiveReply = { comment: string; update_time: string | null };
+
+/**
+ * The owner reply currently on Google for a review (null when there is none).
+ * Read right before publishing, since reviews.raw is only as fresh as the
+ * last sync.
+ */
+export async function getGbpReviewReply(params: {
+  accessToken: string;
+  reviewName: string;
+  apiBase?: string;
+}): Promise<{ ok: true; reply: GbpLiveReply | null } | { ok: false; error: GbpError }> {
+  const sent = await gbpFetch(
+    `${params.apiBase ?? GBP_API_BASE}/${params.reviewName}`,
+    { method: "GET", headers: { Authorization: `Bearer ${params.accessToken}` } },
+    "REVIEWS_FETCH_FAILED"
+  );
+  if (!sent.ok) return sent;
+  const { res, text } = sent;
+
+  if (!res.ok) {
+    return {
+      ok: false,
+      error: gbpErrorFromResponse({
+        status: res.status,
+        text,
+        feature: "posting replies",
+        notFound: REVIEW_NOT_FOUND,
+        fallback: "REVIEWS_FETCH_FAILED",
+      }),
+    };
+  }
+
+  let parsed: { reviewReply?: { comment?: unknown; updateTime?: unknown } } = {};
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = {};
+  }
+
+  const reply = parsed.reviewReply;
+  if (!reply || typeof reply.comment !== "string") return { ok: true, reply: null };
+  return {
+    ok: true,
+    reply: { comment: reply.comment, update_time: typeof reply.updateTime === "string" ? reply.updateTime : null },
+  };
+}
+
+/** Creates or replaces the owner reply on a review. */
+export async function putGbpReply(params: {
+  accessToken: string;
+  reviewName: string;
+  comment: string;
+  apiBase?: string;
+}): Promise<GbpReplyResult> {
+  const sent = await gbpFetch(
+    `${params.apiBase ?? GBP_API_BASE}/${params.reviewName}/reply`,
+    {
+      method: "PUT",
+      headers: { Authorization: `Bearer ${params.accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ comment: params.comment }),
+    },
+    "REPLY_PUBLISH_FAILED"
+  );
+  if (!sent.ok) return sent;
+  const { res, text } = sent;
+
+  if (!res.ok) {
+    return {
+      ok: false,
+      error: gbpErrorFromResponse({
+        status: res.status,
+        text,
+        feature: "posting replies",
+        notFound: REVIEW_NOT_FOUND,
+        fallback: "REPLY_PUBLISH_FAILED",
+      }),
+    };
+  }
+
+  let parsed: { comment?: unknown; updateTime?: unknown } = {};
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Empty or non-JSON body — the reply was still accepted
+  }
+
+  return {
+    ok: true,
+    comment: typeof parsed.comment === "string" ? parsed.comment : params.comment,
+    update_time: typeof parsed.updateTime === "string" ? parsed.updateTime : null,
+  };
+}
+
+/** Removes the owner reply from a review. */
+export async function deleteGbpReply(params: {
+  accessToken: string;
+  reviewName: string;
+  apiBase?: string;
+}): Promise<{ ok: true } | { ok: false; error: GbpError }> {
+  const sent = await gbpFetch(
+    `${params.apiBase ?? GBP_API_BASE}/${params.reviewName}/reply`,
+    { method: "DELETE", headers: { Authorization: `Bearer ${params.accessToken}` } },
+    "REPLY_DELETE_FAILED"
+  );
+  if (!sent.ok) return sent;
+  const { res, text } = sent;
+
+  if (!res.ok) {
+    return {
+      ok: false,
+      error: gbpErrorFromResponse({
+        status: res.status,
+        text,
+        feature: "posting replies",
+        notFound: REVIEW_NOT_FOUND,
+        fallback: "REPLY_DELETE_FAILED",
+      }),
+    };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,233 @@
+// lib/gbpReplyImport.ts
+//
+// Imports the owner replies GBP returns with each review (`reviewReply`
+// { comment, updateTime }) into review_replies during gbp/reviews/sync, so a
+// review answered directly on Google counts as replied.
+//
+// Imported rows are status "posted" with reply_origin "gbp_import" (optional
+// column) and Google's updateTime in google_reply_update_time, set in the
+// insert; without those columns rows go in unmarked and result.error says so.
+// A reply posted from the app (reviews/replies/publish) carries the same
+// updateTime and is left alone; when its time differs the reply was edited on
+// Google and the row's final_text follows. New imports are offered to the
+// voice sample inbox — they're entirely the owner's own words.
+import "server-only";
+
+import type { OrgContext } from "@/lib/orgServer";
+import { suggestVoiceSampleFromReply } from "@/lib/voiceSamples";
+
+export const GBP_IMPORT_ORIGIN = "gbp_import";
+
+// Voice sample suggestions per sync — a first import can hold hundreds of replies
+export const MAX_IMPORT_VOICE_SUGGESTIONS = 10;
+
+export type GbpReviewForImport = {
+  id: string;
+  business_id: string | null;
+  google_location_id: string | null;
+  rating: number | null;
+  detected_language: string | null;
+  raw: unknown;
+};
+
+export type GbpReplyImportResult = {
+  imported: number;
+  updated: number;
+  unchanged: number;
+  suggested: number;
+  error: string | null;
+};
+
+type ExistingReply = {
+  id: string;
+  review_id: string;
+  origin: string | null;
+  update_time: string | null;
+};
+
+/** The owner reply GBP returned with a review, if any. */
+export function parseGbpReviewReply(raw: unknown): { comment: string; update_time: string | null } | null {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const reply = r.reviewReply && typeof r.reviewReply === "object" ? (r.reviewReply as Record<string, unknown>) : null;
+  const comment = typeof reply?.comment === "string" ? reply.comment.trim() : "";
+  if (!comment) return null;
+  return { comment, update_time: typeof reply?.updateTime === "string" ? reply.updateTime : null };
+}
+
+async function loadPostedReplies(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  reviewIds: string[];
+}): Promise<{ rows: ExistingReply[]; error: string | null }> {
+  const { supabase, organizationId, reviewIds } = params;
+
+  const { data, error } = await supabase
+    .from("review_replies")
+    .select("id, review_id")
+    .eq("organization_id", organizationId)
+    .eq("status", "posted")
+    .in("review_id", reviewIds);
+  if (error) return { rows: [], error: error.message };
+
+  const rows: ExistingReply[] = (data ?? []).map((r) => ({
+    id: String(r.id),
+    review_id: String(r.review_id),
+    origin: null,
+    update_time: null,
+  }));
+  if (rows.length === 0) return { rows, error: null };
+
+  // Origin + Google time live in optional columns
+  try {
+    const { data: extra, error: extraErr } = await supabase
+      .from("review_replies")
+      .select("id, reply_origin, google_reply_update_time")
+      .eq("organization_id", organizationId)
+      .in(
+        "id",
+        rows.map((r) => r.id)
+      );
+    if (!extraErr) {
+      const byId = new Map((extra ?? []).map((e) => [String(e.id), e]));
+      for (const row of rows) {
+        const e = byId.get(row.id);
+        row.origin = e?.reply_origin ? String(e.reply_origin) : null;
+        row.update_time = e?.google_reply_update_time ? String(e.google_reply_update_time) : null;
+      }
+    }
+  } catch {
+    // Columns do not exist yet — any posted row counts as the reply
+  }
+
+  return { rows, error: null };
+}
+
+// Optional columns set on every imported row
+function importMarkers(reply: { comment: string; update_time: string | null }) {
+  return {
+    reply_origin: GBP_IMPORT_ORIGIN,
+    final_text: reply.comment,
+    google_reply_update_time: reply.update_time,
+  };
+}
+
+function isMissingOptionalColumn(error: { message: string } | null) {
+  return !!error && /reply_origin|final_text|google_reply_update_time/i.test(error.message);
+}
+
+function sameInstant(a: string | null, b: string | null) {
+  if (!a || !b) return false;
+  const ta = Date.parse(a);
+  const tb = Date.parse(b);
+  return Number.isFinite(ta) && Number.isFinite(tb) ? ta === tb : a === b;
+}
+
+/**
+ * Best-effort: upsert review_replies rows for the owner replies on these
+ * synced reviews. Never throws — a failed import must not fail the sync.
+ */
+export async function importGbpOwnerReplies(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  reviews: GbpReviewForImport[];
+}): Promise<GbpReplyImportResult> {
+  const { supabase, organizationId } = params;
+  const result: GbpReplyImportResult = { imported: 0, updated: 0, unchanged: 0, suggested: 0, error: null };
+
+  const withReplies = params.reviews
+    .map((review) => ({ review, reply: parseGbpReviewReply(review.raw) }))
+    .filter((x): x is { review: GbpReviewForImport; reply: NonNullable<ReturnType<typeof parseGbpReviewReply>> } =>
+      Boolean(x.reply)
+    );
+  if (withReplies.length === 0) return result;
+
+  let withOptionalColumns = true;
+  try {
+    const existing = await loadPostedReplies({
+      supabase,
+      organizationId,
+      reviewIds: withReplies.map((x) => x.review.id),
+    });
+    if (existing.error) return { ...result, error: existing.error };
+
+    const byReview = new Map<string, ExistingReply[]>();
+    for (const row of existing.rows) {
+      byReview.set(row.review_id, [...(byReview.get(row.review_id) ?? []), row]);
+    }
+
+    for (const { review, reply } of withReplies) {
+      const rows = byReview.get(review.id) ?? [];
+
+      if (rows.some((r) => sameInstant(r.update_time, reply.update_time))) {
+        result.unchanged += 1;
+        continue;
+      }
+
+      // Imported earlier, or posted from here and since edited on Google
+      const tracked = rows.find((r) => r.origin === GBP_IMPORT_ORIGIN) ?? rows.find((r) => r.update_time);
+      if (tracked) {
+        const patch: Record<string, unknown> = {
+          final_text: reply.comment,
+          google_reply_update_time: reply.update_time,
+        };
+        if (tracked.origin === GBP_IMPORT_ORIGIN) patch.draft_text = reply.comment;
+        const { error } = await supabase
+          .from("review_replies")
+          .update(patch)
+          .eq("id", tracked.id)
+          .eq("organization_id", organizationId);
+        if (error) result.error = error.message;
+        else result.updated += 1;
+        continue;
+      }
+
+      // Marked posted after a copy/paste — that's the same reply, nothing to import
+      if (rows.length > 0) {
+        result.unchanged += 1;
+        continue;
+      }
+
+      const row: Record<string, unknown> = {
+        organization_id: organizationId,
+        business_id: review.business_id,
+        review_id: review.id,
+        draft_text: reply.comment,
+        reviewer_language: review.detected_language,
+        rating: review.rating,
+        status: "posted",
+        posted_at: reply.update_time ?? new Date().toISOString(),
+        google_location_id: review.google_location_id,
+      };
+      const insertReply = (values: Record<string, unknown>) =>
+        supabase.from("review_replies").insert(values).select("id").single();
+
+      let { data: inserted, error } = await insertReply(withOptionalColumns ? { ...row, ...importMarkers(reply) } : row);
+      if (withOptionalColumns && isMissingOptionalColumn(error)) {
+        // Stored unmarked — the next sync still sees it as the posted reply
+        withOptionalColumns = false;
+        result.error = `imported replies not marked: ${error?.message}`;
+        ({ data: inserted, error } = await insertReply(row));
+      }
+      if (error || !inserted?.id) {
+        result.error = error?.message ?? "review_replies insert failed";
+        continue;
+      }
+      result.imported += 1;
+
+      if (result.suggested < MAX_IMPORT_VOICE_SUGGESTIONS) {
+        const suggestion = await suggestVoiceSampleFromReply({
+          supabase,
+          organizationId,
+          replyId: String(inserted.id),
+          finalText: reply.comment,
+          editRatio: 1,
+        });
+        if (suggestion.suggested) result.suggested += 1;
+      }
+    }
+  } catch (e: unknown) {
+    result.error = e instanceof Error ? e.message : String(e);
+  }
+
+  return result;
+}
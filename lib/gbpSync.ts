@@ -0,0 +1,887 @@
+// lib/gbpSync.ts
+//
+// Google Business Profile review sync, shared by the dashboard's
+// POST /api/google/gbp/reviews/sync (one org, on click) and the scheduled
+// runner GET|POST /api/cron/gbp-sync (every org with an active
+// google_integrations row).
+//
+// Each saved location is paged through GBP v4 `reviews`, upserted into
+// reviews (language detected, topics classified — lib/reviewTopics.ts, owner
+// replies imported — lib/gbpReplyImport.ts) and its outcome written to
+// location_sync_status (source "google_gbp").
+//
+// Syncs are incremental: reviews come newest-first (orderBy updateTime desc)
+// and paging stops at the location's watermark — the newest updateTime seen
+// by the last complete sync (location_sync_status.last_review_update_time,
+// optional column). `fullResync` ignores the watermark and walks every page
+// up to the cap, then resets it; use it to repair a location.
+//
+// A walk that starts without a watermark (first sync, full resync) moves it to
+// the newest review even when the page cap cuts it off: reviews come
+// newest-first, so only older history is missing, and
+// location_sync_status.needs_full_resync (optional column) is set to backfill
+// it. An incremental walk cut off before its old watermark left a gap of new
+// reviews, so it keeps the old watermark and sets the flag too. Only a walk
+// that reached Google's last page clears the flag.
+//
+// Edited reviews keep their previous rating / text in review_revisions, and a
+// full resync that reached the last page marks reviews Google no longer
+// returns as removed (lib/reviewRevisions.ts).
+//
+// The scheduled runner backs off per org after failures (expired token, GBP
+// access still pending, every location failing):
+// gbp_sync_state: organization_id, consecutive_failures, next_attempt_at,
+// last_attempt_at, last_error, updated_at.
+// When that table doesn't exist orgs are simply synced every run.
+//
+// `apiBase` / `getAccessToken` can be swapped so the runner works locally
+// against the dev stub (/api/dev/gbp-stub).
+import "server-only";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { GBP_API_BASE, loadGbpAccessToken } from "@/lib/gbpReplies";
+import { gbpErrorFromResponse, type GbpError, type GbpErrorCode } from "@/lib/gbpErrors";
+import {
+  isMissingLanguageConfidenceColumn,
+  reviewLanguageColumns,
+  withoutLanguageConfidence,
+} from "@/lib/languageDetect";
+import { importGbpOwnerReplies } from "@/lib/gbpReplyImport";
+import { isMissingTopicColumns, reviewTopicColumns, withoutReviewTopics } from "@/lib/reviewTopics";
+import { reconcileRemovedReviews, recordReviewRevisions, reviewRevisionFor } from "@/lib/reviewRevisions";
+
+export const GBP_SYNC_SOURCE = "google_gbp";
+
+// Failed orgs wait base × 2^(failures − 1), capped
+export const GBP_SYNC_BACKOFF_BASE_MS = 30 * 60 * 1000;
+export const GBP_SYNC_BACKOFF_MAX_MS = 24 * 60 * 60 * 1000;
+
+export type GbpSyncOptions = {
+  pageSize: number; // 1–50
+  maxPages: number; // per location, safety cap
+  apiBase?: string;
+  // Ignore watermarks and walk every page (repair)
+  fullResync?: boolean;
+};
+
+export type GbpLocationSyncError = {
+  google_location_id: string;
+  // Google's HTTP status, when the failure came from Google
+  status?: number;
+  code: GbpErrorCode | "MISSING_BUSINESS_ROW" | "REVIEWS_UPSERT_FAILED";
+  message: string;
+};
+
+export type GbpOrgSyncResult = {
+  locations_total: number;
+  locations_processed: number;
+  locations_skipped: number;
+  total_fetched: number;
+  total_upserted: number;
+  replies_imported: number;
+  replies_updated: number;
+  reviews_revised: number;
+  reviews_removed: number;
+  pages_fetched: number;
+  // Locations whose sync stopped early at their watermark
+  locations_up_to_date: number;
+  // Locations cut off by the page cap before their walk was complete
+  locations_needing_full_resync: number;
+  mode: "incremental" | "full";
+  errors: GbpLocationSyncError[];
+  // Set when GBP access isn't granted yet — the sync stopped at the first location
+  access_pending: GbpError | null;
+};
+
+type LocationRow = {
+  google_account_id: string;
+  google_location_id: string;
+  google_location_name: string | null;
+};
+
+type GbpReviewPayload = {
+  reviewId?: unknown;
+  name?: unknown;
+  starRating?: unknown;
+  reviewer?: { displayName?: unknown; name?: unknown; profileName?: unknown };
+  comment?: unknown;
+  reviewText?: unknown;
+  createTime?: unknown;
+  updateTime?: unknown;
+  languageCode?: unknown;
+};
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+export function parseStarRating(v: unknown): number {
+  if (typeof v === "number") return v;
+  const s = String(v ?? "").toUpperCase();
+
+  if (s === "ONE") return 1;
+  if (s === "TWO") return 2;
+  if (s === "THREE") return 3;
+  if (s === "FOUR") return 4;
+  if (s === "FIVE") return 5;
+
+  const n = Number(s);
+  if (Number.isFinite(n) && n >= 1 && n <= 5) return n;
+
+  return 0;
+}
+
+export function extractGoogleReviewId(review: GbpReviewPayload | null | undefined): string | null {
+  if (review?.reviewId) return String(review.reviewId);
+
+  // review.name often looks like:
+  // "accounts/123/locations/456/reviews/abcdefg"
+  const name = review?.name ? String(review.name) : "";
+  if (name.includes("/reviews/")) {
+    const parts = name.split("/reviews/");
+    const tail = parts[1]?.trim();
+    if (tail) return tail;
+  }
+
+  if (name.includes("/")) {
+    const tail = name.split("/").pop()?.trim();
+    if (tail) return tail;
+  }
+
+  return null;
+}
+
+function toReviewRow(params: {
+  rv: GbpReviewPayload;
+  organizationId: string;
+  businessId: string;
+  location: LocationRow;
+  now: string;
+}) {
+  const { rv, organizationId, businessId, location, now } = params;
+  const google_review_id = extractGoogleReviewId(rv);
+  if (!google_review_id) return null;
+
+  const rating = parseStarRating(rv.starRating);
+  const authorName = rv.reviewer?.displayName ?? rv.reviewer?.name ?? rv.reviewer?.profileName ?? null;
+  const comment = rv.comment ?? rv.reviewText ?? null;
+  const reviewDate = rv.updateTime ?? rv.createTime ?? null;
+
+  return {
+    organization_id: organizationId,
+    business_id: businessId,
+    source: "google_gbp",
+    google_review_id,
+    rating: rating || 0,
+    author_name: authorName ? String(authorName) : null,
+    review_text: comment ? String(comment) : null,
+    review_date: reviewDate ? String(reviewDate) : null,
+    ...reviewLanguageColumns(comment ? String(comment) : null, rv.languageCode ? String(rv.languageCode) : null),
+    ...reviewTopicColumns(comment ? String(comment) : null, rating || null),
+
+    // helpful for multi-location
+    google_account_id: String(location.google_account_id),
+    google_location_id: String(location.google_location_id),
+
+    raw: rv ?? {},
+    created_at: now,
+  };
+}
+
+// ─── Status ───────────────────────────────────────────────────────────────────
+
+/** Best-effort location_sync_status upsert (same row shape as reviews/google). */
+export async function writeGbpSyncStatus(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+  google_location_id: string;
+  error: string | null;
+  fetched: number;
+  inserted: number;
+  updated: number;
+}) {
+  const nowIso = new Date().toISOString();
+  try {
+    const { error } = await params.supabase.from("location_sync_status").upsert(
+      {
+        organization_id: params.organizationId,
+        google_location_id: params.google_location_id,
+        source: GBP_SYNC_SOURCE,
+        last_synced_at: nowIso,
+        last_error: params.error,
+        last_fetched: params.fetched,
+        last_inserted: params.inserted,
+        last_updated: params.updated,
+        updated_at: nowIso,
+      },
+      { onConflict: "organization_id,google_location_id,source" }
+    );
+    if (error) console.warn("gbp sync status not saved:", error.message);
+  } catch {
+    // best-effort only
+  }
+}
+
+/** Watermark per location. Empty when the column doesn't exist yet (every sync walks all pages). */
+export async function loadGbpWatermarks(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+}): Promise<Map<string, string>> {
+  const watermarks = new Map<string, string>();
+  try {
+    const { data, error } = await params.supabase
+      .from("location_sync_status")
+      .select("google_location_id, last_review_update_time")
+      .eq("organization_id", params.organizationId)
+      .eq("source", GBP_SYNC_SOURCE);
+    if (error) return watermarks;
+    for (const row of data ?? []) {
+      if (row.last_review_update_time) {
+        watermarks.set(String(row.google_location_id), String(row.last_review_update_time));
+      }
+    }
+  } catch {
+    // Column does not exist yet
+  }
+  return watermarks;
+}
+
+/**
+ * Best-effort: stores the watermark (when it moved) and the needs-full-resync
+ * flag (when it changed; null leaves it) after writeGbpSyncStatus created the
+ * row. Retries without the flag when that column doesn't exist yet.
+ */
+async function saveGbpWatermark(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+  google_location_id: string;
+  watermark: string | null;
+  needsFullResync: boolean | null;
+}) {
+  const update = (updates: Record<string, unknown>) =>
+    params.supabase
+      .from("location_sync_status")
+      .update(updates)
+      .eq("organization_id", params.organizationId)
+      .eq("google_location_id", params.google_location_id)
+      .eq("source", GBP_SYNC_SOURCE);
+
+  try {
+    const watermark = params.watermark ? { last_review_update_time: params.watermark } : {};
+    if (params.needsFullResync === null) {
+      if (!params.watermark) return;
+      const { error } = await update(watermark);
+      if (error) console.warn("gbp sync watermark not saved:", error.message);
+      return;
+    }
+
+    const { error } = await update({ ...watermark, needs_full_resync: params.needsFullResync });
+    if (!error) return;
+    if (!params.watermark) {
+      console.warn("gbp sync resync flag not saved:", error.message);
+      return;
+    }
+
+    const { error: retryErr } = await update(watermark);
+    if (retryErr) console.warn("gbp sync watermark not saved:", retryErr.message);
+  } catch {
+    // best-effort only
+  }
+}
+
+function timeMs(v: unknown) {
+  const t = typeof v === "string" ? Date.parse(v) : NaN;
+  return Number.isFinite(t) ? t : null;
+}
+
+// ─── Sync ─────────────────────────────────────────────────────────────────────
+
+/**
+ * One location: pages through GBP reviews (newest first) and upserts them,
+ * stopping at the first review older than `watermark`. Returns the new
+ * watermark, or null when it shouldn't move (failed, nothing newer, or cut
+ * off by the page cap before reaching the old one — the skipped reviews
+ * would be lost), and the needs-full-resync flag to store (null: unchanged).
+ */
+async function syncGbpLocation(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+  businessId: string;
+  location: LocationRow;
+  accessToken: string;
+  options: GbpSyncOptions;
+  watermark: string | null;
+}) {
+  const { supabase, organizationId, businessId, location, accessToken, options } = params;
+  const google_location_id = String(location.google_location_id);
+  const apiBase = options.apiBase ?? GBP_API_BASE;
+  const watermarkMs = options.fullResync ? null : timeMs(params.watermark);
+
+  const out = {
+    fetched: 0,
+    inserted: 0,
+    upserted: 0,
+    replies_imported: 0,
+    replies_updated: 0,
+    revised: 0,
+    removed: 0,
+    pages: 0,
+    reached_watermark: false,
+    watermark: null as string | null,
+    needs_full_resync: null as boolean | null,
+    error: null as GbpLocationSyncError | null,
+    access_pending: null as GbpError | null,
+  };
+
+  let pageToken = "";
+  let pages = 0;
+  let newestMs: number | null = null;
+  let newest: string | null = null;
+  let exhausted = false;
+  let withConfidence = true;
+  let withTopics = true;
+  const seenReviewIds = new Set<string>();
+
+  while (pages < options.maxPages) {
+    pages += 1;
+
+    // GET {apiBase}/{parent=accounts/*/locations/*}/reviews
+    const reviewsUrl = new URL(`${apiBase}/${google_location_id}/reviews`);
+    reviewsUrl.searchParams.set("pageSize", String(options.pageSize));
+    reviewsUrl.searchParams.set("orderBy", "updateTime desc");
+    if (pageToken) reviewsUrl.searchParams.set("pageToken", pageToken);
+
+    const r = await fetch(reviewsUrl.toString(), {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}` },
+      cache: "no-store",
+    });
+    const text = await r.text();
+
+    if (!r.ok) {
+      const gbpError = gbpErrorFromResponse({
+        status: r.status,
+        text,
+        feature: "review sync",
+        notFound: {
+          code: "LOCATION_NOT_FOUND",
+          message: "Google returned 404 for this location. It may be invalid or no longer accessible.",
+        },
+        fallback: "REVIEWS_FETCH_FAILED",
+      });
+      if (gbpError.code === "GBP_ACCESS_PENDING") out.access_pending = gbpError;
+      out.error = { google_location_id, status: r.status, code: gbpError.code, message: gbpError.error };
+      break; // stop paging this location
+    }
+
+    let parsed: { reviews?: unknown; nextPageToken?: unknown } = {};
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = {};
+    }
+
+    const page = (Array.isArray(parsed.reviews) ? parsed.reviews : []) as GbpReviewPayload[];
+    out.fetched += page.length;
+    out.pages = pages;
+    for (const rv of page) {
+      const id = extractGoogleReviewId(rv);
+      if (id) seenReviewIds.add(id);
+    }
+
+    for (const rv of page) {
+      const t = timeMs(rv.updateTime ?? rv.createTime);
+      if (t !== null && (newestMs === null || t > newestMs)) {
+        newestMs = t;
+        newest = String(rv.updateTime ?? rv.createTime);
+      }
+    }
+
+    // Everything older than the watermark was stored by an earlier sync
+    const reviews =
+      watermarkMs === null
+        ? page
+        : page.filter((rv) => {
+            const t = timeMs(rv.updateTime ?? rv.createTime);
+            return t === null || t >= watermarkMs;
+          });
+    if (reviews.length < page.length) out.reached_watermark = true;
+
+    const now = new Date().toISOString();
+    const rows = reviews
+      .map((rv) => toReviewRow({ rv, organizationId, businessId, location, now }))
+      .filter((row): row is NonNullable<ReturnType<typeof toReviewRow>> => row !== null);
+
+    if (rows.length > 0) {
+      const reviewIds = rows.map((row) => row.google_review_id);
+
+      // Stored versions: new vs updated for location_sync_status, and what an edit replaces
+      const { data: known } = await supabase
+        .from("reviews")
+        .select("id, google_review_id, rating, review_text, review_date")
+        .eq("organization_id", organizationId)
+        .eq("source", "google_gbp")
+        .in("google_review_id", reviewIds);
+      const knownById = new Map((known ?? []).map((k) => [String(k.google_review_id), k]));
+      const revisions = rows
+        .map((row) => {
+          const stored = knownById.get(row.google_review_id);
+          if (!stored) return null;
+          return reviewRevisionFor(
+            {
+              id: String(stored.id),
+              rating: typeof stored.rating === "number" ? stored.rating : null,
+              review_text: stored.review_text ?? null,
+              review_date: stored.review_date ? String(stored.review_date) : null,
+            },
+            { rating: row.rating, review_text: row.review_text }
+          );
+        })
+        .filter((r): r is NonNullable<ReturnType<typeof reviewRevisionFor>> => r !== null);
+
+      // detected_language_confidence and topics / topic_tags are optional —
+      // without a column, retry (and keep going) without it
+      const upsertReviews = () => {
+        const withoutMissing = withConfidence ? rows : withoutLanguageConfidence(rows);
+        return supabase
+          .from("reviews")
+          .upsert(withTopics ? withoutMissing : withoutReviewTopics(withoutMissing), {
+            onConflict: "organization_id,source,google_review_id",
+          });
+      };
+      let { error: upErr } = await upsertReviews();
+      for (;;) {
+        if (withConfidence && isMissingLanguageConfidenceColumn(upErr)) withConfidence = false;
+        else if (withTopics && isMissingTopicColumns(upErr)) withTopics = false;
+        else break;
+        ({ error: upErr } = await upsertReviews());
+      }
+
+      if (upErr) {
+        out.error = { google_location_id, code: "REVIEWS_UPSERT_FAILED", message: upErr.message };
+        // don’t crash the whole job; stop paging this location
+        break;
+      }
+
+      out.upserted += rows.length;
+      out.inserted += rows.filter((row) => !knownById.has(row.google_review_id)).length;
+
+      // Previous versions of edited reviews (best-effort)
+      const revisionResult = await recordReviewRevisions({ supabase, organizationId, revisions });
+      out.revised += revisionResult.recorded;
+      if (revisionResult.error) console.warn("review revisions not saved:", revisionResult.error);
+
+      const { data: savedRows } = await supabase
+        .from("reviews")
+        .select("id, business_id, google_location_id, rating, detected_language, raw")
+        .eq("organization_id", organizationId)
+        .eq("source", "google_gbp")
+        .in("google_review_id", reviewIds);
+
+      // Owner replies already on Google → review_replies (best-effort)
+      const replyResult = await importGbpOwnerReplies({
+        supabase,
+        organizationId,
+        reviews: (savedRows ?? []).map((row) => ({
+          id: String(row.id),
+          business_id: row.business_id ? String(row.business_id) : null,
+          google_location_id: row.google_location_id ? String(row.google_location_id) : null,
+          rating: typeof row.rating === "number" ? row.rating : null,
+          detected_language: row.detected_language ? String(row.detected_language) : null,
+          raw: row.raw,
+        })),
+      });
+      out.replies_imported += replyResult.imported;
+      out.replies_updated += replyResult.updated;
+      if (replyResult.error) console.warn("owner replies not imported:", replyResult.error);
+    }
+
+    if (out.reached_watermark) break;
+
+    pageToken = parsed.nextPageToken ? String(parsed.nextPageToken) : "";
+    if (!pageToken) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  // Only a full walk that reached the last page proves a review is gone
+  if (options.fullResync && exhausted && !out.error && seenReviewIds.size > 0) {
+    const removal = await reconcileRemovedReviews({
+      supabase,
+      organizationId,
+      googleLocationId: google_location_id,
+      seenReviewIds,
+    });
+    out.removed = removal.removed;
+    if (removal.error) console.warn("removed reviews not reconciled:", removal.error);
+  }
+
+  // Without a watermark to reach, the walk covered everything newer than where
+  // it stopped, so even a capped one moves the watermark. A capped incremental
+  // walk left a gap before the old one — keep it. Either way a walk short of
+  // the last page asks for a full resync; only reaching it clears that.
+  const complete = out.reached_watermark || exhausted;
+  if (!out.error) {
+    if (complete || watermarkMs === null) {
+      const previousMs = timeMs(params.watermark);
+      out.watermark =
+        newest && (options.fullResync || previousMs === null || (newestMs ?? 0) > previousMs) ? newest : null;
+    }
+    out.needs_full_resync = exhausted ? false : complete ? null : true;
+  }
+
+  return out;
+}
+
+/**
+ * Syncs an org's active saved GBP locations (or just `filterLocationId`).
+ * Returns ok: false when there is nothing to sync.
+ */
+export async function syncGbpOrganization(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+  accessToken: string;
+  options: GbpSyncOptions;
+  filterLocationId?: string | null;
+}): Promise<{ ok: true; result: GbpOrgSyncResult } | { ok: false; status: number; error: string }> {
+  const { supabase, organizationId, accessToken, options } = params;
+  const filterLocationId = params.filterLocationId ?? null;
+
+  let locQuery = supabase
+    .from("google_gbp_locations")
+    .select("google_account_id, google_location_id, google_location_name")
+    .eq("org_id", organizationId)
+    .eq("status", "active")
+    .order("google_location_name", { ascending: true });
+  if (filterLocationId) locQuery = locQuery.eq("google_location_id", filterLocationId);
+
+  const { data: locations, error: locErr } = await locQuery;
+  if (locErr) return { ok: false, status: 500, error: locErr.message };
+  if (!locations || locations.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      error: filterLocationId ? "No matching active location saved." : "No active locations saved yet.",
+    };
+  }
+
+  const locs = locations as LocationRow[];
+
+  // Prefetch business ids for all location ids (faster + fewer queries)
+  const { data: bizRows, error: bizErr } = await supabase
+    .from("businesses")
+    .select("id, google_location_id")
+    .eq("organization_id", organizationId)
+    .in(
+      "google_location_id",
+      locs.map((l) => l.google_location_id)
+    );
+  if (bizErr) return { ok: false, status: 500, error: bizErr.message };
+
+  const businessIdByLocation = new Map<string, string>();
+  for (const b of bizRows ?? []) {
+    if (b?.google_location_id && b?.id) businessIdByLocation.set(String(b.google_location_id), String(b.id));
+  }
+
+  const result: GbpOrgSyncResult = {
+    locations_total: locs.length,
+    locations_processed: 0,
+    locations_skipped: 0,
+    total_fetched: 0,
+    total_upserted: 0,
+    replies_imported: 0,
+    replies_updated: 0,
+    reviews_revised: 0,
+    reviews_removed: 0,
+    pages_fetched: 0,
+    locations_up_to_date: 0,
+    locations_needing_full_resync: 0,
+    mode: options.fullResync ? "full" : "incremental",
+    errors: [],
+    access_pending: null,
+  };
+
+  const watermarks = options.fullResync ? new Map<string, string>() : await loadGbpWatermarks({ supabase, organizationId });
+
+  for (const loc of locs) {
+    const google_location_id = String(loc.google_location_id);
+
+    // A missing business row is a setup issue (locations/select creates it) — skip, don't fail the sync
+    const businessId = businessIdByLocation.get(google_location_id);
+    if (!businessId) {
+      result.locations_skipped += 1;
+      result.errors.push({
+        google_location_id,
+        code: "MISSING_BUSINESS_ROW",
+        message: "No businesses row found for this google_location_id (expected from locations/select upsert).",
+      });
+      continue;
+    }
+
+    result.locations_processed += 1;
+    const locResult = await syncGbpLocation({
+      supabase,
+      organizationId,
+      businessId,
+      location: loc,
+      accessToken,
+      options,
+      watermark: watermarks.get(google_location_id) ?? null,
+    });
+
+    result.total_fetched += locResult.fetched;
+    result.total_upserted += locResult.upserted;
+    result.replies_imported += locResult.replies_imported;
+    result.replies_updated += locResult.replies_updated;
+    result.reviews_revised += locResult.revised;
+    result.reviews_removed += locResult.removed;
+    result.pages_fetched += locResult.pages;
+    if (locResult.reached_watermark) result.locations_up_to_date += 1;
+    if (locResult.needs_full_resync) result.locations_needing_full_resync += 1;
+
+    await writeGbpSyncStatus({
+      supabase,
+      organizationId,
+      google_location_id,
+      error: locResult.error?.message ?? null,
+      fetched: locResult.fetched,
+      inserted: locResult.inserted,
+      updated: locResult.upserted - locResult.inserted,
+    });
+    if (!locResult.error) {
+      await saveGbpWatermark({
+        supabase,
+        organizationId,
+        google_location_id,
+        watermark: locResult.watermark,
+        needsFullResync: locResult.needs_full_resync,
+      });
+    }
+
+    // Access pending applies to the whole project — the other locations would fail the same way
+    if (locResult.access_pending) {
+      result.access_pending = locResult.access_pending;
+      break;
+    }
+
+    if (locResult.error) {
+      if (locResult.error.code !== "REVIEWS_UPSERT_FAILED") result.locations_skipped += 1;
+      result.errors.push(locResult.error);
+    }
+  }
+
+  return { ok: true, result };
+}
+
+// ─── Scheduled runner ─────────────────────────────────────────────────────────
+
+type SyncState = {
+  consecutive_failures: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+};
+
+export type ScheduledOrgOutcome = {
+  organization_id: string;
+  status: "synced" | "failed" | "backoff" | "deferred";
+  error?: string;
+  code?: string;
+  next_attempt_at?: string | null;
+  result?: GbpOrgSyncResult;
+};
+
+export type ScheduledGbpSyncSummary = {
+  orgs_total: number;
+  synced: number;
+  failed: number;
+  backoff: number;
+  deferred: number;
+  orgs: ScheduledOrgOutcome[];
+  state_warning: string | null;
+};
+
+export function gbpSyncBackoffMs(consecutiveFailures: number) {
+  if (consecutiveFailures <= 0) return 0;
+  return Math.min(GBP_SYNC_BACKOFF_BASE_MS * 2 ** (consecutiveFailures - 1), GBP_SYNC_BACKOFF_MAX_MS);
+}
+
+async function loadSyncStates(
+  supabase: SupabaseClient,
+  orgIds: string[]
+): Promise<{ states: Map<string, SyncState>; error: string | null }> {
+  const states = new Map<string, SyncState>();
+  if (orgIds.length === 0) return { states, error: null };
+
+  try {
+    const { data, error } = await supabase
+      .from("gbp_sync_state")
+      .select("organization_id, consecutive_failures, next_attempt_at, last_attempt_at")
+      .in("organization_id", orgIds);
+    if (error) return { states, error: error.message };
+
+    for (const row of data ?? []) {
+      states.set(String(row.organization_id), {
+        consecutive_failures: Number(row.consecutive_failures) || 0,
+        next_attempt_at: row.next_attempt_at ? String(row.next_attempt_at) : null,
+        last_attempt_at: row.last_attempt_at ? String(row.last_attempt_at) : null,
+      });
+    }
+    return { states, error: null };
+  } catch (e: unknown) {
+    return { states, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+async function saveSyncState(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+  failures: number;
+  nextAttemptAt: string | null;
+  error: string | null;
+  now: Date;
+}): Promise<string | null> {
+  try {
+    const { error } = await params.supabase.from("gbp_sync_state").upsert(
+      {
+        organization_id: params.organizationId,
+        consecutive_failures: params.failures,
+        next_attempt_at: params.nextAttemptAt,
+        last_attempt_at: params.now.toISOString(),
+        last_error: params.error,
+        updated_at: params.now.toISOString(),
+      },
+      { onConflict: "organization_id" }
+    );
+    return error ? error.message : null;
+  } catch (e: unknown) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+/** Org-level failure that should back off (a single bad location doesn't). */
+function orgSyncFailure(result: GbpOrgSyncResult): { code: string; error: string } | null {
+  if (result.access_pending) return { code: result.access_pending.code, error: result.access_pending.error };
+  if (result.locations_processed > 0 && result.errors.length >= result.locations_total) {
+    const first = result.errors[0];
+    return { code: first.code, error: first.message };
+  }
+  return null;
+}
+
+/**
+ * Syncs every org with an active Google connection, least recently attempted
+ * first. Orgs in backoff are skipped unless `force`; orgs left when
+ * `deadlineMs` runs out are reported as deferred and go first next run.
+ */
+export async function runScheduledGbpSync(params: {
+  options: GbpSyncOptions;
+  maxOrgs: number;
+  deadlineMs: number;
+  force?: boolean;
+  organizationId?: string | null;
+  getAccessToken?: (organizationId: string) => ReturnType<typeof loadGbpAccessToken>;
+}): Promise<ScheduledGbpSyncSummary> {
+  const supabase = supabaseServer();
+  const startedAt = Date.now();
+  const getAccessToken = params.getAccessToken ?? loadGbpAccessToken;
+
+  let integQuery = supabase.from("google_integrations").select("org_id").eq("status", "active");
+  if (params.organizationId) integQuery = integQuery.eq("org_id", params.organizationId);
+  const { data: integrations, error: integErr } = await integQuery;
+  if (integErr) throw new Error(integErr.message);
+
+  const orgIds = Array.from(new Set((integrations ?? []).map((i) => String(i.org_id)).filter(Boolean)));
+  const { states, error: stateError } = await loadSyncStates(supabase, orgIds);
+  let stateWarning = stateError;
+
+  orgIds.sort((a, b) => {
+    const ta = states.get(a)?.last_attempt_at ?? "";
+    const tb = states.get(b)?.last_attempt_at ?? "";
+    return ta.localeCompare(tb);
+  });
+
+  const summary: ScheduledGbpSyncSummary = {
+    orgs_total: orgIds.length,
+    synced: 0,
+    failed: 0,
+    backoff: 0,
+    deferred: 0,
+    orgs: [],
+    state_warning: null,
+  };
+
+  let attempted = 0;
+  for (const organizationId of orgIds) {
+    const state = states.get(organizationId);
+    const now = new Date();
+
+    if (!params.force && state?.next_attempt_at && Date.parse(state.next_attempt_at) > now.getTime()) {
+      summary.backoff += 1;
+      summary.orgs.push({ organization_id: organizationId, status: "backoff", next_attempt_at: state.next_attempt_at });
+      continue;
+    }
+
+    if (attempted >= params.maxOrgs || Date.now() - startedAt >= params.deadlineMs) {
+      summary.deferred += 1;
+      summary.orgs.push({ organization_id: organizationId, status: "deferred" });
+      continue;
+    }
+    attempted += 1;
+
+    let failure: { code: string; error: string } | null = null;
+    let result: GbpOrgSyncResult | undefined;
+
+    try {
+      const token = await getAccessToken(organizationId);
+      if (!token.ok) {
+        failure = { code: token.error.code, error: token.error.error };
+      } else {
+        const synced = await syncGbpOrganization({
+          supabase,
+          organizationId,
+          accessToken: token.accessToken,
+          options: params.options,
+        });
+        if (!synced.ok) {
+          failure = { code: "SYNC_SETUP", error: synced.error };
+        } else {
+          result = synced.result;
+          failure = orgSyncFailure(synced.result);
+        }
+      }
+    } catch (e: unknown) {
+      failure = { code: "SYNC_FAILED", error: e instanceof Error ? e.message : String(e) };
+    }
+
+    const failures = failure ? (state?.consecutive_failures ?? 0) + 1 : 0;
+    const nextAttemptAt = failure ? new Date(now.getTime() + gbpSyncBackoffMs(failures)).toISOString() : null;
+    const saveError = await saveSyncState({
+      supabase,
+      organizationId,
+      failures,
+      nextAttemptAt,
+      error: failure?.error ?? null,
+      now,
+    });
+    if (saveError) stateWarning = saveError;
+
+    if (failure) {
+      summary.failed += 1;
+      summary.orgs.push({
+        organization_id: organizationId,
+        status: "failed",
+        code: failure.code,
+        error: failure.error,
+        next_attempt_at: nextAttemptAt,
+        result,
+      });
+    } else {
+      summary.synced += 1;
+      summary.orgs.push({ organization_id: organizationId, status: "synced", result });
+    }
+  }
+
+  summary.state_warning = stateWarning;
+  if (stateWarning) console.warn("gbp sync state not saved:", stateWarning);
+  return summary;
+}
@@ -0,0 +1,278 @@
+// lib/languageDetect.ts
+//
+// Offline language detection for review text (no external API). Used when
+// reviews are ingested (gbp/reviews/sync, reviews/google), by the backfill in
+// /api/reviews/languages, and by the draft eval harness to check which
+// language a reply came out in.
+//
+// Non-Latin scripts are identified by Unicode script. Latin text is scored
+// with a stopword vote plus orthographic features: a word listed for only one
+// language counts double, so Spanish and Portuguese — which share "que",
+// "de", "con", "lugar", "comida" — are told apart by "y / muy / pero / el"
+// against "e / muito / mas / o", and by ñ / -ción against ã / õ / -ção.
+//
+// Short and emoji-only reviews get a low confidence or no language at all;
+// the provider's language code (when there is one) is used as a hint that
+// decides low-confidence cases. Google's "(Translated by Google) … (Original)"
+// comments are detected on the original text.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export const LANGUAGE_DETECTOR_VERSION = "lang-v1";
+
+// Below this the detector reports no language rather than a guess
+export const MIN_LANGUAGE_CONFIDENCE = 0.3;
+
+export type LanguageDetectionMethod = "script" | "stopwords" | "hint" | "none";
+
+export type LanguageDetection = {
+  language: string | null;
+  // 0–1
+  confidence: number;
+  method: LanguageDetectionMethod;
+};
+
+// ─── Markers ──────────────────────────────────────────────────────────────────
+
+const LANGUAGE_MARKERS: Record<string, string[]> = {
+  en: [
+    "the", "and", "you", "we", "your", "our", "with", "for", "was", "were", "that", "it", "to", "is", "this",
+    "very", "great", "good", "nice", "food", "staff", "place", "friendly", "amazing", "recommend", "highly",
+    "they", "of", "but", "not", "had", "thank", "thanks", "definitely", "will", "back", "delicious", "on",
+    "excellent", "service",
+  ],
+  es: [
+    "el", "la", "los", "las", "que", "y", "de", "del", "con", "por", "para", "nos", "tu", "su", "muy", "pero",
+    "una", "un", "fue", "hay", "bien", "buen", "buena", "mucho", "todo", "todos", "comida", "lugar",
+    "excelente", "gracias", "servicio", "atención", "recomiendo", "es", "está", "estuvo", "nada", "también", "no",
+    "rico", "riquísimo", "volveremos", "mesero", "personal",
+  ],
+  pt: [
+    "o", "os", "as", "que", "e", "de", "do", "da", "dos", "das", "com", "por", "para", "nos", "no", "na",
+    "em", "ao", "você", "sua", "muito", "muita", "mas", "uma", "um", "foi", "tem", "bom", "boa", "ótimo",
+    "ótima", "comida", "lugar", "excelente", "obrigado", "obrigada", "atendimento", "recomendo", "é", "está",
+    "também", "não", "gostoso", "delicioso", "voltaremos", "pelo", "pela",
+  ],
+  fr: [
+    "le", "la", "les", "et", "de", "des", "du", "au", "aux", "vous", "nous", "avec", "pour", "votre", "très",
+    "merci", "est", "une", "un", "pas", "mais", "bon", "bonne", "accueil", "je", "on", "il", "était", "plats",
+    "personnel", "excellent", "recommande", "c'est", "sympa",
+  ],
+  it: [
+    "il", "la", "gli", "che", "e", "di", "con", "per", "ci", "tuo", "vostro", "molto", "grazie", "è", "un",
+    "una", "della", "del", "non", "ma", "ottimo", "ottima", "cibo", "personale", "sono", "locale", "consiglio",
+    "buono", "buonissimo", "servizio", "tutto", "anche",
+  ],
+  de: [
+    "der", "die", "das", "und", "sie", "wir", "mit", "für", "ihr", "ihre", "sehr", "danke", "ist", "nicht",
+    "ein", "eine", "essen", "war", "auch", "gut", "gute", "toll", "freundlich", "ich", "zu", "auf", "es",
+    "lecker", "personal", "bedienung", "wieder", "empfehlen",
+  ],
+};
+
+// How many languages list each word — unique words count double
+const MARKER_SETS = Object.fromEntries(
+  Object.entries(LANGUAGE_MARKERS).map(([lang, words]) => [lang, new Set(words)])
+) as Record<string, Set<string>>;
+
+const MARKER_SHARE = (() => {
+  const counts = new Map<string, number>();
+  for (const words of Object.values(MARKER_SETS)) {
+    for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+  }
+  return counts;
+})();
+
+// Orthographic features: [pattern, language, points per match]
+const CHAR_FEATURES: Array<[RegExp, string, number]> = [
+  [/ñ/g, "es", 3],
+  [/[¿¡]/g, "es", 3],
+  [/ci[oó]n\b/g, "es", 2],
+  [/[ãõ]/g, "pt", 3],
+  [/ç[ãõ]/g, "pt", 3],
+  [/ç/g, "fr", 1],
+  [/[èêëâîôûœ]/g, "fr", 1],
+  [/[äöüß]/g, "de", 3],
+  [/zione\b/g, "it", 2],
+  [/(^|\s)è(\s|$)/g, "it", 2],
+];
+const MAX_CHAR_POINTS = 6;
+
+// Non-Latin scripts: [pattern, language]; checked in order (kana before Han)
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, "ja"],
+  [/\p{Script=Hangul}/gu, "ko"],
+  [/\p{Script=Han}/gu, "zh"],
+  [/[іїєґ]/gu, "uk"],
+  [/\p{Script=Cyrillic}/gu, "ru"],
+  [/\p{Script=Arabic}/gu, "ar"],
+  [/\p{Script=Hebrew}/gu, "he"],
+  [/\p{Script=Greek}/gu, "el"],
+  [/\p{Script=Thai}/gu, "th"],
+  [/\p{Script=Devanagari}/gu, "hi"],
+];
+
+// ─── Detection ────────────────────────────────────────────────────────────────
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function baseTag(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const base = v.trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(base) ? base : null;
+}
+
+/** The reviewer's own words: drops Google's machine translation when the original is included. */
+export function originalReviewText(text: string) {
+  const t = text || "";
+  const original = t.match(/\(Original\)\s*([\s\S]+)$/i);
+  if (original) return original[1].trim();
+  return t.replace(/^\s*\(Translated by Google\)\s*/i, "").trim();
+}
+
+function detectFromText(text: string): LanguageDetection {
+  const lower = originalReviewText(text)
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ");
+  const letters = lower.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) return { language: null, confidence: 0, method: "none" };
+
+  // Non-Latin script covering most of the letters
+  const latin = (lower.match(/\p{Script=Latin}/gu) ?? []).length;
+  if (latin / letters.length < 0.5) {
+    for (const [re, lang] of SCRIPT_LANGUAGES) {
+      const n = (lower.match(re) ?? []).length;
+      if (n > 0 && n / letters.length >= 0.3) {
+        return { language: lang, confidence: letters.length >= 4 ? 0.9 : 0.6, method: "script" };
+      }
+    }
+    return { language: null, confidence: 0, method: "none" };
+  }
+
+  const words = lower.match(/[\p{L}']+/gu) ?? [];
+  const scores: Record<string, number> = {};
+  for (const lang of Object.keys(LANGUAGE_MARKERS)) scores[lang] = 0;
+
+  for (const w of words) {
+    const shared = MARKER_SHARE.get(w);
+    if (!shared) continue;
+    for (const [lang, set] of Object.entries(MARKER_SETS)) {
+      if (set.has(w)) scores[lang] += shared === 1 ? 2 : 1;
+    }
+  }
+
+  for (const lang of Object.keys(scores)) {
+    let points = 0;
+    for (const [re, featureLang, weight] of CHAR_FEATURES) {
+      if (featureLang === lang) points += (lower.match(re) ?? []).length * weight;
+    }
+    scores[lang] += Math.min(points, MAX_CHAR_POINTS);
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [bestLang, best] = ranked[0];
+  const second = ranked[1]?.[1] ?? 0;
+  if (best <= 0) return { language: null, confidence: 0, method: "none" };
+
+  const margin = (best - second) / best;
+  const support = Math.min(1, best / 6);
+  let confidence = margin * 0.6 + support * 0.4;
+  // One- or two-word reviews ("Great!", "Top") are easy to misread
+  if (words.length < 3) confidence *= 0.6;
+  confidence = round2(confidence);
+
+  if (confidence < MIN_LANGUAGE_CONFIDENCE) return { language: null, confidence, method: "none" };
+  return { language: bestLang, confidence, method: "stopwords" };
+}
+
+/**
+ * Detects the language of a review. `hint` is the provider's language code
+ * (Places `language`, GBP `languageCode`): it agrees → higher confidence;
+ * the text is too short or ambiguous → the hint is used at 0.5.
+ */
+export function detectLanguage(text: string, opts?: { hint?: string | null }): LanguageDetection {
+  const detected = detectFromText(text);
+  const hint = baseTag(opts?.hint);
+  if (!hint) return detected;
+
+  if (detected.language === hint) {
+    return { ...detected, confidence: round2(Math.min(1, detected.confidence + 0.2)) };
+  }
+  if (!detected.language || detected.confidence < 0.5) {
+    return { language: hint, confidence: 0.5, method: "hint" };
+  }
+  return detected;
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+// The review syncs write both columns in their upsert rows
+// (reviewLanguageColumns); persistReviewLanguages updates stored reviews one
+// by one and is only for the backfill (/api/reviews/languages).
+
+/** reviews.detected_language and detected_language_confidence for an upsert row. */
+export function reviewLanguageColumns(text: string | null, hint?: string | null) {
+  const detection = detectLanguage(text ?? "", { hint });
+  return { detected_language: detection.language, detected_language_confidence: detection.confidence };
+}
+
+/** The upsert failed because reviews.detected_language_confidence doesn't exist yet. */
+export function isMissingLanguageConfidenceColumn(error: { message: string } | null) {
+  return !!error && /detected_language_confidence/i.test(error.message);
+}
+
+/** Upsert rows without the optional confidence column, for the retry. */
+export function withoutLanguageConfidence<T extends { detected_language_confidence?: unknown }>(rows: T[]) {
+  return rows.map((row) => {
+    const copy = { ...row };
+    delete copy.detected_language_confidence;
+    return copy;
+  });
+}
+
+/**
+ * Best-effort: detect and store reviews.detected_language and
+ * reviews.detected_language_confidence, one UPDATE per review (backfill
+ * only). When the confidence column doesn't exist yet only the language is
+ * written. Failures are returned as a count, never thrown.
+ */
+export async function persistReviewLanguages(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  reviews: Array<{ id: string; review_text: string | null; hint?: string | null }>;
+}): Promise<{ updated: number; failed: number; error: string | null }> {
+  const { supabase, organizationId, reviews } = params;
+  let updated = 0;
+  let failed = 0;
+  let lastError: string | null = null;
+  let withConfidence = true;
+
+  for (const r of reviews) {
+    const detection = detectLanguage(r.review_text ?? "", { hint: r.hint });
+    const patch = (): Record<string, unknown> =>
+      withConfidence
+        ? { detected_language: detection.language, detected_language_confidence: detection.confidence }
+        : { detected_language: detection.language };
+
+    try {
+      let { error } = await supabase.from("reviews").update(patch()).eq("id", r.id).eq("organization_id", organizationId);
+      if (error && withConfidence && /detected_language_confidence/i.test(error.message)) {
+        withConfidence = false;
+        ({ error } = await supabase.from("reviews").update(patch()).eq("id", r.id).eq("organization_id", organizationId));
+      }
+      if (error) {
+        failed += 1;
+        lastError = error.message;
+        if (/column/i.test(error.message)) break;
+      } else {
+        updated += 1;
+      }
+    } catch (e: unknown) {
+      failed += 1;
+      lastError = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  return { updated, failed, error: lastError };
+}
@@ -0,0 +1,557 @@
+// lib/llmProvider.ts
+import "server-only";
+
+import crypto from "crypto";
+
+/**
+ * Shared LLM provider layer.
+ * - One entry point (generateText) for every route that drafts or translates;
+ *   streamText for callers that show raw tokens while the model is writing.
+ * - Providers: "anthropic" (default), "openai" (any OpenAI-compatible endpoint), "stub" (offline, deterministic).
+ * - Selection order: org setting → LLM_PROVIDER env → "anthropic".
+ * - Uniform errors (LlmError) with stable codes so routes map them the same way.
+ * - Per-attempt timeout + bounded retries on 429 / 5xx / network failures.
+ */
+
+export type LlmProviderId = "anthropic" | "openai" | "stub";
+
+// What the call is for. Lets the stub give a sensible offline answer
+// (a canned reply vs. an echo of the text to translate).
+export type LlmTask = "draft" | "revise" | "translate" | "try";
+
+export type LlmRequest = {
+  task: LlmTask;
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  model?: string;
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type LlmResult = {
+  text: string;
+  provider: LlmProviderId;
+  model: string;
+  usage: LlmUsage;
+  raw: unknown;
+};
+
+export type LlmErrorCode =
+  | "LLM_CONFIG_MISSING"
+  | "LLM_TIMEOUT"
+  | "LLM_RATE_LIMITED"
+  | "LLM_UPSTREAM_ERROR"
+  | "LLM_EMPTY_RESPONSE";
+
+export class LlmError extends Error {
+  code: LlmErrorCode;
+  provider: LlmProviderId;
+  upstreamStatus: number | null;
+  upstreamBody: unknown;
+
+  constructor(params: {
+    code: LlmErrorCode;
+    provider: LlmProviderId;
+    message: string;
+    upstreamStatus?: number | null;
+    upstreamBody?: unknown;
+  }) {
+    super(params.message);
+    this.name = "LlmError";
+    this.code = params.code;
+    this.provider = params.provider;
+    this.upstreamStatus = params.upstreamStatus ?? null;
+    this.upstreamBody = params.upstreamBody ?? null;
+  }
+
+  /** HTTP status a route should answer with for this error. */
+  get httpStatus() {
+    if (this.code === "LLM_CONFIG_MISSING") return 500;
+    if (this.code === "LLM_TIMEOUT") return 504;
+    if (this.code === "LLM_RATE_LIMITED") return 429;
+    return 502;
+  }
+}
+
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  anthropic: "claude-haiku-4-5-20251001",
+  openai: "gpt-4o-mini",
+  stub: "stub-v1",
+};
+
+const DEFAULT_TIMEOUT_MS = 25_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+function parseProviderId(v: unknown): LlmProviderId | null {
+  const s = String(v ?? "").toLowerCase().trim();
+  if (s === "anthropic" || s === "openai" || s === "stub") return s;
+  return null;
+}
+
+function readIntEnv(name: string, fallback: number, min: number, max: number) {
+  const n = Number(process.env[name]);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(Math.round(n), min), max);
+}
+
+/**
+ * Resolve which provider to use. An org-level override wins over the env default,
+ * except that "stub" from the org row is ignored in production (it would
+ * silently ship canned replies to real customers).
+ */
+export function resolveLlmProvider(orgSetting?: string | null): LlmProviderId {
+  const fromOrg = parseProviderId(orgSetting);
+  if (fromOrg && !(fromOrg === "stub" && process.env.NODE_ENV === "production")) return fromOrg;
+  return parseProviderId(process.env.LLM_PROVIDER) ?? "anthropic";
+}
+
+export function defaultModelFor(provider: LlmProviderId) {
+  const override = (process.env.LLM_MODEL ?? "").trim();
+  if (override && provider !== "stub") return override;
+  return DEFAULT_MODELS[provider];
+}
+
+// ─── Transport helpers ───────────────────────────────────────────────────────
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status === 408 || status >= 500;
+}
+
+/**
+ * POST with a per-attempt timeout and bounded retries.
+ * `read` consumes a 2xx response inside the attempt (so a timeout while reading
+ * the body is retried too). Throws LlmError otherwise.
+ * `canRetry` lets a streaming caller stop retrying once it has emitted output.
+ */
+async function postWithRetry<T>(params: {
+  provider: LlmProviderId;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  read: (res: Response) => Promise<T>;
+  canRetry?: () => boolean;
+}): Promise<T> {
+  const { provider, url, headers, body, read, canRetry } = params;
+  const timeoutMs = readIntEnv("LLM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS, 1_000, 120_000);
+  const maxRetries = readIntEnv("LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES, 0, 5);
+
+  let lastError: LlmError | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      // 400ms, 800ms, 1600ms… with a little jitter
+      await sleep(400 * 2 ** (attempt - 1) + Math.floor(Math.random() * 150));
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        cache: "no-store",
+        signal: controller.signal,
+      });
+
+      if (res.ok) return await read(res);
+
+      const rawText = await res.text();
+      let json: unknown = null;
+      try {
+        json = JSON.parse(rawText);
+      } catch {
+        json = null;
+      }
+
+      lastError = new LlmError({
+        code: res.status === 429 ? "LLM_RATE_LIMITED" : "LLM_UPSTREAM_ERROR",
+        provider,
+        message: `${provider} upstream error (${res.status})`,
+        upstreamStatus: res.status,
+        upstreamBody: json ?? rawText,
+      });
+
+      if (!isRetryableStatus(res.status)) throw lastError;
+    } catch (e: unknown) {
+      if (e instanceof LlmError && !isRetryableStatus(e.upstreamStatus ?? 0)) throw e;
+
+      if (!(e instanceof LlmError)) {
+        const aborted = e instanceof Error && e.name === "AbortError";
+        lastError = new LlmError({
+          code: aborted ? "LLM_TIMEOUT" : "LLM_UPSTREAM_ERROR",
+          provider,
+          message: aborted
+            ? `${provider} did not respond within ${timeoutMs}ms`
+            : `${provider} request failed: ${e instanceof Error ? e.message : String(e)}`,
+        });
+      }
+
+      if (canRetry && !canRetry()) throw lastError;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw (
+    lastError ??
+    new LlmError({ code: "LLM_UPSTREAM_ERROR", provider, message: `${provider} request failed` })
+  );
+}
+
+async function postJsonWithRetry(params: {
+  provider: LlmProviderId;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}): Promise<unknown> {
+  return postWithRetry({
+    ...params,
+    read: async (res) => {
+      const rawText = await res.text();
+      try {
+        return JSON.parse(rawText) as unknown;
+      } catch {
+        return null;
+      }
+    },
+  });
+}
+
+/** Parse a server-sent-events body into { event, data } records. */
+async function* readSseEvents(res: Response): AsyncGenerator<{ event: string; data: string }> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const chunk = buffer.slice(0, sep);
+      buffer = buffer.slice(sep).replace(/^\r?\n\r?\n/, "");
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of chunk.split(/\r?\n/)) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) yield { event, data: data.join("\n") };
+    }
+  }
+}
+
+function parseJsonSafe(s: string): unknown {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(v: unknown): Record<string, unknown> {
+  return v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+}
+
+function toCount(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+}
+
+// ─── Providers ───────────────────────────────────────────────────────────────
+
+function anthropicApiKey() {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new LlmError({
+      code: "LLM_CONFIG_MISSING",
+      provider: "anthropic",
+      message: "Missing ANTHROPIC_API_KEY in server env. Add in Vercel and redeploy.",
+    });
+  }
+  return apiKey;
+}
+
+function anthropicRequest(req: LlmRequest, model: string, stream: boolean) {
+  return {
+    provider: "anthropic" as const,
+    url: "https://api.anthropic.com/v1/messages",
+    headers: {
+      "x-api-key": anthropicApiKey(),
+      "anthropic-version": "2023-06-01",
+    },
+    body: {
+      model,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      system: req.system,
+      messages: [{ role: "user", content: req.prompt }],
+      ...(stream ? { stream: true } : {}),
+    },
+  };
+}
+
+async function callAnthropic(req: LlmRequest, model: string): Promise<LlmResult> {
+  const json = await postJsonWithRetry(anthropicRequest(req, model, false));
+
+  const root = asRecord(json);
+  const content = Array.isArray(root.content) ? root.content : [];
+  const usage = asRecord(root.usage);
+
+  return {
+    text: String(asRecord(content[0]).text ?? ""),
+    provider: "anthropic",
+    model,
+    usage: {
+      inputTokens: toCount(usage.input_tokens),
+      outputTokens: toCount(usage.output_tokens),
+    },
+    raw: json,
+  };
+}
+
+function openAiRequest(req: LlmRequest, model: string, stream: boolean) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new LlmError({
+      code: "LLM_CONFIG_MISSING",
+      provider: "openai",
+      message: "Missing OPENAI_API_KEY in server env.",
+    });
+  }
+
+  // Any OpenAI-compatible chat completions endpoint (OpenAI, Azure proxy, vLLM, Ollama…)
+  const baseUrl = (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+
+  return {
+    provider: "openai" as const,
+    url: `${baseUrl}/chat/completions`,
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: {
+      model,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      messages: [
+        { role: "system", content: req.system },
+        { role: "user", content: req.prompt },
+      ],
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    },
+  };
+}
+
+async function callOpenAiCompatible(req: LlmRequest, model: string): Promise<LlmResult> {
+  const json = await postJsonWithRetry(openAiRequest(req, model, false));
+
+  const root = asRecord(json);
+  const choices = Array.isArray(root.choices) ? root.choices : [];
+  const message = asRecord(asRecord(choices[0]).message);
+  const usage = asRecord(root.usage);
+
+  return {
+    text: String(message.content ?? ""),
+    provider: "openai",
+    model,
+    usage: {
+      inputTokens: toCount(usage.prompt_tokens),
+      outputTokens: toCount(usage.completion_tokens),
+    },
+    raw: json,
+  };
+}
+
+// ─── Streaming providers ─────────────────────────────────────────────────────
+// Same request as the non-streaming calls with stream enabled. Retries only
+// happen before the first delta reaches the caller — once text has been shown
+// we can't take it back, so a mid-stream failure is surfaced as-is.
+
+type DeltaHandler = (text: string) => void;
+
+async function streamAnthropic(req: LlmRequest, model: string, onDelta: DeltaHandler): Promise<LlmResult> {
+  let emitted = false;
+
+  return postWithRetry({
+    ...anthropicRequest(req, model, true),
+    canRetry: () => !emitted,
+    read: async (res) => {
+      let text = "";
+      const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+
+      for await (const ev of readSseEvents(res)) {
+        const data = asRecord(parseJsonSafe(ev.data));
+        const type = String(data.type ?? ev.event);
+
+        if (type === "message_start") {
+          usage.inputTokens = toCount(asRecord(asRecord(data.message).usage).input_tokens);
+        } else if (type === "content_block_delta") {
+          const piece = String(asRecord(data.delta).text ?? "");
+          if (piece) {
+            text += piece;
+            emitted = true;
+            onDelta(piece);
+          }
+        } else if (type === "message_delta") {
+          usage.outputTokens = toCount(asRecord(data.usage).output_tokens);
+        } else if (type === "error") {
+          throw new LlmError({
+            code: "LLM_UPSTREAM_ERROR",
+            provider: "anthropic",
+            message: `anthropic stream error: ${String(asRecord(data.error).message ?? "unknown")}`,
+            upstreamBody: data,
+          });
+        }
+      }
+
+      return { text, provider: "anthropic" as const, model, usage, raw: { streamed: true } };
+    },
+  });
+}
+
+async function streamOpenAiCompatible(req: LlmRequest, model: string, onDelta: DeltaHandler): Promise<LlmResult> {
+  let emitted = false;
+
+  return postWithRetry({
+    ...openAiRequest(req, model, true),
+    canRetry: () => !emitted,
+    read: async (res) => {
+      let text = "";
+      const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+
+      for await (const ev of readSseEvents(res)) {
+        if (ev.data === "[DONE]") break;
+        const data = asRecord(parseJsonSafe(ev.data));
+
+        const choices = Array.isArray(data.choices) ? data.choices : [];
+        const piece = String(asRecord(asRecord(choices[0]).delta).content ?? "");
+        if (piece) {
+          text += piece;
+          emitted = true;
+          onDelta(piece);
+        }
+
+        if (data.usage) {
+          const u = asRecord(data.usage);
+          usage.inputTokens = toCount(u.prompt_tokens);
+          usage.outputTokens = toCount(u.completion_tokens);
+        }
+      }
+
+      return { text, provider: "openai" as const, model, usage, raw: { streamed: true } };
+    },
+  });
+}
+
+// Canned owner-voice replies for offline development. Picked deterministically
+// from the prompt hash so the same input always yields the same draft.
+const STUB_REPLIES = [
+  "Hearing that the evening came together for you means a lot. We hope to welcome you back when you're next in the area.",
+  "We're so glad the details you mentioned stood out. It means a lot that you took a moment to write about them.",
+  "I'm sorry the wait got in the way of your visit. If you're open to it, we'd welcome the chance to make this right.",
+  "Reading your review, it's clear parts of the visit worked and parts didn't. We should have done better on the service side.",
+];
+
+function estimateTokens(text: string) {
+  return Math.ceil((text ?? "").length / 4);
+}
+
+function callStub(req: LlmRequest): LlmResult {
+  let text: string;
+
+  if (req.task === "translate") {
+    // Echo the text block back unchanged — a stand-in translation.
+    const m = req.prompt.match(/"""\s*\n([\s\S]*?)\n\s*"""/);
+    text = (m?.[1] ?? req.prompt).trim();
+  } else {
+    const digest = crypto.createHash("sha256").update(`${req.system}\n${req.prompt}`).digest();
+    text = STUB_REPLIES[digest[0] % STUB_REPLIES.length];
+  }
+
+  return {
+    text,
+    provider: "stub",
+    model: DEFAULT_MODELS.stub,
+    usage: {
+      inputTokens: estimateTokens(req.system) + estimateTokens(req.prompt),
+      outputTokens: estimateTokens(text),
+    },
+    raw: { stub: true },
+  };
+}
+
+async function streamStub(req: LlmRequest, onDelta: DeltaHandler): Promise<LlmResult> {
+  const result = callStub(req);
+  // Word-sized chunks with a short pause, so the UI path is exercised offline.
+  for (const piece of result.text.match(/\S+\s*/g) ?? []) {
+    onDelta(piece);
+    await sleep(15);
+  }
+  return result;
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+/**
+ * Generate text with the resolved provider.
+ * Throws LlmError on config problems, timeouts, upstream failures and empty output.
+ */
+export async function generateText(
+  req: LlmRequest,
+  opts?: { provider?: LlmProviderId }
+): Promise<LlmResult> {
+  const provider = opts?.provider ?? resolveLlmProvider();
+  const model = req.model || defaultModelFor(provider);
+
+  let result: LlmResult;
+  if (provider === "stub") result = callStub(req);
+  else if (provider === "openai") result = await callOpenAiCompatible(req, model);
+  else result = await callAnthropic(req, model);
+
+  return ensureNotEmpty(result);
+}
+
+/**
+ * Like generateText, but calls onDelta with each raw text chunk as it arrives.
+ * Resolves with the full (un-cleaned) result once the stream ends.
+ */
+export async function streamText(
+  req: LlmRequest,
+  opts: { provider?: LlmProviderId; onDelta: (text: string) => void }
+): Promise<LlmResult> {
+  const provider = opts.provider ?? resolveLlmProvider();
+  const model = req.model || defaultModelFor(provider);
+
+  let result: LlmResult;
+  if (provider === "stub") result = await streamStub(req, opts.onDelta);
+  else if (provider === "openai") result = await streamOpenAiCompatible(req, model, opts.onDelta);
+  else result = await streamAnthropic(req, model, opts.onDelta);
+
+  return ensureNotEmpty(result);
+}
+
+function ensureNotEmpty(result: LlmResult) {
+  if (!result.text.trim()) {
+    throw new LlmError({
+      code: "LLM_EMPTY_RESPONSE",
+      provider: result.provider,
+      message: "No content returned from the model",
+      upstreamBody: result.raw,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,307 @@
+// lib/llmUsage.ts
+//
+// Per-organization LLM metering and quotas. Every model call made by the
+// draft, revise, translate and /try endpoints is recorded in llm_usage_events
+// with the token counts the provider reported (LlmResult.usage). Before
+// calling the model, routes check the organization's plan limits and answer
+// 429 LLM_QUOTA_EXCEEDED when a daily or monthly limit is used up.
+//
+// llm_usage_events: organization_id (null for the anonymous /try page),
+// subject (ip hash for /try), task, provider, model, input_tokens,
+// output_tokens, created_at. Periods are UTC days and calendar months.
+//
+// Call counts come from exact count queries. Token sums and the per-task
+// breakdown use the llm_usage_totals aggregate when the database has it, and
+// otherwise page through the period's rows (PostgREST caps a single select):
+//
+//   create function llm_usage_totals(p_organization_id uuid, p_since timestamptz)
+//   returns table (task text, calls bigint, input_tokens bigint, output_tokens bigint)
+//   language sql stable as $$
+//     select task, count(*), coalesce(sum(input_tokens), 0), coalesce(sum(output_tokens), 0)
+//     from llm_usage_events
+//     where organization_id is not distinct from p_organization_id and created_at >= p_since
+//     group by task
+//   $$;
+
+import type { OrgContext } from "@/lib/orgServer";
+import type { LlmResult, LlmTask } from "@/lib/llmProvider";
+import type { SubscriptionStatus } from "@/lib/subscriptionServer";
+
+export type UsagePlanId = "trial" | "standard" | "try";
+
+export type UsageLimits = {
+  daily_calls: number | null;
+  monthly_calls: number | null;
+  monthly_tokens: number | null;
+};
+
+// null = no limit for that period
+export const USAGE_PLANS: Record<UsagePlanId, UsageLimits> = {
+  trial: { daily_calls: 150, monthly_calls: 1500, monthly_tokens: 2_000_000 },
+  standard: { daily_calls: 600, monthly_calls: 9000, monthly_tokens: 12_000_000 },
+  // Shared by every anonymous /try visitor (per-visitor limits live in try_leads)
+  try: { daily_calls: 500, monthly_calls: null, monthly_tokens: null },
+};
+
+export type UsageTotals = {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+};
+
+export type LlmUsageSummary = {
+  day: UsageTotals;
+  month: UsageTotals;
+  by_task: Partial<Record<LlmTask, UsageTotals>>;
+  day_start: string;
+  month_start: string;
+};
+
+export type QuotaCheck =
+  | { ok: true; plan: UsagePlanId; usage: LlmUsageSummary | null }
+  | {
+      ok: false;
+      plan: UsagePlanId;
+      code: "LLM_QUOTA_EXCEEDED";
+      period: "day" | "month";
+      metric: "calls" | "tokens";
+      limit: number;
+      used: number;
+      resets_at: string;
+    };
+
+type UsageClient = OrgContext["supabase"];
+
+export function usagePlanForStatus(status: SubscriptionStatus): UsagePlanId {
+  return status === "trialing" ? "trial" : "standard";
+}
+
+// ─── Periods ──────────────────────────────────────────────────────────────────
+
+function periodStarts(now = new Date()) {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { day, month, nextDay, nextMonth };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, input_tokens: 0, output_tokens: 0 };
+}
+
+function addTo(t: UsageTotals, row: { input_tokens?: number | null; output_tokens?: number | null }) {
+  t.calls += 1;
+  t.input_tokens += Number(row.input_tokens) || 0;
+  t.output_tokens += Number(row.output_tokens) || 0;
+}
+
+// ─── Metering ─────────────────────────────────────────────────────────────────
+
+/** Records one model call. Best-effort: logs and moves on when the insert fails. */
+export async function recordLlmUsage(params: {
+  supabase: UsageClient;
+  organizationId: string | null;
+  subject?: string | null;
+  task: LlmTask;
+  result: Pick<LlmResult, "provider" | "model" | "usage">;
+}) {
+  try {
+    const { error } = await params.supabase.from("llm_usage_events").insert({
+      organization_id: params.organizationId,
+      subject: params.subject ?? null,
+      task: params.task,
+      provider: params.result.provider,
+      model: params.result.model,
+      input_tokens: params.result.usage.inputTokens,
+      output_tokens: params.result.usage.outputTokens,
+    });
+    if (error) console.warn("llm_usage_events insert failed:", error.message);
+  } catch (e: unknown) {
+    console.warn("llm_usage_events insert exception:", e instanceof Error ? e.message : e);
+  }
+}
+
+// Rows per page when summing without the aggregate
+const USAGE_PAGE_SIZE = 1000;
+
+type TaskTotals = Partial<Record<LlmTask, UsageTotals>>;
+
+async function countCalls(supabase: UsageClient, organizationId: string | null, since: string) {
+  let query = supabase
+    .from("llm_usage_events")
+    .select("id", { count: "exact", head: true })
+    .gte("created_at", since);
+  query = organizationId ? query.eq("organization_id", organizationId) : query.is("organization_id", null);
+
+  const { count, error } = await query;
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+/** Per-task totals from the llm_usage_totals aggregate, or null when it isn't installed. */
+async function aggregateTaskTotals(
+  supabase: UsageClient,
+  organizationId: string | null,
+  since: string
+): Promise<TaskTotals | null> {
+  const { data, error } = await supabase.rpc("llm_usage_totals", {
+    p_organization_id: organizationId,
+    p_since: since,
+  });
+  if (error || !Array.isArray(data)) return null;
+
+  const byTask: TaskTotals = {};
+  for (const row of data as Array<Record<string, unknown>>) {
+    byTask[String(row.task) as LlmTask] = {
+      calls: Number(row.calls) || 0,
+      input_tokens: Number(row.input_tokens) || 0,
+      output_tokens: Number(row.output_tokens) || 0,
+    };
+  }
+  return byTask;
+}
+
+/** Per-task totals by paging through the period's rows. */
+async function pagedTaskTotals(
+  supabase: UsageClient,
+  organizationId: string | null,
+  since: string
+): Promise<TaskTotals> {
+  const byTask: TaskTotals = {};
+
+  for (let from = 0; ; from += USAGE_PAGE_SIZE) {
+    let query = supabase
+      .from("llm_usage_events")
+      .select("id, task, input_tokens, output_tokens")
+      .gte("created_at", since);
+    query = organizationId ? query.eq("organization_id", organizationId) : query.is("organization_id", null);
+
+    const { data, error } = await query
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + USAGE_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    const rows = data ?? [];
+    for (const row of rows) addTo((byTask[String(row.task) as LlmTask] ??= emptyTotals()), row);
+    if (rows.length < USAGE_PAGE_SIZE) break;
+  }
+
+  return byTask;
+}
+
+async function taskTotalsSince(supabase: UsageClient, organizationId: string | null, since: string) {
+  return (
+    (await aggregateTaskTotals(supabase, organizationId, since)) ??
+    (await pagedTaskTotals(supabase, organizationId, since))
+  );
+}
+
+function sumTotals(byTask: TaskTotals, calls: number): UsageTotals {
+  const t = emptyTotals();
+  for (const v of Object.values(byTask)) {
+    t.input_tokens += v.input_tokens;
+    t.output_tokens += v.output_tokens;
+  }
+  t.calls = calls;
+  return t;
+}
+
+/**
+ * Calls and tokens for the current UTC day and month. `organizationId: null`
+ * summarizes the anonymous /try usage. Throws on query errors so callers can
+ * decide whether to fail open.
+ */
+export async function loadLlmUsage(params: {
+  supabase: UsageClient;
+  organizationId: string | null;
+}): Promise<LlmUsageSummary> {
+  const { supabase, organizationId } = params;
+  const { day, month } = periodStarts();
+  const dayStart = day.toISOString();
+  const monthStart = month.toISOString();
+
+  const [dayCalls, monthCalls, dayByTask, monthByTask] = await Promise.all([
+    countCalls(supabase, organizationId, dayStart),
+    countCalls(supabase, organizationId, monthStart),
+    taskTotalsSince(supabase, organizationId, dayStart),
+    taskTotalsSince(supabase, organizationId, monthStart),
+  ]);
+
+  return {
+    day: sumTotals(dayByTask, dayCalls),
+    month: sumTotals(monthByTask, monthCalls),
+    by_task: monthByTask,
+    day_start: dayStart,
+    month_start: monthStart,
+  };
+}
+
+// ─── Quotas ───────────────────────────────────────────────────────────────────
+
+/**
+ * Whether `calls` more model calls (default 1) are allowed under the plan.
+ * Fails open (ok with usage null) when usage can't be read, so a metering
+ * outage never blocks drafting.
+ */
+export async function checkLlmQuota(params: {
+  supabase: UsageClient;
+  organizationId: string | null;
+  plan: UsagePlanId;
+  calls?: number;
+}): Promise<QuotaCheck> {
+  const { plan } = params;
+  const limits = USAGE_PLANS[plan];
+  const planned = Math.max(1, Math.round(params.calls ?? 1));
+
+  let usage: LlmUsageSummary;
+  try {
+    usage = await loadLlmUsage(params);
+  } catch (e: unknown) {
+    console.warn("llm usage lookup failed:", e instanceof Error ? e.message : e);
+    return { ok: true, plan, usage: null };
+  }
+
+  const { nextDay, nextMonth } = periodStarts();
+  const monthTokens = usage.month.input_tokens + usage.month.output_tokens;
+
+  const exceeded = (period: "day" | "month", metric: "calls" | "tokens", limit: number, used: number): QuotaCheck => ({
+    ok: false,
+    plan,
+    code: "LLM_QUOTA_EXCEEDED",
+    period,
+    metric,
+    limit,
+    used,
+    resets_at: (period === "day" ? nextDay : nextMonth).toISOString(),
+  });
+
+  if (limits.daily_calls !== null && usage.day.calls + planned > limits.daily_calls) {
+    return exceeded("day", "calls", limits.daily_calls, usage.day.calls);
+  }
+  if (limits.monthly_calls !== null && usage.month.calls + planned > limits.monthly_calls) {
+    return exceeded("month", "calls", limits.monthly_calls, usage.month.calls);
+  }
+  if (limits.monthly_tokens !== null && monthTokens >= limits.monthly_tokens) {
+    return exceeded("month", "tokens", limits.monthly_tokens, monthTokens);
+  }
+
+  return { ok: true, plan, usage };
+}
+
+/** JSON body for the 429 a route returns when checkLlmQuota fails. */
+export function quotaExceededBody(check: Extract<QuotaCheck, { ok: false }>) {
+  const what = check.metric === "calls" ? "drafting requests" : "model usage";
+  return {
+    ok: false,
+    code: check.code,
+    error: `Your plan's ${check.period === "day" ? "daily" : "monthly"} limit for ${what} is used up. It resets ${check.resets_at.slice(0, 10)}.`,
+    plan: check.plan,
+    period: check.period,
+    metric: check.metric,
+    limit: check.limit,
+    used: check.used,
+    resets_at: check.resets_at,
+  };
+}
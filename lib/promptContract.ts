@@ -0,0 +1,368 @@
+// lib/promptContract.ts
+//
+// Checks a drafted reply against docs/RC_PROMPT_CONTRACT_v1.md.
+//
+// The prompt asks the model to follow the contract; this module checks that it
+// did. Each rule is mapped to the contract section it enforces:
+//   §3    max sentences per rating                       (hard)
+//   §4.1  first sentence references a review detail      (hard for generic openers, soft otherwise)
+//   §4.3  grounding: names, numbers, times, days come from
+//         the review or the fact sheet; never-mention list   (hard, when grounding is given)
+//   §5.1  phrase bans (English list + close variants)    (hard)
+//   §5.2  behavioural bans: AI mentions, compensation,
+//         emojis, exclamation points, verbatim quoting   (hard, quoting soft)
+//   §5.3  sensitive reviews: no admission of fault       (hard, only when flagged)
+//   §2    speaker perspective ("I" vs "we")              (soft)
+//
+// "hard" violations are worth a regeneration; "soft" ones are recorded only.
+// Checks are heuristics on the final text — they don't understand meaning, so
+// they stay deliberately narrow to avoid flagging good replies.
+
+import { splitSentences, stripEmojis } from "@/lib/draftPostClean";
+import { tokenize } from "@/lib/draftScoring";
+import { findNeverMentionHits, findUngroundedClaims } from "@/lib/factSheet";
+import { findLiabilityAdmissions } from "@/lib/sensitiveContent";
+
+export const PROMPT_CONTRACT_VERSION = "rc-prompt-contract-v1";
+
+export type ContractSeverity = "hard" | "soft";
+
+export type ContractViolationCode =
+  | "MAX_SENTENCES"
+  | "GENERIC_OPENER"
+  | "FIRST_SENTENCE_NO_DETAIL"
+  | "UNGROUNDED_FACT"
+  | "NEVER_MENTION"
+  | "BANNED_PHRASE"
+  | "MENTIONS_AI"
+  | "OFFERS_COMPENSATION"
+  | "EMOJI"
+  | "EXCLAMATION"
+  | "QUOTES_REVIEW"
+  | "ADMITS_LIABILITY"
+  | "WRONG_PERSPECTIVE";
+
+export type ContractViolation = {
+  code: ContractViolationCode;
+  section: string;
+  severity: ContractSeverity;
+  message: string;
+  match?: string;
+};
+
+export type ContractValidation = {
+  contract_version: string;
+  ok: boolean;
+  hard: number;
+  soft: number;
+  violations: ContractViolation[];
+};
+
+export type ContractVoice = {
+  reply_as?: string | null;
+  allow_exclamation?: boolean | null;
+  // v9 prompt rule: with voice samples the model mirrors the owner's own opener,
+  // which is often "Thank you…". That isn't treated as a generic opener then.
+  has_voice_samples?: boolean;
+  // Review flagged by lib/sensitiveContent.ts — enables §5.3.
+  sensitive?: boolean;
+  // Enables §4.3. `sources` are texts besides the review that facts may come
+  // from (business name, reviewer name, fact sheet entries, voice samples).
+  grounding?: {
+    sources: Array<string | null | undefined>;
+    never_mention?: string[];
+    proper_nouns?: boolean;
+  } | null;
+};
+
+// ─── §3 Sentence limits ───────────────────────────────────────────────────────
+
+export function contractMaxSentences(rating: number) {
+  if (rating >= 5) return 4;
+  if (rating === 4 || rating === 3) return 2;
+  return 3;
+}
+
+// ─── §5.1 Phrase bans ─────────────────────────────────────────────────────────
+// Patterns run on lower-cased text with curly apostrophes straightened.
+
+const CONTRACT_PHRASE_BANS: ReadonlyArray<{ label: string; re: RegExp }> = [
+  { label: "thank you for your feedback", re: /\bthanks?( you)? for (your|the) feedback\b/ },
+  { label: "we appreciate your feedback", re: /\b(we|i) (really |truly )?appreciate (your|the) feedback\b/ },
+  { label: "we strive", re: /\b(we|i) (always )?strive\b/ },
+  { label: "we will look into this", re: /\b(we|i)('ll| will) (be )?look(ing)? into (this|it|that)\b/ },
+  { label: "we take this seriously", re: /\b(we|i) take (this|that|it|your \w+) (very )?seriously\b/ },
+  { label: "please accept our apologies", re: /\bplease accept (our|my) (sincere(st)? )?apolog/ },
+  { label: "valued customer", re: /\bvalued (customer|guest|client)s?\b/ },
+  { label: "delighted", re: /\bdelighted\b/ },
+  { label: "thrilled", re: /\bthrilled\b/ },
+  { label: "we're sorry to hear", re: /\b(we|i)('re|'m| are| am) (so |very |truly )?sorry to hear\b/ },
+  { label: "we're glad you…", re: /\b(we|i)('re|'m| are| am) glad (you|to hear)\b/ },
+  { label: "thank you for taking the time", re: /\bthanks?( you)? for taking the time\b/ },
+  { label: "it sounds like…", re: /\bit sounds like\b/ },
+  { label: "we appreciate your thoughts", re: /\b(we|i) appreciate your (thoughts|comments)\b/ },
+  { label: "we'll keep that in mind", re: /\b(we|i)('ll| will) keep (that|this|it) in mind\b/ },
+  { label: "fell short", re: /\bf(ell|all|alls) short\b/ },
+  { label: "refine our…", re: /\brefin(e|ing) our\b/ },
+];
+
+// ─── §4.1 Generic openers ─────────────────────────────────────────────────────
+
+const GENERIC_OPENER_RE =
+  /^(we('re| are) (so )?sorry to hear|i('m| am) (so )?sorry to hear|we('re| are) glad you enjoyed|dear (guest|customer|valued)|hi there|hello)/;
+
+const THANKS_OPENER_RE = /^thank(s| you)\b/;
+
+const DETAIL_STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "was", "were", "are", "but", "our", "your",
+  "you", "they", "them", "their", "have", "had", "has", "not", "very", "really", "just",
+  "from", "there", "here", "what", "when", "about", "would", "could", "will", "been",
+  "place", "time", "experience", "visit", "great", "good", "nice", "back", "again",
+  "thank", "thanks", "hear", "glad", "sorry", "review", "everything", "definitely",
+]);
+
+function detailTokens(text: string) {
+  return new Set(tokenize(text).filter((t) => t.length >= 4 && !DETAIL_STOPWORDS.has(t)));
+}
+
+// ─── §5.2 Behavioural bans ────────────────────────────────────────────────────
+
+// Bare "ai" is left out on purpose — it's an ordinary word in Italian ("ai tavoli").
+const AI_MENTION_RE =
+  /\b(ai[- ](generated|written|assistant|tool)|artificial intelligence|chatbot|language model|automated (reply|response|system)|this (reply|response) was (generated|written) by)\b/;
+
+const COMPENSATION_RE =
+  /\b(refund(ed|s)?|reimburse(ment|d)?|compensat(e|ion|ed)|discount|voucher|gift card|on the house|complimentary|free (meal|night|drink|dessert|stay|tour))\b/;
+
+// Longest run of consecutive review words copied into the reply.
+function longestCopiedRun(reply: string, review: string) {
+  const r = tokenize(reply);
+  const v = tokenize(review);
+  if (r.length === 0 || v.length === 0) return { length: 0, text: "" };
+
+  const positions = new Map<string, number[]>();
+  v.forEach((t, i) => positions.set(t, [...(positions.get(t) ?? []), i]));
+
+  let best = { length: 0, start: 0 };
+  for (let i = 0; i < r.length; i++) {
+    for (const j of positions.get(r[i]) ?? []) {
+      let k = 0;
+      while (i + k < r.length && j + k < v.length && r[i + k] === v[j + k]) k++;
+      if (k > best.length) best = { length: k, start: i };
+    }
+  }
+
+  return { length: best.length, text: r.slice(best.start, best.start + best.length).join(" ") };
+}
+
+const QUOTE_RUN_LIMIT = 8;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function normalizeForMatch(text: string) {
+  return (text || "").toLowerCase().replace(/[‘’]/g, "'");
+}
+
+// The signature line ("— Business Name") isn't a sentence for §3 purposes.
+function stripSignatureLine(reply: string) {
+  return (reply || "").replace(/\s*[—–]\s*[^.!?\n]{1,120}$/, "").trim();
+}
+
+// ─── Validator ────────────────────────────────────────────────────────────────
+
+/**
+ * Validate a (post-cleaned) reply against the prompt contract.
+ * `review` is the review text; an empty review (star-only) skips §4.1 and quoting checks.
+ */
+export function validateReplyAgainstContract(
+  reply: string,
+  review: string,
+  rating: number,
+  voice?: ContractVoice | null
+): ContractValidation {
+  const violations: ContractViolation[] = [];
+  const body = stripSignatureLine(reply);
+  const lower = normalizeForMatch(body);
+  const sentences = splitSentences(body);
+  const reviewText = (review || "").trim();
+
+  // §3 — sentence count
+  const maxSentences = contractMaxSentences(rating);
+  if (sentences.length > maxSentences) {
+    violations.push({
+      code: "MAX_SENTENCES",
+      section: "3",
+      severity: "hard",
+      message: `${sentences.length} sentences; ${rating}★ replies allow at most ${maxSentences}.`,
+    });
+  }
+
+  // §4.1 — first sentence must reference a detail
+  const first = normalizeForMatch(sentences[0] ?? "");
+  if (first) {
+    const generic =
+      first.match(GENERIC_OPENER_RE) ?? (voice?.has_voice_samples ? null : first.match(THANKS_OPENER_RE));
+    if (generic) {
+      violations.push({
+        code: "GENERIC_OPENER",
+        section: "4.1",
+        severity: "hard",
+        message: "Reply opens with a generic formula instead of a detail from the review.",
+        match: generic[0],
+      });
+    } else if (reviewText) {
+      const reviewDetails = detailTokens(reviewText);
+      const shared = [...detailTokens(first)].some((t) => reviewDetails.has(t));
+      if (reviewDetails.size > 0 && !shared) {
+        violations.push({
+          code: "FIRST_SENTENCE_NO_DETAIL",
+          section: "4.1",
+          severity: "soft",
+          message: "First sentence shares no specific word with the review.",
+        });
+      }
+    }
+  }
+
+  // §4.3 — grounding
+  if (voice?.grounding) {
+    const claims = findUngroundedClaims(body, [reviewText, ...voice.grounding.sources], {
+      properNouns: voice.grounding.proper_nouns,
+    });
+    for (const claim of claims) {
+      violations.push({
+        code: "UNGROUNDED_FACT",
+        section: "4.3",
+        severity: "hard",
+        message: "Reply states a name, number or date that is in neither the review nor the fact sheet.",
+        match: claim,
+      });
+    }
+
+    const never = findNeverMentionHits(body, voice.grounding.never_mention ?? []);
+    for (const term of never) {
+      violations.push({
+        code: "NEVER_MENTION",
+        section: "4.3",
+        severity: "hard",
+        message: "Reply mentions something on the owner's never-mention list.",
+        match: term,
+      });
+    }
+  }
+
+  // §5.1 — phrase bans
+  for (const ban of CONTRACT_PHRASE_BANS) {
+    const m = lower.match(ban.re);
+    if (m) {
+      violations.push({
+        code: "BANNED_PHRASE",
+        section: "5.1",
+        severity: "hard",
+        message: `Banned phrase: "${ban.label}".`,
+        match: m[0],
+      });
+    }
+  }
+
+  // §5.2 — behavioural bans
+  const ai = lower.match(AI_MENTION_RE);
+  if (ai) {
+    violations.push({
+      code: "MENTIONS_AI",
+      section: "5.2",
+      severity: "hard",
+      message: "Reply mentions AI or automation.",
+      match: ai[0],
+    });
+  }
+
+  const comp = lower.match(COMPENSATION_RE);
+  if (comp) {
+    violations.push({
+      code: "OFFERS_COMPENSATION",
+      section: "5.2",
+      severity: "hard",
+      message: "Reply offers a refund, discount or compensation.",
+      match: comp[0],
+    });
+  }
+
+  if (stripEmojis(body) !== body) {
+    violations.push({ code: "EMOJI", section: "5.2", severity: "hard", message: "Reply contains emojis." });
+  }
+
+  if (!voice?.allow_exclamation && /[!¡]/.test(body)) {
+    violations.push({
+      code: "EXCLAMATION",
+      section: "5.2",
+      severity: "hard",
+      message: "Exclamation points are not enabled for this organization.",
+    });
+  }
+
+  if (reviewText) {
+    const run = longestCopiedRun(body, reviewText);
+    if (run.length >= QUOTE_RUN_LIMIT) {
+      violations.push({
+        code: "QUOTES_REVIEW",
+        section: "5.2",
+        severity: "soft",
+        message: `Reply repeats ${run.length} consecutive words from the review.`,
+        match: run.text,
+      });
+    }
+  }
+
+  // §5.3 — sensitive reviews (illness, injury, discrimination, legal threats)
+  if (voice?.sensitive) {
+    for (const admission of findLiabilityAdmissions(body)) {
+      violations.push({
+        code: "ADMITS_LIABILITY",
+        section: "5.3",
+        severity: "hard",
+        message: "Reply to a sensitive review admits fault or liability.",
+        match: admission,
+      });
+    }
+  }
+
+  // §2 — speaker perspective. Owners naturally say "we" about their team, so
+  // the owner check only fires when the reply never speaks as "I".
+  if (voice?.reply_as) {
+    const singular = voice.reply_as === "owner" || voice.reply_as === "manager";
+    const firstPerson = lower.match(/\b(i|i'm|i've|i'd|i'll|my|me)\b/);
+    const plural = lower.match(/\b(we|we're|we've|we'd|we'll|our|us)\b/);
+    const wrong = singular ? (firstPerson ? null : plural) : firstPerson;
+    if (wrong) {
+      violations.push({
+        code: "WRONG_PERSPECTIVE",
+        section: "2",
+        severity: "soft",
+        message: singular
+          ? 'Organization replies as the owner ("I") but the reply only uses "we".'
+          : 'Organization replies as the business ("we") but the reply uses "I".',
+        match: wrong[0],
+      });
+    }
+  }
+
+  const hard = violations.filter((v) => v.severity === "hard").length;
+
+  return {
+    contract_version: PROMPT_CONTRACT_VERSION,
+    ok: hard === 0,
+    hard,
+    soft: violations.length - hard,
+    violations,
+  };
+}
+
+/** One-paragraph instruction listing hard violations, for a corrective regeneration. */
+export function contractFixInstruction(validation: ContractValidation) {
+  const lines = validation.violations
+    .filter((v) => v.severity === "hard")
+    .map((v) => `- (§${v.section}) ${v.message}${v.match ? ` Found: "${v.match}".` : ""}`);
+  if (lines.length === 0) return "";
+  return `A previous draft broke these rules. Write a new reply that avoids all of them:\n${lines.join("\n")}`;
+}
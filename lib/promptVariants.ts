@@ -0,0 +1,280 @@
+// lib/promptVariants.ts
+//
+// Prompt variant registry and A/B assignment. PROMPT_VERSION stays the code
+// baseline ("control"); a variant is a row in prompt_variants that changes
+// what can be changed without a deploy:
+//   system_prompt       replaces buildSystemPrompt's output
+//   scaffold            false drops the STRUCTURAL SCAFFOLD block
+//   extra_bans          appended to the banned-phrase list in the prompt
+//   post_clean_disable  post-clean stages switched off for this variant
+//
+// Assignment (assignPromptVariant): a variant that lists the organization in
+// organization_ids wins; otherwise each review falls into a stable 0–99 bucket
+// and variants take traffic_percent slices of it in id order. Everything else
+// is control. Bucketing per review keeps redrafts of a review on one variant
+// while an organization still sees both arms, so its own copy/post rates can
+// be compared (buildVariantReport).
+//
+// A variant is only served while base_version matches PROMPT_VERSION — its
+// system prompt was written against that text, and the audit fingerprint must
+// identify exactly what was sent.
+
+import "server-only";
+
+import crypto from "crypto";
+import type { OrgContext } from "@/lib/orgServer";
+import { parsePostCleanStageIds, type PostCleanStageId } from "@/lib/draftPostClean";
+import { PROMPT_VERSION } from "@/lib/draftPrompt";
+import { supabaseServer } from "@/lib/supabaseServer";
+
+export const CONTROL_VARIANT_ID = "control";
+
+export type PromptVariant = {
+  id: string;
+  label: string;
+  base_version: string;
+  system_prompt: string | null;
+  scaffold: boolean;
+  extra_bans: string[];
+  post_clean_disable: PostCleanStageId[];
+  traffic_percent: number;
+  organization_ids: string[];
+  active: boolean;
+};
+
+export type PromptVariantAssignment = {
+  // CONTROL_VARIANT_ID when no variant applies
+  variant_id: string;
+  variant: PromptVariant | null;
+  reason: "pinned" | "percentage" | "control";
+};
+
+const CONTROL: PromptVariantAssignment = { variant_id: CONTROL_VARIANT_ID, variant: null, reason: "control" };
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+function cleanString(v: unknown, maxLen: number) {
+  if (typeof v !== "string") return "";
+  return v.trim().slice(0, maxLen);
+}
+
+function cleanStringList(v: unknown, maxLen: number) {
+  if (!Array.isArray(v)) return [];
+  return v.map((x) => cleanString(x, maxLen)).filter(Boolean);
+}
+
+/** Sanitizes a prompt_variants row. null when it has no usable id. */
+export function normalizePromptVariant(row: unknown): PromptVariant | null {
+  const r = (row ?? {}) as Record<string, unknown>;
+  const id = cleanString(r.id, 60);
+  if (!id || id === CONTROL_VARIANT_ID) return null;
+
+  const traffic = Number(r.traffic_percent);
+
+  return {
+    id,
+    label: cleanString(r.label, 120) || id,
+    base_version: cleanString(r.base_version, 40),
+    system_prompt: cleanString(r.system_prompt, 12000) || null,
+    scaffold: r.scaffold !== false,
+    extra_bans: cleanStringList(r.extra_bans, 80).slice(0, 40),
+    post_clean_disable: parsePostCleanStageIds(r.post_clean_disable),
+    traffic_percent: Number.isFinite(traffic) ? Math.min(Math.max(Math.round(traffic), 0), 100) : 0,
+    organization_ids: cleanStringList(r.organization_ids, 80),
+    active: r.active === true,
+  };
+}
+
+/**
+ * Active variants for the current PROMPT_VERSION. The registry is global, so
+ * it's read with the service-role client. Best-effort: empty (all control)
+ * when the table is missing.
+ */
+export async function loadPromptVariants(): Promise<PromptVariant[]> {
+  try {
+    const { data, error } = await supabaseServer()
+      .from("prompt_variants")
+      .select("id, label, base_version, system_prompt, scaffold, extra_bans, post_clean_disable, traffic_percent, organization_ids, active")
+      .eq("active", true)
+      .order("id", { ascending: true });
+
+    if (error || !data) return [];
+
+    return data
+      .map(normalizePromptVariant)
+      .filter((v): v is PromptVariant => {
+        if (!v) return false;
+        if (v.base_version !== PROMPT_VERSION) {
+          console.warn(`prompt variant ${v.id} targets ${v.base_version || "no version"}, not ${PROMPT_VERSION}; skipped`);
+          return false;
+        }
+        return true;
+      });
+  } catch {
+    return [];
+  }
+}
+
+// ─── Assignment ───────────────────────────────────────────────────────────────
+
+/** Stable 0–99 bucket for a key. */
+export function promptBucket(key: string) {
+  return crypto.createHash("sha256").update(key, "utf8").digest().readUInt32BE(0) % 100;
+}
+
+export function assignPromptVariant(
+  variants: PromptVariant[],
+  params: { organizationId: string; bucketKey: string }
+): PromptVariantAssignment {
+  const active = variants.filter((v) => v.active);
+
+  const pinned = active.find((v) => v.organization_ids.includes(params.organizationId));
+  if (pinned) return { variant_id: pinned.id, variant: pinned, reason: "pinned" };
+
+  const bucket = promptBucket(params.bucketKey);
+  let floor = 0;
+  for (const v of active) {
+    if (v.traffic_percent <= 0) continue;
+    const ceiling = Math.min(floor + v.traffic_percent, 100);
+    if (bucket >= floor && bucket < ceiling) return { variant_id: v.id, variant: v, reason: "percentage" };
+    floor = ceiling;
+  }
+
+  return CONTROL;
+}
+
+/** Loads the registry and assigns. `bucketKey` should be stable per review (the review hash). */
+export async function resolvePromptVariant(params: {
+  organizationId: string;
+  bucketKey: string;
+}): Promise<PromptVariantAssignment> {
+  const variants = await loadPromptVariants();
+  if (variants.length === 0) return CONTROL;
+  return assignPromptVariant(variants, params);
+}
+
+// ─── Comparison report ────────────────────────────────────────────────────────
+
+export type PromptVariantReportRow = {
+  variant_id: string;
+  drafts: number;
+  // Distinct reviews whose latest draft came from this variant
+  reviews: number;
+  copied: number;
+  posted: number;
+  copy_rate: number | null;
+  post_rate: number | null;
+};
+
+type AuditRow = { review_id: string | null; prompt_variant: string | null; created_at: string | null };
+type EventRow = { review_id: string | null; event_type: string | null };
+
+function rate(n: number, d: number) {
+  return d > 0 ? Math.round((n / d) * 1000) / 1000 : null;
+}
+
+/**
+ * Copy / post rates per variant. A review is attributed to the variant of its
+ * latest draft; "copied" counts reviews with a copied or posted event.
+ */
+export function buildVariantReport(audits: AuditRow[], events: EventRow[]): PromptVariantReportRow[] {
+  const drafts = new Map<string, number>();
+  const latest = new Map<string, { variant: string; at: string }>();
+
+  for (const a of audits) {
+    const variant = a.prompt_variant || CONTROL_VARIANT_ID;
+    drafts.set(variant, (drafts.get(variant) ?? 0) + 1);
+    if (!a.review_id) continue;
+    const at = a.created_at ?? "";
+    const prev = latest.get(a.review_id);
+    if (!prev || at >= prev.at) latest.set(a.review_id, { variant, at });
+  }
+
+  const copiedReviews = new Set<string>();
+  const postedReviews = new Set<string>();
+  for (const e of events) {
+    if (!e.review_id) continue;
+    if (e.event_type === "copied" || e.event_type === "posted") copiedReviews.add(e.review_id);
+    if (e.event_type === "posted") postedReviews.add(e.review_id);
+  }
+
+  const rows = new Map<string, PromptVariantReportRow>();
+  const row = (variant_id: string) => {
+    let r = rows.get(variant_id);
+    if (!r) {
+      r = { variant_id, drafts: drafts.get(variant_id) ?? 0, reviews: 0, copied: 0, posted: 0, copy_rate: null, post_rate: null };
+      rows.set(variant_id, r);
+    }
+    return r;
+  };
+
+  for (const variant of drafts.keys()) row(variant);
+  for (const [reviewId, { variant }] of latest) {
+    const r = row(variant);
+    r.reviews += 1;
+    if (copiedReviews.has(reviewId)) r.copied += 1;
+    if (postedReviews.has(reviewId)) r.posted += 1;
+  }
+
+  return Array.from(rows.values())
+    .map((r) => ({ ...r, copy_rate: rate(r.copied, r.reviews), post_rate: rate(r.posted, r.reviews) }))
+    .sort((a, b) => (a.variant_id === CONTROL_VARIANT_ID ? -1 : b.variant_id === CONTROL_VARIANT_ID ? 1 : a.variant_id.localeCompare(b.variant_id)));
+}
+
+// Rows per request when reading report inputs (PostgREST caps a single select)
+const REPORT_PAGE_SIZE = 1000;
+
+/** Every row of a paged select, in the order the query sets. */
+async function loadAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<{ rows: T[]; error: string | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += REPORT_PAGE_SIZE) {
+    const { data, error } = await page(from, from + REPORT_PAGE_SIZE - 1);
+    if (error) return { rows: [], error: error.message };
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < REPORT_PAGE_SIZE) return { rows, error: null };
+  }
+}
+
+/** Report for one organization over the last `days` days (draft_audit_logs + review_reply_events). */
+export async function loadVariantReport(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  days: number;
+}): Promise<{ rows: PromptVariantReportRow[]; since: string; error: string | null }> {
+  const { supabase, organizationId } = params;
+  const since = new Date(Date.now() - params.days * 24 * 60 * 60 * 1000).toISOString();
+
+  // Stable order (created_at, then id) so pages neither overlap nor skip rows
+  const audits = await loadAllPages<AuditRow>((from, to) =>
+    supabase
+      .from("draft_audit_logs")
+      .select("review_id, prompt_variant, created_at")
+      .eq("organization_id", organizationId)
+      .gte("created_at", since)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+  if (audits.error) return { rows: [], since, error: audits.error };
+
+  const events = await loadAllPages<EventRow>((from, to) =>
+    supabase
+      .from("review_reply_events")
+      .select("review_id, event_type")
+      .eq("organization_id", organizationId)
+      .in("event_type", ["copied", "posted"])
+      .gte("created_at", since)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+  if (events.error) return { rows: [], since, error: events.error };
+
+  return {
+    rows: buildVariantReport(audits.rows, events.rows),
+    since,
+    error: null,
+  };
+}
@@ -0,0 +1,213 @@
+// lib/replyDiff.ts
+//
+// Compares the reply the model drafted with the reply the owner actually
+// copied / posted. Stored per reply (review_replies.edit_diff) so edits can be
+// aggregated across an organization: phrases owners keep deleting are good
+// candidates for the voice profile's things_to_avoid list.
+
+import { splitSentences } from "@/lib/draftPostClean";
+
+export type ReplyEditDiff = {
+  // Word-level Levenshtein distance and distance / longer length (0 = untouched, 1 = rewritten)
+  edit_distance: number;
+  edit_ratio: number;
+  words_before: number;
+  words_after: number;
+  sentences: {
+    kept: number;
+    removed: string[];
+    added: string[];
+    modified: Array<{ before: string; after: string }>;
+  };
+  // Word n-grams (2–4) present in the draft but gone from the final text
+  removed_phrases: string[];
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "for", "with", "is",
+  "was", "were", "are", "be", "it", "this", "that", "we", "i", "you", "your", "our", "my",
+  "so", "as", "by", "from", "us", "me",
+]);
+
+function words(text: string) {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function normSentence(s: string) {
+  return words(s).join(" ");
+}
+
+function levenshtein(a: string[], b: string[]) {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function overlap(a: string, b: string) {
+  const x = new Set(words(a));
+  const y = new Set(words(b));
+  if (x.size === 0 || y.size === 0) return 0;
+  let inter = 0;
+  for (const w of x) if (y.has(w)) inter += 1;
+  return inter / (x.size + y.size - inter);
+}
+
+function ngrams(tokens: string[], min = 2, max = 4) {
+  const out: string[] = [];
+  for (let n = min; n <= max; n++) {
+    for (let i = 0; i + n <= tokens.length; i++) {
+      const gram = tokens.slice(i, i + n);
+      // Skip grams made only of glue words ("of the", "and we")
+      if (gram.every((w) => STOPWORDS.has(w))) continue;
+      out.push(gram.join(" "));
+    }
+  }
+  return out;
+}
+
+// Sentences that changed but still overlap this much count as "modified", not removed + added.
+const MODIFIED_OVERLAP = 0.4;
+
+export function computeReplyEditDiff(original: string, final: string): ReplyEditDiff {
+  const before = words(original);
+  const after = words(final);
+  const distance = levenshtein(before, after);
+
+  const sBefore = splitSentences(original);
+  const sAfter = splitSentences(final);
+  const afterNorm = new Map<string, number>();
+  sAfter.forEach((s) => afterNorm.set(normSentence(s), (afterNorm.get(normSentence(s)) ?? 0) + 1));
+
+  let kept = 0;
+  const removed: string[] = [];
+  for (const s of sBefore) {
+    const key = normSentence(s);
+    const left = afterNorm.get(key) ?? 0;
+    if (left > 0) {
+      kept += 1;
+      afterNorm.set(key, left - 1);
+    } else {
+      removed.push(s);
+    }
+  }
+
+  const added = sAfter.filter((s) => {
+    const key = normSentence(s);
+    const left = afterNorm.get(key) ?? 0;
+    if (left > 0) {
+      afterNorm.set(key, left - 1);
+      return true;
+    }
+    return false;
+  });
+
+  // Pair each removed sentence with its closest added sentence, if close enough.
+  const modified: Array<{ before: string; after: string }> = [];
+  const unpairedAdded = [...added];
+  const unpairedRemoved: string[] = [];
+  for (const r of removed) {
+    let bestIdx = -1;
+    let bestScore = 0;
+    unpairedAdded.forEach((a, i) => {
+      const score = overlap(r, a);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIdx = i;
+      }
+    });
+    if (bestIdx >= 0 && bestScore >= MODIFIED_OVERLAP) {
+      modified.push({ before: r, after: unpairedAdded[bestIdx] });
+      unpairedAdded.splice(bestIdx, 1);
+    } else {
+      unpairedRemoved.push(r);
+    }
+  }
+
+  // n-grams are taken per sentence so they never straddle a sentence break.
+  const finalText = ` ${after.join(" ")} `;
+  const removedPhrases = Array.from(
+    new Set(sBefore.flatMap((s) => ngrams(words(s))).filter((g) => !finalText.includes(` ${g} `)))
+  );
+
+  const longest = Math.max(before.length, after.length);
+
+  return {
+    edit_distance: distance,
+    edit_ratio: longest === 0 ? 0 : Math.round((distance / longest) * 1000) / 1000,
+    words_before: before.length,
+    words_after: after.length,
+    sentences: { kept, removed: unpairedRemoved, added: unpairedAdded, modified },
+    removed_phrases: removedPhrases.slice(0, 60),
+  };
+}
+
+/**
+ * Most frequently removed phrases across many diffs (one count per reply).
+ * Shorter phrases are dropped when a longer phrase containing them has the same count.
+ */
+export function aggregateRemovedPhrases(
+  diffs: Array<Pick<ReplyEditDiff, "removed_phrases">>,
+  opts?: { minCount?: number; limit?: number }
+): Array<{ phrase: string; count: number }> {
+  const minCount = opts?.minCount ?? 2;
+  const limit = opts?.limit ?? 25;
+
+  const counts = new Map<string, number>();
+  for (const d of diffs) {
+    for (const p of new Set(d.removed_phrases ?? [])) counts.set(p, (counts.get(p) ?? 0) + 1);
+  }
+
+  const frequent = Array.from(counts.entries())
+    .filter(([, c]) => c >= minCount)
+    .sort((a, b) => b[1] - a[1] || b[0].split(" ").length - a[0].split(" ").length || a[0].localeCompare(b[0]));
+
+  const kept: Array<{ phrase: string; count: number }> = [];
+  for (const [phrase, count] of frequent) {
+    const subsumed = kept.some((k) => k.count === count && ` ${k.phrase} `.includes(` ${phrase} `));
+    if (!subsumed) kept.push({ phrase, count });
+  }
+
+  return mergeOverlapping(kept).slice(0, limit);
+}
+
+// Stitch overlapping grams with the same count back into one phrase:
+// "we hope to welcome" + "hope to welcome you" → "we hope to welcome you".
+function mergeOverlapping(items: Array<{ phrase: string; count: number }>) {
+  const out = items.map((x) => ({ ...x }));
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    outer: for (let i = 0; i < out.length; i++) {
+      for (let j = 0; j < out.length; j++) {
+        if (i === j || out[i].count !== out[j].count) continue;
+        const a = out[i].phrase.split(" ");
+        const b = out[j].phrase.split(" ");
+        for (let k = Math.min(a.length, b.length) - 1; k >= 2; k--) {
+          if (a.slice(-k).join(" ") === b.slice(0, k).join(" ")) {
+            out[i] = { phrase: [...a, ...b.slice(k)].join(" "), count: out[i].count };
+            out.splice(j, 1);
+            changed = true;
+            break outer;
+          }
+        }
+      }
+    }
+  }
+
+  return out.sort((x, y) => y.count - x.count || x.phrase.localeCompare(y.phrase));
+}
@@ -0,0 +1,179 @@
+// lib/replyLanguage.ts
+//
+// Reply language policy. Drafts are written in the owner's language
+// (organizations.owner_language) and the copy-ready reply is translated into
+// the reply language decided here, in this order:
+//
+//   1. client     — the user explicitly picked a language for this reply
+//   2. location   — per-location override (businesses.reply_language)
+//   3. org_fixed  — org_preferences.reply_language_mode = "always" with
+//                   reply_language_fixed
+//   4. review     — "match_review" (default): the review's detected_language,
+//                   or the language the client detected when it isn't stored
+//   5. owner      — the owner language when nothing else is known
+//
+// The decision carries its source and a short reason so routes can expose
+// why a language was chosen. resolveReplyLanguage is pure (also used by the
+// anonymous /try endpoint); loadReplyLanguageInputs reads the stored settings.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export type ReplyLanguageMode = "match_review" | "always";
+
+export type ReplyLanguageSource = "client" | "location" | "org_fixed" | "review" | "owner";
+
+export type ReplyLanguagePreferences = {
+  mode: ReplyLanguageMode;
+  fixed_language: string | null;
+};
+
+export type ReplyLanguageInputs = {
+  owner_language: string;
+  preferences: ReplyLanguagePreferences;
+  location_language: string | null;
+  detected_language: string | null;
+};
+
+export type ReplyLanguageDecision = {
+  owner_language: string;
+  reply_language: string;
+  source: ReplyLanguageSource;
+  reason: string;
+};
+
+export const DEFAULT_REPLY_LANGUAGE_PREFERENCES: ReplyLanguagePreferences = {
+  mode: "match_review",
+  fixed_language: null,
+};
+
+/** Lowercased BCP 47-ish tag ("es", "pt-br"), or null when empty or malformed. */
+export function normalizeLanguageTag(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const tag = v.trim().toLowerCase().replace(/_/g, "-");
+  if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})?$/.test(tag)) return null;
+  return tag.slice(0, 12);
+}
+
+export function parseReplyLanguagePreferences(row: unknown): ReplyLanguagePreferences {
+  const r = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+  const fixed = normalizeLanguageTag(r.reply_language_fixed);
+  return {
+    mode: r.reply_language_mode === "always" && fixed ? "always" : "match_review",
+    fixed_language: fixed,
+  };
+}
+
+/**
+ * Picks the reply language. `client_language` only wins when
+ * `client_explicit` is set; otherwise it is treated as a detection hint for a
+ * review whose language isn't stored.
+ */
+export function resolveReplyLanguage(params: {
+  inputs: ReplyLanguageInputs;
+  client_language?: string | null;
+  client_explicit?: boolean;
+}): ReplyLanguageDecision {
+  const { inputs } = params;
+  const owner_language = normalizeLanguageTag(inputs.owner_language) ?? "en";
+  const client = normalizeLanguageTag(params.client_language);
+  const decide = (reply_language: string, source: ReplyLanguageSource, reason: string): ReplyLanguageDecision => ({
+    owner_language,
+    reply_language,
+    source,
+    reason,
+  });
+
+  if (client && params.client_explicit) {
+    return decide(client, "client", "Language chosen for this reply.");
+  }
+
+  const location = normalizeLanguageTag(inputs.location_language);
+  if (location) {
+    return decide(location, "location", "This location always replies in this language.");
+  }
+
+  if (inputs.preferences.mode === "always" && inputs.preferences.fixed_language) {
+    return decide(inputs.preferences.fixed_language, "org_fixed", "Your settings reply in one language for every review.");
+  }
+
+  const detected = normalizeLanguageTag(inputs.detected_language) ?? client;
+  if (detected) {
+    return decide(detected, "review", "Matches the language the review was written in.");
+  }
+
+  return decide(owner_language, "owner", "Review language unknown — using your owner language.");
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Stored inputs for one review: owner language, org preferences, the
+ * location override and the review's detected language. Each lookup is
+ * best-effort — a missing row or column falls back to the defaults.
+ */
+export async function loadReplyLanguageInputs(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  businessId?: string | null;
+  reviewId?: string | null;
+}): Promise<ReplyLanguageInputs> {
+  const { supabase, organizationId, businessId, reviewId } = params;
+  const inputs: ReplyLanguageInputs = {
+    owner_language: "en",
+    preferences: DEFAULT_REPLY_LANGUAGE_PREFERENCES,
+    location_language: null,
+    detected_language: null,
+  };
+
+  try {
+    const { data } = await supabase
+      .from("organizations")
+      .select("owner_language")
+      .eq("id", organizationId)
+      .maybeSingle();
+    inputs.owner_language = normalizeLanguageTag(data?.owner_language) ?? "en";
+  } catch {
+    // keep default
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("org_preferences")
+      .select("reply_language_mode, reply_language_fixed")
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+    if (!error && data) inputs.preferences = parseReplyLanguagePreferences(data);
+  } catch {
+    // keep default
+  }
+
+  if (businessId) {
+    try {
+      const { data, error } = await supabase
+        .from("businesses")
+        .select("reply_language")
+        .eq("organization_id", organizationId)
+        .eq("id", businessId)
+        .maybeSingle();
+      if (!error && data) inputs.location_language = normalizeLanguageTag(data.reply_language);
+    } catch {
+      // Column does not exist yet — no location override
+    }
+  }
+
+  if (reviewId) {
+    try {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("detected_language")
+        .eq("organization_id", organizationId)
+        .eq("id", reviewId)
+        .maybeSingle();
+      if (!error && data) inputs.detected_language = normalizeLanguageTag(data.detected_language);
+    } catch {
+      // keep default
+    }
+  }
+
+  return inputs;
+}
@@ -0,0 +1,143 @@
+// lib/replyRevisions.ts
+//
+// Revision history for review_replies records. Every targeted revision of a
+// draft (POST /api/reviews/revise-reply) stores the instruction, the text
+// before and after, and any contract violations left after the retry.
+//
+// review_reply_revisions: organization_id, reply_id, revision_number,
+// instruction, previous_text, revised_text, prompt_version,
+// contract_violations jsonb, created_by, created_at.
+
+import type { OrgContext } from "@/lib/orgServer";
+import type { ContractViolation } from "@/lib/promptContract";
+
+export type ReplyRevision = {
+  id: string;
+  reply_id: string;
+  revision_number: number;
+  instruction: string;
+  previous_text: string;
+  revised_text: string;
+  prompt_version: string | null;
+  contract_violations: ContractViolation[];
+  created_by: string | null;
+  created_at: string | null;
+};
+
+export const MAX_REVISION_INSTRUCTION_LEN = 300;
+
+const REVISION_COLUMNS =
+  "id, reply_id, revision_number, instruction, previous_text, revised_text, prompt_version, contract_violations, created_by, created_at";
+
+type RevisionRow = {
+  id: string;
+  reply_id: string;
+  revision_number: number | null;
+  instruction: string | null;
+  previous_text: string | null;
+  revised_text: string | null;
+  prompt_version: string | null;
+  contract_violations: unknown;
+  created_by: string | null;
+  created_at: string | null;
+};
+
+function toRevision(r: RevisionRow): ReplyRevision {
+  return {
+    id: String(r.id),
+    reply_id: String(r.reply_id),
+    revision_number: typeof r.revision_number === "number" ? r.revision_number : 0,
+    instruction: r.instruction ?? "",
+    previous_text: r.previous_text ?? "",
+    revised_text: r.revised_text ?? "",
+    prompt_version: r.prompt_version ?? null,
+    contract_violations: Array.isArray(r.contract_violations) ? (r.contract_violations as ContractViolation[]) : [],
+    created_by: r.created_by ?? null,
+    created_at: r.created_at ?? null,
+  };
+}
+
+/** Revisions of one reply record, oldest first. Empty on any error. */
+export async function loadReplyRevisions(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  replyId: string;
+}): Promise<ReplyRevision[]> {
+  const { supabase, organizationId, replyId } = params;
+  try {
+    const { data, error } = await supabase
+      .from("review_reply_revisions")
+      .select(REVISION_COLUMNS)
+      .eq("organization_id", organizationId)
+      .eq("reply_id", replyId)
+      .order("revision_number", { ascending: true })
+      .limit(100);
+
+    if (error || !data) return [];
+    return (data as RevisionRow[]).map(toRevision);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Appends a revision and, while the record is still a draft, makes the
+ * revised text its draft_text, so the edit diff on copy / post compares
+ * against the latest model text. A copied or posted record keeps the
+ * draft_text its stored edit diff was computed from.
+ * Best-effort: returns the error instead of throwing.
+ */
+export async function recordReplyRevision(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  replyId: string;
+  userId: string | null;
+  instruction: string;
+  previousText: string;
+  revisedText: string;
+  promptVersion: string;
+  contractViolations: ContractViolation[];
+}): Promise<{ revision: ReplyRevision | null; error: string | null }> {
+  const { supabase, organizationId, replyId } = params;
+  try {
+    const { data: last } = await supabase
+      .from("review_reply_revisions")
+      .select("revision_number")
+      .eq("organization_id", organizationId)
+      .eq("reply_id", replyId)
+      .order("revision_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const revisionNumber = (typeof last?.revision_number === "number" ? last.revision_number : 0) + 1;
+
+    const { data, error } = await supabase
+      .from("review_reply_revisions")
+      .insert({
+        organization_id: organizationId,
+        reply_id: replyId,
+        revision_number: revisionNumber,
+        instruction: params.instruction,
+        previous_text: params.previousText,
+        revised_text: params.revisedText,
+        prompt_version: params.promptVersion,
+        contract_violations: params.contractViolations,
+        created_by: params.userId,
+      })
+      .select(REVISION_COLUMNS)
+      .single();
+
+    if (error || !data) return { revision: null, error: error?.message ?? "revision not saved" };
+
+    const { error: updateErr } = await supabase
+      .from("review_replies")
+      .update({ draft_text: params.revisedText })
+      .eq("id", replyId)
+      .eq("organization_id", organizationId)
+      .eq("status", "draft");
+
+    return { revision: toRevision(data as RevisionRow), error: updateErr ? updateErr.message : null };
+  } catch (e: unknown) {
+    return { revision: null, error: e instanceof Error ? e.message : "revision not saved" };
+  }
+}
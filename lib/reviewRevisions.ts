@@ -0,0 +1,200 @@
+// lib/reviewRevisions.ts
+//
+// Edited and deleted Google reviews. The GBP sync (lib/gbpSync.ts) upserts on
+// organization_id,source,google_review_id, so before a stored review is
+// overwritten its previous rating / text are kept here; the dashboard shows
+// "rating changed from 2★ to 4★" from the oldest kept rating.
+//
+// A review missing from a complete full resync of its location was removed
+// on Google: reviews.removed_at (optional column) is set, and cleared again
+// if a later full resync finds the review again.
+//
+// review_revisions: id, organization_id, review_id, previous_rating,
+// previous_text, previous_review_date, rating, review_text, created_at.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+// A full resync that would mark more than this share of a location's reviews
+// as removed is treated as a bad response from Google, not mass deletion.
+export const MAX_REMOVED_SHARE = 0.5;
+
+export type StoredReviewSnapshot = {
+  id: string;
+  rating: number | null;
+  review_text: string | null;
+  review_date: string | null;
+};
+
+export type ReviewRevisionInput = {
+  review_id: string;
+  previous_rating: number | null;
+  previous_text: string | null;
+  previous_review_date: string | null;
+  rating: number | null;
+  review_text: string | null;
+};
+
+export type ReviewChangeSummary = {
+  // Rating before the first recorded edit
+  original_rating: number | null;
+  revision_count: number;
+  last_changed_at: string | null;
+};
+
+function normText(v: string | null | undefined) {
+  return (v ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** The revision to record when an incoming review differs from the stored one, else null. */
+export function reviewRevisionFor(
+  stored: StoredReviewSnapshot,
+  incoming: { rating: number | null; review_text: string | null }
+): ReviewRevisionInput | null {
+  const ratingChanged = (stored.rating ?? 0) !== (incoming.rating ?? 0);
+  const textChanged = normText(stored.review_text) !== normText(incoming.review_text);
+  if (!ratingChanged && !textChanged) return null;
+
+  return {
+    review_id: stored.id,
+    previous_rating: stored.rating,
+    previous_text: stored.review_text,
+    previous_review_date: stored.review_date,
+    rating: incoming.rating,
+    review_text: incoming.review_text,
+  };
+}
+
+/** Best-effort: appends revisions. Returns the error instead of throwing. */
+export async function recordReviewRevisions(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  revisions: ReviewRevisionInput[];
+}): Promise<{ recorded: number; error: string | null }> {
+  const { supabase, organizationId, revisions } = params;
+  if (revisions.length === 0) return { recorded: 0, error: null };
+
+  try {
+    const { error } = await supabase.from("review_revisions").insert(
+      revisions.map((r) => ({
+        organization_id: organizationId,
+        review_id: r.review_id,
+        previous_rating: r.previous_rating,
+        previous_text: r.previous_text,
+        previous_review_date: r.previous_review_date,
+        rating: r.rating,
+        review_text: r.review_text,
+      }))
+    );
+    return error ? { recorded: 0, error: error.message } : { recorded: revisions.length, error: null };
+  } catch (e: unknown) {
+    return { recorded: 0, error: e instanceof Error ? e.message : "revisions not saved" };
+  }
+}
+
+/**
+ * Best-effort: after a complete full resync of a location, marks its stored
+ * GBP reviews that Google no longer returned as removed, and clears the mark
+ * on ones that came back.
+ */
+export async function reconcileRemovedReviews(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  googleLocationId: string;
+  seenReviewIds: Set<string>;
+}): Promise<{ removed: number; restored: number; error: string | null }> {
+  const { supabase, organizationId, googleLocationId, seenReviewIds } = params;
+  const out = { removed: 0, restored: 0, error: null as string | null };
+
+  try {
+    const { data, error } = await supabase
+      .from("reviews")
+      .select("id, google_review_id, removed_at")
+      .eq("organization_id", organizationId)
+      .eq("source", "google_gbp")
+      .eq("google_location_id", googleLocationId);
+    if (error) return { ...out, error: error.message };
+
+    const rows = data ?? [];
+    const missing = rows.filter((r) => !r.removed_at && !seenReviewIds.has(String(r.google_review_id)));
+    const back = rows.filter((r) => r.removed_at && seenReviewIds.has(String(r.google_review_id)));
+
+    // Reviews Google returned again are restored whatever the guard below decides
+    if (back.length > 0) {
+      const { error: backErr } = await supabase
+        .from("reviews")
+        .update({ removed_at: null })
+        .eq("organization_id", organizationId)
+        .in(
+          "id",
+          back.map((r) => r.id)
+        );
+      if (backErr) out.error = backErr.message;
+      else out.restored = back.length;
+    }
+
+    if (missing.length > 0 && missing.length > rows.length * MAX_REMOVED_SHARE) {
+      return {
+        ...out,
+        error: `${missing.length} of ${rows.length} reviews missing from Google — not marked removed`,
+      };
+    }
+
+    if (missing.length > 0) {
+      const { error: rmErr } = await supabase
+        .from("reviews")
+        .update({ removed_at: new Date().toISOString() })
+        .eq("organization_id", organizationId)
+        .in(
+          "id",
+          missing.map((r) => r.id)
+        );
+      if (rmErr) out.error = rmErr.message;
+      else out.removed = missing.length;
+    }
+  } catch (e: unknown) {
+    out.error = e instanceof Error ? e.message : String(e);
+  }
+
+  return out;
+}
+
+/** Per review: how its rating / text changed on Google. Empty on any error. */
+export async function loadReviewChangeSummaries(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  reviewIds: string[];
+}): Promise<Map<string, ReviewChangeSummary>> {
+  const { supabase, organizationId, reviewIds } = params;
+  const summaries = new Map<string, ReviewChangeSummary>();
+  if (reviewIds.length === 0) return summaries;
+
+  try {
+    const { data, error } = await supabase
+      .from("review_revisions")
+      .select("review_id, previous_rating, created_at")
+      .eq("organization_id", organizationId)
+      .in("review_id", reviewIds)
+      .order("created_at", { ascending: true });
+    if (error || !data) return summaries;
+
+    for (const r of data) {
+      const id = String(r.review_id);
+      const current = summaries.get(id);
+      if (current) {
+        current.revision_count += 1;
+        current.last_changed_at = r.created_at ?? current.last_changed_at;
+        continue;
+      }
+      // Oldest revision holds the rating the guest started with
+      summaries.set(id, {
+        original_rating: typeof r.previous_rating === "number" ? r.previous_rating : null,
+        revision_count: 1,
+        last_changed_at: r.created_at ?? null,
+      });
+    }
+  } catch {
+    // Table does not exist yet
+  }
+
+  return summaries;
+}
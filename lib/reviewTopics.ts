@@ -0,0 +1,315 @@
+// lib/reviewTopics.ts
+//
+// Multi-label aspect classifier for reviews: which topics the reviewer raised
+// (food, service speed, staff attitude, price, cleanliness, noise, booking) and
+// how they felt about each one.
+//
+// Lexicon-based and deterministic, with English, Spanish and Portuguese terms
+// matched together (reviews mix languages, and detected_language is often
+// missing). Text is split into clauses at sentence ends and "but"-style
+// connectors so "the food was great but the wait was long" scores each aspect
+// on its own clause.
+//
+// Results are stored on reviews.topics / reviews.topic_tags by the review
+// syncs (reviewTopicColumns in their upsert rows), filtered on topic_tags by
+// the reviews list (topicTagsMatching) and passed to buildPrompt.
+// TOPIC_CLASSIFIER_VERSION changes whenever a lexicon or rule below changes.
+
+export const TOPIC_CLASSIFIER_VERSION = "topics-v1";
+
+export type ReviewTopicId =
+  | "food"
+  | "service_speed"
+  | "staff_attitude"
+  | "price"
+  | "cleanliness"
+  | "noise"
+  | "booking";
+
+export type AspectSentiment = "positive" | "negative" | "mixed" | "neutral";
+
+export type ReviewAspect = {
+  topic: ReviewTopicId;
+  sentiment: AspectSentiment;
+  mentions: number;
+  // Matched lexicon terms (first few), for debugging and prompt grounding
+  evidence: string[];
+};
+
+export type ReviewTopics = {
+  version: string;
+  aspects: ReviewAspect[];
+  // "topic:sentiment" strings — what reviews.topic_tags stores for filtering
+  tags: string[];
+};
+
+export const REVIEW_TOPIC_LABELS: Record<ReviewTopicId, string> = {
+  food: "Food & drink",
+  service_speed: "Service speed",
+  staff_attitude: "Staff attitude",
+  price: "Price",
+  cleanliness: "Cleanliness",
+  noise: "Noise",
+  booking: "Booking",
+};
+
+// ─── Lexicons ─────────────────────────────────────────────────────────────────
+// Terms are written without accents (text is folded the same way before
+// matching). A trailing "*" matches any word starting with the stem.
+// Polarity: terms that carry their own sentiment ("slow", "sucio") are listed
+// under pos / neg; the rest only mark the topic.
+
+type TopicLexicon = { terms: string[]; pos: string[]; neg: string[] };
+
+const TOPIC_LEXICONS: Record<ReviewTopicId, TopicLexicon> = {
+  food: {
+    terms: [
+      // en
+      "food", "dish", "dishes", "meal", "meals", "menu", "flavor", "flavour", "taste", "portion*", "dessert*",
+      "wine*", "coffee", "cocktail*", "drinks", "breakfast", "lunch", "dinner", "brunch",
+      // es
+      "comida", "plato*", "sabor*", "menu", "postre*", "vino*", "cafe", "trago*", "bebida*", "desayuno", "almuerzo", "cena",
+      // pt
+      "prato*", "cardapio", "sobremesa*", "vinho*", "bebida*", "cafe da manha", "almoco", "jantar",
+    ],
+    pos: ["delicious", "tasty", "flavorful", "yummy", "delicioso*", "deliciosa*", "sabroso*", "sabrosa*", "gostoso*", "gostosa*", "saboroso*"],
+    neg: [
+      "bland", "tasteless", "undercooked", "overcooked", "stale", "inedible", "cold food", "arrived cold", "came out cold",
+      "insipido*", "crudo*", "sin sabor", "comida fria", "llego frio", "sem sabor", "cru", "crua", "chegou frio",
+    ],
+  },
+  service_speed: {
+    terms: ["wait", "waited", "waiting", "service", "espera", "esperamos", "esperar", "esperando", "servicio", "servico"],
+    pos: ["quick", "quickly", "fast", "prompt", "promptly", "rapido*", "rapida*", "agil"],
+    neg: [
+      "slow", "slowly", "took forever", "took ages", "never came", "forgot",
+      "lento*", "lenta*", "demor*", "tardo", "tardaron", "tardamos", "nunca llego", "nunca chegou", "esquecer*", "olvidar*",
+    ],
+  },
+  staff_attitude: {
+    terms: [
+      "staff", "waiter", "waitress", "server", "servers", "host", "hostess", "bartender", "team", "manager", "owner", "attitude",
+      "personal", "mozo", "moza", "mesero*", "mesera*", "camarer*", "atencion", "dueno", "encargado",
+      "equipe", "funcionario*", "garcom", "garcons", "garconete", "atendimento", "atendente*", "gerente",
+    ],
+    pos: [
+      "friendly", "attentive", "welcoming", "helpful", "kind", "warm welcome", "polite",
+      "amable*", "atento*", "atenta*", "simpatic*", "cordial*", "atencios*", "educad*", "gentil*", "prestativ*",
+    ],
+    neg: [
+      "rude", "unfriendly", "dismissive", "condescending", "arrogant", "ignored", "unprofessional",
+      "grosero*", "grosera*", "maleducad*", "mal educad*", "antipatic*", "prepotente*", "ignoraron", "ignoraram", "grosso*", "grossa*",
+    ],
+  },
+  price: {
+    terms: ["price", "prices", "priced", "bill", "charged", "cost", "value", "precio*", "cuenta", "cobraron", "preco*", "conta", "cobraram", "valor"],
+    pos: ["affordable", "reasonable", "good value", "worth it", "worth the", "barato*", "barata*", "vale la pena", "vale a pena", "accesible*", "justo"],
+    neg: ["expensive", "overpriced", "pricey", "rip off", "ripoff", "overcharged", "caro", "caros", "cara", "caras", "carisim*", "carissim*", "abusivo*"],
+  },
+  cleanliness: {
+    terms: ["bathroom*", "restroom*", "toilet*", "hygiene", "bano", "banos", "higiene", "banheiro*"],
+    pos: ["clean", "spotless", "tidy", "limpio*", "limpia*", "impecable*", "limpo*", "limpa*", "impecave*"],
+    neg: ["dirty", "filthy", "sticky", "smelly", "gross", "sucio*", "sucia*", "asqueros*", "sujo*", "suja*", "nojent*"],
+  },
+  noise: {
+    terms: ["noise", "music", "ambience", "ambiance", "ruido", "musica", "ambiente", "barulho", "som"],
+    pos: ["quiet", "calm", "peaceful", "tranquil*", "silencios*"],
+    neg: ["noisy", "loud", "too loud", "couldn't hear", "could not hear", "deafening", "ruidos*", "barulhent*", "muy fuerte", "muito alto"],
+  },
+  booking: {
+    terms: ["reservation*", "booking", "booked", "reserve*", "reserva*", "reservacion*", "reservamos", "reservei"],
+    pos: ["easy to book", "confirmed"],
+    neg: ["double booked", "double-booked", "no record", "lost our", "cancelled", "canceled", "cancelaron", "cancelaram", "perdieron", "perderam"],
+  },
+};
+
+const GENERAL_POS = [
+  // en
+  "good", "great", "excellent", "amazing", "awesome", "lovely", "perfect", "fantastic", "wonderful", "best",
+  "loved", "love", "enjoyed", "nice", "superb", "outstanding", "recommend", "beautiful",
+  // es
+  "bueno", "buena", "buenos", "buenas", "buenisim*", "riquisim*", "excelente*", "increible*", "genial*", "perfect*", "rico", "rica",
+  "encanto", "encantaron", "recomiendo", "espectacular*", "hermoso*", "maravillos*",
+  // pt
+  "bom", "boa", "bons", "boas", "otimo*", "otima*", "incrive*", "perfeit*", "maravilhos*", "adorei", "amei", "recomendo",
+];
+
+const GENERAL_NEG = [
+  // en
+  "bad", "terrible", "awful", "horrible", "worst", "poor", "disappointing", "disappointed", "mediocre",
+  "never again", "unacceptable",
+  // es
+  "malo", "mala", "malos", "malas", "pesim*", "horrible*", "terrible*", "peor", "decepcion*", "nunca mas", "mediocre",
+  // pt
+  "ruim", "ruins", "pessim*", "horrive*", "terrive*", "pior", "decepcion*", "nunca mais",
+];
+
+const NEGATORS = new Set(["not", "never", "no", "wasnt", "werent", "isnt", "didnt", "dont", "nunca", "nao", "nem", "ni"]);
+
+// Clause breaks: sentence ends, commas, semicolons and contrastive connectors.
+const CLAUSE_SPLIT_RE =
+  /[.,!?;\n]+|\s(?:but|however|although|though|pero|aunque|sin embargo|mas|porem|contudo|embora)\s/;
+
+// ─── Matching helpers ─────────────────────────────────────────────────────────
+
+function fold(text: string) {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’']/g, "");
+}
+
+function tokens(text: string) {
+  return fold(text)
+    .replace(/[^\p{L}\p{N}\s-]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Positions (token index) where a lexicon term matches.
+function findTerm(toks: string[], term: string): number[] {
+  const stem = term.endsWith("*");
+  const parts = (stem ? term.slice(0, -1) : term).split(/\s+/);
+  const hits: number[] = [];
+
+  for (let i = 0; i + parts.length <= toks.length; i++) {
+    let ok = true;
+    for (let k = 0; k < parts.length; k++) {
+      const last = k === parts.length - 1;
+      const t = toks[i + k];
+      if (last && stem ? !t.startsWith(parts[k]) : t !== parts[k]) {
+        ok = false;
+        break;
+      }
+    }
+    if (ok) hits.push(i);
+  }
+  return hits;
+}
+
+function negatedAt(toks: string[], index: number) {
+  for (let j = Math.max(0, index - 2); j < index; j++) {
+    if (NEGATORS.has(toks[j])) return true;
+  }
+  return false;
+}
+
+// +1 / -1 per polar term, flipped when a negator sits just before it.
+function polarity(toks: string[], pos: string[], neg: string[]) {
+  let score = 0;
+  for (const term of pos) for (const i of findTerm(toks, term)) score += negatedAt(toks, i) ? -1 : 1;
+  for (const term of neg) for (const i of findTerm(toks, term)) score += negatedAt(toks, i) ? 1 : -1;
+  return score;
+}
+
+// ─── Classifier ───────────────────────────────────────────────────────────────
+
+/**
+ * Classify a review into aspects. `rating` breaks ties: an aspect mentioned
+ * without any sentiment word leans negative on 1–2★ and positive on 5★.
+ */
+export function classifyReviewTopics(reviewText: string, rating?: number | null): ReviewTopics {
+  const clauses = fold(reviewText)
+    .split(CLAUSE_SPLIT_RE)
+    .map((c) => tokens(c))
+    .filter((c) => c.length > 0);
+
+  const acc = new Map<ReviewTopicId, { pos: number; neg: number; neutral: number; mentions: number; evidence: string[] }>();
+
+  for (const toks of clauses) {
+    const general = polarity(toks, GENERAL_POS, GENERAL_NEG);
+
+    for (const [topic, lex] of Object.entries(TOPIC_LEXICONS) as Array<[ReviewTopicId, TopicLexicon]>) {
+      // Evidence is the review's own words, not the lexicon stems
+      const matched: string[] = [];
+      for (const term of [...lex.terms, ...lex.pos, ...lex.neg]) {
+        const len = term.split(/\s+/).length;
+        for (const i of findTerm(toks, term)) {
+          const words = toks.slice(i, i + len).join(" ");
+          if (!matched.includes(words)) matched.push(words);
+        }
+      }
+      if (matched.length === 0) continue;
+
+      const score = polarity(toks, lex.pos, lex.neg) * 2 + general;
+      const entry = acc.get(topic) ?? { pos: 0, neg: 0, neutral: 0, mentions: 0, evidence: [] };
+      entry.mentions += 1;
+      if (score > 0) entry.pos += 1;
+      else if (score < 0) entry.neg += 1;
+      else entry.neutral += 1;
+      for (const m of matched) {
+        if (entry.evidence.length < 3 && !entry.evidence.includes(m)) entry.evidence.push(m);
+      }
+      acc.set(topic, entry);
+    }
+  }
+
+  const r = typeof rating === "number" ? rating : null;
+  const aspects: ReviewAspect[] = [];
+
+  for (const [topic, e] of acc) {
+    let sentiment: AspectSentiment =
+      e.pos > 0 && e.neg > 0 ? "mixed" : e.neg > 0 ? "negative" : e.pos > 0 ? "positive" : "neutral";
+    if (sentiment === "neutral" && r !== null) {
+      if (r <= 2) sentiment = "negative";
+      else if (r >= 5) sentiment = "positive";
+    }
+    aspects.push({ topic, sentiment, mentions: e.mentions, evidence: e.evidence });
+  }
+
+  // Negative first (what the reply must address), then by mentions.
+  const weight = (s: AspectSentiment) => (s === "negative" ? 0 : s === "mixed" ? 1 : s === "positive" ? 2 : 3);
+  aspects.sort((a, b) => weight(a.sentiment) - weight(b.sentiment) || b.mentions - a.mentions);
+
+  return {
+    version: TOPIC_CLASSIFIER_VERSION,
+    aspects,
+    tags: aspects.map((a) => `${a.topic}:${a.sentiment}`),
+  };
+}
+
+/** Parse a stored reviews.topics value; null when absent or from an older classifier version. */
+export function parseStoredTopics(v: unknown): ReviewTopics | null {
+  if (!v || typeof v !== "object") return null;
+  const t = v as Partial<ReviewTopics>;
+  if (t.version !== TOPIC_CLASSIFIER_VERSION || !Array.isArray(t.aspects)) return null;
+  return { version: t.version, aspects: t.aspects, tags: Array.isArray(t.tags) ? t.tags : [] };
+}
+
+export function hasTopic(topics: ReviewTopics | null | undefined, topic: string, sentiment?: string | null) {
+  return (topics?.aspects ?? []).some(
+    (a) => a.topic === topic && (!sentiment || a.sentiment === sentiment || (a.sentiment === "mixed" && sentiment !== "neutral"))
+  );
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+// reviews.topics (jsonb) and reviews.topic_tags (text[]) are optional columns.
+
+/** reviews.topics and topic_tags for an upsert row. */
+export function reviewTopicColumns(reviewText: string | null, rating: number | null) {
+  const topics = classifyReviewTopics(reviewText ?? "", rating);
+  return { topics, topic_tags: topics.tags };
+}
+
+/** The upsert or select failed because reviews.topics / topic_tags don't exist yet. */
+export function isMissingTopicColumns(error: { message: string } | null) {
+  return !!error && /\btopic(s|_tags)\b/i.test(error.message);
+}
+
+/** Upsert rows without the optional topic columns, for the retry. */
+export function withoutReviewTopics<T extends { topics?: unknown; topic_tags?: unknown }>(rows: T[]) {
+  return rows.map((row) => {
+    const copy = { ...row };
+    delete copy.topics;
+    delete copy.topic_tags;
+    return copy;
+  });
+}
+
+/** topic_tags values any of which hasTopic() would accept, for an `overlaps` filter. */
+export function topicTagsMatching(topic: string, sentiment?: string | null) {
+  if (!sentiment) return ["positive", "negative", "mixed", "neutral"].map((s) => `${topic}:${s}`);
+  if (sentiment === "neutral" || sentiment === "mixed") return [`${topic}:${sentiment}`];
+  return [`${topic}:${sentiment}`, `${topic}:mixed`];
+}
@@ -0,0 +1,174 @@
+// lib/reviewerHistory.ts
+//
+// Repeat-reviewer detection. Reviews are linked across the reviews table by
+// the Google contributor id in author_url when there is one, otherwise by the
+// normalized author_name. Placeholder names ("A Google User", "Anonymous")
+// are never linked.
+//
+// The draft route passes a short summary (previous rating, whether it was
+// replied to) to buildPrompt so a reply can acknowledge a return visit or an
+// improved rating.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export type ReviewerPreviousReview = {
+  review_id: string;
+  rating: number | null;
+  review_date: string | null;
+  replied: boolean;
+};
+
+export type ReviewerHistory = {
+  reviewer_key: string;
+  previous_count: number;
+  // Most recent earlier review
+  last_rating: number | null;
+  last_review_date: string | null;
+  last_replied: boolean;
+  // Current rating minus last rating (null when either is unknown)
+  rating_change: number | null;
+  previous: ReviewerPreviousReview[];
+};
+
+const PLACEHOLDER_NAMES = new Set([
+  "a google user",
+  "google user",
+  "anonymous",
+  "anonimo",
+  "anónimo",
+  "usuario de google",
+  "usuário do google",
+  "local guide",
+]);
+
+const MAX_PREVIOUS = 5;
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+function contributorId(authorUrl: string | null | undefined) {
+  const m = String(authorUrl ?? "").match(/\/contrib\/(\d{6,})/);
+  return m ? m[1] : null;
+}
+
+function normalizeName(name: string | null | undefined) {
+  return String(name ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+/** "contrib:<id>" from a Google profile URL, else "name:<normalized name>". null when unlinkable. */
+export function reviewerKey(params: { author_name?: string | null; author_url?: string | null }) {
+  const contrib = contributorId(params.author_url);
+  if (contrib) return `contrib:${contrib}`;
+
+  const name = normalizeName(params.author_name);
+  // Initials and single letters collide too often to link on
+  if (name.replace(/[^\p{L}]/gu, "").length < 3 || PLACEHOLDER_NAMES.has(name)) return null;
+  return `name:${name}`;
+}
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+type ReviewRow = {
+  id: string;
+  author_name: string | null;
+  author_url: string | null;
+  rating: number | null;
+  review_date: string | null;
+  created_at: string | null;
+};
+
+/**
+ * Earlier reviews by the same reviewer in this organization (optionally one
+ * business). Best-effort: returns null on any error or when there are none.
+ */
+export async function loadReviewerHistory(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  businessId?: string | null;
+  // Current review — excluded, and only earlier reviews count when its date is known
+  reviewId?: string | null;
+  reviewDate?: string | null;
+  rating?: number | null;
+  author_name?: string | null;
+  author_url?: string | null;
+}): Promise<ReviewerHistory | null> {
+  const { supabase, organizationId } = params;
+  const key = reviewerKey(params);
+  if (!key) return null;
+
+  try {
+    let query = supabase
+      .from("reviews")
+      .select("id, author_name, author_url, rating, review_date, created_at")
+      .eq("organization_id", organizationId)
+      .order("review_date", { ascending: false })
+      .limit(50);
+
+    if (params.businessId) query = query.eq("business_id", params.businessId);
+
+    // Narrow on the server, confirm the key below (URLs vary in query strings,
+    // names in case and spacing).
+    const contrib = contributorId(params.author_url);
+    query = contrib
+      ? query.ilike("author_url", `%/contrib/${contrib}%`)
+      : query.ilike("author_name", String(params.author_name ?? "").trim().replace(/[\\%_]/g, (c) => `\\${c}`));
+
+    const { data, error } = await query;
+    if (error || !data) return null;
+
+    const currentTime = params.reviewDate ? Date.parse(params.reviewDate) : NaN;
+
+    const earlier = (data as ReviewRow[]).filter((r) => {
+      if (params.reviewId && String(r.id) === params.reviewId) return false;
+      if (reviewerKey(r) !== key) return false;
+      if (Number.isFinite(currentTime)) {
+        const t = Date.parse(r.review_date ?? r.created_at ?? "");
+        if (Number.isFinite(t) && t >= currentTime) return false;
+      }
+      return true;
+    });
+
+    if (earlier.length === 0) return null;
+
+    const recent = earlier.slice(0, MAX_PREVIOUS);
+
+    // Replied = a reply was copied or posted for it
+    const replied = new Set<string>();
+    try {
+      const { data: replies } = await supabase
+        .from("review_replies")
+        .select("review_id")
+        .eq("organization_id", organizationId)
+        .in("status", ["copied", "posted"])
+        .in("review_id", recent.map((r) => r.id));
+      for (const r of replies ?? []) replied.add(String(r.review_id));
+    } catch {
+      // treat as not replied
+    }
+
+    const previous: ReviewerPreviousReview[] = recent.map((r) => ({
+      review_id: String(r.id),
+      rating: typeof r.rating === "number" ? r.rating : null,
+      review_date: r.review_date ?? r.created_at ?? null,
+      replied: replied.has(String(r.id)),
+    }));
+
+    const last = previous[0];
+    const rating_change =
+      typeof params.rating === "number" && typeof last.rating === "number" ? params.rating - last.rating : null;
+
+    return {
+      reviewer_key: key,
+      previous_count: earlier.length,
+      last_rating: last.rating,
+      last_review_date: last.review_date,
+      last_replied: last.replied,
+      rating_change,
+      previous,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,260 @@
+// lib/sensitiveContent.ts
+//
+// Safety escalation for reviews that shouldn't get a normal complaint reply:
+// food poisoning, allergic reactions, injuries, discrimination, harassment and
+// legal threats.
+//
+// A flagged review switches buildPrompt into the conservative "take it
+// offline" template, turns on the liability check in lib/promptContract.ts,
+// and needs a manager acknowledgement before the reply can be copied or
+// posted. The reasons are recorded on the review (reviews.escalation_*).
+//
+// Patterns are English / Spanish / Portuguese, matched on lower-cased,
+// accent-folded text. They lean towards flagging: a false positive costs one
+// extra click, a miss can cost a lawsuit. SENSITIVE_DETECTOR_VERSION changes
+// whenever a pattern below changes.
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export const SENSITIVE_DETECTOR_VERSION = "sensitive-v1";
+
+export type SensitiveReason =
+  | "food_poisoning"
+  | "allergic_reaction"
+  | "injury"
+  | "discrimination"
+  | "harassment"
+  | "legal_threat";
+
+export type SensitiveFlag = {
+  version: string;
+  sensitive: boolean;
+  reasons: SensitiveReason[];
+  // First matching phrase per reason, from the folded review text
+  matches: Array<{ reason: SensitiveReason; match: string }>;
+};
+
+export const SENSITIVE_REASON_LABELS: Record<SensitiveReason, string> = {
+  food_poisoning: "Food poisoning / illness",
+  allergic_reaction: "Allergic reaction",
+  injury: "Injury",
+  discrimination: "Discrimination",
+  harassment: "Harassment",
+  legal_threat: "Legal threat",
+};
+
+// ─── Patterns ─────────────────────────────────────────────────────────────────
+
+const PATTERNS: Record<SensitiveReason, RegExp[]> = {
+  food_poisoning: [
+    /\bfood poison(ing|ed)\b/,
+    /\b(got|get|gets|getting|became|were|was|felt|fell) (violently |really |very |so )?(sick|ill)\b(?! of)/,
+    /\b(vomit(ed|ing)?|threw up|throwing up|diarrh?o?ea|stomach bug|salmonella|e\.? ?coli|norovirus|listeria)\b/,
+    /\b(undercooked|raw) (chicken|pork|meat|eggs?)\b/,
+    /\bintoxicacion( alimentaria)?\b/,
+    /\bintoxicacao( alimentar)?\b/,
+    /\b(vomit(e|amos|aron|ei|ou|amos)|diarrea|diarreia)\b/,
+    /\b(me|nos) (enferme|enfermamos|enfermo|enfermaron)\b/,
+    /\b(passei|passamos|fiquei|ficamos) mal\b/,
+  ],
+  allergic_reaction: [
+    /\ballerg(y|ies|ic)\b.{0,60}\b(reaction|attack|hospital|epipen|swell|swollen|hives|ambulance)\b/,
+    /\b(anaphyla\w*|epipen|epi-pen)\b/,
+    /\b(reaction|hives|swelling)\b.{0,40}\b(nut|peanut|gluten|shellfish|dairy|sesame|allergen)\w*/,
+    /\b(said|told|asked)\b.{0,40}\b(nut|peanut|gluten|dairy|shellfish)[- ]free\b.{0,60}\b(but|yet)\b/,
+    /\breaccion alergica\b/,
+    /\breacao alergica\b/,
+    /\b(alergia|alergico|alergica)\b.{0,60}\b(hospital|urgencias|emergencia|ambulancia)\b/,
+  ],
+  injury: [
+    /\b(injur(ed|y|ies)|broke (my|his|her|a) \w+|broken (arm|leg|wrist|ankle|tooth|bone)|fractur\w*|concussion|stitches)\b/,
+    /\b(slipped|tripped|fell) (on|over|down|off)\b/,
+    /\b(burn(ed|t)|scald(ed)?|cut) (my|his|her|our) (hand|arm|leg|mouth|tongue|face|finger|foot)\b/,
+    /\b(glass|metal|plastic|a hair|bone) (in|inside) (my|the|our) (food|dish|drink|salad|burger|soup|pizza)\b/,
+    /\b(emergency room|the er\b|urgent care|ambulance|paramedics)\b/,
+    /\b(me cai|se cayo|resbale|lesion|herida|quemadura|me queme)\b/,
+    /\b(cai (no|na|da|do)|escorreguei|machuquei|lesao|ferimento|queimadura|me queimei)\b/,
+    /\b(pronto socorro|sala de urgencias)\b/,
+  ],
+  discrimination: [
+    /\b(racis[mt]\w*|discriminat\w*|sexis[mt]\w*|homophob\w*|transphob\w*|xenophob\w*|antisemit\w*|islamophob\w*)\b/,
+    /\b(because|since) (i am|i'm|we are|we're|she is|he is|they are) (black|gay|muslim|jewish|disabled|trans|asian|latino|latina|mexican|indian|a woman|in a wheelchair)\b/,
+    /\b(refused|denied|wouldn't|would not) (to )?(serve|seat|let)\b.{0,40}\b(wheelchair|service dog|guide dog|disab\w*)\b/,
+    /\b(racista|discrimina\w*|homofob\w*|machista|xenofob\w*)\b/,
+  ],
+  harassment: [
+    /\b(sexual(ly)? harass\w*|harass(ed|ing|ment)|groped|grabbed (me|her|my)|inappropriate(ly)? touch\w*|touched (me|her) inappropriately|assault(ed)?|stalk(ed|ing))\b/,
+    /\b(threaten(ed|ing) (me|us|her|him)|physically (aggressive|attacked)|attacked (me|us)|punched|shoved (me|us))\b/,
+    /\b(acoso|acosad[oa]|acoso sexual|me toco|nos amenazo|agredi\w*|empujo a|nos empujaron)\b/,
+    /\b(assedio|assediad[oa]|me tocou|nos ameacou|agress\w*)\b/,
+  ],
+  legal_threat: [
+    /\b(lawyer|attorney|solicitor|lawsuit|sue (you|them|this)|suing|legal action|small claims|take (you|this) to court)\b/,
+    /\b(report(ed|ing)? (you|this|them) to (the )?(health (department|inspector)|police|council|authorities|better business bureau|bbb))\b/,
+    /\b(health (department|inspector|code violation)|police report|filed a (complaint|report) with)\b/,
+    /\b(abogad[oa]|demanda(r|remos)?|denuncia(r|re|remos)?|accion legal|sanidad|inspeccion de sanidad)\b/,
+    /\b(advogad[oa]|processar|processo judicial|denuncia(r|rei)?|vigilancia sanitaria|procon)\b/,
+  ],
+};
+
+// Applied to the reply, not the review: phrases that admit fault or liability.
+// Only enforced for flagged reviews (see lib/promptContract.ts §5.3).
+const LIABILITY_PATTERNS: RegExp[] = [
+  /\b(our|my) (fault|mistake|negligence)\b/,
+  /\b(we|i) (are|am|'re|'m) (fully |entirely )?(responsible|liable|to blame)\b/,
+  /\b(we|i) (made|got) (you|your \w+|them) (sick|ill)\b/,
+  /\b(we|i) caused (your|this|the|you)\b/,
+  /\b(your|the) (food poisoning|allergic reaction|injury|illness)\b/,
+  /\bshould (have|'ve) (checked|known|warned|cleaned|caught|noticed)\b/,
+  /\b(medical (bills|costs|expenses)|cover (the|your) (costs|bills))\b/,
+  /\b(our|the) (staff|server|team|kitchen) (was|were) (negligent|racist|rude to you because)\b/,
+  /\b(nuestra|mi) culpa\b/,
+  /\b(nossa|minha) culpa\b/,
+  /\b(somos|sou) (responsaveis|responsavel)\b/,
+  /\b(somos|soy) (responsables|responsable)\b/,
+];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fold(text: string) {
+  return (text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+// ─── Detection ────────────────────────────────────────────────────────────────
+
+export function detectSensitiveContent(reviewText: string): SensitiveFlag {
+  const text = fold(reviewText);
+  const matches: SensitiveFlag["matches"] = [];
+
+  if (text.trim()) {
+    for (const reason of Object.keys(PATTERNS) as SensitiveReason[]) {
+      for (const re of PATTERNS[reason]) {
+        const m = text.match(re);
+        if (m) {
+          matches.push({ reason, match: m[0] });
+          break;
+        }
+      }
+    }
+  }
+
+  return {
+    version: SENSITIVE_DETECTOR_VERSION,
+    sensitive: matches.length > 0,
+    reasons: matches.map((m) => m.reason),
+    matches,
+  };
+}
+
+/** Phrases in a reply that admit fault or liability. Empty when the reply is safe. */
+export function findLiabilityAdmissions(reply: string): string[] {
+  const text = fold(reply);
+  const hits: string[] = [];
+  for (const re of LIABILITY_PATTERNS) {
+    const m = text.match(re);
+    if (m && !hits.includes(m[0])) hits.push(m[0]);
+  }
+  return hits;
+}
+
+export function parseSensitiveReasons(v: unknown): SensitiveReason[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter((r): r is SensitiveReason => typeof r === "string" && r in SENSITIVE_REASON_LABELS);
+}
+
+// ─── Review escalation record ─────────────────────────────────────────────────
+// Columns on reviews (all optional — a missing column reads as "not escalated"):
+//   escalation_reasons text[], escalation_detected_at, escalation_acknowledged_at,
+//   escalation_acknowledged_by (user id), escalation_note
+
+export type ReviewEscalation = {
+  reasons: SensitiveReason[];
+  detected_at: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  note: string | null;
+};
+
+export async function loadReviewEscalation(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  reviewId: string;
+}): Promise<ReviewEscalation | null> {
+  const { supabase, organizationId, reviewId } = params;
+  try {
+    const { data, error } = await supabase
+      .from("reviews")
+      .select(
+        "escalation_reasons, escalation_detected_at, escalation_acknowledged_at, escalation_acknowledged_by, escalation_note"
+      )
+      .eq("id", reviewId)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+    if (error || !data) return null;
+
+    const reasons = parseSensitiveReasons(data.escalation_reasons);
+    if (reasons.length === 0) return null;
+
+    return {
+      reasons,
+      detected_at: data.escalation_detected_at ?? null,
+      acknowledged_at: data.escalation_acknowledged_at ?? null,
+      acknowledged_by: data.escalation_acknowledged_by ?? null,
+      note: data.escalation_note ?? null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Best-effort: record the escalation reasons on the review. An existing
+ * acknowledgement is kept unless the reasons changed (a new reason needs a
+ * fresh look). Returns the stored escalation, or null when it couldn't be saved.
+ */
+export async function recordReviewEscalation(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  reviewId: string;
+  reasons: SensitiveReason[];
+}): Promise<ReviewEscalation | null> {
+  const { supabase, organizationId, reviewId, reasons } = params;
+  if (reasons.length === 0) return null;
+
+  try {
+    const existing = await loadReviewEscalation({ supabase, organizationId, reviewId });
+    const sameReasons =
+      !!existing &&
+      existing.reasons.length === reasons.length &&
+      reasons.every((r) => existing.reasons.includes(r));
+    if (existing && sameReasons) return existing;
+
+    const detectedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("reviews")
+      .update({
+        escalation_reasons: reasons,
+        escalation_detected_at: detectedAt,
+        escalation_acknowledged_at: null,
+        escalation_acknowledged_by: null,
+        escalation_note: null,
+      })
+      .eq("id", reviewId)
+      .eq("organization_id", organizationId);
+
+    if (error) {
+      console.warn("review escalation update failed:", error.message);
+      return null;
+    }
+
+    return { reasons, detected_at: detectedAt, acknowledged_at: null, acknowledged_by: null, note: null };
+  } catch (e: unknown) {
+    console.warn("review escalation update exception:", e instanceof Error ? e.message : e);
+    return null;
+  }
+}
@@ -0,0 +1,193 @@
+// lib/voiceSamples.ts
+//
+// Voice sample quality checks (shared by the org/voice-samples routes) and the
+// suggestion inbox: posted replies the owner substantially rewrote are proposed
+// as new voice samples, pending owner approval.
+import "server-only";
+
+import type { OrgContext } from "@/lib/orgServer";
+
+export const VOICE_SAMPLE_MIN_LEN = 60; // server parity with UX guardrails
+export const VOICE_SAMPLE_MAX_LEN = 600;
+
+// A posted reply is only suggested when the owner changed at least this share
+// of the draft's words — lightly edited drafts are the model's voice, not theirs.
+export const SUGGEST_MIN_EDIT_RATIO = 0.25;
+
+export function cleanSampleText(v: unknown) {
+  const s = typeof v === "string" ? v : "";
+  return s.replace(/\s+/g, " ").trim();
+}
+
+export function computeVoiceSampleWarnings(sampleText: string): string[] {
+  const t = sampleText.trim();
+  const warnings: string[] = [];
+
+  // Length heuristics (warnings, not blockers)
+  if (t.length < 120) warnings.push("too_short");
+  if (t.length > 450) warnings.push("too_long");
+
+  // Generic / low-signal heuristics
+  const lower = t.toLowerCase();
+  const genericPhrases = [
+    "thank you",
+    "thanks",
+    "we appreciate",
+    "we appreciate your feedback",
+    "great service",
+    "great food",
+    "come back soon",
+    "hope to see you again",
+    "valued guest",
+    "we're thrilled",
+    "we are thrilled",
+  ];
+
+  const genericHit = genericPhrases.some((p) => lower.includes(p));
+  // If it’s basically just a generic phrase with little else, warn
+  if (genericHit && t.length < 160) warnings.push("too_generic");
+
+  // “All fluff” check: very low punctuation/detail
+  const hasConcreteSignal =
+    /\b(staff|server|team|host|bar|wine|coffee|dessert|dish|meal|breakfast|dinner|lunch|table|music|atmosphere|vibe|service|reservation)\b/i.test(
+      t
+    );
+  if (!hasConcreteSignal && t.length < 200) warnings.push("low_specificity");
+
+  // PII heuristics
+  const hasEmail = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i.test(t);
+  if (hasEmail) warnings.push("contains_email");
+
+  // Broad phone heuristic (avoid false positives by requiring 7+ digits total)
+  const digits = (t.match(/\d/g) ?? []).length;
+  const hasPhonePattern =
+    digits >= 7 &&
+    /(\+?\d[\d\s().-]{6,}\d)/.test(t) &&
+    // avoid common “2–4 sentences” etc
+    !/\b(1|2|3|4|5)\s?★\b/.test(t);
+  if (hasPhonePattern) warnings.push("contains_phone");
+
+  const hasUrl = /\bhttps?:\/\/|www\./i.test(t);
+  if (hasUrl) warnings.push("contains_url");
+
+  // Light address-ish heuristic (not perfect, but helpful)
+  const hasAddressHint = /\b(street|st\.|avenue|ave\.|road|rd\.|suite|ste\.|apt|apartment|unit|#\d+)\b/i.test(
+    t
+  );
+  if (hasAddressHint) warnings.push("contains_address_hint");
+
+  return Array.from(new Set(warnings));
+}
+
+export function isPiiWarning(code: string) {
+  return (
+    code === "contains_email" ||
+    code === "contains_phone" ||
+    code === "contains_url" ||
+    code === "contains_address_hint"
+  );
+}
+
+export function validateSampleOrThrow(sampleText: string) {
+  if (!sampleText) {
+    throw new Error("Sample text is required.");
+  }
+  if (sampleText.length < VOICE_SAMPLE_MIN_LEN) {
+    throw new Error(`Sample text is too short. Minimum is ${VOICE_SAMPLE_MIN_LEN} characters.`);
+  }
+  if (sampleText.length > VOICE_SAMPLE_MAX_LEN) {
+    throw new Error(`Sample text is too long. Maximum is ${VOICE_SAMPLE_MAX_LEN} characters.`);
+  }
+}
+
+// ─── Suggestions from posted replies ──────────────────────────────────────────
+
+export type SuggestionSkipReason =
+  | "no_final_text"
+  | "light_edit"
+  | "length"
+  | "pii"
+  | "too_generic"
+  | "duplicate";
+
+export type SuggestionResult =
+  | { suggested: true; id: string | null; warnings: string[] }
+  | { suggested: false; reason: SuggestionSkipReason | "error"; error?: string };
+
+/**
+ * Best-effort: propose a posted reply as a voice sample (org_voice_sample_suggestions,
+ * status "pending"). Missing finalText / editRatio are read from the reply record.
+ * Never throws — posting a reply must not fail because of the inbox.
+ */
+export async function suggestVoiceSampleFromReply(params: {
+  supabase: OrgContext["supabase"];
+  organizationId: string;
+  replyId: string;
+  finalText?: string | null;
+  editRatio?: number | null;
+}): Promise<SuggestionResult> {
+  const { supabase, organizationId, replyId } = params;
+
+  try {
+    let finalText = cleanSampleText(params.finalText);
+    let editRatio = typeof params.editRatio === "number" ? params.editRatio : null;
+
+    if (!finalText || editRatio === null) {
+      const { data } = await supabase
+        .from("review_replies")
+        .select("final_text,edit_ratio")
+        .eq("id", replyId)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+
+      if (!finalText) finalText = cleanSampleText(data?.final_text);
+      if (editRatio === null && typeof data?.edit_ratio === "number") editRatio = data.edit_ratio;
+    }
+
+    if (!finalText) return { suggested: false, reason: "no_final_text" };
+    if ((editRatio ?? 0) < SUGGEST_MIN_EDIT_RATIO) return { suggested: false, reason: "light_edit" };
+    if (finalText.length < VOICE_SAMPLE_MIN_LEN || finalText.length > VOICE_SAMPLE_MAX_LEN) {
+      return { suggested: false, reason: "length" };
+    }
+
+    const warnings = computeVoiceSampleWarnings(finalText);
+    if (warnings.some(isPiiWarning)) return { suggested: false, reason: "pii" };
+    if (warnings.includes("too_generic")) return { suggested: false, reason: "too_generic" };
+
+    // One suggestion per reply, and never one that's already a sample.
+    const { data: existing } = await supabase
+      .from("org_voice_sample_suggestions")
+      .select("id")
+      .eq("organization_id", organizationId)
+      .eq("review_reply_id", replyId)
+      .limit(1);
+    if (existing && existing.length > 0) return { suggested: false, reason: "duplicate" };
+
+    const { data: sameSample } = await supabase
+      .from("org_voice_samples")
+      .select("id")
+      .eq("organization_id", organizationId)
+      .eq("sample_text", finalText)
+      .limit(1);
+    if (sameSample && sameSample.length > 0) return { suggested: false, reason: "duplicate" };
+
+    const { data, error } = await supabase
+      .from("org_voice_sample_suggestions")
+      .insert({
+        organization_id: organizationId,
+        review_reply_id: replyId,
+        sample_text: finalText,
+        warnings,
+        edit_ratio: editRatio,
+        status: "pending",
+        created_at: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (error) return { suggested: false, reason: "error", error: error.message };
+    return { suggested: true, id: data?.id ? String(data.id) : null, warnings };
+  } catch (e: unknown) {
+    return { suggested: false, reason: "error", error: e instanceof Error ? e.message : String(e) };
+  }
+}
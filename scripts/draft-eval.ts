@@ -0,0 +1,98 @@
+// scripts/draft-eval.ts
+//
+// Offline draft evaluation (lib/draftEval.ts) without a server. Runs the
+// corpus through the current prompt and prints the scorecard, or the diff
+// against a stored baseline scorecard:
+//
+//   npm run eval:drafts                                   # stub provider, full corpus
+//   npm run eval:drafts -- --provider anthropic --limit 20
+//   npm run eval:drafts -- --baseline draft-reply-v16     # diff vs docs/eval/scorecards/draft-reply-v16.stub.json
+//   npm run eval:drafts -- --baseline ./scorecard.json    # diff vs any saved scorecard
+//   npm run eval:drafts -- --save                         # store this run as the current version's baseline
+//
+// Other flags: --corpus <path.jsonl>, --owner-language <code>, --results (print per-case results).
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  diffScorecards,
+  isEvalScorecard,
+  loadStoredScorecard,
+  parseEvalCorpus,
+  runDraftEval,
+  storedScorecardPath,
+  type EvalScorecard,
+} from "@/lib/draftEval";
+import type { LlmProviderId } from "@/lib/llmProvider";
+
+const DEFAULT_CORPUS_PATH = path.join(process.cwd(), "docs", "eval", "draft-eval-corpus.jsonl");
+
+function parseProvider(v: string | undefined): LlmProviderId {
+  const s = String(v ?? "").toLowerCase().trim();
+  if (s === "anthropic" || s === "openai") return s;
+  return "stub";
+}
+
+async function loadBaseline(ref: string, provider: LlmProviderId): Promise<EvalScorecard | null> {
+  // A path to a scorecard file, otherwise a stored prompt version
+  if (ref.endsWith(".json")) {
+    const parsed: unknown = JSON.parse(await readFile(ref, "utf8"));
+    return isEvalScorecard(parsed) ? parsed : null;
+  }
+  return loadStoredScorecard(ref, provider);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: "string" },
+      limit: { type: "string" },
+      corpus: { type: "string" },
+      "owner-language": { type: "string" },
+      baseline: { type: "string" },
+      save: { type: "boolean", default: false },
+      results: { type: "boolean", default: false },
+    },
+  });
+
+  const provider = parseProvider(values.provider);
+  const corpusPath = values.corpus ?? DEFAULT_CORPUS_PATH;
+  const { cases, errors } = parseEvalCorpus(await readFile(corpusPath, "utf8"));
+  for (const e of errors) console.warn(`corpus: ${e}`);
+  if (cases.length === 0) throw new Error(`${corpusPath} has no valid cases`);
+
+  const baseline = values.baseline ? await loadBaseline(values.baseline, provider) : null;
+  if (values.baseline && !baseline) throw new Error(`No ${provider} scorecard found for "${values.baseline}"`);
+
+  const { scorecard, results } = await runDraftEval(cases, {
+    provider,
+    owner_language: values["owner-language"] ?? null,
+    limit: Number(values.limit) || undefined,
+  });
+
+  if (values.results) console.log(JSON.stringify(results, null, 2));
+
+  if (baseline) {
+    const diff = diffScorecards(baseline, scorecard);
+    console.log(`${baseline.prompt_version} → ${scorecard.prompt_version} (${provider}): ${diff.length} metrics changed`);
+    for (const row of diff) {
+      const delta = row.delta === null ? "" : ` (${row.delta > 0 ? "+" : ""}${row.delta})`;
+      console.log(`  ${row.metric}: ${row.before ?? "—"} → ${row.after ?? "—"}${delta}`);
+    }
+  } else {
+    console.log(JSON.stringify(scorecard, null, 2));
+  }
+
+  if (values.save) {
+    const file = storedScorecardPath(scorecard.prompt_version, provider);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(scorecard, null, 2)}\n`);
+    console.log(`saved ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+main().catch((e: unknown) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});